@@ -1,5 +1,5 @@
 
-import React, { useState, useCallback } from 'react';
+import React, { useState, useCallback, useRef, useMemo, useEffect } from 'react';
 import {
   Terminal,
   ShieldCheck,
@@ -22,28 +22,118 @@ import {
   ChevronDown,
   Layers,
   Zap,
-  Activity,
   Clock,
   TrendingUp,
-  Bug
+  Bug,
+  Square,
+  Lock,
+  GitCompare,
+  Package,
+  Settings,
+  FileText,
+  FileSpreadsheet,
+  GitBranch,
+  Cloud,
+  Anchor,
+  AlertTriangle,
+  SlidersHorizontal
 } from 'lucide-react';
 import {
   Language,
   Environment,
   SafetyLevel,
   ScriptType,
+  CiProvider,
   ScriptRequest,
-  ScriptResponse
+  ScriptResponse,
+  HistoryEntry,
+  ScriptRevision,
+  GenerationResult,
+  GenerationUsage,
+  ArtifactKey,
+  ProjectFile,
+  FileRole,
+  FileValidation,
+  TimeSavedModel
 } from './types';
-import { generateScript } from './groqService';
+import { requestScriptStream, requestRefinementStream, requestRunStream, requestFaultRunStream } from './apiClient';
+import { ParserSnapshot, ResponseSection } from './responseParser';
+import { analyzePackage } from './safetyAnalyzer';
+import SafetyReportPanel from './SafetyReportPanel';
+import ConfigPanel from './ConfigPanel';
+import AttachmentsField from './AttachmentsField';
+import HistoryPanel from './HistoryPanel';
+import RefinePanel from './RefinePanel';
+import PublishPanel from './PublishPanel';
+import DiffPanel, { DiffSource } from './DiffPanel';
+import CodeEditor from './CodeEditor';
+import { HighlightLanguage, highlightLanguageForPath } from './syntaxHighlight';
+import { DEFAULT_TIME_SAVED_MODEL, estimateMetrics } from './metricsEstimator';
+import MetricsBreakdown from './MetricsBreakdown';
+import UsageDashboard from './UsageDashboard';
+import RunPanel, { RunState, applyRunEvent } from './RunPanel';
+import BatchPanel from './BatchPanel';
+import FailureSimPanel, { FaultRunState, applyFaultEvent } from './FailureSimPanel';
+import { listHistory, saveHistoryEntry, updateHistoryEntry, deleteHistoryEntry, sortHistory } from './historyStore';
+import { LANGUAGES, ENVIRONMENTS, SAFETY_LEVELS, SCRIPT_TYPES, CI_PROVIDERS, artifactPath, ciProviderOf, resolvedLanguage, testLanguageOf, buildPackageFiles, projectFiles } from './scriptPackage';
+import { ARTIFACT_KEYS } from './responseDiff';
+import { issueCounts, validateArtifacts } from './artifactValidator';
+import { buildEnvExample, extractConfig } from './configExtractor';
+import { ERROR_GUIDANCE, ERROR_TITLES, EngineError, classifyError } from './engineErrors';
+import { PriceTable, UsageKind, UsageRecord, appendUsageRecord, budgetStatus, clearUsageLog, formatUsd, loadMonthlyBudget, loadPrices, loadUsageLog, saveMonthlyBudget, savePrices } from './usageTracker';
 import JSZip from 'jszip';
 
-const LANGUAGES: Language[] = ['Python', 'Bash', 'PowerShell', 'JavaScript', 'TypeScript', 'Go', 'Ruby', 'Auto'];
-const ENVIRONMENTS: Environment[] = ['Linux', 'Windows', 'macOS', 'AWS', 'Azure', 'GCP', 'Docker', 'Kubernetes', 'Generic'];
-const SAFETY_LEVELS: SafetyLevel[] = ['Dry Run Only', 'Normal (Recommended)', 'Production (Strict)'];
-const SCRIPT_TYPES: ScriptType[] = ['Automation', 'Workflow', 'Integration', 'Business Logic', 'DevOps', 'Data Processing'];
+// Artifacts use their key as the tab id; supporting files use `file:<path>`.
+type FileTab = ArtifactKey | `file:${string}`;
+type TabType = FileTab | 'failures' | 'config' | 'safety' | 'diff' | 'run';
+type TabStatus = 'pending' | 'streaming' | 'ready';
 
-type TabType = 'script' | 'tests' | 'dockerfile' | 'cicd' | 'failures';
+interface StreamProgress {
+  activeSection: ResponseSection | null;
+  completedSections: ResponseSection[];
+}
+
+interface GenerationFailure {
+  error: EngineError;
+  /** Repeats the generation or refinement that failed. */
+  retry: () => void;
+}
+
+const createRevision = (result: GenerationResult, parentId: string | null, instruction: string | null): ScriptRevision => ({
+  id: crypto.randomUUID(),
+  parentId,
+  instruction,
+  response: result.response,
+  model: result.model,
+  createdAt: Date.now(),
+});
+
+const fileTab = (file: ProjectFile): FileTab =>
+  (ARTIFACT_KEYS as FileRole[]).includes(file.role) ? file.role as ArtifactKey : `file:${file.path}`;
+
+const applyEdits = (response: ScriptResponse, edits: Partial<Record<FileTab, string>>): ScriptResponse => {
+  const edited = { ...response, files: response.files?.map(f => ({ ...f, content: edits[`file:${f.path}`] ?? f.content })) };
+  ARTIFACT_KEYS.forEach(key => {
+    if (edits[key] !== undefined) edited[key] = edits[key];
+  });
+  return edited;
+};
+
+const ARTIFACT_LABELS: Record<ArtifactKey, string> = { script: 'Script', tests: 'Tests', dockerfile: 'Dockerfile', cicd: 'CI/CD' };
+
+const FIX_OUTPUT_CHARS = 3000;
+
+const TIME_SAVED_MODEL_KEY = 'script-engineer-pro:time-saved-model';
+// Session-scoped: the token grants code execution on the API host, so it should not outlive the tab.
+const RUNNER_TOKEN_KEY = 'script-engineer-pro:runner-token';
+
+const loadTimeSavedModel = (): TimeSavedModel => {
+  try {
+    return { ...DEFAULT_TIME_SAVED_MODEL, ...JSON.parse(localStorage.getItem(TIME_SAVED_MODEL_KEY) ?? '{}') };
+  } catch {
+    return DEFAULT_TIME_SAVED_MODEL;
+  }
+};
 
 const App: React.FC = () => {
   const [request, setRequest] = useState<ScriptRequest>({
@@ -53,95 +143,418 @@ const App: React.FC = () => {
     safetyLevel: 'Normal (Recommended)',
     scriptType: 'Automation',
     includeTests: true,
+    ciProvider: 'GitHub Actions',
+    includeHelmChart: false,
   });
 
   const [response, setResponse] = useState<ScriptResponse | null>(null);
+  const [edits, setEdits] = useState<Partial<Record<FileTab, string>>>({});
+  const [timeSavedModel, setTimeSavedModel] = useState<TimeSavedModel>(loadTimeSavedModel);
+  const [usageLog, setUsageLog] = useState<UsageRecord[]>(loadUsageLog);
+  const [modelPrices, setModelPrices] = useState<PriceTable>(loadPrices);
+  const [monthlyBudget, setMonthlyBudget] = useState(loadMonthlyBudget);
+  const [sessionStartedAt] = useState(Date.now);
+  const [run, setRun] = useState<RunState | null>(null);
+  const [runDryRun, setRunDryRun] = useState(true);
+  const [runnerToken, setRunnerToken] = useState(() => sessionStorage.getItem(RUNNER_TOKEN_KEY) ?? '');
+  const runAbortRef = useRef<AbortController | null>(null);
+  const [faultRun, setFaultRun] = useState<FaultRunState | null>(null);
+  const faultAbortRef = useRef<AbortController | null>(null);
   const [isLoading, setIsLoading] = useState(false);
-  const [error, setError] = useState<string | null>(null);
+  const [error, setError] = useState<GenerationFailure | null>(null);
   const [copied, setCopied] = useState(false);
   const [activeTab, setActiveTab] = useState<TabType>('script');
   const [isExportOpen, setIsExportOpen] = useState(false);
+  const [isPublishOpen, setIsPublishOpen] = useState(false);
+  const [streamProgress, setStreamProgress] = useState<StreamProgress | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+  const [generatedRequest, setGeneratedRequest] = useState<ScriptRequest | null>(null);
+  const [safetyOverride, setSafetyOverride] = useState(false);
+  const [history, setHistory] = useState<HistoryEntry[]>([]);
+  const [activeHistoryId, setActiveHistoryId] = useState<string | null>(null);
+  const [revisions, setRevisions] = useState<ScriptRevision[]>([]);
+  const [activeRevisionId, setActiveRevisionId] = useState<string | null>(null);
+
+  useEffect(() => {
+    listHistory().then(setHistory).catch(err => console.error('Failed to load history:', err));
+  }, []);
+
+  // The response with in-place edits applied; everything that leaves the app reads from this.
+  const editedResponse = useMemo(() => (response ? applyEdits(response, edits) : null), [response, edits]);
+
+  // Tab order for the code panes; empty artifacts keep their tab while sections stream in.
+  const packageTarget = generatedRequest ?? request;
+  // What the artifacts are written in; differs from the request when it asked for Auto.
+  const outputLanguage = resolvedLanguage(packageTarget.language, editedResponse);
+  const workspaceFiles = useMemo(
+    () => (editedResponse ? projectFiles(editedResponse, packageTarget, !!streamProgress) : []),
+    [editedResponse, packageTarget.language, packageTarget.ciProvider, packageTarget.attachments, streamProgress]
+  );
+  // Supporting files as packaged, so runs find the attached samples under fixtures/ and the modules the script imports.
+  const supportingFiles = workspaceFiles.filter(f => !(ARTIFACT_KEYS as FileRole[]).includes(f.role));
+  const activeFile = workspaceFiles.find(f => fileTab(f) === activeTab);
+
+  // Offline checks over the files as they would be exported, keyed by path; skipped mid-stream.
+  const validations = useMemo(() => {
+    if (streamProgress) return new Map<string, FileValidation>();
+    const target = { language: outputLanguage, ciProvider: ciProviderOf(packageTarget), environment: packageTarget.environment };
+    return new Map(validateArtifacts(workspaceFiles, target).map(v => [v.path, v]));
+  }, [workspaceFiles, streamProgress, outputLanguage, packageTarget.ciProvider, packageTarget.environment]);
+
+  // Parameters the script reads, for the Configuration tab; the export derives the same from the package.
+  const configReport = useMemo(
+    () => (streamProgress || !editedResponse ? null : extractConfig(workspaceFiles, outputLanguage)),
+    [workspaceFiles, streamProgress, outputLanguage]
+  );
+
+  // A supporting file can disappear when switching revisions or restoring history.
+  useEffect(() => {
+    if (activeTab.startsWith('file:') && !activeFile && !streamProgress) setActiveTab('script');
+  }, [activeTab, activeFile, streamProgress]);
+
+  // Analyze against the request that produced the response, so changing the form cannot lift a block.
+  const safetyReport = useMemo(() => {
+    if (!editedResponse || !generatedRequest || streamProgress) return null;
+    return analyzePackage(workspaceFiles, outputLanguage, generatedRequest.safetyLevel);
+  }, [editedResponse, workspaceFiles, generatedRequest, outputLanguage, streamProgress]);
+  const exportBlocked = !!safetyReport?.blocked && !safetyOverride;
+
+  const metricsEstimate = useMemo(() => {
+    if (!editedResponse || !generatedRequest || streamProgress) return null;
+    return estimateMetrics(editedResponse, outputLanguage, timeSavedModel);
+  }, [editedResponse, generatedRequest, outputLanguage, streamProgress, timeSavedModel]);
+
+  const updateRunnerToken = (token: string) => {
+    setRunnerToken(token);
+    sessionStorage.setItem(RUNNER_TOKEN_KEY, token);
+  };
+
+  const updateTimeSavedModel = (model: TimeSavedModel) => {
+    setTimeSavedModel(model);
+    localStorage.setItem(TIME_SAVED_MODEL_KEY, JSON.stringify(model));
+  };
+
+  const budget = useMemo(() => budgetStatus(usageLog, modelPrices, monthlyBudget), [usageLog, modelPrices, monthlyBudget]);
+
+  // Servers that predate usage tracking send none; those generations simply go uncounted.
+  const recordUsage = (usage: GenerationUsage | undefined, kind: UsageKind) => {
+    if (usage) setUsageLog(appendUsageRecord({ ...usage, at: Date.now(), kind }));
+  };
+
+  const updateModelPrices = (prices: PriceTable) => {
+    setModelPrices(prices);
+    savePrices(prices);
+  };
+
+  const updateMonthlyBudget = (usd: number) => {
+    setMonthlyBudget(usd);
+    saveMonthlyBudget(usd);
+  };
+
+  const clearUsage = () => {
+    clearUsageLog();
+    setUsageLog([]);
+  };
+
+  // Anything the current output can be compared against: its revisions, then other saved generations.
+  const diffSources = useMemo<DiffSource[]>(() => {
+    const fromRevisions = revisions.map((rev, i) => ({
+      id: rev.id,
+      label: `r${i + 1} · ${rev.model}${rev.instruction ? ` · ${rev.instruction}` : ' · initial'}`,
+      response: rev.response
+    }));
+    const fromHistory = history
+      .filter(e => e.id !== activeHistoryId)
+      .map(e => ({ id: e.id, label: `${e.request.description.slice(0, 48)} · ${e.model}`, response: e.response }));
+    return [...fromRevisions, ...fromHistory];
+  }, [revisions, history, activeHistoryId]);
+
+  const defaultDiffLeftId = useMemo(() => {
+    const index = revisions.findIndex(r => r.id === activeRevisionId);
+    if (index > 0) return revisions[index].parentId ?? revisions[index - 1].id;
+    return diffSources.find(s => s.id !== activeRevisionId)?.id ?? null;
+  }, [revisions, activeRevisionId, diffSources]);
 
   const handleSubmit = async (e?: React.FormEvent) => {
     e?.preventDefault();
-    if (!request.description.trim()) return;
+    await runGeneration(request);
+  };
+
+  const resetRun = () => {
+    runAbortRef.current?.abort();
+    faultAbortRef.current?.abort();
+    setRun(null);
+    setFaultRun(null);
+  };
+
+  const startRun = async () => {
+    if (!editedResponse || !generatedRequest || exportBlocked) return;
+    const controller = new AbortController();
+    runAbortRef.current = controller;
+    setRun({ running: true, phases: [], sandbox: [], error: null });
+
+    try {
+      await requestRunStream(
+        { language: outputLanguage, script: editedResponse.script, tests: editedResponse.tests, files: supportingFiles, dryRun: runDryRun },
+        runnerToken,
+        (event) => setRun(prev => prev && applyRunEvent(prev, event)),
+        controller.signal
+      );
+    } catch (err: any) {
+      if (!controller.signal.aborted) setRun(prev => prev && { ...prev, error: err.message || 'Run failed.' });
+    } finally {
+      if (runAbortRef.current === controller) runAbortRef.current = null;
+      setRun(prev => prev && { ...prev, running: false });
+    }
+  };
+
+  const startFaultRun = async () => {
+    if (!editedResponse || !generatedRequest || exportBlocked) return;
+    const controller = new AbortController();
+    faultAbortRef.current = controller;
+    setFaultRun({ running: true, activeIndex: null, verdicts: {}, sandbox: [], error: null });
+
+    try {
+      await requestFaultRunStream(
+        { language: outputLanguage, script: editedResponse.script, files: supportingFiles, usage: editedResponse.usage, simulations: editedResponse.failureSimulations },
+        runnerToken,
+        (event) => setFaultRun(prev => prev && applyFaultEvent(prev, event)),
+        controller.signal
+      );
+    } catch (err: any) {
+      if (!controller.signal.aborted) setFaultRun(prev => prev && { ...prev, error: err.message || 'Fault run failed.' });
+    } finally {
+      if (faultAbortRef.current === controller) faultAbortRef.current = null;
+      setFaultRun(prev => prev && { ...prev, running: false, activeIndex: null });
+    }
+  };
+
+  // Sends the tail of a red test run back as a refinement; instructions are capped server-side.
+  const fixFailingTests = () => {
+    const tests = run?.phases.find(p => p.phase === 'tests');
+    if (!tests) return;
+    const output = tests.output.map(o => o.text).join('').slice(-FIX_OUTPUT_CHARS);
+    runRefinement(`The tests fail when run locally (exit code ${tests.result?.exitCode}). Fix the script or the tests so the suite passes, without weakening the assertions. Test output:\n${output}`);
+  };
+
+  // Shared streaming lifecycle for generations and refinements. On cancel or failure the
+  // workspace falls back to `fallback`: the revision being refined, or nothing.
+  const streamIntoWorkspace = async (
+    start: (onSnapshot: (snapshot: ParserSnapshot) => void, signal: AbortSignal) => Promise<GenerationResult>,
+    fallback: ScriptResponse | null,
+    retry: () => void,
+    usageKind: UsageKind
+  ): Promise<GenerationResult | null> => {
+    const controller = new AbortController();
+    abortRef.current = controller;
 
     setIsLoading(true);
     setError(null);
     setResponse(null);
+    setStreamProgress({ activeSection: null, completedSections: [] });
     setActiveTab('script');
+    setSafetyOverride(false);
+    setEdits({});
+    resetRun();
 
     try {
-      const result = await generateScript(request);
-      if (!result.script) {
-        throw new Error("Script generation failed to produce a valid code block.");
+      const result = await start((snapshot) => {
+        if (!snapshot.activeSection) return;
+        setResponse(snapshot.response);
+        setStreamProgress({ activeSection: snapshot.activeSection, completedSections: snapshot.completedSections });
+      }, controller.signal);
+      recordUsage(result.usage, usageKind);
+      if (!result.response.script) {
+        throw new EngineError("Script generation failed to produce a valid code block.", 'parse', true);
       }
-      setResponse(result);
+      setResponse(result.response);
+      return result;
     } catch (err: any) {
-      setError(err.message || 'An engineering fault occurred.');
+      // Failed and cancelled streams still spent tokens.
+      recordUsage(err?.usage, usageKind);
+      setResponse(fallback);
+      const failure = classifyError(err, 'proxy', controller.signal);
+      if (failure.code !== 'cancelled') setError({ error: failure, retry });
+      return null;
     } finally {
+      abortRef.current = null;
+      setStreamProgress(null);
       setIsLoading(false);
     }
   };
 
-  const copyToClipboard = useCallback(() => {
-    const textToCopy = response?.[activeTab as keyof ScriptResponse] as string;
-    if (textToCopy && typeof textToCopy === 'string') {
-      navigator.clipboard.writeText(textToCopy);
-      setCopied(true);
-      setTimeout(() => setCopied(false), 2000);
+  const runGeneration = async (nextRequest: ScriptRequest) => {
+    if (!nextRequest.description.trim()) return;
+
+    setGeneratedRequest(nextRequest);
+    setActiveHistoryId(null);
+    setRevisions([]);
+    setActiveRevisionId(null);
+
+    const result = await streamIntoWorkspace(
+      (onSnapshot, signal) => requestScriptStream(nextRequest, onSnapshot, signal),
+      null,
+      () => runGeneration(nextRequest),
+      'generation'
+    );
+    if (!result) return;
+
+    const revision = createRevision(result, null, null);
+    setRevisions([revision]);
+    setActiveRevisionId(revision.id);
+    try {
+      const entry = await saveHistoryEntry({ request: nextRequest, response: result.response, model: result.model, revisions: [revision] });
+      setHistory(prev => sortHistory([entry, ...prev]));
+      setActiveHistoryId(entry.id);
+    } catch (err) {
+      console.error('Failed to save history entry:', err);
     }
-  }, [response, activeTab]);
-
-  const getExtension = (lang: Language) => {
-    switch (lang) {
-      case 'Python': return 'py';
-      case 'Bash': return 'sh';
-      case 'PowerShell': return 'ps1';
-      case 'JavaScript': return 'js';
-      case 'TypeScript': return 'ts';
-      case 'Go': return 'go';
-      case 'Ruby': return 'rb';
-      default: return 'txt';
+  };
+
+  // Batch rows land in history so each result can be restored into the workspace.
+  const saveBatchResult = async (batchRequest: ScriptRequest, result: GenerationResult) => {
+    try {
+      const entry = await saveHistoryEntry({ request: batchRequest, response: result.response, model: result.model, revisions: [createRevision(result, null, null)] });
+      setHistory(prev => sortHistory([entry, ...prev]));
+    } catch (err) {
+      console.error('Failed to save history entry:', err);
     }
   };
 
-  const downloadFile = useCallback((type: TabType) => {
-    const content = response?.[type as keyof ScriptResponse] as string;
-    if (!content || typeof content !== 'string') return;
+  const runRefinement = async (instruction: string) => {
+    if (!editedResponse || !generatedRequest) return;
+    const base = editedResponse;
+    const baseRevisionId = activeRevisionId;
 
-    let filename = '';
-    let mimeType = 'text/plain';
+    const result = await streamIntoWorkspace(
+      (onSnapshot, signal) => requestRefinementStream(generatedRequest, base, instruction, onSnapshot, signal),
+      base,
+      () => runRefinement(instruction),
+      'refinement'
+    );
+    if (!result) return;
 
-    switch (type) {
-      case 'script': filename = `script.${getExtension(request.language)}`; break;
-      case 'tests': filename = `test_script.${getExtension(request.language)}`; break;
-      case 'dockerfile': filename = `Dockerfile`; break;
-      case 'cicd': filename = `github-workflow.yml`; break;
-      default: return;
+    const revision = createRevision(result, baseRevisionId, instruction);
+    const nextRevisions = [...revisions, revision];
+    setRevisions(nextRevisions);
+    setActiveRevisionId(revision.id);
+
+    const entry = history.find(e => e.id === activeHistoryId);
+    if (!entry) return;
+    const updated: HistoryEntry = { ...entry, response: result.response, model: result.model, revisions: nextRevisions };
+    try {
+      await updateHistoryEntry(updated);
+      setHistory(prev => sortHistory(prev.map(e => e.id === updated.id ? updated : e)));
+    } catch (err) {
+      console.error('Failed to save revision:', err);
     }
+  };
+
+  const selectRevision = (revision: ScriptRevision) => {
+    setResponse(revision.response);
+    setEdits({});
+    resetRun();
+    setActiveRevisionId(revision.id);
+    setSafetyOverride(false);
+    setError(null);
+  };
+
+  const cancelGeneration = () => {
+    abortRef.current?.abort();
+  };
+
+  const restoreHistory = (entry: HistoryEntry) => {
+    const chain = entry.revisions?.length
+      ? entry.revisions
+      : [{ id: entry.id, parentId: null, instruction: null, response: entry.response, model: entry.model, createdAt: entry.createdAt }];
+    setRevisions(chain);
+    setActiveRevisionId(chain[chain.length - 1].id);
+    setRequest(entry.request);
+    setGeneratedRequest(entry.request);
+    setResponse(entry.response);
+    setEdits({});
+    resetRun();
+    setSafetyOverride(false);
+    setError(null);
+    setActiveTab('script');
+    setActiveHistoryId(entry.id);
+  };
+
+  const rerunHistory = (entry: HistoryEntry) => {
+    setRequest(entry.request);
+    runGeneration(entry.request);
+  };
+
+  const togglePinHistory = async (entry: HistoryEntry) => {
+    const updated = { ...entry, pinned: !entry.pinned };
+    await updateHistoryEntry(updated);
+    setHistory(prev => sortHistory(prev.map(e => e.id === entry.id ? updated : e)));
+  };
+
+  const removeHistory = async (entry: HistoryEntry) => {
+    await deleteHistoryEntry(entry.id);
+    setHistory(prev => prev.filter(e => e.id !== entry.id));
+    if (activeHistoryId === entry.id) setActiveHistoryId(null);
+  };
+
+  const getTabStatus = (tab: TabType): TabStatus => {
+    if (!streamProgress) return 'ready';
+    if (tab === 'config' || tab === 'safety' || tab === 'diff' || tab === 'run') return 'pending';
+    // Supporting files only appear once their header has streamed; the newest one is still filling.
+    if (tab.startsWith('file:')) {
+      const supporting = workspaceFiles.filter(f => fileTab(f).startsWith('file:'));
+      return streamProgress.activeSection === 'files' && fileTab(supporting[supporting.length - 1]) === tab ? 'streaming' : 'ready';
+    }
+    const section = tab as ResponseSection;
+    if (streamProgress.activeSection === section) return 'streaming';
+    return streamProgress.completedSections.includes(section) ? 'ready' : 'pending';
+  };
+
+  const isCodeTab = !!activeFile;
+
+  const highlightLanguage = (file: ProjectFile): HighlightLanguage => {
+    if (file.role === 'dockerfile') return 'Dockerfile';
+    if (file.role === 'script') return outputLanguage;
+    if (file.role === 'tests') return testLanguageOf(outputLanguage);
+    return highlightLanguageForPath(file.path);
+  };
 
-    const blob = new Blob([content], { type: mimeType });
+  const isTabVisible = (tab: TabType) => {
+    if (streamProgress) return true;
+    if (tab === 'safety') return !!safetyReport;
+    if (tab === 'config') return !!configReport;
+    if (tab === 'diff') return diffSources.length >= 2;
+    return true;
+  };
+
+  const copyToClipboard = useCallback(() => {
+    if (exportBlocked) return;
+    const textToCopy = activeFile?.content;
+    if (textToCopy) {
+      navigator.clipboard.writeText(textToCopy);
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    }
+  }, [activeFile, exportBlocked]);
+
+  const downloadFile = useCallback((tab: TabType) => {
+    if (exportBlocked) return;
+    const file = workspaceFiles.find(f => fileTab(f) === tab);
+    if (!file?.content) return;
+
+    const blob = new Blob([file.content], { type: 'text/plain' });
     const url = URL.createObjectURL(blob);
     const a = document.createElement('a');
     a.href = url;
-    a.download = filename;
+    a.download = file.path.split('/').pop() ?? file.path;
     a.click();
     URL.revokeObjectURL(url);
-  }, [response, request.language]);
+  }, [workspaceFiles, exportBlocked]);
 
   const exportAsZip = async () => {
-    if (!response) return;
+    if (!editedResponse || !metricsEstimate || exportBlocked) return;
     const zip = new JSZip();
-    const ext = getExtension(request.language);
-
-    zip.file(`script.${ext}`, response.script);
-    if (response.tests) zip.file(`tests.${ext}`, response.tests);
-    if (response.dockerfile) zip.file(`Dockerfile`, response.dockerfile);
-    if (response.cicd) zip.file(`.github/workflows/main.yml`, response.cicd);
-
-    const failuresText = response.failureSimulations.map(f => `### ${f.scenario}\n**Trigger:** ${f.trigger}\n**Behavior:** ${f.behavior}`).join('\n\n');
-    zip.file(`README.md`, `# ${request.scriptType} Script\n\n## Value Summary\n- Engineering Time Saved: ${response.metrics.timeSavedMinutes} mins\n- Optimized Production Code: ${response.metrics.linesProduced} Lines\n- Explicit Error Handlers: ${response.metrics.potentialErrorsMitigated}\n\n## Summary\n${response.summary}\n\n## Failure Mode Simulations\n${failuresText}\n\n## Usage\n\`\`\`bash\n${response.usage}\n\`\`\``);
+    Object.entries(buildPackageFiles(generatedRequest ?? request, editedResponse, metricsEstimate)).forEach(([path, content]) => zip.file(path, content));
 
     const content = await zip.generateAsync({ type: 'blob' });
     const url = URL.createObjectURL(content);
@@ -153,32 +566,6 @@ const App: React.FC = () => {
     setIsExportOpen(false);
   };
 
-  const exportToGist = () => {
-    if (!response) return;
-    const ext = getExtension(request.language);
-    const files: any = {
-      [`script.${ext}`]: { content: response.script },
-      [`README.md`]: { content: response.summary + '\n\nUsage: ' + response.usage }
-    };
-    if (response.tests) files[`tests.${ext}`] = { content: response.tests };
-    if (response.dockerfile) files[`Dockerfile`] = { content: response.dockerfile };
-
-    const gistData = {
-      description: `Engineered Script: ${request.description.substring(0, 50)}...`,
-      public: false,
-      files
-    };
-
-    const blob = new Blob([JSON.stringify(gistData, null, 2)], { type: 'application/json' });
-    const url = URL.createObjectURL(blob);
-    const a = document.createElement('a');
-    a.href = url;
-    a.download = `gist-payload.json`;
-    a.click();
-    URL.revokeObjectURL(url);
-    setIsExportOpen(false);
-  };
-
   return (
     <div className="min-h-screen flex flex-col items-center p-4 md:p-8">
       {/* Header */}
@@ -246,6 +633,60 @@ const App: React.FC = () => {
               </div>
             </div>
 
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-1.5">
+                <label className="text-[10px] font-bold text-slate-500 uppercase flex items-center gap-1">
+                  <ShieldCheck className="w-3 h-3" /> Safety
+                </label>
+                <select
+                  value={request.safetyLevel}
+                  onChange={(e) => setRequest({ ...request, safetyLevel: e.target.value as SafetyLevel })}
+                  className="w-full bg-slate-900 border border-slate-700 rounded-xl px-3 py-2 text-sm text-slate-200 outline-none focus:ring-1 focus:ring-indigo-500"
+                >
+                  {SAFETY_LEVELS.map(level => <option key={level} value={level}>{level}</option>)}
+                </select>
+              </div>
+
+              <div className="space-y-1.5">
+                <label className="text-[10px] font-bold text-slate-500 uppercase flex items-center gap-1">
+                  <Terminal className="w-3 h-3" /> Type
+                </label>
+                <select
+                  value={request.scriptType}
+                  onChange={(e) => setRequest({ ...request, scriptType: e.target.value as ScriptType })}
+                  className="w-full bg-slate-900 border border-slate-700 rounded-xl px-3 py-2 text-sm text-slate-200 outline-none focus:ring-1 focus:ring-indigo-500"
+                >
+                  {SCRIPT_TYPES.map(type => <option key={type} value={type}>{type}</option>)}
+                </select>
+              </div>
+            </div>
+
+            {request.safetyLevel === 'Dry Run Only' && (
+              <p className="text-[10px] text-amber-300/80 leading-relaxed -mt-2">
+                Generated scripts must expose a dry-run switch that gates every side effect. Exports stay blocked until this is verified.
+              </p>
+            )}
+
+            <div className="space-y-1.5">
+              <label className="text-[10px] font-bold text-slate-500 uppercase flex items-center gap-1">
+                <GitBranch className="w-3 h-3" /> CI/CD Target
+              </label>
+              <select
+                value={ciProviderOf(request)}
+                onChange={(e) => setRequest({ ...request, ciProvider: e.target.value as CiProvider })}
+                className="w-full bg-slate-900 border border-slate-700 rounded-xl px-3 py-2 text-sm text-slate-200 outline-none focus:ring-1 focus:ring-indigo-500"
+              >
+                {CI_PROVIDERS.map(provider => <option key={provider} value={provider}>{provider}</option>)}
+              </select>
+            </div>
+
+            <AttachmentsField
+              attachments={request.attachments ?? []}
+              onChange={(attachments) => setRequest({ ...request, attachments: attachments.length ? attachments : undefined })}
+              includeTests={request.includeTests}
+              disabled={isLoading}
+            />
+
             <div className="pt-4 border-t border-slate-700 space-y-4">
               <div className="flex items-center justify-between">
                 <label className="flex items-center gap-2 text-sm font-semibold text-slate-300 cursor-pointer">
@@ -259,33 +700,71 @@ const App: React.FC = () => {
                   className="w-5 h-5 rounded-lg border-slate-700 bg-slate-900 text-indigo-600 focus:ring-indigo-500 cursor-pointer"
                 />
               </div>
+              {request.environment === 'Kubernetes' && (
+                <div className="flex items-center justify-between">
+                  <label className="flex items-center gap-2 text-sm font-semibold text-slate-300 cursor-pointer">
+                    <Anchor className="w-4 h-4 text-indigo-400" />
+                    Helm Chart
+                  </label>
+                  <input
+                    type="checkbox"
+                    checked={!!request.includeHelmChart}
+                    onChange={(e) => setRequest({ ...request, includeHelmChart: e.target.checked })}
+                    className="w-5 h-5 rounded-lg border-slate-700 bg-slate-900 text-indigo-600 focus:ring-indigo-500 cursor-pointer"
+                  />
+                </div>
+              )}
             </div>
 
-            <button
-              type="submit"
-              disabled={isLoading || !request.description.trim()}
-              className="w-full bg-indigo-600 hover:bg-indigo-500 disabled:opacity-50 text-white font-bold py-4 px-6 rounded-2xl shadow-xl shadow-indigo-600/20 flex items-center justify-center gap-2 transition-all active:scale-95"
-            >
-              {isLoading ? (
-                <Loader2 className="w-5 h-5 animate-spin" />
-              ) : (
-                <Play className="w-5 h-5 fill-current" />
+            <div className="flex gap-3">
+              <button
+                type="submit"
+                disabled={isLoading || !request.description.trim()}
+                className="flex-1 bg-indigo-600 hover:bg-indigo-500 disabled:opacity-50 text-white font-bold py-4 px-6 rounded-2xl shadow-xl shadow-indigo-600/20 flex items-center justify-center gap-2 transition-all active:scale-95"
+              >
+                {isLoading ? (
+                  <Loader2 className="w-5 h-5 animate-spin" />
+                ) : (
+                  <Play className="w-5 h-5 fill-current" />
+                )}
+                {isLoading ? 'Engineering Module...' : 'Generate Solution'}
+              </button>
+              {isLoading && (
+                <button
+                  type="button"
+                  onClick={cancelGeneration}
+                  className="bg-slate-900 hover:bg-slate-800 border border-slate-700 text-slate-300 font-bold py-4 px-5 rounded-2xl flex items-center justify-center gap-2 transition-all active:scale-95"
+                >
+                  <Square className="w-4 h-4 fill-current" /> Cancel
+                </button>
               )}
-              {isLoading ? 'Engineering Module...' : 'Generate Solution'}
-            </button>
+            </div>
+
+            {budget.wouldExceed && (
+              <p className="flex items-start gap-2 text-xs text-amber-300 bg-amber-500/10 border border-amber-500/30 rounded-xl px-4 py-3">
+                <AlertTriangle className="w-4 h-4 mt-0.5 flex-shrink-0" />
+                {budget.exceeded
+                  ? `This month's spend (${formatUsd(budget.spentUsd)}) has reached the ${formatUsd(monthlyBudget)} budget.`
+                  : `The next generation (about ${formatUsd(budget.nextCostUsd ?? 0)}) would take this month's spend past the ${formatUsd(monthlyBudget)} budget; ${formatUsd(budget.spentUsd)} used so far.`}
+              </p>
+            )}
           </form>
 
-          {error && (
-            <div className="bg-red-500/10 border border-red-500/50 rounded-2xl p-4 flex flex-col gap-3 text-red-400">
-              <div className="flex gap-3">
-                <AlertCircle className="w-5 h-5 flex-shrink-0" />
-                <p className="text-sm">{error}</p>
-              </div>
-              <button onClick={() => handleSubmit()} className="text-xs flex items-center gap-1.5 underline underline-offset-4">
-                <RotateCcw className="w-3 h-3" /> Retry Generation
-              </button>
-            </div>
-          )}
+          {error && <ErrorPanel failure={error} disabled={isLoading} />}
+
+          <HistoryPanel
+            entries={history}
+            languages={LANGUAGES}
+            environments={ENVIRONMENTS}
+            activeId={activeHistoryId}
+            disabled={isLoading}
+            onRestore={restoreHistory}
+            onRerun={rerunHistory}
+            onTogglePin={togglePinHistory}
+            onDelete={removeHistory}
+          />
+
+          <BatchPanel timeSavedModel={timeSavedModel} onResult={saveBatchResult} onUsage={usage => recordUsage(usage, 'batch')} />
         </section>
 
         {/* Right Panel: Output */}
@@ -298,7 +777,7 @@ const App: React.FC = () => {
             </div>
           )}
 
-          {isLoading && (
+          {isLoading && !response && (
             <div className="h-full min-h-[500px] flex flex-col items-center justify-center bg-slate-800/10 border border-slate-700 rounded-[32px] p-12 text-center animate-pulse">
               <Loader2 className="w-16 h-16 text-indigo-500 animate-spin mb-6" />
               <h3 className="text-xl font-semibold mb-2 text-indigo-400">Architecting Module</h3>
@@ -309,32 +788,52 @@ const App: React.FC = () => {
           {response && (
             <div className="space-y-6 animate-in fade-in slide-in-from-bottom-4 duration-500">
               {/* Value Metrics Dashboard */}
-              <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
-                <MetricCard
-                  icon={<Clock className="w-5 h-5 text-indigo-400" />}
-                  label="Manual Effort Avoided"
-                  value={`${response.metrics.timeSavedMinutes} Minutes`}
-                  sub="Senior engineering time saved"
-                />
-                <MetricCard
-                  icon={<TrendingUp className="w-5 h-5 text-emerald-400" />}
-                  label="Optimized Code"
-                  value={`${response.metrics.linesProduced} Lines`}
-                  sub="Production-ready module volume"
-                />
-                <MetricCard
-                  icon={<Bug className="w-5 h-5 text-rose-400" />}
-                  label="Explicit Handlers"
-                  value={`${response.metrics.potentialErrorsMitigated} Safety Blocks`}
-                  sub="Explicit error checks implemented"
-                />
+              {metricsEstimate && (
+              <div className="space-y-3">
+                <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                  <MetricCard
+                    icon={<Clock className="w-5 h-5 text-indigo-400" />}
+                    label="Manual Effort Avoided"
+                    value={`${metricsEstimate.metrics.timeSavedMinutes} Minutes`}
+                    sub={`Estimated locally · model said ${metricsEstimate.reported.timeSavedMinutes || '—'}`}
+                  />
+                  <MetricCard
+                    icon={<TrendingUp className="w-5 h-5 text-emerald-400" />}
+                    label="Optimized Code"
+                    value={`${metricsEstimate.metrics.linesProduced} Lines`}
+                    sub={`Counted across artifacts · model said ${metricsEstimate.reported.linesProduced || '—'}`}
+                  />
+                  <MetricCard
+                    icon={<Bug className="w-5 h-5 text-rose-400" />}
+                    label="Explicit Handlers"
+                    value={`${metricsEstimate.metrics.potentialErrorsMitigated} Safety Blocks`}
+                    sub={`Counted in the script · model said ${metricsEstimate.reported.potentialErrorsMitigated || '—'}`}
+                  />
+                </div>
+                <MetricsBreakdown estimate={metricsEstimate} onModelChange={updateTimeSavedModel} />
               </div>
+              )}
+
+              <UsageDashboard
+                records={usageLog}
+                sessionStartedAt={sessionStartedAt}
+                prices={modelPrices}
+                monthlyBudget={monthlyBudget}
+                onPricesChange={updateModelPrices}
+                onBudgetChange={updateMonthlyBudget}
+                onClear={clearUsage}
+              />
 
               {/* Header Info */}
               <div className="flex flex-col md:flex-row gap-4">
                 <div className="flex-1 bg-slate-800/40 border border-slate-700 rounded-3xl p-6">
                   <div className="flex items-center gap-2 mb-2 text-indigo-400 text-[10px] font-bold uppercase tracking-widest">
                     <Layers className="w-4 h-4" /> Solution Blueprint
+                    {packageTarget.language === 'Auto' && outputLanguage !== 'Auto' && (
+                      <span className="ml-auto px-2 py-0.5 rounded-full bg-indigo-500/10 border border-indigo-500/30 normal-case tracking-normal" title="Language picked for an Auto request">
+                        Auto → {outputLanguage}
+                      </span>
+                    )}
                   </div>
                   <p className="text-slate-300 text-sm leading-relaxed">{response.summary}</p>
                 </div>
@@ -346,80 +845,127 @@ const App: React.FC = () => {
                 <div className="relative bg-slate-900 border border-slate-700 rounded-[32px] overflow-hidden shadow-2xl">
                   {/* Tab Navigation */}
                   <div className="bg-slate-800/60 px-6 pt-4 flex flex-wrap items-center justify-between border-b border-slate-700 gap-4">
-                    <div className="flex gap-2">
-                      <TabButton active={activeTab === 'script'} onClick={() => setActiveTab('script')} icon={<FileCode className="w-3 h-3" />} label="Script" />
-                      {response.tests && <TabButton active={activeTab === 'tests'} onClick={() => setActiveTab('tests')} icon={<FlaskConical className="w-3 h-3" />} label="Tests" />}
-                      <TabButton active={activeTab === 'failures'} onClick={() => setActiveTab('failures')} icon={<Zap className="w-3 h-3" />} label="Failure Sim" />
-                      {response.dockerfile && <TabButton active={activeTab === 'dockerfile'} onClick={() => setActiveTab('dockerfile')} icon={<Ship className="w-3 h-3" />} label="Dockerfile" />}
-                      {response.cicd && <TabButton active={activeTab === 'cicd'} onClick={() => setActiveTab('cicd')} icon={<Github className="w-3 h-3" />} label="CI/CD" />}
+                    <div className="flex flex-wrap gap-2">
+                      {workspaceFiles.map(file => {
+                        const tab = fileTab(file);
+                        return (
+                          <div key={tab} className="contents">
+                            <TabButton
+                              active={activeTab === tab}
+                              status={getTabStatus(tab)}
+                              issues={issueCounts(validations.get(file.path)?.issues ?? [])}
+                              onClick={() => setActiveTab(tab)}
+                              icon={<FileRoleIcon role={file.role} />}
+                              label={tab.startsWith('file:') ? file.path : tab === 'cicd' ? `CI/CD · ${ciProviderOf(packageTarget)}` : ARTIFACT_LABELS[tab as ArtifactKey]}
+                            />
+                          </div>
+                        );
+                      })}
+                      <TabButton active={activeTab === 'failures'} status={getTabStatus('failures')} onClick={() => setActiveTab('failures')} icon={<Zap className="w-3 h-3" />} label="Failure Sim" />
+                      {!streamProgress && <TabButton active={activeTab === 'run'} onClick={() => setActiveTab('run')} icon={<Play className="w-3 h-3" />} label="Run" />}
+                      {isTabVisible('diff') && !streamProgress && <TabButton active={activeTab === 'diff'} onClick={() => setActiveTab('diff')} icon={<GitCompare className="w-3 h-3" />} label="Diff" />}
+                      {isTabVisible('config') && !streamProgress && <TabButton active={activeTab === 'config'} issues={issueCounts(configReport?.issues ?? [])} onClick={() => setActiveTab('config')} icon={<SlidersHorizontal className="w-3 h-3" />} label="Configuration" />}
+                      {isTabVisible('safety') && <TabButton active={activeTab === 'safety'} status={getTabStatus('safety')} onClick={() => setActiveTab('safety')} icon={<ShieldCheck className={`w-3 h-3 ${safetyReport?.blocked ? 'text-red-400' : ''}`} />} label="Safety Report" />}
                     </div>
 
+                    {!isLoading && (
                     <div className="flex gap-3 pb-4">
-                      {activeTab !== 'failures' && (
-                        <button onClick={copyToClipboard} className="p-2 text-slate-400 hover:text-white bg-slate-800/80 rounded-xl border border-slate-700 transition-all">
+                      {isCodeTab && edits[activeTab as FileTab] !== undefined && (
+                        <button
+                          onClick={() => setEdits(({ [activeTab as FileTab]: _, ...rest }) => rest)}
+                          title="Revert edits to the generated output"
+                          className="flex items-center gap-2 px-3 py-2 text-[10px] font-bold uppercase tracking-wider text-amber-300 hover:text-white bg-slate-800/80 rounded-xl border border-amber-500/40 transition-all"
+                        >
+                          <RotateCcw className="w-3.5 h-3.5" /> Edited
+                        </button>
+                      )}
+                      {isCodeTab && (
+                        <button onClick={copyToClipboard} disabled={exportBlocked} className="p-2 text-slate-400 hover:text-white disabled:opacity-40 disabled:cursor-not-allowed bg-slate-800/80 rounded-xl border border-slate-700 transition-all">
                           {copied ? <CheckCircle2 className="w-4 h-4 text-emerald-400" /> : <Copy className="w-4 h-4" />}
                         </button>
                       )}
 
                       <div className="relative">
                         <button
-                          onClick={() => setIsExportOpen(!isExportOpen)}
-                          className="flex items-center gap-2 px-4 py-2 bg-indigo-600 hover:bg-indigo-500 text-white text-xs font-bold uppercase tracking-wider rounded-xl transition-all"
+                          onClick={() => exportBlocked ? setActiveTab('safety') : setIsExportOpen(!isExportOpen)}
+                          title={exportBlocked ? 'Export blocked by the Safety Report' : undefined}
+                          className={`flex items-center gap-2 px-4 py-2 text-white text-xs font-bold uppercase tracking-wider rounded-xl transition-all ${exportBlocked ? 'bg-red-600/70 hover:bg-red-600' : 'bg-indigo-600 hover:bg-indigo-500'}`}
                         >
-                          <Archive className="w-4 h-4" /> Export Module <ChevronDown className={`w-3 h-3 transition-transform ${isExportOpen ? 'rotate-180' : ''}`} />
+                          {exportBlocked ? <Lock className="w-4 h-4" /> : <Archive className="w-4 h-4" />} {exportBlocked ? 'Export Blocked' : 'Export Module'} <ChevronDown className={`w-3 h-3 transition-transform ${isExportOpen ? 'rotate-180' : ''}`} />
                         </button>
 
-                        {isExportOpen && (
+                        {isExportOpen && !exportBlocked && (
                           <div className="absolute right-0 mt-2 w-56 bg-slate-800 border border-slate-700 rounded-2xl shadow-2xl z-50 overflow-hidden animate-in fade-in slide-in-from-top-2">
                             <ExportItem icon={<Archive className="w-4 h-4 text-amber-400" />} label="ZIP Package" sub="Complete source bundle" onClick={exportAsZip} />
-                            {activeTab !== 'failures' && (
+                            {isCodeTab && (
                               <ExportItem icon={<Download className="w-4 h-4 text-indigo-400" />} label="Download Tab" sub="Single file export" onClick={() => { downloadFile(activeTab); setIsExportOpen(false); }} />
                             )}
-                            <ExportItem icon={<Github className="w-4 h-4 text-white" />} label="Gist Payload" sub="Export as JSON structure" onClick={exportToGist} />
+                            <ExportItem icon={<Github className="w-4 h-4 text-white" />} label="Publish to GitHub" sub="Secret gist or pull request" onClick={() => { setIsPublishOpen(true); setIsExportOpen(false); }} />
                           </div>
                         )}
                       </div>
                     </div>
+                    )}
                   </div>
 
                   {/* Body */}
                   <div className="p-8 overflow-x-auto max-h-[600px] custom-scrollbar bg-slate-950/30">
-                    {activeTab === 'failures' ? (
-                      <div className="space-y-6">
-                        <div className="flex items-center gap-2 mb-4">
-                          <Activity className="w-5 h-5 text-indigo-400" />
-                          <h4 className="text-sm font-bold text-slate-200 uppercase tracking-widest">Failure Mode Analysis</h4>
-                        </div>
-                        <div className="grid grid-cols-1 gap-4">
-                          {response.failureSimulations.map((f, i) => (
-                            <div key={i} className="bg-slate-800/50 border border-slate-700 rounded-2xl p-5 hover:border-slate-500 transition-colors">
-                              <div className="flex items-center gap-2 mb-2">
-                                <AlertCircle className="w-4 h-4 text-amber-400" />
-                                <span className="text-sm font-bold text-white">{f.scenario}</span>
-                              </div>
-                              <div className="grid md:grid-cols-2 gap-4 mt-3">
-                                <div className="space-y-1">
-                                  <p className="text-[10px] font-bold text-slate-500 uppercase">Trigger Event</p>
-                                  <p className="text-xs text-slate-400 leading-relaxed">{f.trigger}</p>
-                                </div>
-                                <div className="space-y-1">
-                                  <p className="text-[10px] font-bold text-indigo-500 uppercase">Script Behavior</p>
-                                  <p className="text-xs text-indigo-200 leading-relaxed">{f.behavior}</p>
-                                </div>
-                              </div>
-                            </div>
-                          ))}
-                        </div>
+                    {activeTab === 'run' ? (
+                      <RunPanel
+                        run={run}
+                        hasTests={!!editedResponse?.tests}
+                        blocked={exportBlocked}
+                        disabled={isLoading}
+                        dryRun={runDryRun}
+                        onDryRunChange={setRunDryRun}
+                        runnerToken={runnerToken}
+                        onRunnerTokenChange={updateRunnerToken}
+                        onRun={startRun}
+                        onCancel={() => runAbortRef.current?.abort()}
+                        onFix={fixFailingTests}
+                      />
+                    ) : activeTab === 'diff' ? (
+                      <DiffPanel sources={diffSources} defaultLeftId={defaultDiffLeftId} defaultRightId={activeRevisionId ?? activeHistoryId} />
+                    ) : activeTab === 'config' && configReport ? (
+                      <ConfigPanel report={configReport} envExample={buildEnvExample(configReport.parameters, artifactPath('script', { ...packageTarget, language: outputLanguage }))} />
+                    ) : activeTab === 'safety' && safetyReport ? (
+                      <SafetyReportPanel report={safetyReport} overridden={safetyOverride} onOverride={() => setSafetyOverride(true)} />
+                    ) : activeTab === 'failures' ? (
+                      <FailureSimPanel
+                        simulations={editedResponse?.failureSimulations ?? []}
+                        faultRun={faultRun}
+                        runnerToken={runnerToken}
+                        onRunnerTokenChange={updateRunnerToken}
+                        blocked={exportBlocked}
+                        disabled={isLoading}
+                        onVerify={startFaultRun}
+                        onCancel={() => faultAbortRef.current?.abort()}
+                      />
+                    ) : activeFile ? (
+                      <div className="space-y-4">
+                        <ValidationIssues validation={validations.get(activeFile.path)} />
+                        <CodeEditor
+                          value={activeFile.content}
+                          language={highlightLanguage(activeFile)}
+                          // Fixtures are the attached samples; change them by re-attaching the file.
+                          readOnly={isLoading || activeFile.role === 'fixture'}
+                          onChange={(value) => setEdits(prev => ({ ...prev, [activeTab]: value }))}
+                        />
                       </div>
-                    ) : (
-                      <pre className="font-mono text-sm text-slate-300 leading-relaxed whitespace-pre">
-                        <code>{response[activeTab as keyof ScriptResponse] as string}</code>
-                      </pre>
-                    )}
+                    ) : null}
                   </div>
                 </div>
               </div>
 
+              {isPublishOpen && editedResponse && metricsEstimate && !exportBlocked && !isLoading && (
+                <PublishPanel
+                  description={(generatedRequest ?? request).description}
+                  disabled={isLoading}
+                  buildFiles={() => buildPackageFiles(generatedRequest ?? request, editedResponse, metricsEstimate)}
+                  onClose={() => setIsPublishOpen(false)}
+                />
+              )}
+
               {/* Execution UI */}
               <div className="bg-slate-800/40 border border-slate-700 rounded-2xl p-5 flex items-center gap-4">
                 <div className="bg-emerald-500/10 p-3 rounded-xl border border-emerald-500/20">
@@ -432,6 +978,16 @@ const App: React.FC = () => {
                   </code>
                 </div>
               </div>
+
+              {revisions.length > 0 && (
+                <RefinePanel
+                  revisions={revisions}
+                  activeRevisionId={activeRevisionId}
+                  disabled={isLoading}
+                  onSelect={selectRevision}
+                  onRefine={runRefinement}
+                />
+              )}
             </div>
           )}
         </section>
@@ -464,18 +1020,83 @@ const MetricCard = ({ icon, label, value, sub }: { icon: any, label: string, val
   </div>
 );
 
-const TabButton = ({ active, onClick, icon, label }: { active: boolean, onClick: () => void, icon: any, label: string }) => (
+const TabButton = ({ active, onClick, icon, label, status = 'ready', issues }: { active: boolean, onClick: () => void, icon: any, label: string, status?: TabStatus, issues?: { errors: number, warnings: number } }) => (
   <button
     onClick={onClick}
-    className={`flex items-center gap-2 px-5 py-3 text-[10px] font-bold uppercase tracking-widest rounded-t-2xl transition-all whitespace-nowrap ${active
+    disabled={status === 'pending'}
+    className={`flex items-center gap-2 px-5 py-3 text-[10px] font-bold uppercase tracking-widest rounded-t-2xl transition-all whitespace-nowrap disabled:opacity-30 disabled:cursor-not-allowed ${active
         ? 'bg-slate-900 text-indigo-400 border-t border-x border-slate-700'
         : 'text-slate-500 hover:text-slate-300'
       }`}
   >
     {icon} {label}
+    {status === 'streaming' && <span className="w-1.5 h-1.5 rounded-full bg-indigo-400 animate-pulse" />}
+    {!!issues?.errors && <span className="px-1.5 rounded-full bg-red-500/20 text-red-300 normal-case tracking-normal" title="Validation errors">{issues.errors}</span>}
+    {!!issues?.warnings && <span className="px-1.5 rounded-full bg-amber-500/20 text-amber-300 normal-case tracking-normal" title="Validation warnings">{issues.warnings}</span>}
   </button>
 );
 
+// The retry replays whatever failed, generation or refinement, and is only offered when it can help.
+const ErrorPanel = ({ failure, disabled }: { failure: GenerationFailure, disabled: boolean }) => {
+  const { error, retry } = failure;
+  const waitSeconds = error.retryAfterMs ? Math.ceil(error.retryAfterMs / 1000) : null;
+  return (
+    <div className="bg-red-500/10 border border-red-500/50 rounded-2xl p-4 flex flex-col gap-3 text-red-400">
+      <div className="flex gap-3">
+        <AlertCircle className="w-5 h-5 flex-shrink-0" />
+        <div className="space-y-1">
+          <p className="text-[10px] font-bold uppercase tracking-widest">{ERROR_TITLES[error.code]}</p>
+          <p className="text-sm">{error.message}</p>
+          <p className="text-xs text-red-300/70">
+            {ERROR_GUIDANCE[error.code]}{waitSeconds ? ` The limit resets in about ${waitSeconds}s.` : ''}
+          </p>
+        </div>
+      </div>
+      {error.retryable && retry && (
+        <button onClick={retry} disabled={disabled} className="text-xs flex items-center gap-1.5 underline underline-offset-4 disabled:opacity-50">
+          <RotateCcw className="w-3 h-3" /> Retry
+        </button>
+      )}
+    </div>
+  );
+};
+
+const ValidationIssues = ({ validation }: { validation?: FileValidation }) => {
+  if (!validation?.check) return null;
+  if (!validation.issues.length) {
+    return (
+      <p className="flex items-center gap-2 text-[10px] font-bold text-emerald-400/80 uppercase tracking-widest">
+        <CheckCircle2 className="w-3 h-3" /> {validation.check} passed
+      </p>
+    );
+  }
+  return (
+    <div className="bg-slate-900/60 border border-slate-700 rounded-2xl p-4 space-y-2">
+      <p className="text-[10px] font-bold text-slate-500 uppercase tracking-widest">{validation.check}</p>
+      {validation.issues.map((issue, i) => (
+        <p key={i} className={`flex items-start gap-2 text-xs ${issue.severity === 'error' ? 'text-red-300' : 'text-amber-300'}`}>
+          {issue.severity === 'error' ? <AlertCircle className="w-3.5 h-3.5 mt-0.5 flex-shrink-0" /> : <AlertTriangle className="w-3.5 h-3.5 mt-0.5 flex-shrink-0" />}
+          <span>{issue.line && <span className="font-mono text-slate-500 mr-2">L{issue.line}</span>}{issue.message}</span>
+        </p>
+      ))}
+    </div>
+  );
+};
+
+const FileRoleIcon = ({ role }: { role: FileRole }) => {
+  switch (role) {
+    case 'script': return <FileCode className="w-3 h-3" />;
+    case 'tests': return <FlaskConical className="w-3 h-3" />;
+    case 'dockerfile': return <Ship className="w-3 h-3" />;
+    case 'cicd': return <Github className="w-3 h-3" />;
+    case 'manifest': return <Package className="w-3 h-3" />;
+    case 'config': return <Settings className="w-3 h-3" />;
+    case 'deploy': return <Cloud className="w-3 h-3" />;
+    case 'fixture': return <FileSpreadsheet className="w-3 h-3" />;
+    default: return <FileText className="w-3 h-3" />;
+  }
+};
+
 const ExportItem = ({ icon, label, sub, onClick }: { icon: any, label: string, sub: string, onClick: () => void }) => (
   <button onClick={onClick} className="w-full px-5 py-4 flex items-center gap-4 hover:bg-slate-700/50 transition-colors text-left border-b border-slate-700/50 last:border-0">
     <div className="p-2 bg-slate-900 rounded-lg">{icon}</div>
@@ -0,0 +1,120 @@
+import React, { useState } from 'react';
+import { Paperclip, Upload, X, FileCode, FileSpreadsheet, FileJson } from 'lucide-react';
+import { Attachment, AttachmentKind, AttachmentTreatment } from './types';
+import { ATTACHMENT_KINDS, ATTACHMENT_KIND_LABELS, DEFAULT_ATTACHMENT_TOKEN_BUDGET, MAX_ATTACHMENTS, MAX_ATTACHMENT_CHARS, buildAttachmentContext, detectAttachmentKind } from './attachmentContext';
+import { fixturePath } from './scriptPackage';
+
+interface AttachmentsFieldProps {
+  attachments: Attachment[];
+  onChange: (attachments: Attachment[]) => void;
+  /** Samples only become fixtures when a test suite is generated. */
+  includeTests: boolean;
+  disabled?: boolean;
+}
+
+const TREATMENT_STYLES: Record<AttachmentTreatment, string> = {
+  full: 'text-emerald-400/80',
+  truncated: 'text-amber-300',
+  summarized: 'text-indigo-300',
+};
+
+const AttachmentsField = ({ attachments, onChange, includeTests, disabled }: AttachmentsFieldProps) => {
+  const [error, setError] = useState<string | null>(null);
+  const { digests } = buildAttachmentContext(attachments);
+  const used = digests.reduce((total, d) => total + d.tokens, 0);
+
+  const addFiles = async (files: File[]) => {
+    const room = MAX_ATTACHMENTS - attachments.length;
+    const tooLarge = files.filter(f => f.size > MAX_ATTACHMENT_CHARS);
+    const accepted = files.filter(f => f.size <= MAX_ATTACHMENT_CHARS).slice(0, Math.max(0, room));
+    const added = await Promise.all(accepted.map(async file => {
+      const content = await file.text();
+      return { name: file.name, kind: detectAttachmentKind(file.name, content), content };
+    }));
+    const skipped = [
+      tooLarge.length ? `${tooLarge.map(f => f.name).join(', ')} exceed${tooLarge.length === 1 ? 's' : ''} ${MAX_ATTACHMENT_CHARS / 1000} KB` : '',
+      files.length - tooLarge.length > accepted.length ? `at most ${MAX_ATTACHMENTS} files can be attached` : '',
+    ].filter(Boolean);
+    setError(skipped.length ? `Skipped: ${skipped.join('; ')}.` : null);
+    // Re-attaching a file of the same name replaces it.
+    onChange([...attachments.filter(a => !added.some(n => n.name === a.name)), ...added]);
+  };
+
+  const setKind = (index: number, kind: AttachmentKind) =>
+    onChange(attachments.map((a, i) => i === index ? { ...a, kind } : a));
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between">
+        <label className="text-[10px] font-bold text-slate-500 uppercase flex items-center gap-1">
+          <Paperclip className="w-3 h-3" /> Context Files
+        </label>
+        {attachments.length > 0 && (
+          <span className="text-[10px] text-slate-500" title="Estimated prompt tokens used by the attachments">
+            ~{used.toLocaleString()} / {DEFAULT_ATTACHMENT_TOKEN_BUDGET.toLocaleString()} tokens
+          </span>
+        )}
+      </div>
+
+      {attachments.map((a, i) => (
+        <div key={a.name} className="flex items-center gap-2 bg-slate-900 border border-slate-700 rounded-xl px-3 py-2 text-xs">
+          <KindIcon kind={a.kind} />
+          <div className="min-w-0 flex-1">
+            <p className="font-mono text-slate-200 truncate" title={a.name}>{a.name}</p>
+            <p className="text-[10px] text-slate-500 truncate">
+              <span className={TREATMENT_STYLES[digests[i].treatment]}>{digests[i].treatment}</span>
+              {digests[i].treatment !== 'full' && ` · ${digests[i].tokens.toLocaleString()} of ${digests[i].originalTokens.toLocaleString()} tokens`}
+              {a.kind === 'sample' && includeTests && ` · tests read ${fixturePath(a.name)}`}
+            </p>
+          </div>
+          <select
+            value={a.kind}
+            disabled={disabled}
+            onChange={(e) => setKind(i, e.target.value as AttachmentKind)}
+            className="bg-slate-800 border border-slate-700 rounded-lg px-1.5 py-1 text-[10px] text-slate-300 outline-none focus:ring-1 focus:ring-indigo-500"
+          >
+            {ATTACHMENT_KINDS.map(kind => <option key={kind} value={kind}>{ATTACHMENT_KIND_LABELS[kind]}</option>)}
+          </select>
+          <button
+            type="button"
+            disabled={disabled}
+            onClick={() => onChange(attachments.filter((_, j) => j !== i))}
+            title="Remove"
+            className="text-slate-500 hover:text-red-300 disabled:opacity-40 transition-colors"
+          >
+            <X className="w-3.5 h-3.5" />
+          </button>
+        </div>
+      ))}
+
+      {attachments.length < MAX_ATTACHMENTS && (
+        <label className={`flex items-center justify-center gap-2 border border-dashed border-slate-600 rounded-xl px-3 py-2.5 text-xs text-slate-400 transition-colors ${disabled ? 'opacity-40 cursor-not-allowed' : 'cursor-pointer hover:border-indigo-500 hover:text-slate-200'}`}>
+          <Upload className="w-3.5 h-3.5" /> Attach existing code, sample inputs or API specs
+          <input
+            type="file"
+            multiple
+            disabled={disabled}
+            className="hidden"
+            onChange={(e) => {
+              const files: File[] = Array.from(e.target.files ?? []);
+              if (files.length) addFiles(files);
+              e.target.value = '';
+            }}
+          />
+        </label>
+      )}
+
+      {error && <p className="text-[10px] text-amber-400">{error}</p>}
+    </div>
+  );
+};
+
+const KindIcon = ({ kind }: { kind: AttachmentKind }) => {
+  switch (kind) {
+    case 'code': return <FileCode className="w-3.5 h-3.5 text-indigo-400 flex-shrink-0" />;
+    case 'sample': return <FileSpreadsheet className="w-3.5 h-3.5 text-emerald-400 flex-shrink-0" />;
+    case 'spec': return <FileJson className="w-3.5 h-3.5 text-amber-400 flex-shrink-0" />;
+  }
+};
+
+export default AttachmentsField;
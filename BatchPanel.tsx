@@ -0,0 +1,193 @@
+import React, { useRef, useState } from 'react';
+import { Layers, Upload, Play, Square, RotateCcw, Archive, CheckCircle2, XCircle, Loader2, Clock, Hourglass } from 'lucide-react';
+import { BatchImportError, BatchRow, BatchRowStatus, GenerationResult, GenerationUsage, ScriptRequest, TimeSavedModel } from './types';
+import { DEFAULT_QUEUE_OPTIONS, buildBatchArchiveFiles, parseBatchFile, runBatchQueue } from './batchQueue';
+import { requestScriptStream } from './apiClient';
+import JSZip from 'jszip';
+
+interface BatchPanelProps {
+  timeSavedModel: TimeSavedModel;
+  onResult: (request: ScriptRequest, result: GenerationResult) => void;
+  /** Called for failed attempts too, which still spend tokens. */
+  onUsage: (usage: GenerationUsage) => void;
+}
+
+const MAX_CONCURRENCY = 5;
+
+const BatchPanel = ({ timeSavedModel, onResult, onUsage }: BatchPanelProps) => {
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [rows, setRows] = useState<BatchRow[]>([]);
+  const [importErrors, setImportErrors] = useState<BatchImportError[]>([]);
+  const [concurrency, setConcurrency] = useState(DEFAULT_QUEUE_OPTIONS.concurrency);
+  const [running, setRunning] = useState(false);
+  const abortRef = useRef<AbortController | null>(null);
+
+  const counts = rows.reduce((acc, r) => ({ ...acc, [r.status]: (acc[r.status] || 0) + 1 }), {} as Partial<Record<BatchRowStatus, number>>);
+
+  const importFile = async (file: File) => {
+    const { requests, errors } = parseBatchFile(await file.text(), file.name);
+    setFileName(file.name);
+    setImportErrors(errors);
+    setRows(requests.map(({ row, request }) => ({ row, request, status: 'queued', attempts: 0 })));
+  };
+
+  const updateRow = (row: number, patch: Partial<BatchRow>) =>
+    setRows(prev => prev.map(r => r.row === row ? { ...r, ...patch } : r));
+
+  const start = async (selected: BatchRow[]) => {
+    if (running || !selected.length) return;
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setRunning(true);
+    selected.forEach(r => updateRow(r.row, { status: 'queued', error: undefined }));
+
+    try {
+      await runBatchQueue(
+        selected,
+        async (request, signal) => {
+          const result = await requestScriptStream(request, () => {}, signal).catch(error => {
+            if (error?.usage) onUsage(error.usage);
+            throw error;
+          });
+          if (result.usage) onUsage(result.usage);
+          onResult(request, result);
+          return result;
+        },
+        updateRow,
+        { ...DEFAULT_QUEUE_OPTIONS, concurrency, signal: controller.signal }
+      );
+    } finally {
+      if (abortRef.current === controller) abortRef.current = null;
+      setRunning(false);
+    }
+  };
+
+  const exportArchive = async () => {
+    const zip = new JSZip();
+    Object.entries(buildBatchArchiveFiles(rows, timeSavedModel)).forEach(([path, content]) => zip.file(path, content));
+    const content = await zip.generateAsync({ type: 'blob' });
+    const url = URL.createObjectURL(content);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `batch-package.zip`;
+    a.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const queued = rows.filter(r => r.status === 'queued');
+  const failed = rows.filter(r => r.status === 'failed');
+  const finished = rows.some(r => r.status === 'done' || r.status === 'failed');
+
+  return (
+    <div className="bg-slate-800/50 rounded-3xl border border-slate-700 p-6 space-y-4">
+      <div className="flex items-center justify-between">
+        <label className="flex items-center gap-2 text-sm font-semibold text-slate-300">
+          <Layers className="w-4 h-4 text-indigo-400" /> Batch Generation
+        </label>
+        {rows.length > 0 && (
+          <span className="text-[10px] font-bold text-slate-500 uppercase tracking-widest">
+            {counts.done || 0}/{rows.length} done{counts.failed ? ` · ${counts.failed} failed` : ''}
+          </span>
+        )}
+      </div>
+
+      <label className={`flex items-center justify-center gap-2 border border-dashed border-slate-600 rounded-xl px-3 py-3 text-xs text-slate-400 transition-colors ${running ? 'opacity-40 cursor-not-allowed' : 'cursor-pointer hover:border-indigo-500 hover:text-slate-200'}`}>
+        <Upload className="w-3.5 h-3.5" /> {fileName || 'Import JSONL or CSV of requests'}
+        <input
+          type="file"
+          accept=".jsonl,.ndjson,.json,.csv"
+          disabled={running}
+          className="hidden"
+          onChange={(e) => {
+            const file = e.target.files?.[0];
+            if (file) importFile(file);
+            e.target.value = '';
+          }}
+        />
+      </label>
+
+      {importErrors.length > 0 && (
+        <div className="space-y-1 max-h-24 overflow-y-auto custom-scrollbar">
+          {importErrors.map(err => (
+            <p key={err.row} className="text-[10px] text-amber-400">Row {err.row} skipped: {err.message}</p>
+          ))}
+        </div>
+      )}
+
+      {rows.length > 0 && (
+        <>
+          <div className="flex items-center gap-2">
+            <label className="flex items-center gap-2 text-[10px] font-bold text-slate-500 uppercase tracking-widest">
+              Concurrency
+              <input
+                type="number"
+                min={1}
+                max={MAX_CONCURRENCY}
+                value={concurrency}
+                disabled={running}
+                onChange={(e) => setConcurrency(Math.min(MAX_CONCURRENCY, Math.max(1, Number(e.target.value) || 1)))}
+                className="w-12 bg-slate-900 border border-slate-700 rounded-lg px-2 py-1 text-right font-mono text-slate-200 outline-none focus:ring-1 focus:ring-indigo-500"
+              />
+            </label>
+            <div className="ml-auto flex items-center gap-1">
+              {running ? (
+                <BatchAction title="Stop" onClick={() => abortRef.current?.abort()}><Square className="w-3.5 h-3.5 fill-current" /></BatchAction>
+              ) : (
+                <>
+                  <BatchAction title={`Run ${queued.length} queued`} onClick={() => start(queued)} disabled={!queued.length}><Play className="w-3.5 h-3.5" /></BatchAction>
+                  <BatchAction title={`Retry ${failed.length} failed`} onClick={() => start(failed)} disabled={!failed.length}><RotateCcw className="w-3.5 h-3.5" /></BatchAction>
+                </>
+              )}
+              <BatchAction title="Export archive and summary" onClick={exportArchive} disabled={running || !finished}><Archive className="w-3.5 h-3.5" /></BatchAction>
+            </div>
+          </div>
+
+          <div className="space-y-2 max-h-80 overflow-y-auto custom-scrollbar pr-1">
+            {rows.map(row => (
+              <div key={row.row} className="rounded-2xl border border-slate-700 bg-slate-900/40 p-3 space-y-1">
+                <div className="flex items-start gap-2">
+                  <RowStatus status={row.status} />
+                  <p className="text-xs text-slate-300 line-clamp-2 flex-1">{row.request.description}</p>
+                  {row.status === 'failed' && !running && (
+                    <BatchAction title="Retry row" onClick={() => start([row])}><RotateCcw className="w-3 h-3" /></BatchAction>
+                  )}
+                </div>
+                <p className="text-[10px] text-slate-500 truncate">
+                  Row {row.row} · {row.request.language} · {row.request.environment}
+                  {row.attempts > 1 ? ` · ${row.attempts} attempts` : ''}
+                  {row.status === 'waiting' && row.retryAt ? ` · retrying at ${new Date(row.retryAt).toLocaleTimeString()}` : ''}
+                  {row.result ? ` · ${row.result.model}` : ''}
+                </p>
+                {row.error && row.status !== 'done' && <p className="text-[10px] text-red-400">{row.error}</p>}
+              </div>
+            ))}
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+const RowStatus = ({ status }: { status: BatchRowStatus }) => {
+  switch (status) {
+    case 'running': return <Loader2 className="w-3.5 h-3.5 text-indigo-400 animate-spin flex-shrink-0 mt-0.5" />;
+    case 'waiting': return <Hourglass className="w-3.5 h-3.5 text-amber-400 flex-shrink-0 mt-0.5" />;
+    case 'done': return <CheckCircle2 className="w-3.5 h-3.5 text-emerald-400 flex-shrink-0 mt-0.5" />;
+    case 'failed': return <XCircle className="w-3.5 h-3.5 text-red-400 flex-shrink-0 mt-0.5" />;
+    default: return <Clock className="w-3.5 h-3.5 text-slate-500 flex-shrink-0 mt-0.5" />;
+  }
+};
+
+const BatchAction = ({ title, onClick, disabled, children }: { title: string, onClick: () => void, disabled?: boolean, children: any }) => (
+  <button
+    type="button"
+    title={title}
+    onClick={onClick}
+    disabled={disabled}
+    className="p-1.5 text-slate-500 hover:text-white hover:bg-slate-700/60 rounded-lg transition-all disabled:opacity-30 disabled:cursor-not-allowed"
+  >
+    {children}
+  </button>
+);
+
+export default BatchPanel;
@@ -0,0 +1,61 @@
+import React, { useMemo } from 'react';
+import { HighlightLanguage, TokenType, highlightCode } from './syntaxHighlight';
+
+interface CodeEditorProps {
+  value: string;
+  language: HighlightLanguage;
+  readOnly?: boolean;
+  onChange: (value: string) => void;
+}
+
+const TOKEN_STYLES: Record<TokenType, string> = {
+  plain: 'text-slate-300',
+  comment: 'text-slate-500 italic',
+  string: 'text-emerald-300',
+  number: 'text-amber-300',
+  keyword: 'text-indigo-300 font-semibold',
+  builtin: 'text-cyan-300',
+  variable: 'text-pink-300',
+  key: 'text-sky-300',
+};
+
+const INDENT = '    ';
+
+// A transparent textarea layered over the highlighted <pre>: both share font metrics and
+// padding, so the caret and selection line up with the coloured text underneath.
+const CodeEditor = ({ value, language, readOnly, onChange }: CodeEditorProps) => {
+  const tokens = useMemo(() => highlightCode(value, language), [value, language]);
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key !== 'Tab' || readOnly) return;
+    e.preventDefault();
+    const el = e.currentTarget as HTMLTextAreaElement;
+    const { selectionStart, selectionEnd } = el;
+    onChange(value.slice(0, selectionStart) + INDENT + value.slice(selectionEnd));
+    requestAnimationFrame(() => el.setSelectionRange(selectionStart + INDENT.length, selectionStart + INDENT.length));
+  };
+
+  return (
+    <div className="relative font-mono text-sm leading-relaxed min-w-max">
+      <pre aria-hidden="true" className="whitespace-pre pointer-events-none m-0">
+        <code>
+          {tokens.map((t, i) => <span key={i} className={TOKEN_STYLES[t.type]}>{t.text}</span>)}
+          {'\n'}
+        </code>
+      </pre>
+      <textarea
+        value={value}
+        onChange={(e) => onChange(e.target.value)}
+        onKeyDown={handleKeyDown}
+        readOnly={readOnly}
+        spellCheck={false}
+        wrap="off"
+        autoCapitalize="off"
+        autoComplete="off"
+        className="absolute inset-0 w-full h-full resize-none overflow-hidden bg-transparent text-transparent caret-indigo-300 outline-none whitespace-pre font-mono text-sm leading-relaxed selection:bg-indigo-500/30"
+      />
+    </div>
+  );
+};
+
+export default CodeEditor;
@@ -0,0 +1,95 @@
+import React from 'react';
+import { SlidersHorizontal, KeyRound, AlertCircle, AlertTriangle, CheckCircle2 } from 'lucide-react';
+import { ConfigReport, ConfigSource } from './types';
+
+const SOURCE_STYLES: Record<ConfigSource, { label: string, className: string }> = {
+  env: { label: 'Env', className: 'bg-indigo-500/15 text-indigo-300 border-indigo-500/40' },
+  arg: { label: 'Arg', className: 'bg-emerald-500/15 text-emerald-300 border-emerald-500/40' },
+  file: { label: 'File', className: 'bg-slate-500/15 text-slate-300 border-slate-500/40' },
+};
+
+interface ConfigPanelProps {
+  report: ConfigReport;
+  /** Preview of the generated `.env.example`; null when the script reads no environment. */
+  envExample: string | null;
+}
+
+const ConfigPanel = ({ report, envExample }: ConfigPanelProps) => (
+  <div className="space-y-6">
+    <div className="flex items-center justify-between gap-4">
+      <div className="flex items-center gap-2">
+        <SlidersHorizontal className="w-5 h-5 text-indigo-400" />
+        <h4 className="text-sm font-bold text-slate-200 uppercase tracking-widest">Configuration</h4>
+      </div>
+      <span className="text-[10px] font-bold text-slate-500 uppercase tracking-widest">
+        {report.parameters.length} parameters // {report.parameters.filter(p => p.secret).length} secrets
+      </span>
+    </div>
+
+    {report.parameters.length === 0 ? (
+      <p className="text-xs text-slate-500">No environment variables, arguments or config files were found in the script.</p>
+    ) : (
+      <div className="overflow-x-auto">
+        <table className="w-full text-xs text-left">
+          <thead>
+            <tr className="text-[10px] font-bold text-slate-500 uppercase tracking-widest border-b border-slate-700">
+              <th className="py-2 pr-4">Parameter</th>
+              <th className="py-2 pr-4">Source</th>
+              <th className="py-2 pr-4">Type</th>
+              <th className="py-2 pr-4">Default</th>
+              <th className="py-2 pr-4">Required</th>
+              <th className="py-2">Referenced In</th>
+            </tr>
+          </thead>
+          <tbody>
+            {report.parameters.map(p => (
+              <tr key={`${p.source}:${p.name}`} className="border-b border-slate-800 text-slate-300">
+                <td className="py-2 pr-4 font-mono">
+                  <span className="flex items-center gap-2" title={p.description}>
+                    {p.name}
+                    {p.secret && (
+                      <span title="Secret: never given a value in the package" className="flex items-center gap-1 px-1.5 py-0.5 rounded-md border border-amber-500/40 bg-amber-500/10 text-amber-300 text-[9px] font-bold uppercase tracking-wider">
+                        <KeyRound className="w-2.5 h-2.5" /> Secret
+                      </span>
+                    )}
+                  </span>
+                  {p.line && <span className="text-[10px] text-slate-500">line {p.line}</span>}
+                </td>
+                <td className="py-2 pr-4">
+                  <span className={`px-2 py-0.5 rounded-md border text-[9px] font-bold uppercase tracking-wider ${SOURCE_STYLES[p.source].className}`}>{SOURCE_STYLES[p.source].label}</span>
+                </td>
+                <td className="py-2 pr-4 text-slate-400">{p.type}</td>
+                <td className="py-2 pr-4 font-mono text-slate-400">{p.defaultValue ?? '—'}</td>
+                <td className="py-2 pr-4">{p.required ? <span className="text-rose-300">yes</span> : <span className="text-slate-500">no</span>}</td>
+                <td className="py-2 font-mono text-[10px] text-slate-500">{p.referencedIn.join(', ') || '—'}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    )}
+
+    <div className="space-y-2">
+      <p className="text-[10px] font-bold text-slate-500 uppercase tracking-widest">Consistency</p>
+      {report.issues.length === 0 ? (
+        <p className="flex items-center gap-2 text-xs text-emerald-400/80">
+          <CheckCircle2 className="w-3.5 h-3.5" /> No inlined secrets; the Dockerfile, CI/CD and deployment files agree with the script.
+        </p>
+      ) : report.issues.map((issue, i) => (
+        <p key={i} className={`flex items-start gap-2 text-xs ${issue.severity === 'error' ? 'text-red-300' : 'text-amber-300'}`}>
+          {issue.severity === 'error' ? <AlertCircle className="w-3.5 h-3.5 mt-0.5 flex-shrink-0" /> : <AlertTriangle className="w-3.5 h-3.5 mt-0.5 flex-shrink-0" />}
+          <span><span className="font-mono text-slate-500 mr-2">{issue.path}{issue.line ? `:${issue.line}` : ''}</span>{issue.message}</span>
+        </p>
+      ))}
+    </div>
+
+    {envExample && (
+      <div className="space-y-2">
+        <p className="text-[10px] font-bold text-slate-500 uppercase tracking-widest">.env.example (exported with config.schema.json)</p>
+        <pre className="bg-slate-900/60 border border-slate-700 rounded-2xl p-4 text-xs font-mono text-slate-300 whitespace-pre-wrap">{envExample}</pre>
+      </div>
+    )}
+  </div>
+);
+
+export default ConfigPanel;
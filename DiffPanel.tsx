@@ -0,0 +1,231 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { GitCompare, ArrowRight, Plus, Minus, PenLine } from 'lucide-react';
+import { ArtifactKey, DiffRow, FailureSimulation, FileDiff, ScriptResponse } from './types';
+import { diffResponses } from './responseDiff';
+
+export interface DiffSource {
+  id: string;
+  label: string;
+  response: ScriptResponse;
+}
+
+interface DiffPanelProps {
+  sources: DiffSource[];
+  defaultLeftId: string | null;
+  defaultRightId: string | null;
+}
+
+const ARTIFACT_LABELS: Record<ArtifactKey, string> = {
+  script: 'Script',
+  tests: 'Tests',
+  dockerfile: 'Dockerfile',
+  cicd: 'CI/CD',
+};
+
+const METRIC_LABELS: Record<string, string> = {
+  timeSavedMinutes: 'Time saved (min)',
+  linesProduced: 'Lines produced',
+  potentialErrorsMitigated: 'Errors mitigated',
+};
+
+const ROW_STYLES: Record<DiffRow['kind'], { left: string, right: string }> = {
+  equal: { left: '', right: '' },
+  changed: { left: 'bg-red-500/10 text-red-200', right: 'bg-emerald-500/10 text-emerald-200' },
+  removed: { left: 'bg-red-500/10 text-red-200', right: 'bg-slate-900/60' },
+  added: { left: 'bg-slate-900/60', right: 'bg-emerald-500/10 text-emerald-200' },
+};
+
+const FILE_STATUS_LABELS: Partial<Record<FileDiff['status'], string>> = {
+  added: 'new',
+  removed: 'deleted',
+};
+
+// Unchanged lines kept around each hunk when only changes are shown.
+const CONTEXT_LINES = 3;
+
+const collapseRows = (rows: DiffRow[]): (DiffRow | { skipped: number })[] => {
+  const keep = rows.map(() => false);
+  rows.forEach((row, i) => {
+    if (row.kind === 'equal') return;
+    for (let k = Math.max(0, i - CONTEXT_LINES); k <= Math.min(rows.length - 1, i + CONTEXT_LINES); k++) keep[k] = true;
+  });
+  const out: (DiffRow | { skipped: number })[] = [];
+  rows.forEach((row, i) => {
+    if (keep[i]) out.push(row);
+    else {
+      const last = out[out.length - 1];
+      if (last && 'skipped' in last) last.skipped++;
+      else out.push({ skipped: 1 });
+    }
+  });
+  return out;
+};
+
+const DiffPanel = ({ sources, defaultLeftId, defaultRightId }: DiffPanelProps) => {
+  const [leftId, setLeftId] = useState(defaultLeftId ?? sources[0]?.id);
+  const [rightId, setRightId] = useState(defaultRightId ?? sources[1]?.id);
+  // An artifact key, or `file:<path>` for a supporting file.
+  const [selected, setSelected] = useState<string>('script');
+  const [changesOnly, setChangesOnly] = useState(true);
+
+  useEffect(() => {
+    setLeftId(defaultLeftId ?? sources[0]?.id);
+    setRightId(defaultRightId ?? sources[1]?.id);
+  }, [defaultLeftId, defaultRightId]);
+
+  const left = sources.find(s => s.id === leftId);
+  const right = sources.find(s => s.id === rightId);
+  const diff = useMemo(() => (left && right ? diffResponses(left.response, right.response) : null), [left, right]);
+
+  if (!diff) {
+    return <p className="text-xs text-slate-400">Select two outputs to compare.</p>;
+  }
+
+  const tabs = [
+    ...diff.artifacts.map(a => ({ key: a.artifact, label: ARTIFACT_LABELS[a.artifact], status: undefined, ...a })),
+    ...diff.files.map(f => ({ key: `file:${f.path}`, label: f.path, ...f })),
+  ];
+  const current = tabs.find(t => t.key === selected) ?? tabs[0];
+  const rows = current ? (changesOnly ? collapseRows(current.rows) : current.rows) : [];
+  const addedFiles = diff.files.filter(f => f.status === 'added');
+  const removedFiles = diff.files.filter(f => f.status === 'removed');
+  const unchanged = !diff.artifacts.some(a => a.added || a.removed) && !diff.files.some(f => f.status !== 'unchanged')
+    && !diff.assumptions.added.length && !diff.assumptions.removed.length
+    && !diff.failureSimulations.added.length && !diff.failureSimulations.removed.length && !diff.failureSimulations.changed.length && !diff.metrics.length;
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center gap-2">
+        <GitCompare className="w-5 h-5 text-indigo-400" />
+        <h4 className="text-sm font-bold text-slate-200 uppercase tracking-widest">Output Diff</h4>
+      </div>
+
+      <div className="flex flex-col md:flex-row md:items-center gap-3">
+        <SourceSelect value={leftId} sources={sources} onChange={setLeftId} />
+        <ArrowRight className="w-4 h-4 text-slate-500 flex-shrink-0 self-center" />
+        <SourceSelect value={rightId} sources={sources} onChange={setRightId} />
+      </div>
+
+      {unchanged && <p className="text-xs text-emerald-300">The two outputs are identical.</p>}
+
+      <div className="flex flex-wrap items-center gap-2">
+        {tabs.map(t => (
+          <button
+            key={t.key}
+            type="button"
+            onClick={() => setSelected(t.key)}
+            className={`px-3 py-1.5 rounded-xl border text-[10px] font-bold tracking-widest transition-all ${t.status ? 'normal-case font-mono' : 'uppercase'} ${t.key === current?.key
+                ? 'border-indigo-500/60 bg-indigo-500/10 text-indigo-300'
+                : 'border-slate-700 text-slate-500 hover:text-slate-300 hover:border-slate-500'
+              }`}
+          >
+            {t.label}
+            {t.status && FILE_STATUS_LABELS[t.status] && <span className="ml-2 text-amber-300">{FILE_STATUS_LABELS[t.status]}</span>}
+            <span className="ml-2 normal-case tracking-normal font-mono">
+              <span className="text-emerald-400">+{t.added}</span> <span className="text-red-400">-{t.removed}</span>
+            </span>
+          </button>
+        ))}
+        <label className="ml-auto flex items-center gap-2 text-[10px] font-bold text-slate-500 uppercase tracking-widest cursor-pointer">
+          <input type="checkbox" checked={changesOnly} onChange={(e) => setChangesOnly(e.target.checked)} className="accent-indigo-500" />
+          Changes only
+        </label>
+      </div>
+
+      {current && (
+        <div className="rounded-2xl border border-slate-700 overflow-x-auto">
+          <table className="w-full font-mono text-xs border-collapse">
+            <tbody>
+              {rows.map((row, i) => 'skipped' in row ? (
+                <tr key={i} className="bg-slate-800/40 text-slate-500">
+                  <td colSpan={4} className="px-3 py-1 text-[10px] text-center">{row.skipped} unchanged line{row.skipped === 1 ? '' : 's'}</td>
+                </tr>
+              ) : (
+                <tr key={i}>
+                  <td className="w-10 px-2 text-right text-slate-600 select-none align-top">{row.left?.line}</td>
+                  <td className={`px-3 whitespace-pre align-top border-r border-slate-700/60 ${ROW_STYLES[row.kind].left || 'text-slate-300'}`}>{row.left?.text}</td>
+                  <td className="w-10 px-2 text-right text-slate-600 select-none align-top">{row.right?.line}</td>
+                  <td className={`px-3 whitespace-pre align-top ${ROW_STYLES[row.kind].right || 'text-slate-300'}`}>{row.right?.text}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {(addedFiles.length > 0 || removedFiles.length > 0) && (
+        <StructuredSection title="Files">
+          {removedFiles.map(f => <div key={`r${f.path}`}><ChangeLine kind="removed">{f.path}</ChangeLine></div>)}
+          {addedFiles.map(f => <div key={`a${f.path}`}><ChangeLine kind="added">{f.path}</ChangeLine></div>)}
+        </StructuredSection>
+      )}
+
+      {(diff.assumptions.added.length > 0 || diff.assumptions.removed.length > 0) && (
+        <StructuredSection title="Assumptions">
+          {diff.assumptions.removed.map((a, i) => <div key={`r${i}`}><ChangeLine kind="removed">{a}</ChangeLine></div>)}
+          {diff.assumptions.added.map((a, i) => <div key={`a${i}`}><ChangeLine kind="added">{a}</ChangeLine></div>)}
+        </StructuredSection>
+      )}
+
+      {(diff.failureSimulations.added.length > 0 || diff.failureSimulations.removed.length > 0 || diff.failureSimulations.changed.length > 0) && (
+        <StructuredSection title="Failure Simulations">
+          {diff.failureSimulations.removed.map((f, i) => <div key={`r${i}`}><ChangeLine kind="removed">{describeSimulation(f)}</ChangeLine></div>)}
+          {diff.failureSimulations.added.map((f, i) => <div key={`a${i}`}><ChangeLine kind="added">{describeSimulation(f)}</ChangeLine></div>)}
+          {diff.failureSimulations.changed.map((c, i) => (
+            <div key={`c${i}`} className="space-y-1">
+              <ChangeLine kind="changed">{c.scenario}</ChangeLine>
+              {c.changes.map(change => (
+                <p key={change.field} className="text-xs text-slate-400 pl-6">
+                  <span className="text-[10px] font-bold text-slate-500 uppercase mr-2">{change.field}</span>
+                  <span className="text-red-300 line-through">{change.before}</span> <span className="text-emerald-300">{change.after}</span>
+                </p>
+              ))}
+            </div>
+          ))}
+        </StructuredSection>
+      )}
+
+      {diff.metrics.length > 0 && (
+        <StructuredSection title="Metrics">
+          {diff.metrics.map(m => (
+            <p key={m.field} className="text-xs text-slate-300 flex items-center gap-2">
+              <PenLine className="w-3 h-3 text-amber-400" />
+              <span className="text-slate-400 w-36">{METRIC_LABELS[m.field] ?? m.field}</span>
+              <span className="font-mono text-red-300">{m.before}</span>
+              <ArrowRight className="w-3 h-3 text-slate-500" />
+              <span className="font-mono text-emerald-300">{m.after}</span>
+            </p>
+          ))}
+        </StructuredSection>
+      )}
+    </div>
+  );
+};
+
+const describeSimulation = (f: FailureSimulation) => `${f.scenario}: ${f.trigger} → ${f.behavior}`;
+
+const SourceSelect = ({ value, sources, onChange }: { value?: string, sources: DiffSource[], onChange: (id: string) => void }) => (
+  <select
+    value={value}
+    onChange={(e) => onChange(e.target.value)}
+    className="flex-1 min-w-0 bg-slate-900 border border-slate-700 rounded-xl px-3 py-2 text-xs text-slate-300 outline-none focus:ring-1 focus:ring-indigo-500"
+  >
+    {sources.map(s => <option key={s.id} value={s.id}>{s.label}</option>)}
+  </select>
+);
+
+const StructuredSection = ({ title, children }: { title: string, children: any }) => (
+  <div className="bg-slate-800/50 border border-slate-700 rounded-2xl p-4 space-y-2">
+    <p className="text-[10px] font-bold text-slate-500 uppercase tracking-widest">{title}</p>
+    {children}
+  </div>
+);
+
+const ChangeLine = ({ kind, children }: { kind: 'added' | 'removed' | 'changed', children: any }) => (
+  <p className={`text-xs flex items-start gap-2 ${kind === 'added' ? 'text-emerald-300' : kind === 'removed' ? 'text-red-300' : 'text-amber-200'}`}>
+    {kind === 'added' ? <Plus className="w-3 h-3 mt-0.5 flex-shrink-0" /> : kind === 'removed' ? <Minus className="w-3 h-3 mt-0.5 flex-shrink-0" /> : <PenLine className="w-3 h-3 mt-0.5 flex-shrink-0" />}
+    <span>{children}</span>
+  </p>
+);
+
+export default DiffPanel;
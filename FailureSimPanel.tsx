@@ -0,0 +1,137 @@
+import React from 'react';
+import { Activity, AlertCircle, CheckCircle2, XCircle, HelpCircle, Loader2, FlaskConical, Square, Lock, ShieldCheck } from 'lucide-react';
+import { FailureSimulation, FaultEvent, FaultVerdict, FaultVerdictStatus } from './types';
+import { RunnerTokenInput } from './RunPanel';
+
+export interface FaultRunState {
+  running: boolean;
+  activeIndex: number | null;
+  verdicts: Record<number, FaultVerdict>;
+  sandbox: string[];
+  error: string | null;
+}
+
+export const applyFaultEvent = (state: FaultRunState, event: FaultEvent): FaultRunState => {
+  switch (event.type) {
+    case 'case-start':
+      return { ...state, activeIndex: event.index };
+    case 'case-result':
+      return { ...state, activeIndex: null, verdicts: { ...state.verdicts, [event.verdict.index]: event.verdict } };
+    case 'done':
+      return { ...state, sandbox: event.sandbox };
+    case 'error':
+      return { ...state, error: event.error };
+  }
+};
+
+interface FailureSimPanelProps {
+  simulations: FailureSimulation[];
+  faultRun: FaultRunState | null;
+  runnerToken: string;
+  onRunnerTokenChange: (token: string) => void;
+  blocked: boolean;
+  disabled: boolean;
+  onVerify: () => void;
+  onCancel: () => void;
+}
+
+const FailureSimPanel = ({ simulations, faultRun, runnerToken, onRunnerTokenChange, blocked, disabled, onVerify, onCancel }: FailureSimPanelProps) => {
+  const verdicts = Object.values(faultRun?.verdicts ?? {});
+  const count = (status: FaultVerdictStatus) => verdicts.filter(v => v.status === status).length;
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-wrap items-center gap-4 mb-4">
+        <div className="flex items-center gap-2">
+          <Activity className="w-5 h-5 text-indigo-400" />
+          <h4 className="text-sm font-bold text-slate-200 uppercase tracking-widest">Failure Mode Analysis</h4>
+        </div>
+        {verdicts.length > 0 && (
+          <span className="text-[10px] font-mono text-slate-500">
+            <span className="text-emerald-400">{count('verified')} verified</span> · <span className="text-red-400">{count('contradicted')} contradicted</span> · {count('inconclusive')} inconclusive
+          </span>
+        )}
+        <div className="ml-auto">
+          <RunnerTokenInput token={runnerToken} onChange={onRunnerTokenChange} disabled={faultRun?.running} />
+        </div>
+        {faultRun?.running ? (
+          <button onClick={onCancel} className="flex items-center gap-2 px-4 py-2 text-xs font-bold uppercase tracking-wider text-slate-200 bg-slate-700 hover:bg-slate-600 rounded-xl transition-all">
+            <Square className="w-3.5 h-3.5 fill-current" /> Stop
+          </button>
+        ) : (
+          <button
+            onClick={onVerify}
+            disabled={disabled || blocked || simulations.length === 0 || !runnerToken}
+            title={blocked ? 'Blocked by the Safety Report' : !runnerToken ? 'Enter the runner token first' : 'Inject each fault and run the script on the local runner'}
+            className="flex items-center gap-2 px-4 py-2 text-xs font-bold uppercase tracking-wider text-white bg-indigo-600 hover:bg-indigo-500 disabled:opacity-40 disabled:cursor-not-allowed rounded-xl transition-all"
+          >
+            {blocked ? <Lock className="w-3.5 h-3.5" /> : <FlaskConical className="w-3.5 h-3.5" />} Verify Scenarios
+          </button>
+        )}
+      </div>
+
+      {faultRun?.error && (
+        <div className="bg-red-900/20 border border-red-500/50 rounded-2xl p-4 flex gap-3">
+          <XCircle className="w-4 h-4 text-red-400 flex-shrink-0 mt-0.5" />
+          <p className="text-xs text-red-200">{faultRun.error}</p>
+        </div>
+      )}
+
+      <div className="grid grid-cols-1 gap-4">
+        {simulations.map((f, i) => {
+          const verdict = faultRun?.verdicts[i];
+          return (
+            <div key={i} className="bg-slate-800/50 border border-slate-700 rounded-2xl p-5 hover:border-slate-500 transition-colors">
+              <div className="flex items-center gap-2 mb-2">
+                <AlertCircle className="w-4 h-4 text-amber-400" />
+                <span className="text-sm font-bold text-white">{f.scenario}</span>
+                {faultRun?.running && faultRun.activeIndex === i && <Loader2 className="w-3.5 h-3.5 text-indigo-400 animate-spin ml-auto" />}
+                {verdict && <VerdictBadge status={verdict.status} />}
+              </div>
+              <div className="grid md:grid-cols-2 gap-4 mt-3">
+                <div className="space-y-1">
+                  <p className="text-[10px] font-bold text-slate-500 uppercase">Trigger Event</p>
+                  <p className="text-xs text-slate-400 leading-relaxed">{f.trigger}</p>
+                </div>
+                <div className="space-y-1">
+                  <p className="text-[10px] font-bold text-indigo-500 uppercase">Script Behavior</p>
+                  <p className="text-xs text-indigo-200 leading-relaxed">{f.behavior}</p>
+                </div>
+              </div>
+              {verdict && (
+                <div className="mt-4 pt-4 border-t border-slate-700/60 space-y-2">
+                  <p className="text-xs text-slate-400"><span className="text-[10px] font-bold text-slate-500 uppercase mr-2">{verdict.kind ?? 'No fault'}</span>{verdict.injected}</p>
+                  {verdict.reasons.map((r, j) => <p key={j} className="text-xs text-slate-300">{r}</p>)}
+                  {verdict.output !== undefined && (
+                    <pre className="font-mono text-[11px] text-slate-400 bg-black/40 p-3 rounded-lg border border-slate-700/50 max-h-40 overflow-auto custom-scrollbar whitespace-pre-wrap">
+                      {verdict.command && <span className="text-slate-600">$ {verdict.command}{'\n'}</span>}
+                      {verdict.output || '(no output)'}
+                      <span className="text-slate-600">{'\n'}{verdict.timedOut ? '[timed out]' : `[exit ${verdict.exitCode}]`}</span>
+                    </pre>
+                  )}
+                </div>
+              )}
+            </div>
+          );
+        })}
+      </div>
+
+      {faultRun && faultRun.sandbox.length > 0 && (
+        <div className="space-y-1">
+          {faultRun.sandbox.map(note => (
+            <p key={note} className="flex items-center gap-2 text-[10px] text-slate-500"><ShieldCheck className="w-3 h-3" /> {note}</p>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+const VerdictBadge = ({ status }: { status: FaultVerdictStatus }) => {
+  const base = 'ml-auto flex items-center gap-1 px-2 py-0.5 text-[9px] font-bold uppercase tracking-widest rounded-md border';
+  if (status === 'verified') return <span className={`${base} bg-emerald-500/15 text-emerald-300 border-emerald-500/40`}><CheckCircle2 className="w-3 h-3" /> Verified</span>;
+  if (status === 'contradicted') return <span className={`${base} bg-red-500/15 text-red-300 border-red-500/40`}><XCircle className="w-3 h-3" /> Contradicted</span>;
+  return <span className={`${base} bg-slate-500/15 text-slate-300 border-slate-500/40`}><HelpCircle className="w-3 h-3" /> Inconclusive</span>;
+};
+
+export default FailureSimPanel;
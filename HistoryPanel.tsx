@@ -0,0 +1,117 @@
+import React, { useMemo, useState } from 'react';
+import { History, Search, RotateCcw, Play, Pin, PinOff, Trash2 } from 'lucide-react';
+import { Environment, HistoryEntry, Language } from './types';
+
+interface HistoryPanelProps {
+  entries: HistoryEntry[];
+  languages: Language[];
+  environments: Environment[];
+  activeId: string | null;
+  disabled: boolean;
+  onRestore: (entry: HistoryEntry) => void;
+  onRerun: (entry: HistoryEntry) => void;
+  onTogglePin: (entry: HistoryEntry) => void;
+  onDelete: (entry: HistoryEntry) => void;
+}
+
+const formatTimestamp = (ms: number) =>
+  new Date(ms).toLocaleString(undefined, { month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' });
+
+const HistoryPanel = ({ entries, languages, environments, activeId, disabled, onRestore, onRerun, onTogglePin, onDelete }: HistoryPanelProps) => {
+  const [query, setQuery] = useState('');
+  const [language, setLanguage] = useState<Language | 'All'>('All');
+  const [environment, setEnvironment] = useState<Environment | 'All'>('All');
+
+  const filtered = useMemo(() => {
+    const q = query.trim().toLowerCase();
+    return entries.filter(e =>
+      (language === 'All' || e.request.language === language) &&
+      (environment === 'All' || e.request.environment === environment) &&
+      (!q || [e.request.description, e.request.language, e.request.environment].some(f => f.toLowerCase().includes(q)))
+    );
+  }, [entries, query, language, environment]);
+
+  return (
+    <div className="bg-slate-800/50 rounded-3xl border border-slate-700 p-6 space-y-4">
+      <div className="flex items-center justify-between">
+        <label className="flex items-center gap-2 text-sm font-semibold text-slate-300">
+          <History className="w-4 h-4 text-indigo-400" /> Generation History
+        </label>
+        <span className="text-[10px] font-bold text-slate-500 uppercase tracking-widest">{entries.length} saved</span>
+      </div>
+
+      <div className="relative">
+        <Search className="w-3.5 h-3.5 text-slate-500 absolute left-3 top-1/2 -translate-y-1/2" />
+        <input
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+          placeholder="Search description, language, env..."
+          className="w-full bg-slate-900 border border-slate-700 rounded-xl pl-9 pr-3 py-2 text-xs text-slate-200 outline-none focus:ring-1 focus:ring-indigo-500 placeholder:text-slate-600"
+        />
+      </div>
+
+      <div className="grid grid-cols-2 gap-2">
+        <select
+          value={language}
+          onChange={(e) => setLanguage(e.target.value as Language | 'All')}
+          className="bg-slate-900 border border-slate-700 rounded-xl px-2 py-1.5 text-xs text-slate-300 outline-none"
+        >
+          <option value="All">All languages</option>
+          {languages.map(l => <option key={l} value={l}>{l}</option>)}
+        </select>
+        <select
+          value={environment}
+          onChange={(e) => setEnvironment(e.target.value as Environment | 'All')}
+          className="bg-slate-900 border border-slate-700 rounded-xl px-2 py-1.5 text-xs text-slate-300 outline-none"
+        >
+          <option value="All">All environments</option>
+          {environments.map(env => <option key={env} value={env}>{env}</option>)}
+        </select>
+      </div>
+
+      <div className="space-y-2 max-h-80 overflow-y-auto custom-scrollbar pr-1">
+        {filtered.length === 0 && (
+          <p className="text-xs text-slate-500 py-4 text-center">{entries.length ? 'No matching generations.' : 'Generations you run are saved here.'}</p>
+        )}
+        {filtered.map(entry => (
+          <div
+            key={entry.id}
+            className={`rounded-2xl border p-3 space-y-2 transition-colors ${entry.id === activeId ? 'border-indigo-500/60 bg-indigo-500/5' : 'border-slate-700 bg-slate-900/40 hover:border-slate-500'}`}
+          >
+            <div className="flex items-start gap-2">
+              {entry.pinned && <Pin className="w-3 h-3 text-amber-400 mt-0.5 flex-shrink-0" />}
+              <p className="text-xs text-slate-300 line-clamp-2 flex-1">{entry.request.description}</p>
+            </div>
+            <div className="flex items-center justify-between gap-2">
+              <p className="text-[10px] text-slate-500 truncate">
+                {entry.request.language} · {entry.request.environment} · {entry.model} · {formatTimestamp(entry.createdAt)}
+              </p>
+              <div className="flex items-center gap-1 flex-shrink-0">
+                <IconAction title="Restore" onClick={() => onRestore(entry)} disabled={disabled}><RotateCcw className="w-3.5 h-3.5" /></IconAction>
+                <IconAction title="Re-run" onClick={() => onRerun(entry)} disabled={disabled}><Play className="w-3.5 h-3.5" /></IconAction>
+                <IconAction title={entry.pinned ? 'Unpin' : 'Pin'} onClick={() => onTogglePin(entry)}>
+                  {entry.pinned ? <PinOff className="w-3.5 h-3.5" /> : <Pin className="w-3.5 h-3.5" />}
+                </IconAction>
+                <IconAction title="Delete" onClick={() => onDelete(entry)}><Trash2 className="w-3.5 h-3.5" /></IconAction>
+              </div>
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+const IconAction = ({ title, onClick, disabled, children }: { title: string, onClick: () => void, disabled?: boolean, children: any }) => (
+  <button
+    type="button"
+    title={title}
+    onClick={onClick}
+    disabled={disabled}
+    className="p-1.5 text-slate-500 hover:text-white hover:bg-slate-700/60 rounded-lg transition-all disabled:opacity-30 disabled:cursor-not-allowed"
+  >
+    {children}
+  </button>
+);
+
+export default HistoryPanel;
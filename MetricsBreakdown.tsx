@@ -0,0 +1,105 @@
+import React, { useState } from 'react';
+import { Calculator, ChevronDown, RotateCcw } from 'lucide-react';
+import { MetricsEstimate, TimeSavedModel } from './types';
+import { DEFAULT_TIME_SAVED_MODEL } from './metricsEstimator';
+
+interface MetricsBreakdownProps {
+  estimate: MetricsEstimate;
+  onModelChange: (model: TimeSavedModel) => void;
+}
+
+const COEFFICIENTS: { field: keyof TimeSavedModel, label: string, unit: string }[] = [
+  { field: 'baseMinutes', label: 'Base', unit: 'min' },
+  { field: 'perScriptLine', label: 'Per script line', unit: 'min' },
+  { field: 'perTestLine', label: 'Per test line', unit: 'min' },
+  { field: 'perHandler', label: 'Per error handler', unit: 'min' },
+  { field: 'perArtifact', label: 'Per Dockerfile / CI/CD', unit: 'min' },
+];
+
+const MetricsBreakdown = ({ estimate, onModelChange }: MetricsBreakdownProps) => {
+  const [open, setOpen] = useState(false);
+  const { lines, handlers, model, metrics, reported } = estimate;
+  const handlerCount = handlers.reduce((sum, h) => sum + h.count, 0);
+  const artifacts = (lines.dockerfile ? 1 : 0) + (lines.cicd ? 1 : 0);
+  const terms = [
+    { label: 'Base', value: model.baseMinutes },
+    { label: `${lines.script} script lines × ${model.perScriptLine}`, value: lines.script * model.perScriptLine },
+    { label: `${lines.tests} test lines × ${model.perTestLine}`, value: lines.tests * model.perTestLine },
+    { label: `${handlerCount} handlers × ${model.perHandler}`, value: handlerCount * model.perHandler },
+    { label: `${artifacts} artifacts × ${model.perArtifact}`, value: artifacts * model.perArtifact },
+  ];
+
+  return (
+    <div className="bg-slate-800/40 border border-slate-700 rounded-2xl">
+      <button
+        type="button"
+        onClick={() => setOpen(!open)}
+        className="w-full flex items-center gap-2 px-5 py-3 text-[10px] font-bold text-slate-500 uppercase tracking-widest hover:text-slate-300 transition-colors"
+      >
+        <Calculator className="w-3.5 h-3.5 text-indigo-400" /> How these figures are computed
+        <ChevronDown className={`w-3 h-3 ml-auto transition-transform ${open ? 'rotate-180' : ''}`} />
+      </button>
+
+      {open && (
+        <div className="px-5 pb-5 grid md:grid-cols-3 gap-6 text-xs">
+          <div className="space-y-2">
+            <p className="text-[10px] font-bold text-slate-500 uppercase">Time Saved</p>
+            {terms.map(t => (
+              <div key={t.label} className="flex justify-between gap-2 text-slate-400">
+                <span>{t.label}</span><span className="font-mono text-slate-300">{+t.value.toFixed(1)}</span>
+              </div>
+            ))}
+            <div className="flex justify-between gap-2 border-t border-slate-700 pt-2 text-slate-200 font-semibold">
+              <span>Total</span><span className="font-mono">{metrics.timeSavedMinutes} min</span>
+            </div>
+            <p className="text-slate-500">Model reported {reported.timeSavedMinutes || 'nothing'}{reported.timeSavedMinutes ? ' min' : ''}.</p>
+          </div>
+
+          <div className="space-y-2">
+            <p className="text-[10px] font-bold text-slate-500 uppercase">Lines & Handlers</p>
+            {Object.entries(lines).map(([artifact, count]) => (
+              <div key={artifact} className="flex justify-between gap-2 text-slate-400">
+                <span className="capitalize">{artifact === 'cicd' ? 'CI/CD' : artifact === 'files' ? 'Supporting files' : artifact}</span><span className="font-mono text-slate-300">{count}</span>
+              </div>
+            ))}
+            <div className="border-t border-slate-700 pt-2 space-y-1">
+              {handlers.length === 0 && <p className="text-slate-500">No error handlers detected in the script.</p>}
+              {handlers.map(h => (
+                <div key={h.kind} className="flex justify-between gap-2 text-slate-400">
+                  <span className="font-mono">{h.kind}</span><span className="font-mono text-slate-300">{h.count}</span>
+                </div>
+              ))}
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <div className="flex items-center justify-between">
+              <p className="text-[10px] font-bold text-slate-500 uppercase">Estimation Model</p>
+              <button type="button" onClick={() => onModelChange(DEFAULT_TIME_SAVED_MODEL)} title="Reset to defaults" className="text-slate-500 hover:text-white transition-colors">
+                <RotateCcw className="w-3 h-3" />
+              </button>
+            </div>
+            {COEFFICIENTS.map(c => (
+              <label key={c.field} className="flex items-center justify-between gap-2 text-slate-400">
+                <span>{c.label}</span>
+                <span className="flex items-center gap-1">
+                  <input
+                    type="number"
+                    min={0}
+                    step={0.1}
+                    value={model[c.field]}
+                    onChange={(e) => onModelChange({ ...model, [c.field]: Math.max(0, Number(e.target.value) || 0) })}
+                    className="w-16 bg-slate-900 border border-slate-700 rounded-lg px-2 py-1 text-right font-mono text-slate-200 outline-none focus:ring-1 focus:ring-indigo-500"
+                  />
+                  <span className="text-[10px] text-slate-500">{c.unit}</span>
+                </span>
+              </label>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default MetricsBreakdown;
@@ -0,0 +1,157 @@
+import React, { useState } from 'react';
+import { Github, GitPullRequest, FileText, Loader2, ExternalLink, X, AlertCircle } from 'lucide-react';
+import { DEFAULT_GITHUB_API_URL, GitHubConnection, defaultBranchName, publishGist, publishPullRequest } from './githubPublisher';
+
+type PublishMode = 'gist' | 'pr';
+
+type PublishState =
+  | { status: 'idle' }
+  | { status: 'publishing' }
+  | { status: 'done'; label: string; url: string }
+  | { status: 'error'; error: string };
+
+interface PublishPanelProps {
+  description: string;
+  disabled: boolean;
+  /** Builds the package at publish time so it includes the latest edits. */
+  buildFiles: () => Record<string, string>;
+  onClose: () => void;
+}
+
+const API_URL_KEY = 'script-engineer-pro:github-api-url';
+const REPOSITORY_KEY = 'script-engineer-pro:github-repository';
+// The token only lives for the browser session; it is never written to localStorage.
+const TOKEN_KEY = 'script-engineer-pro:github-token';
+
+const PublishPanel = ({ description, disabled, buildFiles, onClose }: PublishPanelProps) => {
+  const [mode, setMode] = useState<PublishMode>('gist');
+  const [apiBaseUrl, setApiBaseUrl] = useState(() => localStorage.getItem(API_URL_KEY) || DEFAULT_GITHUB_API_URL);
+  const [token, setToken] = useState(() => sessionStorage.getItem(TOKEN_KEY) ?? '');
+  const [repository, setRepository] = useState(() => localStorage.getItem(REPOSITORY_KEY) ?? '');
+  const [base, setBase] = useState('');
+  const [branch, setBranch] = useState(() => defaultBranchName(description));
+  const [title, setTitle] = useState(() => `Add generated script: ${description.slice(0, 60)}`);
+  const [state, setState] = useState<PublishState>({ status: 'idle' });
+
+  const canPublish = !disabled && state.status !== 'publishing' && !!token.trim() && !!apiBaseUrl.trim()
+    && (mode === 'gist' || (!!repository.trim() && !!branch.trim() && !!title.trim()));
+
+  const publish = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!canPublish) return;
+    localStorage.setItem(API_URL_KEY, apiBaseUrl.trim());
+    sessionStorage.setItem(TOKEN_KEY, token.trim());
+    const connection: GitHubConnection = { apiBaseUrl: apiBaseUrl.trim(), token: token.trim() };
+    setState({ status: 'publishing' });
+    try {
+      const files = buildFiles();
+      if (mode === 'gist') {
+        const gist = await publishGist(files, `Engineered Script: ${description.slice(0, 80)}`, connection);
+        setState({ status: 'done', label: 'Secret gist created', url: gist.url });
+      } else {
+        localStorage.setItem(REPOSITORY_KEY, repository.trim());
+        const pull = await publishPullRequest(files, { repository, branch, base, title: title.trim(), body: files['README.md'] ?? description }, connection);
+        setState({ status: 'done', label: `Pull request #${pull.number} opened from ${pull.branch}`, url: pull.url });
+        // A second publish needs a fresh branch.
+        setBranch(defaultBranchName(description));
+      }
+    } catch (err: any) {
+      setState({ status: 'error', error: err?.message || 'Publishing failed.' });
+    }
+  };
+
+  return (
+    <div className="bg-slate-800/40 border border-slate-700 rounded-3xl p-6 space-y-4">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-2 text-indigo-400 text-[10px] font-bold uppercase tracking-widest">
+          <Github className="w-4 h-4" /> Publish to GitHub
+        </div>
+        <button type="button" onClick={onClose} className="p-1.5 text-slate-500 hover:text-white rounded-lg transition-colors">
+          <X className="w-4 h-4" />
+        </button>
+      </div>
+
+      <div className="flex gap-2">
+        <ModeButton active={mode === 'gist'} onClick={() => setMode('gist')} icon={<FileText className="w-3 h-3" />} label="Secret Gist" />
+        <ModeButton active={mode === 'pr'} onClick={() => setMode('pr')} icon={<GitPullRequest className="w-3 h-3" />} label="Pull Request" />
+      </div>
+
+      <form onSubmit={publish} className="space-y-3">
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+          <Field label="API Base URL">
+            <input value={apiBaseUrl} onChange={(e) => setApiBaseUrl(e.target.value)} placeholder={DEFAULT_GITHUB_API_URL} className={INPUT_CLASS} />
+          </Field>
+          <Field label="Token">
+            <input type="password" value={token} onChange={(e) => setToken(e.target.value)} placeholder="ghp_… or github_pat_…" autoComplete="off" className={INPUT_CLASS} />
+          </Field>
+          {mode === 'pr' && (
+            <div className="contents">
+              <Field label="Repository">
+                <input value={repository} onChange={(e) => setRepository(e.target.value)} placeholder="owner/name" className={INPUT_CLASS} />
+              </Field>
+              <Field label="Base Branch">
+                <input value={base} onChange={(e) => setBase(e.target.value)} placeholder="Repository default" className={INPUT_CLASS} />
+              </Field>
+              <Field label="New Branch">
+                <input value={branch} onChange={(e) => setBranch(e.target.value)} className={INPUT_CLASS} />
+              </Field>
+              <Field label="Title">
+                <input value={title} onChange={(e) => setTitle(e.target.value)} className={INPUT_CLASS} />
+              </Field>
+            </div>
+          )}
+        </div>
+
+        <p className="text-[10px] text-slate-500">
+          {mode === 'gist'
+            ? 'Gists are flat: directories are folded into file names, e.g. .github__workflows__main.yml.'
+            : 'Commits the full package tree, README included, to the new branch and opens a pull request into the base branch.'}
+        </p>
+
+        <button
+          type="submit"
+          disabled={!canPublish}
+          className="flex items-center gap-2 px-4 py-2.5 bg-indigo-600 hover:bg-indigo-500 disabled:opacity-50 text-white text-xs font-bold uppercase tracking-wider rounded-xl transition-all"
+        >
+          {state.status === 'publishing' ? <Loader2 className="w-3.5 h-3.5 animate-spin" /> : <Github className="w-3.5 h-3.5" />}
+          {mode === 'gist' ? 'Create Gist' : 'Open Pull Request'}
+        </button>
+      </form>
+
+      {state.status === 'done' && (
+        <a href={state.url} target="_blank" rel="noreferrer" className="flex items-center gap-2 text-sm text-emerald-300 hover:text-emerald-200 break-all">
+          <ExternalLink className="w-4 h-4 flex-shrink-0" /> {state.label}: {state.url}
+        </a>
+      )}
+      {state.status === 'error' && (
+        <p className="flex items-start gap-2 text-sm text-red-300">
+          <AlertCircle className="w-4 h-4 mt-0.5 flex-shrink-0" /> {state.error}
+        </p>
+      )}
+    </div>
+  );
+};
+
+const INPUT_CLASS = 'w-full bg-slate-900 border border-slate-700 rounded-xl px-4 py-2.5 text-sm text-slate-200 outline-none focus:ring-1 focus:ring-indigo-500 placeholder:text-slate-600';
+
+const Field = ({ label, children }: { label: string, children: any }) => (
+  <label className="block space-y-1.5">
+    <span className="text-[10px] font-bold text-slate-500 uppercase tracking-widest">{label}</span>
+    {children}
+  </label>
+);
+
+const ModeButton = ({ active, onClick, icon, label }: { active: boolean, onClick: () => void, icon: any, label: string }) => (
+  <button
+    type="button"
+    onClick={onClick}
+    className={`flex items-center gap-1.5 px-3 py-1.5 rounded-xl border text-[10px] font-bold uppercase tracking-widest transition-all ${active
+        ? 'border-indigo-500/60 bg-indigo-500/10 text-indigo-300'
+        : 'border-slate-700 text-slate-500 hover:text-slate-300 hover:border-slate-500'
+      }`}
+  >
+    {icon} {label}
+  </button>
+);
+
+export default PublishPanel;
@@ -0,0 +1,77 @@
+import React, { useState } from 'react';
+import { MessageSquare, Send, GitCommit } from 'lucide-react';
+import { ScriptRevision } from './types';
+
+interface RefinePanelProps {
+  revisions: ScriptRevision[];
+  activeRevisionId: string | null;
+  disabled: boolean;
+  onSelect: (revision: ScriptRevision) => void;
+  onRefine: (instruction: string) => void;
+}
+
+const RefinePanel = ({ revisions, activeRevisionId, disabled, onSelect, onRefine }: RefinePanelProps) => {
+  const [instruction, setInstruction] = useState('');
+  const revisionNumber = (id: string | null) => revisions.findIndex(r => r.id === id) + 1;
+
+  const submit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!instruction.trim() || disabled) return;
+    onRefine(instruction.trim());
+    setInstruction('');
+  };
+
+  return (
+    <div className="bg-slate-800/40 border border-slate-700 rounded-3xl p-6 space-y-4">
+      <div className="flex items-center gap-2 text-indigo-400 text-[10px] font-bold uppercase tracking-widest">
+        <MessageSquare className="w-4 h-4" /> Refine Module
+      </div>
+
+      {revisions.length > 0 && (
+        <div className="flex flex-wrap gap-2">
+          {revisions.map((rev, i) => (
+            <button
+              key={rev.id}
+              type="button"
+              disabled={disabled}
+              onClick={() => onSelect(rev)}
+              title={rev.instruction ?? 'Initial generation'}
+              className={`flex items-center gap-1.5 px-3 py-1.5 rounded-xl border text-[10px] font-bold uppercase tracking-widest transition-all disabled:opacity-40 ${rev.id === activeRevisionId
+                  ? 'border-indigo-500/60 bg-indigo-500/10 text-indigo-300'
+                  : 'border-slate-700 text-slate-500 hover:text-slate-300 hover:border-slate-500'
+                }`}
+            >
+              <GitCommit className="w-3 h-3" /> r{i + 1}
+              {rev.parentId && revisionNumber(rev.parentId) !== i && (
+                <span className="normal-case tracking-normal font-medium text-slate-500">from r{revisionNumber(rev.parentId)}</span>
+              )}
+            </button>
+          ))}
+        </div>
+      )}
+
+      {activeRevisionId && revisions.find(r => r.id === activeRevisionId)?.instruction && (
+        <p className="text-xs text-slate-400 italic">"{revisions.find(r => r.id === activeRevisionId)?.instruction}"</p>
+      )}
+
+      <form onSubmit={submit} className="flex gap-3">
+        <input
+          value={instruction}
+          onChange={(e) => setInstruction(e.target.value)}
+          disabled={disabled}
+          placeholder='e.g. "add retries to the upload step", "make it idempotent"'
+          className="flex-1 bg-slate-900 border border-slate-700 rounded-xl px-4 py-2.5 text-sm text-slate-200 outline-none focus:ring-1 focus:ring-indigo-500 placeholder:text-slate-600 disabled:opacity-50"
+        />
+        <button
+          type="submit"
+          disabled={disabled || !instruction.trim()}
+          className="flex items-center gap-2 px-4 py-2.5 bg-indigo-600 hover:bg-indigo-500 disabled:opacity-50 text-white text-xs font-bold uppercase tracking-wider rounded-xl transition-all"
+        >
+          <Send className="w-3.5 h-3.5" /> Refine
+        </button>
+      </form>
+    </div>
+  );
+};
+
+export default RefinePanel;
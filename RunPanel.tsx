@@ -0,0 +1,176 @@
+import React from 'react';
+import { Play, Square, Loader2, CheckCircle2, XCircle, Clock, Wand2, ShieldCheck, Lock, KeyRound } from 'lucide-react';
+import { PhaseResult, RunEvent, RunPhase } from './types';
+
+export interface RunLog {
+  phase: RunPhase;
+  command: string;
+  output: { stream: 'stdout' | 'stderr', text: string }[];
+  result?: PhaseResult;
+}
+
+export interface RunState {
+  running: boolean;
+  phases: RunLog[];
+  sandbox: string[];
+  error: string | null;
+}
+
+export const applyRunEvent = (state: RunState, event: RunEvent): RunState => {
+  switch (event.type) {
+    case 'start':
+      return { ...state, phases: [...state.phases, { phase: event.phase, command: event.command, output: [] }] };
+    case 'output':
+      return {
+        ...state,
+        phases: state.phases.map(p => p.phase === event.phase ? { ...p, output: [...p.output, { stream: event.stream, text: event.text }] } : p)
+      };
+    case 'exit':
+      return { ...state, phases: state.phases.map(p => p.phase === event.result.phase ? { ...p, result: event.result } : p) };
+    case 'done':
+      return { ...state, sandbox: event.sandbox };
+    case 'error':
+      return { ...state, error: event.error };
+  }
+};
+
+export const isRedTestRun = (state: RunState | null) => {
+  const tests = state?.phases.find(p => p.phase === 'tests')?.result;
+  return !!tests && (tests.exitCode !== 0 || !!tests.tests?.failed);
+};
+
+interface RunnerTokenInputProps {
+  token: string;
+  onChange: (token: string) => void;
+  disabled?: boolean;
+}
+
+/** The token server.ts prints at startup; the run and fault endpoints refuse requests without it. */
+export const RunnerTokenInput = ({ token, onChange, disabled }: RunnerTokenInputProps) => (
+  <label className="flex items-center gap-2 text-[10px] font-bold text-slate-500 uppercase tracking-widest">
+    <KeyRound className="w-3 h-3" /> Token
+    <input
+      type="password"
+      value={token}
+      onChange={(e) => onChange(e.target.value.trim())}
+      disabled={disabled}
+      placeholder="runner token"
+      autoComplete="off"
+      className="w-36 bg-slate-900 border border-slate-700 rounded-lg px-2 py-1 text-[10px] font-mono normal-case tracking-normal text-slate-300 outline-none focus:ring-1 focus:ring-indigo-500"
+    />
+  </label>
+);
+
+interface RunPanelProps {
+  run: RunState | null;
+  hasTests: boolean;
+  blocked: boolean;
+  disabled: boolean;
+  dryRun: boolean;
+  onDryRunChange: (dryRun: boolean) => void;
+  runnerToken: string;
+  onRunnerTokenChange: (token: string) => void;
+  onRun: () => void;
+  onCancel: () => void;
+  onFix: () => void;
+}
+
+const RunPanel = ({ run, hasTests, blocked, disabled, dryRun, onDryRunChange, runnerToken, onRunnerTokenChange, onRun, onCancel, onFix }: RunPanelProps) => (
+  <div className="space-y-6">
+    <div className="flex flex-wrap items-center gap-4">
+      <div className="flex items-center gap-2">
+        <Play className="w-5 h-5 text-emerald-400" />
+        <h4 className="text-sm font-bold text-slate-200 uppercase tracking-widest">Local Run</h4>
+      </div>
+      <div className="ml-auto">
+        <RunnerTokenInput token={runnerToken} onChange={onRunnerTokenChange} disabled={run?.running} />
+      </div>
+      <label className="flex items-center gap-2 text-[10px] font-bold text-slate-500 uppercase tracking-widest cursor-pointer">
+        <input type="checkbox" checked={dryRun} onChange={(e) => onDryRunChange(e.target.checked)} disabled={run?.running} className="accent-indigo-500" />
+        DRY_RUN=1
+      </label>
+      {run?.running ? (
+        <button onClick={onCancel} className="flex items-center gap-2 px-4 py-2 text-xs font-bold uppercase tracking-wider text-slate-200 bg-slate-700 hover:bg-slate-600 rounded-xl transition-all">
+          <Square className="w-3.5 h-3.5 fill-current" /> Stop
+        </button>
+      ) : (
+        <button
+          onClick={onRun}
+          disabled={disabled || blocked || !runnerToken}
+          title={blocked ? 'Blocked by the Safety Report' : !runnerToken ? 'Enter the runner token first' : undefined}
+          className="flex items-center gap-2 px-4 py-2 text-xs font-bold uppercase tracking-wider text-white bg-emerald-600 hover:bg-emerald-500 disabled:opacity-40 disabled:cursor-not-allowed rounded-xl transition-all"
+        >
+          {blocked ? <Lock className="w-3.5 h-3.5" /> : <Play className="w-3.5 h-3.5 fill-current" />} Run {hasTests ? 'Script + Tests' : 'Script'}
+        </button>
+      )}
+    </div>
+
+    {!run && (
+      <p className="text-xs text-slate-400">
+        Runs the generated artifacts on the local runner in a temporary directory with no network access and CPU, memory and time limits.
+        The API server must be started with RUNNER_ENABLED=true; enter the runner token it prints at startup, or its RUNNER_TOKEN.
+      </p>
+    )}
+
+    {run?.error && (
+      <div className="bg-red-900/20 border border-red-500/50 rounded-2xl p-4 flex gap-3">
+        <XCircle className="w-4 h-4 text-red-400 flex-shrink-0 mt-0.5" />
+        <p className="text-xs text-red-200">{run.error}</p>
+      </div>
+    )}
+
+    {run?.phases.map(log => (
+      <div key={log.phase} className="rounded-2xl border border-slate-700 overflow-hidden">
+        <div className="flex items-center gap-3 px-4 py-2 bg-slate-800/60 border-b border-slate-700">
+          <PhaseStatus result={log.result} running={!!run.running} />
+          <span className="text-[10px] font-bold text-slate-300 uppercase tracking-widest">{log.phase}</span>
+          <code className="text-[10px] text-slate-500 font-mono truncate flex-1">{log.command}</code>
+          {log.result?.tests && (
+            <span className="text-[10px] font-mono">
+              <span className="text-emerald-400">{log.result.tests.passed} passed</span>
+              {log.result.tests.failed > 0 && <span className="text-red-400"> · {log.result.tests.failed} failed</span>}
+            </span>
+          )}
+          {log.result && (
+            <span className="text-[10px] text-slate-500 font-mono whitespace-nowrap">
+              {log.result.timedOut ? 'timed out' : log.result.signal ? log.result.signal : `exit ${log.result.exitCode}`} · {(log.result.durationMs / 1000).toFixed(1)}s
+            </span>
+          )}
+        </div>
+        <pre className="font-mono text-xs leading-relaxed whitespace-pre-wrap p-4 max-h-72 overflow-y-auto custom-scrollbar bg-black/30">
+          {log.output.length === 0 && <span className="text-slate-600">{log.result ? '(no output)' : 'waiting for output...'}</span>}
+          {log.output.map((chunk, i) => <span key={i} className={chunk.stream === 'stderr' ? 'text-red-300' : 'text-slate-300'}>{chunk.text}</span>)}
+        </pre>
+      </div>
+    ))}
+
+    {run && !run.running && isRedTestRun(run) && (
+      <div className="bg-red-900/10 border border-red-500/40 rounded-2xl p-4 flex flex-col md:flex-row md:items-center gap-3">
+        <p className="flex-1 text-xs text-red-200">The test run is red. Send the failing output back to the model as a refinement.</p>
+        <button
+          onClick={onFix}
+          disabled={disabled}
+          className="flex items-center gap-2 px-4 py-2 text-xs font-bold uppercase tracking-wider text-white bg-indigo-600 hover:bg-indigo-500 disabled:opacity-40 rounded-xl transition-all whitespace-nowrap"
+        >
+          <Wand2 className="w-3.5 h-3.5" /> Fix with model
+        </button>
+      </div>
+    )}
+
+    {run && run.sandbox.length > 0 && (
+      <div className="space-y-1">
+        {run.sandbox.map(note => (
+          <p key={note} className="flex items-center gap-2 text-[10px] text-slate-500"><ShieldCheck className="w-3 h-3" /> {note}</p>
+        ))}
+      </div>
+    )}
+  </div>
+);
+
+const PhaseStatus = ({ result, running }: { result?: PhaseResult, running: boolean }) => {
+  if (!result) return running ? <Loader2 className="w-3.5 h-3.5 text-indigo-400 animate-spin" /> : <Clock className="w-3.5 h-3.5 text-slate-500" />;
+  const passed = result.exitCode === 0 && !result.tests?.failed;
+  return passed ? <CheckCircle2 className="w-3.5 h-3.5 text-emerald-400" /> : <XCircle className="w-3.5 h-3.5 text-red-400" />;
+};
+
+export default RunPanel;
@@ -0,0 +1,125 @@
+import React from 'react';
+import { ShieldCheck, ShieldAlert, AlertCircle, Lock, Unlock, CheckCircle2, ToggleRight } from 'lucide-react';
+import { DryRunReport, FindingSeverity, SafetyReport, ScriptLocation } from './types';
+
+const SEVERITY_STYLES: Record<FindingSeverity, string> = {
+  critical: 'bg-red-500/15 text-red-300 border-red-500/40',
+  high: 'bg-orange-500/15 text-orange-300 border-orange-500/40',
+  medium: 'bg-amber-500/15 text-amber-300 border-amber-500/40',
+  low: 'bg-slate-500/15 text-slate-300 border-slate-500/40',
+};
+
+const SafetyReportPanel = ({ report, overridden, onOverride }: { report: SafetyReport, overridden: boolean, onOverride: () => void }) => (
+  <div className="space-y-6">
+    <div className="flex items-center justify-between gap-4">
+      <div className="flex items-center gap-2">
+        {report.blocked ? <ShieldAlert className="w-5 h-5 text-red-400" /> : <ShieldCheck className="w-5 h-5 text-emerald-400" />}
+        <h4 className="text-sm font-bold text-slate-200 uppercase tracking-widest">Safety Report</h4>
+      </div>
+      <span className="text-[10px] font-bold text-slate-500 uppercase tracking-widest">{report.level} // {report.language}</span>
+    </div>
+
+    {report.blocked && (
+      <div className={`rounded-2xl p-5 border flex flex-col md:flex-row md:items-center gap-4 ${overridden ? 'bg-amber-500/10 border-amber-500/40' : 'bg-red-500/10 border-red-500/40'}`}>
+        <div className="flex-1 flex gap-3">
+          {overridden ? <Unlock className="w-5 h-5 text-amber-400 flex-shrink-0" /> : <Lock className="w-5 h-5 text-red-400 flex-shrink-0" />}
+          <p className={`text-xs leading-relaxed ${overridden ? 'text-amber-200' : 'text-red-200'}`}>
+            {overridden
+              ? 'Export block overridden for this generation. The findings below still apply.'
+              : `This package violates the "${report.level}" safety level and is blocked from export. Regenerate it, or override the block if you have reviewed the findings.`}
+          </p>
+        </div>
+        {!overridden && (
+          <button onClick={onOverride} className="px-4 py-2 text-[10px] font-bold uppercase tracking-widest text-red-200 border border-red-500/50 rounded-xl hover:bg-red-500/20 transition-all whitespace-nowrap">
+            Override Block
+          </button>
+        )}
+      </div>
+    )}
+
+    {report.dryRun && <DryRunSection dryRun={report.dryRun} />}
+
+    {report.findings.length === 0 ? (
+      <p className="text-xs text-slate-400">No unsafe patterns detected in the script or its supporting files.</p>
+    ) : (
+      <div className="grid grid-cols-1 gap-3">
+        {report.findings.map((f, i) => (
+          <div key={i} className="bg-slate-800/50 border border-slate-700 rounded-2xl p-4 hover:border-slate-500 transition-colors">
+            <div className="flex items-center gap-2 flex-wrap">
+              <span className={`px-2 py-0.5 text-[9px] font-bold uppercase tracking-widest rounded-md border ${SEVERITY_STYLES[f.severity]}`}>{f.severity}</span>
+              <span className="text-[10px] font-bold text-slate-500 uppercase tracking-widest">{f.category}</span>
+              {f.path && <span className="text-[10px] text-slate-400 font-mono">{f.path}</span>}
+              {f.line && <span className="text-[10px] text-slate-500 font-mono">line {f.line}</span>}
+              {f.blocking && <AlertCircle className="w-3.5 h-3.5 text-red-400 ml-auto" />}
+            </div>
+            <p className="text-xs text-slate-300 mt-2">{f.message}</p>
+            {f.snippet && (
+              <code className="block mt-2 text-xs font-mono text-slate-400 bg-black/40 p-2 rounded-lg border border-slate-700/50 overflow-x-auto whitespace-pre">{f.snippet}</code>
+            )}
+          </div>
+        ))}
+      </div>
+    )}
+  </div>
+);
+
+const DryRunSection = ({ dryRun }: { dryRun: DryRunReport }) => (
+  <div className={`rounded-2xl p-5 border space-y-4 ${dryRun.verified ? 'bg-emerald-500/5 border-emerald-500/30' : 'bg-slate-800/50 border-slate-700'}`}>
+    <div className="flex items-center gap-2">
+      {dryRun.verified ? <CheckCircle2 className="w-4 h-4 text-emerald-400" /> : <AlertCircle className="w-4 h-4 text-red-400" />}
+      <p className="text-xs font-bold text-slate-200 uppercase tracking-widest">Dry-Run Verification</p>
+      <span className="ml-auto text-[10px] text-slate-500">
+        {dryRun.sideEffects.filter(s => s.gated).length}/{dryRun.sideEffects.length} side effects gated
+      </span>
+    </div>
+
+    <div className="space-y-1">
+      <p className="text-[10px] font-bold text-slate-500 uppercase">Switch</p>
+      {dryRun.switches.length === 0 ? (
+        <p className="text-xs text-red-300">No --dry-run flag or DRY_RUN environment variable found.</p>
+      ) : dryRun.switches.map((sw, i) => (
+        <div key={i}>
+          <LocationRow location={sw} tag={sw.kind === 'flag' ? 'flag' : 'env var'} icon={<ToggleRight className="w-3 h-3 text-indigo-400" />} />
+        </div>
+      ))}
+    </div>
+
+    {dryRun.gates.length > 0 && (
+      <div className="space-y-1">
+        <p className="text-[10px] font-bold text-slate-500 uppercase">Gates</p>
+        {dryRun.gates.map((g, i) => (
+          <div key={i}>
+            <LocationRow location={g} icon={<Lock className="w-3 h-3 text-emerald-400" />} />
+          </div>
+        ))}
+      </div>
+    )}
+
+    {dryRun.sideEffects.length > 0 && (
+      <div className="space-y-1">
+        <p className="text-[10px] font-bold text-slate-500 uppercase">Side-Effecting Calls</p>
+        {dryRun.sideEffects.map((se, i) => (
+          <div key={i}>
+            <LocationRow
+              location={se}
+              tag={se.gated ? `gated by line ${se.gateLine}` : 'ungated'}
+              icon={se.gated ? <CheckCircle2 className="w-3 h-3 text-emerald-400" /> : <AlertCircle className="w-3 h-3 text-red-400" />}
+            />
+          </div>
+        ))}
+      </div>
+    )}
+  </div>
+);
+
+const LocationRow = ({ location, tag, icon }: { location: ScriptLocation, tag?: string, icon: any }) => (
+  <div className="flex items-center gap-2 text-xs">
+    {icon}
+    {location.path && <span className="text-[10px] text-slate-400 font-mono whitespace-nowrap">{location.path}</span>}
+    <span className="text-[10px] text-slate-500 font-mono w-14 flex-shrink-0">line {location.line}</span>
+    <code className="font-mono text-slate-300 truncate flex-1">{location.snippet}</code>
+    {tag && <span className="text-[10px] text-slate-500 whitespace-nowrap">{tag}</span>}
+  </div>
+);
+
+export default SafetyReportPanel;
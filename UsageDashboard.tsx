@@ -0,0 +1,152 @@
+import React, { useState } from 'react';
+import { ChevronDown, Coins, RotateCcw, Trash2 } from 'lucide-react';
+import { DEFAULT_PRICES, ModelPrice, PriceTable, UsageRecord, UsageTotals, costOf, formatUsd, startOfMonth, summarizeUsage } from './usageTracker';
+
+interface UsageDashboardProps {
+  records: UsageRecord[];
+  /** Records at or after this time belong to the current session. */
+  sessionStartedAt: number;
+  prices: PriceTable;
+  monthlyBudget: number;
+  onPricesChange: (prices: PriceTable) => void;
+  onBudgetChange: (usd: number) => void;
+  onClear: () => void;
+}
+
+const PRICE_FIELDS: { field: keyof ModelPrice, label: string }[] = [
+  { field: 'inputPerMillion', label: 'In' },
+  { field: 'outputPerMillion', label: 'Out' },
+];
+
+const UsageDashboard = ({ records, sessionStartedAt, prices, monthlyBudget, onPricesChange, onBudgetChange, onClear }: UsageDashboardProps) => {
+  const [open, setOpen] = useState(false);
+  const session = summarizeUsage(records.filter(r => r.at >= sessionStartedAt), prices);
+  const month = summarizeUsage(records.filter(r => r.at >= startOfMonth()), prices);
+  const allTime = summarizeUsage(records, prices);
+  const last = records[records.length - 1];
+  const lastCost = last ? costOf(last, prices) : null;
+  // Models seen in the log show up even without a price, so their cost can be filled in.
+  const models = [...new Set([...Object.keys(prices), ...records.map(r => r.model)])];
+  const budgetShare = monthlyBudget > 0 ? Math.min(1, month.costUsd / monthlyBudget) : 0;
+
+  return (
+    <div className="bg-slate-800/40 border border-slate-700 rounded-2xl">
+      <div className="px-5 pt-4 pb-3 space-y-3">
+        <div className="flex items-center gap-2 text-[10px] font-bold text-slate-500 uppercase tracking-widest">
+          <Coins className="w-3.5 h-3.5 text-amber-400" /> Token Usage & Cost
+          {last && (
+            <span className="ml-auto normal-case tracking-normal font-normal text-slate-500">
+              Last: <span className="font-mono text-slate-300">{last.model}</span> · {last.promptTokens + last.completionTokens} tokens{last.estimated ? ' (est.)' : ''} · {(last.latencyMs / 1000).toFixed(1)}s · {lastCost === null ? 'unpriced' : formatUsd(lastCost)}
+            </span>
+          )}
+        </div>
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+          <UsageTile label="This Session" totals={session} />
+          <UsageTile label="This Month" totals={month} limit={monthlyBudget} />
+          <UsageTile label="All Time" totals={allTime} />
+        </div>
+        {monthlyBudget > 0 && (
+          <div className="h-1.5 bg-slate-900 rounded-full overflow-hidden">
+            <div
+              className={`h-full rounded-full ${budgetShare >= 1 ? 'bg-red-500' : budgetShare >= 0.8 ? 'bg-amber-500' : 'bg-emerald-500'}`}
+              style={{ width: `${budgetShare * 100}%` }}
+            />
+          </div>
+        )}
+      </div>
+
+      <button
+        type="button"
+        onClick={() => setOpen(!open)}
+        className="w-full flex items-center gap-2 px-5 py-3 border-t border-slate-700/60 text-[10px] font-bold text-slate-500 uppercase tracking-widest hover:text-slate-300 transition-colors"
+      >
+        Budget & model prices
+        <ChevronDown className={`w-3 h-3 ml-auto transition-transform ${open ? 'rotate-180' : ''}`} />
+      </button>
+
+      {open && (
+        <div className="px-5 pb-5 grid md:grid-cols-2 gap-6 text-xs">
+          <div className="space-y-3">
+            <label className="flex items-center justify-between gap-2 text-slate-400">
+              <span>Monthly budget (0 = none)</span>
+              <span className="flex items-center gap-1">
+                <span className="text-[10px] text-slate-500">$</span>
+                <input
+                  type="number"
+                  min={0}
+                  step={1}
+                  value={monthlyBudget}
+                  onChange={(e) => onBudgetChange(Math.max(0, Number(e.target.value) || 0))}
+                  className="w-20 bg-slate-900 border border-slate-700 rounded-lg px-2 py-1 text-right font-mono text-slate-200 outline-none focus:ring-1 focus:ring-indigo-500"
+                />
+              </span>
+            </label>
+            <p className="text-slate-500">
+              The budget is a soft limit: a warning appears by the Generate button when the next generation is expected to cross it. Counts marked estimated come from text length because the provider reported no usage.
+            </p>
+            <button
+              type="button"
+              onClick={onClear}
+              disabled={!records.length}
+              className="flex items-center gap-1.5 text-slate-500 hover:text-red-300 disabled:opacity-40 transition-colors"
+            >
+              <Trash2 className="w-3 h-3" /> Clear usage log ({records.length})
+            </button>
+          </div>
+
+          <div className="space-y-2">
+            <div className="flex items-center justify-between">
+              <p className="text-[10px] font-bold text-slate-500 uppercase">USD per million tokens</p>
+              <button type="button" onClick={() => onPricesChange(DEFAULT_PRICES)} title="Reset to defaults" className="text-slate-500 hover:text-white transition-colors">
+                <RotateCcw className="w-3 h-3" />
+              </button>
+            </div>
+            {models.map(model => (
+              <div key={model} className="flex items-center justify-between gap-2 text-slate-400">
+                <span className="font-mono truncate">{model}</span>
+                <span className="flex items-center gap-1">
+                  {PRICE_FIELDS.map(p => (
+                    <label key={p.field} className="flex items-center gap-1">
+                      <span className="text-[10px] text-slate-500">{p.label}</span>
+                      <input
+                        type="number"
+                        min={0}
+                        step={0.01}
+                        value={prices[model]?.[p.field] ?? ''}
+                        placeholder="—"
+                        onChange={(e) => onPricesChange({
+                          ...prices,
+                          [model]: { inputPerMillion: 0, outputPerMillion: 0, ...prices[model], [p.field]: Math.max(0, Number(e.target.value) || 0) }
+                        })}
+                        className="w-16 bg-slate-900 border border-slate-700 rounded-lg px-2 py-1 text-right font-mono text-slate-200 outline-none focus:ring-1 focus:ring-indigo-500"
+                      />
+                    </label>
+                  ))}
+                </span>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+const UsageTile = ({ label, totals, limit }: { label: string, totals: UsageTotals, limit?: number }) => (
+  <div className="bg-slate-900/60 border border-slate-700/60 rounded-xl px-4 py-3">
+    <p className="text-[10px] font-bold text-slate-500 uppercase tracking-widest">{label}</p>
+    <p className="text-lg font-bold text-white tracking-tight">
+      {formatUsd(totals.costUsd)}
+      {!!limit && <span className="text-xs font-normal text-slate-500"> of {formatUsd(limit)}</span>}
+    </p>
+    <p className="text-[10px] text-slate-500">
+      {totals.generations} runs · {totals.promptTokens.toLocaleString()} in / {totals.completionTokens.toLocaleString()} out tokens
+      {totals.generations > 0 && ` · avg ${(totals.averageLatencyMs / 1000).toFixed(1)}s`}
+    </p>
+    {totals.unpricedModels.length > 0 && (
+      <p className="text-[10px] text-amber-400/80">No price for {totals.unpricedModels.join(', ')}</p>
+    )}
+  </div>
+);
+
+export default UsageDashboard;
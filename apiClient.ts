@@ -0,0 +1,150 @@
+import { FaultEvent, FaultRunRequest, GenerationResult, GenerationStreamEvent, RunEvent, RunRequest, ScriptRequest, ScriptResponse } from "./types";
+import { ParserSnapshot, createStreamingParser } from "./responseParser";
+import { EngineError, NetworkError, classifyError, engineErrorFromPayload } from "./engineErrors";
+import { estimateTokens } from "./usageTracker";
+
+const API_BASE = "/api";
+
+/** Typed error for a non-2xx reply from the proxy; a 429's Retry-After header becomes `retryAfterMs`. */
+const serviceError = async (res: Response): Promise<EngineError> => {
+    const payload = await res.json().catch(() => null);
+    const retryAfter = Number(res.headers.get('Retry-After'));
+    return engineErrorFromPayload(payload, res.status, retryAfter > 0 ? retryAfter * 1000 : undefined);
+};
+
+// fetch rejects with a TypeError when the proxy is down and with an AbortError on cancel.
+const post = async (path: string, body: unknown, signal?: AbortSignal, headers: Record<string, string> = {}): Promise<Response> => {
+    try {
+        return await fetch(`${API_BASE}${path}`, {
+            method: "POST",
+            headers: { "Content-Type": "application/json", ...headers },
+            body: JSON.stringify(body),
+            signal
+        });
+    } catch (error) {
+        throw classifyError(error, 'proxy', signal);
+    }
+};
+
+/**
+ * Browser-side entry point for generation. Calls the proxy in server.ts,
+ * which holds the provider credentials and applies rate limits.
+ */
+export const requestScript = async (request: ScriptRequest, signal?: AbortSignal): Promise<ScriptResponse> => {
+    const res = await post("/generate", request, signal);
+    if (!res.ok) throw await serviceError(res);
+    return await res.json() as ScriptResponse;
+};
+
+// POSTs to an NDJSON endpoint and yields each event as it arrives.
+async function* readNdjson<T>(path: string, body: unknown, signal?: AbortSignal, headers?: Record<string, string>): AsyncGenerator<T> {
+    const res = await post(path, body, signal, headers);
+    if (!res.ok || !res.body) throw await serviceError(res);
+
+    const reader = res.body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = "";
+
+    while (true) {
+        const { done, value } = await reader.read().catch(error => { throw classifyError(error, 'proxy', signal); });
+        if (done) break;
+        buffer += decoder.decode(value, { stream: true });
+        const lines = buffer.split('\n');
+        buffer = lines.pop() ?? "";
+        for (const line of lines) {
+            if (line.trim()) yield JSON.parse(line) as T;
+        }
+    }
+}
+
+const streamFromProxy = async (
+    path: string,
+    body: unknown,
+    onSnapshot: (snapshot: ParserSnapshot) => void,
+    signal?: AbortSignal
+): Promise<GenerationResult> => {
+    const parser = createStreamingParser();
+    const startedAt = Date.now();
+    let model: string | undefined;
+    let streamed = "";
+    try {
+        for await (const event of readNdjson<GenerationStreamEvent>(path, body, signal)) {
+            if (event.type === 'start') model = event.model;
+            else if (event.type === 'delta') {
+                streamed += event.text;
+                onSnapshot(parser.push(event.text));
+            } else if (event.type === 'done') return { response: event.response, model: event.model, usage: event.usage };
+            else throw Object.assign(engineErrorFromPayload(event), { usage: event.usage });
+        }
+    } catch (error) {
+        // Cancelling closes the stream before the server can report usage, so estimate from what arrived;
+        // the prompt count only covers the request body, not the server's instructions around it.
+        if (error instanceof EngineError && error.code === 'cancelled' && model && streamed) {
+            error.usage = {
+                promptTokens: estimateTokens(JSON.stringify(body)),
+                completionTokens: estimateTokens(streamed),
+                estimated: true,
+                model,
+                latencyMs: Date.now() - startedAt
+            };
+        }
+        throw error;
+    }
+
+    throw new NetworkError("Generation stream ended before the response was complete.");
+};
+
+/**
+ * Streams a generation from the proxy, reporting a parser snapshot after every delta so the UI
+ * can render sections as they arrive. Abort the signal to cancel mid-generation.
+ */
+export const requestScriptStream = (
+    request: ScriptRequest,
+    onSnapshot: (snapshot: ParserSnapshot) => void,
+    signal?: AbortSignal
+): Promise<GenerationResult> => streamFromProxy("/generate/stream", request, onSnapshot, signal);
+
+/** Streams the next revision of `current` after applying a follow-up instruction. */
+export const requestRefinementStream = (
+    request: ScriptRequest,
+    current: ScriptResponse,
+    instruction: string,
+    onSnapshot: (snapshot: ParserSnapshot) => void,
+    signal?: AbortSignal
+): Promise<GenerationResult> => streamFromProxy("/refine/stream", { request, current, instruction }, onSnapshot, signal);
+
+// The runner endpoints execute code, so server.ts wants the token it printed at startup on each call.
+const runnerHeaders = (token: string) => ({ "X-Runner-Token": token });
+
+/**
+ * Runs the script and tests on the local runner (server.ts with RUNNER_ENABLED=true), passing
+ * each output chunk and exit status to `onEvent`. Resolves once the run is complete.
+ */
+export const requestRunStream = async (
+    run: RunRequest,
+    token: string,
+    onEvent: (event: RunEvent) => void,
+    signal?: AbortSignal
+): Promise<void> => {
+    for await (const event of readNdjson<RunEvent>("/run/stream", run, signal, runnerHeaders(token))) {
+        if (event.type === 'error') throw new Error(event.error);
+        onEvent(event);
+        if (event.type === 'done') return;
+    }
+    throw new Error("Run stream ended before the run was complete.");
+};
+
+/** Runs each failure simulation as a fault-injection case on the local runner. */
+export const requestFaultRunStream = async (
+    run: FaultRunRequest,
+    token: string,
+    onEvent: (event: FaultEvent) => void,
+    signal?: AbortSignal
+): Promise<void> => {
+    for await (const event of readNdjson<FaultEvent>("/faults/stream", run, signal, runnerHeaders(token))) {
+        if (event.type === 'error') throw new Error(event.error);
+        onEvent(event);
+        if (event.type === 'done') return;
+    }
+    throw new Error("Fault run ended before every scenario was checked.");
+};
@@ -0,0 +1,79 @@
+import { describe, expect, it } from "vitest";
+import { validateArtifacts } from "./artifactValidator";
+import { parseYaml } from "./yamlParser";
+import { MOCK_RECORDED_RESPONSE } from "./providers";
+import { parseModelResponse } from "./responseParser";
+import { projectFiles } from "./scriptPackage";
+import { Environment, ProjectFile } from "./types";
+
+describe("parseYaml", () => {
+    it("parses mappings, sequences, flow collections and block scalars", () => {
+        const { documents, errors } = parseYaml("name: CI\non: [push, pull_request]\njobs:\n  test:\n    steps:\n      - run: |\n          echo one\n          echo two\n");
+        expect(errors).toEqual([]);
+        expect(documents[0]).toEqual({
+            name: 'CI',
+            on: ['push', 'pull_request'],
+            jobs: { test: { steps: [{ run: "echo one\necho two\n" }] } }
+        });
+    });
+
+    it("resolves anchors and merge keys and splits documents", () => {
+        const { documents } = parseYaml("base: &base\n  a: 1\nderived:\n  <<: *base\n  b: 2\n---\nsecond: true\n");
+        expect(documents).toHaveLength(2);
+        expect((documents[0] as any).derived).toEqual({ a: 1, b: 2 });
+        expect(documents[1]).toEqual({ second: true });
+    });
+
+    it("reports errors with line numbers and tracks key lines", () => {
+        const bad = parseYaml("a: 1\n  b: 2\n");
+        expect(bad.errors[0]?.line).toBe(2);
+        const good = parseYaml("a:\n  b: 2\n");
+        expect(good.lineOf((good.documents[0] as any).a, 'b')).toBe(2);
+    });
+});
+
+const check = (files: ProjectFile[], ciProvider: 'GitHub Actions' | 'Jenkins' = 'GitHub Actions', environment: Environment = 'Generic') =>
+    validateArtifacts(files, { language: 'Python', ciProvider, environment });
+
+describe("validateArtifacts", () => {
+    it("finds no errors in the bundled mock package", () => {
+        const files = projectFiles(parseModelResponse(MOCK_RECORDED_RESPONSE), { language: 'Python' });
+        const errors = check(files).flatMap(v => v.issues.filter(i => i.severity === 'error').map(i => `${v.path}: ${i.message}`));
+        expect(errors).toEqual([]);
+    });
+
+    it("warns on the Dockerfile when the environment's deployment files are missing", () => {
+        const files = projectFiles(parseModelResponse(MOCK_RECORDED_RESPONSE), { language: 'Python' });
+        const dockerfileIssues = (results: ReturnType<typeof check>) => results.find(v => v.role === 'dockerfile')!.issues.map(i => `${i.severity}: ${i.message}`);
+        expect(dockerfileIssues(check(files, 'GitHub Actions', 'Linux')).join(' ')).not.toMatch(/deployment files/);
+        const withoutDeploy = files.filter(f => f.role !== 'deploy');
+        expect(dockerfileIssues(check(withoutDeploy, 'GitHub Actions', 'Kubernetes'))).toContainEqual(expect.stringMatching(/^warning: No deployment files for Kubernetes/));
+        expect(dockerfileIssues(check(withoutDeploy, 'GitHub Actions', 'Docker')).join(' ')).not.toMatch(/deployment files/);
+    });
+
+    it("checks the workflow against the GitHub Actions schema", () => {
+        const [workflow] = check([{ path: '.github/workflows/main.yml', role: 'cicd', content: "name: CI\non: push\njobs:\n  test:\n    steps:\n      - run: pytest\n" }]);
+        expect(workflow.check).toBe('GitHub Actions schema');
+        expect(workflow.issues.map(i => i.message).join(' ')).toMatch(/runs-on/);
+    });
+
+    it("reports broken JSON and Dockerfile COPY sources that are not in the package", () => {
+        const results = check([
+            { path: 'config.json', role: 'config', content: '{"a": 1,}' },
+            { path: 'Dockerfile', role: 'dockerfile', content: "FROM python:3.12-slim\nCOPY missing.py .\nUSER app\n" }
+        ]);
+        expect(results[0].issues.some(i => i.severity === 'error')).toBe(true);
+        expect(results[1].issues.map(i => i.message).join(' ')).toMatch(/missing\.py/);
+    });
+
+    it("catches unbalanced delimiters in the script", () => {
+        const [script] = check([{ path: 'script.py', role: 'script', content: "def main(:\n    print('x'\n" }]);
+        expect(script.issues.some(i => i.severity === 'error')).toBe(true);
+    });
+
+    it("leaves fixtures unchecked", () => {
+        const [fixture] = check([{ path: 'fixtures/bad.json', role: 'fixture', content: '{not json' }]);
+        expect(fixture.check).toBeUndefined();
+        expect(fixture.issues).toEqual([]);
+    });
+});
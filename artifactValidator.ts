@@ -0,0 +1,598 @@
+import { CiProvider, Environment, FileValidation, Language, LintIssue, ProjectFile } from "./types";
+import { HighlightLanguage, highlightCode, highlightLanguageForPath } from "./syntaxHighlight";
+import { YamlParseResult, parseYaml } from "./yamlParser";
+import { extractConfig } from "./configExtractor";
+import { DEPLOYMENT_ENVIRONMENTS } from "./scriptPackage";
+
+/**
+ * Offline checks run over the package before it leaves the app: the CI configuration against
+ * the chosen provider's structure, a Dockerfile lint, a syntax pass over the script and tests,
+ * and parsing of every JSON, YAML and systemd file. Like the safety analyzer these read the text
+ * rather than invoke toolchains, so they catch the usual generation mistakes, not everything.
+ */
+
+export interface ValidationTarget {
+    language: Language;
+    ciProvider: CiProvider;
+    environment: Environment;
+}
+
+const error = (message: string, line?: number): LintIssue => ({ severity: 'error', message, line });
+const warning = (message: string, line?: number): LintIssue => ({ severity: 'warning', message, line });
+
+const isMapping = (value: unknown): value is Record<string, any> => !!value && typeof value === 'object' && !Array.isArray(value);
+const asArray = (value: unknown): unknown[] => (value == null ? [] : Array.isArray(value) ? value : [value]);
+const basename = (path: string) => path.split('/').pop() ?? path;
+
+export const issueCounts = (issues: LintIssue[]) => ({
+    errors: issues.filter(i => i.severity === 'error').length,
+    warnings: issues.filter(i => i.severity === 'warning').length
+});
+
+// ---------------------------------------------------------------------------------------------
+// JSON and YAML
+
+const checkJson = (text: string): LintIssue[] => {
+    try {
+        JSON.parse(text);
+        return [];
+    } catch (err: any) {
+        const position = Number(String(err.message).match(/position (\d+)/)?.[1]);
+        const line = Number.isFinite(position) ? text.slice(0, position).split('\n').length : undefined;
+        return [error(`Invalid JSON: ${String(err.message).replace(/ in JSON at position \d+.*$/, '')}.`, line)];
+    }
+};
+
+type YamlSchemaCheck = (doc: unknown, yaml: YamlParseResult) => LintIssue[];
+
+// Structural checks only run on documents that parsed cleanly, so they never pile onto a syntax error.
+const checkYaml = (text: string, schema?: YamlSchemaCheck): LintIssue[] => {
+    const yaml = parseYaml(text);
+    if (yaml.errors.length) return yaml.errors.map(e => error(e.message, e.line));
+    return schema ? yaml.documents.flatMap(doc => schema(doc, yaml)) : [];
+};
+
+const checkKubernetesDocument: YamlSchemaCheck = (doc, { lineOf }) => {
+    if (!isMapping(doc) || doc.kind == null) return [];
+    const issues: LintIssue[] = [];
+    if (!doc.apiVersion) issues.push(error(`${doc.kind} is missing "apiVersion".`, lineOf(doc, 'kind')));
+    if (!isMapping(doc.metadata) || !doc.metadata.name) issues.push(error(`${doc.kind} is missing "metadata.name".`, lineOf(doc, 'kind')));
+    return issues;
+};
+
+// ---------------------------------------------------------------------------------------------
+// CI providers
+
+const GITHUB_TOP_LEVEL = ['name', 'run-name', 'on', 'permissions', 'env', 'defaults', 'concurrency', 'jobs'];
+
+const checkGithubActions: YamlSchemaCheck = (doc, { lineOf }) => {
+    if (!isMapping(doc)) return [error("The workflow must be a mapping.")];
+    const issues: LintIssue[] = Object.keys(doc)
+        .filter(key => !GITHUB_TOP_LEVEL.includes(key))
+        .map(key => warning(`Unknown top-level key "${key}".`, lineOf(doc, key)));
+    if (doc.on == null) issues.push(error('Missing "on" triggers.'));
+    if (!isMapping(doc.jobs) || !Object.keys(doc.jobs).length) return [...issues, error('Missing "jobs".', lineOf(doc, 'jobs'))];
+
+    Object.entries(doc.jobs).forEach(([name, job]) => {
+        const at = lineOf(doc.jobs, name);
+        if (!isMapping(job)) {
+            issues.push(error(`Job "${name}" must be a mapping.`, at));
+            return;
+        }
+        asArray(job.needs).forEach(need => {
+            if (!(String(need) in doc.jobs)) issues.push(error(`Job "${name}" needs unknown job "${need}".`, lineOf(job, 'needs')));
+        });
+        // A job that calls a reusable workflow has neither a runner nor steps.
+        if (job.uses) return;
+        if (!job['runs-on']) issues.push(error(`Job "${name}" is missing "runs-on".`, at));
+        if (!Array.isArray(job.steps) || !job.steps.length) {
+            issues.push(error(`Job "${name}" has no steps.`, at));
+            return;
+        }
+        job.steps.forEach((step: unknown, i: number) => {
+            const line = lineOf(job.steps, i);
+            const label = `Step ${i + 1} of "${name}"`;
+            if (!isMapping(step)) issues.push(error(`${label} must be a mapping.`, line));
+            else if (!step.uses && !step.run) issues.push(error(`${label} needs "uses" or "run".`, line));
+            else if (step.uses && step.run) issues.push(error(`${label} cannot have both "uses" and "run".`, line));
+            else if (typeof step.uses === 'string' && !/^(\.\/|docker:\/\/)/.test(step.uses) && !step.uses.includes('@')) {
+                issues.push(warning(`Action "${step.uses}" is not pinned to a version.`, line));
+            }
+        });
+    });
+    return issues;
+};
+
+const GITLAB_GLOBALS = ['default', 'include', 'stages', 'variables', 'workflow', 'image', 'services', 'cache', 'before_script', 'after_script'];
+const GITLAB_DEFAULT_STAGES = ['.pre', 'build', 'test', 'deploy', '.post'];
+
+const checkGitlabCi: YamlSchemaCheck = (doc, { lineOf }) => {
+    if (!isMapping(doc)) return [error("The pipeline must be a mapping.")];
+    const issues: LintIssue[] = [];
+    // Keys starting with '.' are hidden templates for `extends`, not jobs.
+    const jobs = Object.keys(doc).filter(key => !GITLAB_GLOBALS.includes(key) && !key.startsWith('.'));
+    if (!jobs.length) return [error("No jobs are defined.")];
+    const stages = Array.isArray(doc.stages) ? [...doc.stages.map(String), '.pre', '.post'] : GITLAB_DEFAULT_STAGES;
+
+    jobs.forEach(name => {
+        const job = doc[name];
+        const at = lineOf(doc, name);
+        if (!isMapping(job)) {
+            issues.push(error(`Job "${name}" must be a mapping.`, at));
+            return;
+        }
+        if (!job.script && !job.trigger && !job.extends && !job.run) issues.push(error(`Job "${name}" is missing "script".`, at));
+        if (job.stage != null && !stages.includes(String(job.stage))) {
+            issues.push(error(`Job "${name}" uses stage "${job.stage}", which is not listed in "stages".`, lineOf(job, 'stage')));
+        }
+        if (job.only != null || job.except != null) issues.push(warning(`Job "${name}" uses only/except; prefer "rules".`, lineOf(job, job.only != null ? 'only' : 'except')));
+        asArray(job.needs).forEach(need => {
+            const target = isMapping(need) ? need.job : need;
+            if (typeof target === 'string' && !jobs.includes(target)) issues.push(error(`Job "${name}" needs unknown job "${target}".`, lineOf(job, 'needs')));
+        });
+    });
+    return issues;
+};
+
+const AZURE_STEP_KEYS = ['script', 'bash', 'pwsh', 'powershell', 'task', 'checkout', 'download', 'downloadBuild', 'publish', 'template', 'getPackage', 'reviewApp'];
+
+const checkAzurePipelines: YamlSchemaCheck = (doc, { lineOf }) => {
+    if (!isMapping(doc)) return [error("The pipeline must be a mapping.")];
+    const issues: LintIssue[] = [];
+
+    const checkSteps = (steps: unknown, owner: string, line?: number) => {
+        if (!Array.isArray(steps) || !steps.length) {
+            issues.push(error(`${owner} has no steps.`, line));
+            return;
+        }
+        steps.forEach((step, i) => {
+            if (!isMapping(step) || !AZURE_STEP_KEYS.some(key => key in step)) {
+                issues.push(error(`Step ${i + 1} of ${owner} needs one of ${AZURE_STEP_KEYS.slice(0, 5).join(', ')}.`, lineOf(steps, i)));
+            }
+        });
+    };
+
+    const checkJobs = (jobs: unknown, owner: string, line?: number) => {
+        if (!Array.isArray(jobs) || !jobs.length) {
+            issues.push(error(`${owner} has no jobs.`, line));
+            return;
+        }
+        jobs.forEach((job, i) => {
+            const at = lineOf(jobs, i);
+            if (!isMapping(job)) issues.push(error(`Job ${i + 1} of ${owner} must be a mapping.`, at));
+            else if (job.template) return;
+            else if (job.job) checkSteps(job.steps, `job "${job.job}"`, at);
+            else if (job.deployment) { if (!job.strategy) issues.push(error(`Deployment "${job.deployment}" is missing "strategy".`, at)); }
+            else issues.push(error(`Job ${i + 1} of ${owner} needs "job", "deployment" or "template".`, at));
+        });
+    };
+
+    if (doc.stages != null) {
+        if (!Array.isArray(doc.stages) || !doc.stages.length) issues.push(error('"stages" must be a non-empty list.', lineOf(doc, 'stages')));
+        else doc.stages.forEach((stage: unknown, i: number) => {
+            const at = lineOf(doc.stages, i);
+            if (!isMapping(stage)) issues.push(error(`Stage ${i + 1} must be a mapping.`, at));
+            else if (stage.template) return;
+            else if (!stage.stage) issues.push(error(`Stage ${i + 1} is missing "stage".`, at));
+            else checkJobs(stage.jobs, `stage "${stage.stage}"`, at);
+        });
+    } else if (doc.jobs != null) {
+        checkJobs(doc.jobs, "the pipeline", lineOf(doc, 'jobs'));
+    } else if (doc.steps != null) {
+        checkSteps(doc.steps, "the pipeline", lineOf(doc, 'steps'));
+    } else {
+        issues.push(error('The pipeline needs "stages", "jobs" or "steps".'));
+    }
+    if (doc.trigger == null && doc.pr == null) issues.push(warning('No "trigger"; the pipeline runs on every push to every branch.'));
+    return issues;
+};
+
+const CIRCLECI_EXECUTORS = ['docker', 'machine', 'macos', 'executor'];
+
+const checkCircleCi: YamlSchemaCheck = (doc, { lineOf }) => {
+    if (!isMapping(doc)) return [error("The config must be a mapping.")];
+    const issues: LintIssue[] = [];
+    if (doc.version == null) issues.push(error('Missing "version".'));
+    else if (![2, 2.1].includes(Number(doc.version))) issues.push(warning(`Unexpected version ${doc.version}; use 2.1.`, lineOf(doc, 'version')));
+
+    const jobs = isMapping(doc.jobs) ? doc.jobs : {};
+    if (!isMapping(doc.jobs) && !doc.orbs) issues.push(error('Missing "jobs".'));
+    Object.entries(jobs).forEach(([name, job]) => {
+        const at = lineOf(jobs, name);
+        if (!isMapping(job)) {
+            issues.push(error(`Job "${name}" must be a mapping.`, at));
+            return;
+        }
+        if (!CIRCLECI_EXECUTORS.some(key => key in job)) issues.push(error(`Job "${name}" needs an executor (docker, machine, macos or executor).`, at));
+        if (job.docker != null && (!Array.isArray(job.docker) || job.docker.some((d: unknown) => !isMapping(d) || !d.image))) {
+            issues.push(error(`Job "${name}" needs "docker" as a list of images.`, lineOf(job, 'docker')));
+        }
+        if (!Array.isArray(job.steps) || !job.steps.length) issues.push(error(`Job "${name}" has no steps.`, at));
+    });
+
+    if (!isMapping(doc.workflows)) {
+        if (!('build' in jobs)) issues.push(warning('No "workflows"; CircleCI then only runs a job named "build".'));
+        return issues;
+    }
+    Object.entries(doc.workflows).filter(([name]) => name !== 'version').forEach(([name, workflow]) => {
+        const at = lineOf(doc.workflows, name);
+        if (!isMapping(workflow) || !Array.isArray(workflow.jobs)) {
+            issues.push(error(`Workflow "${name}" needs a "jobs" list.`, at));
+            return;
+        }
+        workflow.jobs.forEach((entry: unknown, i: number) => {
+            const ref = isMapping(entry) ? Object.keys(entry)[0] : String(entry);
+            // Orb jobs (orb/job) are defined outside this file.
+            if (ref && !ref.includes('/') && !(ref in jobs)) issues.push(error(`Workflow "${name}" runs unknown job "${ref}".`, lineOf(workflow.jobs, i)));
+        });
+    });
+    return issues;
+};
+
+const CI_SCHEMAS: Record<Exclude<CiProvider, 'Jenkins'>, YamlSchemaCheck> = {
+    'GitHub Actions': checkGithubActions,
+    'GitLab CI': checkGitlabCi,
+    'Azure Pipelines': checkAzurePipelines,
+    'CircleCI': checkCircleCi
+};
+
+// Groovy is read with the JavaScript grammar, which covers its comments, strings and braces.
+const checkJenkinsfile = (text: string): LintIssue[] => {
+    const code = codeOnly(text, 'JavaScript');
+    const issues = checkDelimiters(code, false);
+    if (!/^\s*pipeline\s*\{/m.test(code)) issues.push(error('Missing the declarative "pipeline { ... }" block.'));
+    if (!/\bagent\b/.test(code)) issues.push(error('Missing "agent".'));
+    if (!/\bstages\s*\{/.test(code)) issues.push(error('Missing "stages { ... }".'));
+    else if (!/\bstage\s*\(/.test(code)) issues.push(error('"stages" contains no "stage(...)".'));
+    return issues;
+};
+
+// ---------------------------------------------------------------------------------------------
+// Dockerfile
+
+const DOCKER_INSTRUCTIONS = ['FROM', 'RUN', 'CMD', 'LABEL', 'MAINTAINER', 'EXPOSE', 'ENV', 'ADD', 'COPY', 'ENTRYPOINT', 'VOLUME', 'USER', 'WORKDIR', 'ARG', 'ONBUILD', 'STOPSIGNAL', 'HEALTHCHECK', 'SHELL'];
+
+interface Instruction {
+    keyword: string;
+    args: string;
+    line: number;
+}
+
+// Joins backslash continuations; comment lines inside a continuation are dropped, as Docker does.
+const readInstructions = (text: string, issues: LintIssue[]): Instruction[] => {
+    const instructions: Instruction[] = [];
+    let current: { text: string; line: number } | null = null;
+    const flush = () => {
+        if (!current) return;
+        const [keyword, ...rest] = current.text.trim().split(/\s+/);
+        instructions.push({ keyword: keyword.toUpperCase(), args: rest.join(' '), line: current.line });
+        current = null;
+    };
+    text.split('\n').forEach((raw, i) => {
+        const trimmed = raw.trim();
+        if (!trimmed || trimmed.startsWith('#')) return;
+        const continues = trimmed.endsWith('\\');
+        const piece = continues ? trimmed.slice(0, -1) : trimmed;
+        if (current) current.text += ' ' + piece;
+        else current = { text: piece, line: i + 1 };
+        if (!continues) flush();
+    });
+    if (current) {
+        issues.push(error("The last instruction ends with a line continuation.", (current as { line: number }).line));
+        flush();
+    }
+    return instructions;
+};
+
+const splitArgs = (args: string, line: number, issues: LintIssue[]): string[] => {
+    if (args.trim().startsWith('[')) {
+        try {
+            const parsed = JSON.parse(args);
+            if (Array.isArray(parsed)) return parsed.map(String);
+        } catch {
+            issues.push(error("Invalid JSON array; Docker will treat it as a shell command.", line));
+        }
+    }
+    return (args.match(/"[^"]*"|'[^']*'|\S+/g) ?? []).map(a => a.replace(/^["']|["']$/g, ''));
+};
+
+const globToRegExp = (glob: string) =>
+    new RegExp(`^${glob.replace(/[.+^${}()|\\]/g, '\\$&').replace(/\*/g, '[^/]*').replace(/\?/g, '[^/]')}$`);
+
+// A COPY source exists when it names a package file, a directory holding one, or a glob matching one.
+const inPackage = (source: string, paths: string[]): boolean => {
+    const normalized = source.replace(/^\.\//, '').replace(/\/+$/, '');
+    if (!normalized || normalized === '.') return true;
+    if (/[*?[]/.test(normalized)) {
+        const pattern = globToRegExp(normalized);
+        return paths.some(p => p.split('/').some((_, i, parts) => pattern.test(parts.slice(0, i + 1).join('/'))));
+    }
+    return paths.some(p => p === normalized || p.startsWith(`${normalized}/`));
+};
+
+const lintDockerfile = (text: string, paths: string[]): LintIssue[] => {
+    const issues: LintIssue[] = [];
+    const instructions = readInstructions(text, issues);
+    if (!instructions.length) return [error("The Dockerfile has no instructions.")];
+
+    const stageNames: string[] = [];
+    let sawFrom = false;
+    let user: string | null = null;
+    let cmds = 0;
+    let entrypoints = 0;
+
+    instructions.forEach(({ keyword, args, line }) => {
+        if (!DOCKER_INSTRUCTIONS.includes(keyword)) {
+            issues.push(error(`Unknown instruction "${keyword}".`, line));
+            return;
+        }
+        if (!sawFrom && keyword !== 'FROM' && keyword !== 'ARG') issues.push(error(`${keyword} appears before the first FROM.`, line));
+
+        switch (keyword) {
+            case 'FROM': {
+                sawFrom = true;
+                user = null;
+                cmds = entrypoints = 0;
+                const [image, as, name] = args.replace(/--platform=\S+\s*/, '').split(/\s+/);
+                if (!image) {
+                    issues.push(error("FROM needs an image.", line));
+                } else if (image !== 'scratch' && !image.includes('$') && !stageNames.includes(image.toLowerCase())) {
+                    const reference = image.split('/').pop() ?? image;
+                    if (!/[:@]/.test(reference)) issues.push(warning(`Base image "${image}" has no tag; pin a version.`, line));
+                    else if (reference.endsWith(':latest')) issues.push(warning(`Base image "${image}" uses :latest; pin a version.`, line));
+                }
+                if (as?.toUpperCase() === 'AS' && name) stageNames.push(name.toLowerCase());
+                break;
+            }
+            case 'COPY':
+            case 'ADD': {
+                const words = splitArgs(args, line, issues);
+                if (words.some(w => w.startsWith('--from='))) break;
+                const operands = words.filter(w => !w.startsWith('--'));
+                if (operands.length < 2) {
+                    issues.push(error(`${keyword} needs a source and a destination.`, line));
+                    break;
+                }
+                operands.slice(0, -1).forEach(source => {
+                    const remote = /^https?:\/\//.test(source);
+                    if (keyword === 'ADD' && !remote && !/\.(tar(\.\w+)?|tgz)$/.test(source)) {
+                        issues.push(warning(`Use COPY for "${source}"; ADD is for archives and URLs.`, line));
+                    }
+                    if (!remote && !source.includes('$') && !inPackage(source, paths)) {
+                        issues.push(error(`${keyword} source "${source}" is not in the package.`, line));
+                    }
+                });
+                break;
+            }
+            case 'RUN':
+                if (/\bapt-get\s+(-\S+\s+)*install\b/.test(args) && !/\s(-y|--yes|--assume-yes|-qq)\b/.test(args)) {
+                    issues.push(warning("apt-get install without -y stalls the build waiting for confirmation.", line));
+                }
+                if (/\bapt-get\s+update\b/.test(args) && !/\bapt-get\s+(-\S+\s+)*install\b/.test(args)) {
+                    issues.push(warning("apt-get update in its own RUN is cached separately; combine it with the install.", line));
+                }
+                if (/\bapk\s+add\b/.test(args) && !/--no-cache\b/.test(args)) issues.push(warning("apk add without --no-cache leaves the package index in the image.", line));
+                if (/\bsudo\b/.test(args)) issues.push(warning("sudo is unnecessary in RUN and usually missing from base images.", line));
+                if (/\b(curl|wget)\b[^|]*\|\s*(ba)?sh\b/.test(args)) issues.push(warning("Downloaded content is piped straight into a shell.", line));
+                break;
+            case 'USER':
+                user = args.trim();
+                break;
+            case 'CMD':
+                cmds++;
+                break;
+            case 'ENTRYPOINT':
+                entrypoints++;
+                break;
+            case 'WORKDIR':
+                if (!args.startsWith('/') && !args.startsWith('$')) issues.push(warning(`WORKDIR "${args}" is relative; use an absolute path.`, line));
+                break;
+            case 'EXPOSE':
+                args.split(/\s+/).filter(port => port && !port.startsWith('$') && !/^\d+(-\d+)?(\/(tcp|udp))?$/i.test(port))
+                    .forEach(port => issues.push(error(`EXPOSE "${port}" is not a port.`, line)));
+                break;
+            case 'MAINTAINER':
+                issues.push(warning("MAINTAINER is deprecated; use a LABEL.", line));
+                break;
+        }
+    });
+
+    if (!sawFrom) issues.push(error("Missing FROM."));
+    if (cmds > 1) issues.push(warning("The final stage has several CMD instructions; only the last takes effect."));
+    if (entrypoints > 1) issues.push(warning("The final stage has several ENTRYPOINT instructions; only the last takes effect."));
+    if (!user || /^(root|0)(:|$)/.test(user)) issues.push(warning("The final stage runs as root; add a USER instruction."));
+    return issues;
+};
+
+// ---------------------------------------------------------------------------------------------
+// Script syntax
+
+// Source with comments and string literals blanked out, keeping every newline so lines still line up.
+const codeOnly = (text: string, language: HighlightLanguage): string =>
+    highlightCode(text, language)
+        .map(t => (t.type === 'comment' || t.type === 'string' ? t.text.replace(/[^\n]/g, ' ') : t.text))
+        .join('');
+
+const CLOSERS: Record<string, string> = { ')': '(', ']': '[', '}': '{' };
+
+// Stops at the first mismatch: everything after it would be reported against the wrong opener.
+const checkDelimiters = (code: string, ignoreParens: boolean): LintIssue[] => {
+    const stack: { char: string; line: number }[] = [];
+    let line = 1;
+    for (let i = 0; i < code.length; i++) {
+        const c = code[i];
+        if (c === '\n') { line++; continue; }
+        if (code[i - 1] === '\\' || (ignoreParens && (c === '(' || c === ')'))) continue;
+        if (c === '(' || c === '[' || c === '{') {
+            stack.push({ char: c, line });
+        } else if (c in CLOSERS) {
+            const open = stack.pop();
+            if (!open) return [error(`Unmatched "${c}".`, line)];
+            if (open.char !== CLOSERS[c]) return [error(`"${c}" does not close "${open.char}" from line ${open.line}.`, line)];
+        }
+    }
+    return stack.map(open => error(`"${open.char}" is never closed.`, open.line));
+};
+
+const PYTHON_BLOCK = /^(async\s+)?(def|class|if|elif|else|for|while|try|except|finally|with|match|case)\b.*:$/;
+
+const checkPythonBlocks = (text: string, code: string): LintIssue[] => {
+    const issues: LintIssue[] = [];
+    const rawLines = text.split('\n');
+    const codeLines = code.split('\n');
+    const indents = rawLines.map(l => l.match(/^[ \t]*/)![0]);
+    const tabbed = indents.findIndex((ws, i) => rawLines[i].trim() && ws.includes('\t'));
+    const spaced = indents.findIndex((ws, i) => rawLines[i].trim() && ws.includes(' '));
+    if (tabbed >= 0 && spaced >= 0) issues.push(error("Indentation mixes tabs and spaces.", Math.max(tabbed, spaced) + 1));
+
+    codeLines.forEach((line, i) => {
+        if (!PYTHON_BLOCK.test(line.trim())) return;
+        const next = rawLines.findIndex((l, j) => j > i && l.trim() && !l.trim().startsWith('#'));
+        if (next < 0 || indents[next].length <= indents[i].length) issues.push(error("Expected an indented block after this line.", i + 1));
+    });
+    return issues;
+};
+
+const BASH_PAIRS: [string, RegExp, string, RegExp][] = [
+    ['if', /(^|[\s;&|(!])if(?=\s)/gm, 'fi', /(^|[\s;&|])fi(?=[\s;)&|]|$)/gm],
+    ['case', /(^|[\s;&|(])case(?=\s)/gm, 'esac', /(^|[\s;&|])esac(?=[\s;)&|]|$)/gm],
+    ['do', /(^|[\s;&|])do(?=\s|$)/gm, 'done', /(^|[\s;&|])done(?=[\s;)&|<>]|$)/gm]
+];
+
+const checkSyntax = (text: string, language: Exclude<Language, 'Auto'>, path: string): LintIssue[] => {
+    if (language === 'JSON') return checkJson(text);
+    if (language === 'YAML') return checkYaml(text);
+
+    const code = codeOnly(text, language);
+    // Bash case patterns close a parenthesis they never opened.
+    const issues = checkDelimiters(code, language === 'Bash');
+    const stray = code.split('\n').findIndex(line => /(^|[^\\])"/.test(line));
+    if (stray >= 0) issues.push(warning("Possibly unterminated string literal.", stray + 1));
+
+    switch (language) {
+        case 'Python':
+            issues.push(...checkPythonBlocks(text, code));
+            break;
+        case 'Bash':
+            BASH_PAIRS.forEach(([open, openPattern, close, closePattern]) => {
+                const opened = code.match(openPattern)?.length ?? 0;
+                const closed = code.match(closePattern)?.length ?? 0;
+                if (opened !== closed) issues.push(error(`"${open}" appears ${opened} time(s) but "${close}" ${closed}.`));
+            });
+            break;
+        case 'Go':
+            if (!/^\s*package\s+\w+/m.test(code)) issues.push(error("Missing the package clause."));
+            break;
+        case 'PHP':
+            if (!text.trimStart().startsWith('<?php')) issues.push(error('PHP files must start with "<?php".', 1));
+            break;
+        case 'Java': {
+            const declared = code.match(/\bpublic\s+(?:final\s+|abstract\s+)*(?:class|interface|record|enum)\s+(\w+)/);
+            const expected = basename(path).replace(/\.java$/, '');
+            if (declared && declared[1] !== expected) issues.push(error(`Public type "${declared[1]}" must be declared in ${declared[1]}.java, not ${basename(path)}.`));
+            break;
+        }
+        case 'Rust':
+            if (basename(path) === 'main.rs' && !/\bfn\s+main\s*\(/.test(code)) issues.push(error("main.rs has no fn main()."));
+            break;
+        case 'Perl':
+            if (!/\buse\s+strict\b/.test(code)) issues.push(warning('Missing "use strict;".'));
+            break;
+    }
+    return issues;
+};
+
+// ---------------------------------------------------------------------------------------------
+// systemd
+
+const SYSTEMD_TIMER_KEYS = ['OnCalendar', 'OnBootSec', 'OnStartupSec', 'OnActiveSec', 'OnUnitActiveSec', 'OnUnitInactiveSec'];
+
+const checkSystemdUnit = (text: string, path: string): LintIssue[] => {
+    const issues: LintIssue[] = [];
+    const sections: Record<string, string[]> = {};
+    let section: string | null = null;
+    text.split('\n').forEach((raw, i) => {
+        const line = raw.trim();
+        if (!line || line.startsWith('#') || line.startsWith(';')) return;
+        const header = line.match(/^\[([\w-]+)\]$/);
+        if (header) {
+            section = header[1];
+            sections[section] = sections[section] ?? [];
+        } else if (!/^[A-Za-z][\w-]*\s*=/.test(line)) {
+            issues.push(error(`Expected "Key=Value" or a [Section] header.`, i + 1));
+        } else if (!section) {
+            issues.push(error("Setting appears before any [Section] header.", i + 1));
+        } else {
+            sections[section].push(line.split('=')[0].trim());
+        }
+    });
+
+    if (path.endsWith('.service') && !sections.Service?.includes('ExecStart')) issues.push(error("[Service] is missing ExecStart="));
+    if (path.endsWith('.timer')) {
+        if (!sections.Timer?.some(key => SYSTEMD_TIMER_KEYS.includes(key))) issues.push(error("[Timer] has no schedule (OnCalendar= or a monotonic On*Sec=)."));
+        if (!sections.Install) issues.push(warning("No [Install] section, so the timer cannot be enabled."));
+    }
+    return issues;
+};
+
+// ---------------------------------------------------------------------------------------------
+
+const languageForPath = (path: string, fallback: Language): Language => {
+    const language = highlightLanguageForPath(path);
+    return language === 'Auto' || language === 'Dockerfile' ? fallback : language;
+};
+
+const checkFile = (file: ProjectFile, target: ValidationTarget, paths: string[]): Omit<FileValidation, 'path' | 'role'> => {
+    // Fixtures are the user's own sample inputs, malformed on purpose as often as not.
+    if (!file.content.trim() || file.role === 'fixture') return { issues: [] };
+    switch (file.role) {
+        case 'cicd':
+            return {
+                check: `${target.ciProvider} schema`,
+                issues: target.ciProvider === 'Jenkins' ? checkJenkinsfile(file.content) : checkYaml(file.content, CI_SCHEMAS[target.ciProvider])
+            };
+        case 'dockerfile':
+            return { check: "Dockerfile lint", issues: lintDockerfile(file.content, paths) };
+        case 'script':
+        case 'tests': {
+            const language = file.role === 'script' ? target.language : languageForPath(file.path, target.language);
+            return language === 'Auto' ? { issues: [] } : { check: `${language} syntax`, issues: checkSyntax(file.content, language, file.path) };
+        }
+    }
+
+    // Helm templates are Go templates that only become YAML once rendered.
+    if (/\/templates\//.test(file.path) && file.content.includes('{{')) return { issues: [] };
+    if (/\.json$/i.test(file.path)) return { check: "JSON", issues: checkJson(file.content) };
+    if (/\.ya?ml$/i.test(file.path)) {
+        return file.role === 'deploy'
+            ? { check: "YAML and manifest fields", issues: checkYaml(file.content, checkKubernetesDocument) }
+            : { check: "YAML", issues: checkYaml(file.content) };
+    }
+    if (/\.(service|timer)$/.test(file.path)) return { check: "systemd unit", issues: checkSystemdUnit(file.content, file.path) };
+    return { issues: [] };
+};
+
+// Models sometimes skip the deployment files; the package still works from the Dockerfile, so this only warns.
+const checkDeployFiles = (files: ProjectFile[], environment: Environment): LintIssue[] =>
+    DEPLOYMENT_ENVIRONMENTS.includes(environment) && !files.some(f => f.role === 'deploy')
+        ? [warning(`No deployment files for ${environment}; only the image can be deployed. Regenerate or refine to add them.`)]
+        : [];
+
+/**
+ * Runs the offline checks over every package file, plus the cross-file checks: configuration
+ * (inlined secrets, Dockerfile ENV lines the script never reads) and deployment files missing for
+ * the environment, reported on the Dockerfile. Issues are sorted by line, file-level ones first.
+ */
+export const validateArtifacts = (files: ProjectFile[], target: ValidationTarget): FileValidation[] => {
+    // The export always writes a README next to these files, so a Dockerfile may COPY it.
+    const paths = [...files.map(f => f.path), 'README.md'];
+    const configIssues = extractConfig(files, target.language).issues;
+    const deployIssues = checkDeployFiles(files, target.environment);
+    return files.map(file => {
+        const result = checkFile(file, target, paths);
+        const config: LintIssue[] = configIssues.filter(i => i.path === file.path).map(({ path, ...issue }) => issue);
+        const deploy = file.role === 'dockerfile' ? deployIssues : [];
+        const check = config.length ? [result.check, "configuration"].filter(Boolean).join(' + ') : result.check;
+        return { path: file.path, role: file.role, check, issues: [...result.issues, ...deploy, ...config].sort((a, b) => (a.line ?? 0) - (b.line ?? 0)) };
+    });
+};
@@ -0,0 +1,86 @@
+import { describe, expect, it } from "vitest";
+import { buildAttachmentContext, detectAttachmentKind, summarizeSpec } from "./attachmentContext";
+import { fixtureFiles, projectFiles } from "./scriptPackage";
+import { parseModelResponse } from "./responseParser";
+import { MOCK_RECORDED_RESPONSE } from "./providers";
+import { Attachment } from "./types";
+
+const OPENAPI = JSON.stringify({
+    openapi: "3.0.1",
+    info: { title: "Orders", version: "1.0" },
+    components: { schemas: { Order: { type: "object", required: ["id"], properties: { id: { type: "integer" }, status: { enum: ["open", "closed"] } } } } },
+    paths: { "/orders/{id}": { get: { summary: "Get an order", parameters: [{ name: "id", in: "path", required: true }], responses: { 200: {}, 404: {} } } } }
+});
+
+const csv = (rows: number) => `id,total\n${Array.from({ length: rows }, (_, i) => `${i},${i * 2}`).join('\n')}`;
+
+describe("detectAttachmentKind", () => {
+    it("uses the extension and spec markers", () => {
+        expect(detectAttachmentKind('legacy.sh', '')).toBe('code');
+        expect(detectAttachmentKind('api.json', OPENAPI)).toBe('spec');
+        expect(detectAttachmentKind('schema.yaml', '$schema: https://json-schema.org/draft/2020-12/schema\n')).toBe('spec');
+        expect(detectAttachmentKind('orders.json', '[{"id": 1}]')).toBe('sample');
+    });
+});
+
+describe("summarizeSpec", () => {
+    it("outlines OpenAPI schemas and endpoints", () => {
+        const summary = summarizeSpec(OPENAPI)!;
+        expect(summary).toContain('Order: id*: integer, status: open|closed');
+        expect(summary).toContain('- GET /orders/{id} — Get an order (params: id* (path); responses: 200, 404)');
+    });
+
+    it("returns null for documents that are not specs", () => {
+        expect(summarizeSpec('[1, 2]')).toBeNull();
+    });
+});
+
+describe("buildAttachmentContext", () => {
+    it("includes small files verbatim", () => {
+        const { digests, text } = buildAttachmentContext([{ name: 'a.csv', kind: 'sample', content: csv(3) }]);
+        expect(digests[0].treatment).toBe('full');
+        expect(text).toContain('packaged as fixtures/a.csv');
+    });
+
+    it("keeps a large file within its share of the budget", () => {
+        const attachments: Attachment[] = [
+            { name: 'big.csv', kind: 'sample', content: csv(20_000) },
+            { name: 'small.csv', kind: 'sample', content: csv(2) }
+        ];
+        const { digests, text } = buildAttachmentContext(attachments, 1000);
+        expect(digests[0].treatment).toBe('truncated');
+        expect(digests[0].tokens).toBeLessThanOrEqual(1000);
+        expect(digests[1].treatment).toBe('full');
+        expect(text).toMatch(/more line\(s\) omitted/);
+    });
+
+    it("summarizes a spec that does not fit", () => {
+        const { digests } = buildAttachmentContext([{ name: 'api.json', kind: 'spec', content: OPENAPI }], 20);
+        expect(digests[0].treatment).toBe('summarized');
+    });
+
+    it("keeps the head, tail and omitted signatures of long code", () => {
+        const body = Array.from({ length: 200 }, (_, i) => `def step_${i}(x):\n    return x + ${i}\n`).join('\n');
+        const { digests, text } = buildAttachmentContext([{ name: 'legacy.py', kind: 'code', content: `import os\n\n${body}\nmain()\n` }], 300);
+        expect(digests[0].tokens).toBeLessThanOrEqual(300);
+        expect(text).toContain('import os');
+        expect(text).toContain('main()');
+        expect(text).toMatch(/line\(s\) omitted; they define/);
+    });
+});
+
+describe("fixtures", () => {
+    it("packages samples once under fixtures/ and keeps model files off their paths", () => {
+        const attachments: Attachment[] = [
+            { name: 'in/orders.csv', kind: 'sample', content: 'a' },
+            { name: 'orders.csv', kind: 'sample', content: 'b' },
+            { name: 'legacy.py', kind: 'code', content: 'c' }
+        ];
+        expect(fixtureFiles(attachments)).toEqual([{ path: 'fixtures/orders.csv', role: 'fixture', content: 'a' }]);
+
+        const response = parseModelResponse(MOCK_RECORDED_RESPONSE);
+        response.files = [...(response.files ?? []), { path: 'fixtures/orders.csv', role: 'fixture', content: 'model' }];
+        const packaged = projectFiles(response, { language: 'Python', attachments });
+        expect(packaged.filter(f => f.path === 'fixtures/orders.csv').map(f => f.content)).toEqual(['a']);
+    });
+});
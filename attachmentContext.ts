@@ -0,0 +1,249 @@
+import { Attachment, AttachmentDigest, AttachmentKind } from "./types";
+import { estimateTokens } from "./usageTracker";
+import { parseYaml } from "./yamlParser";
+import { fixturePath } from "./scriptPackage";
+
+/**
+ * Fits the files attached to a request into the prompt. Each attachment gets a fair share of a
+ * token budget: files that fit go in verbatim, OpenAPI and JSON Schema documents are summarized
+ * to their endpoints and fields, sample inputs keep their first rows, and code keeps its head,
+ * its tail and the signatures in between. Counts are the same length estimate the usage log uses.
+ */
+
+export const ATTACHMENT_KINDS: AttachmentKind[] = ['code', 'sample', 'spec'];
+export const DEFAULT_ATTACHMENT_TOKEN_BUDGET = 6000;
+export const MAX_ATTACHMENTS = 8;
+/** Per file, as uploaded; the server caps the total separately. */
+export const MAX_ATTACHMENT_CHARS = 200_000;
+
+export const ATTACHMENT_KIND_LABELS: Record<AttachmentKind, string> = {
+    code: 'Existing code',
+    sample: 'Sample input',
+    spec: 'API spec / schema'
+};
+
+const CODE_EXTENSIONS = /\.(py|sh|bash|zsh|ps1|psm1|js|mjs|cjs|ts|go|rb|rs|java|cs|php|pl|pm|groovy|tf|bicep)$/i;
+// A top-level key at the start of a line, or anywhere in minified JSON.
+const SPEC_MARKERS = /(^|[{,])\s*["']?(openapi|swagger|\$schema)["']?\s*:/m;
+
+/** Guesses what an uploaded file is from its name and, for JSON and YAML, its top-level keys. */
+export const detectAttachmentKind = (name: string, content: string): AttachmentKind => {
+    if (/(^|\/)(Dockerfile|Makefile|Jenkinsfile)$/.test(name) || CODE_EXTENSIONS.test(name)) return 'code';
+    if (/\.(json|ya?ml)$/i.test(name) && SPEC_MARKERS.test(content.slice(0, 4000))) return 'spec';
+    return 'sample';
+};
+
+// -----------------------------------------------------------------------------
+// Spec summaries
+// -----------------------------------------------------------------------------
+
+const HTTP_METHODS = ['get', 'put', 'post', 'delete', 'patch', 'head', 'options'];
+
+const isObject = (value: unknown): value is Record<string, any> => !!value && typeof value === 'object' && !Array.isArray(value);
+
+const parseDocument = (content: string): unknown => {
+    try {
+        return JSON.parse(content);
+    } catch {
+        const yaml = parseYaml(content);
+        return yaml.errors.length ? undefined : yaml.documents[0];
+    }
+};
+
+const refName = (ref: unknown) => typeof ref === 'string' ? ref.split('/').pop() : undefined;
+
+// "string", "integer[]", "Pet", "active|disabled"
+const typeOf = (schema: any): string => {
+    if (!isObject(schema)) return 'any';
+    if (schema.$ref) return refName(schema.$ref) ?? 'object';
+    if (Array.isArray(schema.enum)) return schema.enum.map(String).join('|');
+    if (schema.type === 'array') return `${typeOf(schema.items)}[]`;
+    const variants = schema.oneOf ?? schema.anyOf;
+    if (Array.isArray(variants)) return variants.map(typeOf).join(' | ');
+    return Array.isArray(schema.type) ? schema.type.join('|') : schema.type ?? (schema.properties ? 'object' : 'any');
+};
+
+const describeFields = (schema: any): string => {
+    if (!isObject(schema?.properties)) return typeOf(schema);
+    const required = new Set<string>(Array.isArray(schema.required) ? schema.required : []);
+    return Object.entries(schema.properties)
+        .map(([name, field]) => `${name}${required.has(name) ? '*' : ''}: ${typeOf(field)}`)
+        .join(', ');
+};
+
+const bodySchema = (operation: any): any => {
+    if (operation.requestBody) {
+        const content = operation.requestBody.content ?? {};
+        return (content['application/json'] ?? Object.values(content)[0])?.schema;
+    }
+    // Swagger 2 puts the body among the parameters.
+    return (operation.parameters ?? []).find((p: any) => p?.in === 'body')?.schema;
+};
+
+const summarizeOpenApi = (doc: Record<string, any>): string => {
+    const lines: string[] = [];
+    const info = doc.info ?? {};
+    lines.push(`${doc.openapi ? `OpenAPI ${doc.openapi}` : `Swagger ${doc.swagger}`}: ${info.title ?? 'untitled'}${info.version ? ` v${info.version}` : ''}`);
+    const servers = Array.isArray(doc.servers) ? doc.servers.map((s: any) => s?.url).filter(Boolean) : doc.host ? [`${doc.host}${doc.basePath ?? ''}`] : [];
+    if (servers.length) lines.push(`Servers: ${servers.join(', ')}`);
+    const schemes = Object.entries(doc.components?.securitySchemes ?? doc.securityDefinitions ?? {})
+        .map(([name, s]: [string, any]) => `${name} (${[s?.type, s?.scheme, s?.in && `in ${s.in}`, s?.name].filter(Boolean).join(' ')})`);
+    if (schemes.length) lines.push(`Auth: ${schemes.join(', ')}`);
+
+    // Schemas come first: there are usually fewer of them, and a long endpoint list is what gets truncated.
+    const schemas = Object.entries(doc.components?.schemas ?? doc.definitions ?? {});
+    if (schemas.length) {
+        lines.push('', 'Schemas (* = required):');
+        schemas.forEach(([name, schema]) => lines.push(`- ${name}: ${describeFields(schema)}`));
+    }
+
+    lines.push('', 'Endpoints:');
+    Object.entries(doc.paths ?? {}).forEach(([route, item]: [string, any]) => {
+        HTTP_METHODS.filter(method => isObject(item?.[method])).forEach(method => {
+            const op = item[method];
+            const params = [...(item.parameters ?? []), ...(op.parameters ?? [])]
+                .filter((p: any) => p?.name && p.in !== 'body')
+                .map((p: any) => `${p.name}${p.required ? '*' : ''} (${p.in})`);
+            const body = bodySchema(op);
+            const responses = Object.keys(op.responses ?? {});
+            const details = [
+                params.length ? `params: ${params.join(', ')}` : '',
+                body ? `body: ${typeOf(body)}` : '',
+                responses.length ? `responses: ${responses.join(', ')}` : ''
+            ].filter(Boolean).join('; ');
+            lines.push(`- ${method.toUpperCase()} ${route}${op.summary ? ` — ${op.summary}` : ''}${details ? ` (${details})` : ''}`);
+        });
+    });
+    return lines.join('\n');
+};
+
+const summarizeJsonSchema = (doc: Record<string, any>): string => {
+    const lines = [`JSON Schema${doc.title ? `: ${doc.title}` : ''} (${typeOf(doc)})`];
+    if (doc.description) lines.push(String(doc.description));
+    const walk = (schema: any, prefix: string, depth: number) => {
+        const node = schema?.type === 'array' ? schema.items : schema;
+        if (!isObject(node?.properties) || depth > 3) return;
+        const required = new Set<string>(Array.isArray(node.required) ? node.required : []);
+        Object.entries(node.properties).forEach(([name, field]: [string, any]) => {
+            const path = `${prefix}${name}`;
+            const notes = [field?.format, field?.default !== undefined && `default ${JSON.stringify(field.default)}`].filter(Boolean).join(', ');
+            lines.push(`- ${path}${required.has(name) ? '*' : ''}: ${typeOf(field)}${notes ? ` (${notes})` : ''}`);
+            walk(field, `${path}${field?.type === 'array' ? '[].' : '.'}`, depth + 1);
+        });
+    };
+    walk(doc, '', 0);
+    const definitions = Object.entries(doc.$defs ?? doc.definitions ?? {});
+    if (definitions.length) {
+        lines.push('', 'Definitions:');
+        definitions.forEach(([name, schema]) => lines.push(`- ${name}: ${describeFields(schema)}`));
+    }
+    return lines.join('\n');
+};
+
+/** Condensed outline of an OpenAPI, Swagger or JSON Schema document, or null when it is neither. */
+export const summarizeSpec = (content: string): string | null => {
+    const doc = parseDocument(content);
+    if (!isObject(doc)) return null;
+    if (doc.openapi || doc.swagger) return summarizeOpenApi(doc);
+    if (doc.$schema || doc.properties || doc.$defs || doc.definitions) return summarizeJsonSchema(doc);
+    return null;
+};
+
+// -----------------------------------------------------------------------------
+// Truncation
+// -----------------------------------------------------------------------------
+
+// Room kept for each "[... omitted]" note, so a truncated file stays within its share.
+const NOTE_CHARS = 64;
+
+// Whole lines from the start that fit in `chars`; a single overlong line is cut.
+const headLines = (lines: string[], chars: number): string[] => {
+    const kept: string[] = [];
+    if (chars <= 0) return kept;
+    let used = 0;
+    for (const line of lines) {
+        if (used + line.length + 1 > chars) {
+            if (!kept.length) kept.push(line.slice(0, chars));
+            break;
+        }
+        kept.push(line);
+        used += line.length + 1;
+    }
+    return kept;
+};
+
+const truncateSample = (content: string, chars: number): string => {
+    const lines = content.split('\n');
+    const kept = headLines(lines, chars - NOTE_CHARS);
+    return `${kept.join('\n')}\n[... ${lines.length - kept.length} more line(s) omitted]`;
+};
+
+const SIGNATURE = /^\s*(?:export\s+)?(?:async\s+)?(?:def|class|function|func|sub|fn|pub\s+fn|module|interface|type|struct|resource|Function)\b|^\s*(?:public|private|protected|internal|static)\s.*\(|^\s*[\w-]+\s*\(\)\s*\{/;
+
+// Keeps the imports and setup at the top and the entry point at the bottom, and lists what was cut.
+const truncateCode = (content: string, chars: number): string => {
+    const lines = content.split('\n');
+    const head = headLines(lines, Math.floor(chars * 0.55));
+    const tail = headLines([...lines].reverse(), Math.floor(chars * 0.25)).reverse();
+    const middle = lines.slice(head.length, Math.max(head.length, lines.length - tail.length));
+    const defined = middle.filter(line => SIGNATURE.test(line)).map(line => line.trimEnd());
+    const signatures = headLines(defined, chars - 2 * NOTE_CHARS - [...head, ...tail].join('\n').length);
+    const listed = signatures.length < defined.length ? ` (first ${signatures.length} of ${defined.length})` : '';
+    const omitted = `[... ${middle.length} line(s) omitted${signatures.length ? `; they define${listed}:` : ''}]`;
+    return [...head, omitted, ...signatures, ...(signatures.length ? ['[... end of omitted lines]'] : []), ...tail].join('\n');
+};
+
+// -----------------------------------------------------------------------------
+// Budgeting
+// -----------------------------------------------------------------------------
+
+const fitAttachment = (attachment: Attachment, budget: number): { text: string, digest: AttachmentDigest } => {
+    const originalTokens = estimateTokens(attachment.content);
+    const digest = (treatment: AttachmentDigest['treatment'], text: string) =>
+        ({ text, digest: { name: attachment.name, kind: attachment.kind, treatment, originalTokens, tokens: estimateTokens(text) } });
+    if (originalTokens <= budget) return digest('full', attachment.content);
+
+    const chars = budget * 4;
+    if (attachment.kind === 'spec') {
+        const summary = summarizeSpec(attachment.content);
+        if (summary) return digest('summarized', summary.length <= chars ? summary : truncateSample(summary, chars));
+    }
+    return digest('truncated', attachment.kind === 'code' ? truncateCode(attachment.content, chars) : truncateSample(attachment.content, chars));
+};
+
+/**
+ * Shares `budget` tokens across the attachments: small files take what they need and the rest
+ * is split evenly between the larger ones, so one huge file cannot crowd out the others.
+ */
+const allocateBudget = (attachments: Attachment[], budget: number): number[] => {
+    const shares = new Array<number>(attachments.length).fill(0);
+    const order = attachments.map((a, i) => ({ i, need: estimateTokens(a.content) })).sort((a, b) => a.need - b.need);
+    let remaining = budget;
+    order.forEach(({ i, need }, n) => {
+        shares[i] = Math.min(need, Math.floor(remaining / (order.length - n)));
+        remaining -= shares[i];
+    });
+    return shares;
+};
+
+const TREATMENT_NOTES: Record<AttachmentDigest['treatment'], string> = {
+    full: 'complete',
+    truncated: 'truncated to fit',
+    summarized: 'summarized to its endpoints and fields'
+};
+
+export interface AttachmentContext {
+    /** Prompt section with every attachment; empty when there are none. */
+    text: string;
+    digests: AttachmentDigest[];
+}
+
+export const buildAttachmentContext = (attachments: Attachment[] = [], budget = DEFAULT_ATTACHMENT_TOKEN_BUDGET): AttachmentContext => {
+    const shares = allocateBudget(attachments, budget);
+    const fitted = attachments.map((a, i) => fitAttachment(a, shares[i]));
+    const text = fitted.map(({ text, digest }, i) => {
+        const fixture = attachments[i].kind === 'sample' ? `; packaged as ${fixturePath(digest.name)}` : '';
+        return `--- BEGIN ${digest.name} (${ATTACHMENT_KIND_LABELS[digest.kind]}, ${TREATMENT_NOTES[digest.treatment]}${fixture}) ---\n${text}\n--- END ${digest.name} ---`;
+    }).join('\n\n');
+    return { text, digests: fitted.map(f => f.digest) };
+};
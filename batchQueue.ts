@@ -0,0 +1,302 @@
+import { BatchImportError, BatchRow, BatchRowStatus, ScriptRequest, TimeSavedModel, ValueMetrics } from "./types";
+import { EngineError } from "./engineErrors";
+import { analyzePackage } from "./safetyAnalyzer";
+import { estimateMetrics } from "./metricsEstimator";
+import { CI_PROVIDERS, DEFAULT_REQUEST_OPTIONS, ENVIRONMENTS, LANGUAGES, SAFETY_LEVELS, SCRIPT_TYPES, buildPackageFiles, ciProviderOf, matchOption, projectFiles, resolvedLanguage } from "./scriptPackage";
+
+/**
+ * Batch generation: imports JSONL or CSV lists of ScriptRequests, drains them through a
+ * concurrency-limited queue that backs off on rate limits, and lays the results out as one archive.
+ */
+
+type BatchField = Exclude<keyof ScriptRequest, 'attachments'>;
+
+// Accepted spellings for each ScriptRequest field, compared case- and punctuation-insensitively.
+// Attachments are files rather than values, so batch rows carry none.
+const FIELD_ALIASES: Record<BatchField, string[]> = {
+    description: ['description', 'desc', 'prompt', 'task'],
+    language: ['language', 'lang'],
+    environment: ['environment', 'env'],
+    safetyLevel: ['safetylevel', 'safety'],
+    scriptType: ['scripttype', 'type'],
+    includeTests: ['includetests', 'tests'],
+    ciProvider: ['ciprovider', 'ci', 'cicd'],
+    includeHelmChart: ['includehelmchart', 'helm']
+};
+
+const fieldFor = (key: string): BatchField | undefined => {
+    const normalized = key.toLowerCase().replace(/[^a-z]/g, '');
+    return (Object.keys(FIELD_ALIASES) as BatchField[]).find(f => FIELD_ALIASES[f].includes(normalized));
+};
+
+const parseBoolean = (value: unknown): boolean | null => {
+    if (typeof value === 'boolean') return value;
+    const text = String(value).trim().toLowerCase();
+    if (['true', 'yes', 'y', '1'].includes(text)) return true;
+    if (['false', 'no', 'n', '0'].includes(text)) return false;
+    return null;
+};
+
+/** Builds a request from loosely keyed fields; blank fields take the CLI defaults. */
+const toRequest = (record: Record<string, unknown>): ScriptRequest => {
+    const fields: Partial<Record<BatchField, unknown>> = {};
+    Object.entries(record).forEach(([key, value]) => {
+        const field = fieldFor(key);
+        if (field && value !== undefined && value !== null && String(value).trim() !== '') fields[field] = value;
+    });
+
+    const description = typeof fields.description === 'string' ? fields.description.trim() : '';
+    if (!description) throw new Error("Missing description.");
+
+    const pick = <T extends string>(options: T[], field: BatchField, fallback: T): T => {
+        if (fields[field] === undefined) return fallback;
+        const match = matchOption(options, String(fields[field]));
+        if (!match) throw new Error(`Invalid ${field} "${fields[field]}".`);
+        return match;
+    };
+    const includeTests = fields.includeTests === undefined ? DEFAULT_REQUEST_OPTIONS.includeTests : parseBoolean(fields.includeTests);
+    if (includeTests === null) throw new Error(`Invalid includeTests "${fields.includeTests}".`);
+    const includeHelmChart = fields.includeHelmChart === undefined ? !!DEFAULT_REQUEST_OPTIONS.includeHelmChart : parseBoolean(fields.includeHelmChart);
+    if (includeHelmChart === null) throw new Error(`Invalid includeHelmChart "${fields.includeHelmChart}".`);
+
+    return {
+        description,
+        language: pick(LANGUAGES, 'language', DEFAULT_REQUEST_OPTIONS.language),
+        environment: pick(ENVIRONMENTS, 'environment', DEFAULT_REQUEST_OPTIONS.environment),
+        safetyLevel: pick(SAFETY_LEVELS, 'safetyLevel', DEFAULT_REQUEST_OPTIONS.safetyLevel),
+        scriptType: pick(SCRIPT_TYPES, 'scriptType', DEFAULT_REQUEST_OPTIONS.scriptType),
+        includeTests,
+        ciProvider: pick(CI_PROVIDERS, 'ciProvider', ciProviderOf(DEFAULT_REQUEST_OPTIONS)),
+        includeHelmChart
+    };
+};
+
+/** RFC 4180 records: quoted fields may contain commas, doubled quotes and newlines. */
+export const parseCsv = (text: string): string[][] => {
+    const records: string[][] = [];
+    let record: string[] = [];
+    let field = '';
+    let quoted = false;
+
+    for (let i = 0; i < text.length; i++) {
+        const c = text[i];
+        if (quoted) {
+            if (c === '"' && text[i + 1] === '"') { field += '"'; i++; }
+            else if (c === '"') quoted = false;
+            else field += c;
+        } else if (c === '"' && field === '') {
+            quoted = true;
+        } else if (c === ',') {
+            record.push(field);
+            field = '';
+        } else if (c === '\n' || c === '\r') {
+            if (c === '\r' && text[i + 1] === '\n') i++;
+            record.push(field);
+            records.push(record);
+            record = [];
+            field = '';
+        } else {
+            field += c;
+        }
+    }
+    if (field !== '' || record.length) records.push([...record, field]);
+    return records.filter(r => r.some(f => f.trim() !== ''));
+};
+
+/**
+ * Parses a JSONL (one request object per line) or CSV (header row naming the fields) import.
+ * The format is taken from the extension, falling back to sniffing the first character.
+ * Rows that fail validation are reported with their 1-based row number and skipped.
+ */
+export const parseBatchFile = (text: string, fileName: string): { requests: { row: number; request: ScriptRequest }[]; errors: BatchImportError[] } => {
+    const requests: { row: number; request: ScriptRequest }[] = [];
+    const errors: BatchImportError[] = [];
+    const isJsonl = /\.(jsonl|ndjson|json)$/i.test(fileName) || !/\.csv$/i.test(fileName) && text.trimStart().startsWith('{');
+
+    const add = (row: number, build: () => ScriptRequest) => {
+        try {
+            requests.push({ row, request: build() });
+        } catch (error: any) {
+            errors.push({ row, message: error.message });
+        }
+    };
+
+    if (isJsonl) {
+        text.split(/\r?\n/).forEach((line, i) => {
+            if (!line.trim()) return;
+            add(i + 1, () => {
+                let record: any;
+                try {
+                    record = JSON.parse(line);
+                } catch {
+                    throw new Error("Not valid JSON.");
+                }
+                if (!record || typeof record !== 'object' || Array.isArray(record)) throw new Error("Expected a JSON object.");
+                // Accept backlog-style lines that carry the task under `title`/`body`.
+                if (record.description === undefined && typeof record.body === 'string') {
+                    record = { ...record, description: record.title ? `${record.title}\n\n${record.body}` : record.body };
+                }
+                return toRequest(record);
+            });
+        });
+    } else {
+        const [header, ...rows] = parseCsv(text);
+        if (!header || !header.some(h => fieldFor(h) === 'description')) {
+            return { requests, errors: [{ row: 1, message: "The CSV header must include a description column." }] };
+        }
+        rows.forEach((values, i) => add(i + 2, () => toRequest(Object.fromEntries(header.map((h, j) => [h, values[j]])))));
+    }
+    return { requests, errors };
+};
+
+export interface QueueOptions {
+    concurrency: number;
+    maxAttempts: number;
+    /** First backoff delay; doubles on every further attempt unless the server names one. */
+    baseDelayMs: number;
+    signal: AbortSignal;
+}
+
+export const DEFAULT_QUEUE_OPTIONS: Omit<QueueOptions, 'signal'> = {
+    concurrency: 2,
+    maxAttempts: 4,
+    baseDelayMs: 2000
+};
+
+// Rate limits, timeouts, provider failures and dropped connections are worth another attempt;
+// rejected requests and bad credentials are not.
+const isRetryable = (error: any) => error instanceof EngineError && error.retryable;
+
+const sleep = (ms: number, signal: AbortSignal) => new Promise<void>(resolve => {
+    const timer = setTimeout(done, ms);
+    signal.addEventListener('abort', done);
+    function done() {
+        clearTimeout(timer);
+        signal.removeEventListener('abort', done);
+        resolve();
+    }
+});
+
+/**
+ * Generates every queued row with at most `concurrency` requests in flight. A 429 pauses the
+ * whole queue until its Retry-After has passed, since every worker shares the same client limit.
+ * Aborting returns unfinished rows to `queued` so they can be started again.
+ */
+export const runBatchQueue = async (
+    rows: BatchRow[],
+    generate: (request: ScriptRequest, signal: AbortSignal) => Promise<NonNullable<BatchRow['result']>>,
+    update: (row: number, patch: Partial<BatchRow>) => void,
+    options: QueueOptions
+): Promise<void> => {
+    const { concurrency, maxAttempts, baseDelayMs, signal } = options;
+    const pending = [...rows];
+    let pausedUntil = 0;
+
+    const worker = async () => {
+        for (let item = pending.shift(); item && !signal.aborted; item = pending.shift()) {
+            let attempts = item.attempts;
+            while (!signal.aborted) {
+                if (pausedUntil > Date.now()) {
+                    update(item.row, { status: 'waiting', retryAt: pausedUntil });
+                    await sleep(pausedUntil - Date.now(), signal);
+                    continue;
+                }
+                attempts++;
+                update(item.row, { status: 'running', attempts, error: undefined, retryAt: undefined });
+                try {
+                    const result = await generate(item.request, signal);
+                    update(item.row, { status: 'done', result });
+                    break;
+                } catch (error: any) {
+                    if (signal.aborted) break;
+                    if (!isRetryable(error) || attempts >= item.attempts + maxAttempts) {
+                        update(item.row, { status: 'failed', error: error?.message || "Generation failed." });
+                        break;
+                    }
+                    const delay = error instanceof EngineError && error.retryAfterMs
+                        ? error.retryAfterMs
+                        : baseDelayMs * 2 ** (attempts - item.attempts - 1) * (1 + Math.random() * 0.25);
+                    if (error instanceof EngineError && error.code === 'rate_limit') pausedUntil = Math.max(pausedUntil, Date.now() + delay);
+                    update(item.row, { status: 'waiting', error: error?.message, retryAt: Date.now() + delay });
+                    await sleep(delay, signal);
+                }
+            }
+            if (signal.aborted) update(item.row, { status: 'queued', retryAt: undefined });
+        }
+    };
+
+    await Promise.all(Array.from({ length: Math.max(1, Math.min(concurrency, rows.length)) }, worker));
+    if (signal.aborted) pending.forEach(item => update(item.row, { status: 'queued', retryAt: undefined }));
+};
+
+interface SummaryRow {
+    row: number;
+    description: string;
+    language: string;
+    environment: string;
+    attempts: number;
+    status: BatchRowStatus | 'blocked';
+    model?: string;
+    metrics?: ValueMetrics;
+    error?: string;
+    directory?: string;
+}
+
+const slugify = (text: string) =>
+    text.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '').slice(0, 40) || 'script';
+
+const truncate = (text: string, max: number) => {
+    const line = text.replace(/\s+/g, ' ').trim();
+    return line.length > max ? `${line.slice(0, max - 1)}…` : line;
+};
+
+/**
+ * Archive layout for a finished batch: one engineering package per generated row under
+ * `<row>-<slug>/`, plus `batch-summary.md` and `batch-summary.json`. Rows the Safety Report blocks
+ * are reported but not packaged, matching the single-generation export.
+ */
+export const buildBatchArchiveFiles = (rows: BatchRow[], model: TimeSavedModel): Record<string, string> => {
+    const files: Record<string, string> = {};
+    const width = String(Math.max(...rows.map(r => r.row), 1)).length;
+    const entries = rows.map((row): SummaryRow => {
+        const base = { row: row.row, description: row.request.description, language: row.request.language, environment: row.request.environment, attempts: row.attempts };
+        if (!row.result) return { ...base, status: row.status, error: row.error };
+
+        const { response } = row.result;
+        const language = resolvedLanguage(row.request.language, response);
+        const report = analyzePackage(projectFiles(response, row.request), language, row.request.safetyLevel);
+        const estimate = estimateMetrics(response, language, model);
+        if (report.blocked) {
+            const blocking = report.findings.filter(f => f.blocking).map(f => (f.path ? `${f.path}: ${f.message}` : f.message));
+            return { ...base, language, status: 'blocked', model: row.result.model, metrics: estimate.metrics, error: `Blocked by the Safety Report: ${blocking.join('; ')}` };
+        }
+
+        const dir = `${String(row.row).padStart(width, '0')}-${slugify(row.request.description)}`;
+        Object.entries(buildPackageFiles(row.request, response, estimate)).forEach(([path, content]) => { files[`${dir}/${path}`] = content; });
+        return { ...base, language, status: 'done', model: row.result.model, metrics: estimate.metrics, directory: dir };
+    });
+
+    const packaged = entries.filter(e => e.status === 'done');
+    const total = (field: keyof ValueMetrics) => packaged.reduce((sum, e) => sum + (e.metrics?.[field] ?? 0), 0);
+    const problems = entries.filter(e => e.status !== 'done');
+
+    files['batch-summary.json'] = JSON.stringify({
+        generatedAt: new Date().toISOString(),
+        totals: { rows: entries.length, packaged: packaged.length, failed: problems.length, timeSavedMinutes: total('timeSavedMinutes'), linesProduced: total('linesProduced'), potentialErrorsMitigated: total('potentialErrorsMitigated') },
+        rows: entries
+    }, null, 2);
+
+    const table = entries.map(e => {
+        const m = e.metrics;
+        return `| ${e.row} | ${truncate(e.description, 60).replace(/\|/g, '\\|')} | ${e.language} | ${e.status} | ${m ? m.timeSavedMinutes : '-'} | ${m ? m.linesProduced : '-'} | ${m ? m.potentialErrorsMitigated : '-'} |`;
+    }).join('\n');
+    const failures = problems.map(e => `- Row ${e.row} (${e.status}): ${e.error || 'Not generated.'}`).join('\n');
+
+    files['batch-summary.md'] = `# Batch Generation Summary\n\n` +
+        `- Rows: ${entries.length}\n- Packaged: ${packaged.length}\n- Failed or blocked: ${problems.length}\n` +
+        `- Engineering Time Saved: ${total('timeSavedMinutes')} mins\n- Optimized Production Code: ${total('linesProduced')} Lines\n- Explicit Error Handlers: ${total('potentialErrorsMitigated')}\n\n` +
+        `## Rows\n\n| Row | Description | Language | Status | Time Saved (min) | Lines | Handlers |\n|---|---|---|---|---|---|---|\n${table}\n` +
+        (failures ? `\n## Failures\n\n${failures}\n` : '');
+
+    return files;
+};
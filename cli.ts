@@ -0,0 +1,211 @@
+import { mkdir, readFile, writeFile } from "node:fs/promises";
+import path from "node:path";
+import { parseArgs } from "node:util";
+import { Attachment, ScriptRequest, TokenUsage } from "./types";
+import { generateScript } from "./groqService";
+import { createProvider, providerConfigFromEnv } from "./providers";
+import { ERROR_GUIDANCE, classifyError } from "./engineErrors";
+import { analyzePackage } from "./safetyAnalyzer";
+import { estimateMetrics, DEFAULT_TIME_SAVED_MODEL } from "./metricsEstimator";
+import { validateArtifacts } from "./artifactValidator";
+import { addUsage, describeUsage } from "./usageTracker";
+import { ATTACHMENT_KINDS, MAX_ATTACHMENTS, buildAttachmentContext, detectAttachmentKind } from "./attachmentContext";
+import { CI_PROVIDERS, DEFAULT_REQUEST_OPTIONS, ENVIRONMENTS, LANGUAGES, SAFETY_LEVELS, SCRIPT_TYPES, buildPackageFiles, ciProviderOf, matchOption, projectFiles, resolvedLanguage } from "./scriptPackage";
+
+/**
+ * Headless generator for terminals, Makefiles and hooks. Calls the provider directly with the
+ * same environment variables as server.ts and writes the same package as the ZIP export.
+ */
+
+const EXIT = {
+    ok: 0,
+    usage: 1,
+    api: 2,
+    parse: 3,
+    safety: 4,
+    cancelled: 130
+} as const;
+
+const USAGE = `Usage: npm run cli -- [options] [description]
+
+Reads the description from the argument, or from stdin when it is omitted or "-".
+
+Options:
+  -l, --language <name>   ${LANGUAGES.join(', ')} (default: Python)
+  -e, --env <name>        ${ENVIRONMENTS.join(', ')} (default: Linux)
+  -s, --safety <level>    ${SAFETY_LEVELS.join(', ')} (default: Normal)
+  -t, --type <name>       ${SCRIPT_TYPES.join(', ')} (default: Automation)
+      --tests / --no-tests  Generate a test suite (default: on)
+      --ci <provider>     ${CI_PROVIDERS.join(', ')} (default: GitHub Actions)
+      --helm              Add a Helm chart to the Kubernetes manifests (with --env kubernetes)
+      --attach [kind=]<file>  Attach existing code, a sample input or an API spec as context; repeatable.
+                          The kind (${ATTACHMENT_KINDS.join(', ')}) is detected when omitted; samples become test fixtures.
+  -o, --out <dir>         Output directory (default: ./engineering-package)
+      --json              Print the ScriptResponse as JSON instead of writing files
+      --force             Write output even when the Safety Report blocks export
+      --timeout <seconds> Per-attempt provider timeout (default: LLM_TIMEOUT_MS or 60)
+      --retries <n>       Retries after a rate limit, timeout or server error (default: LLM_MAX_RETRIES or 2)
+  -h, --help              Show this help
+
+Exit codes: 0 success, 1 usage or I/O error, 2 provider/API failure, 3 unparseable model response, 4 blocked by the Safety Report, 130 interrupted.`;
+
+class UsageError extends Error {}
+
+const pickOption = <T extends string>(options: T[], value: string | undefined, flag: string, fallback: T): T => {
+    if (value === undefined) return fallback;
+    const match = matchOption(options, value);
+    if (match) return match;
+    throw new UsageError(`Invalid --${flag} "${value}". Expected one of: ${options.join(', ')}.`);
+};
+
+const readStdin = async (): Promise<string> => {
+    const chunks: Buffer[] = [];
+    for await (const chunk of process.stdin) chunks.push(chunk as Buffer);
+    return Buffer.concat(chunks).toString('utf8');
+};
+
+const readAttachment = async (spec: string): Promise<Attachment> => {
+    const match = spec.match(/^(\w+)=(.+)$/);
+    const kind = match && ATTACHMENT_KINDS.find(k => k === match[1].toLowerCase());
+    if (match && !kind) throw new UsageError(`Invalid --attach kind "${match[1]}". Expected one of: ${ATTACHMENT_KINDS.join(', ')}.`);
+    const file = match ? match[2] : spec;
+    let content: string;
+    try {
+        content = await readFile(file, 'utf8');
+    } catch (error: any) {
+        throw new UsageError(`Cannot read --attach ${file}: ${error.message}`);
+    }
+    const name = path.basename(file);
+    return { name, kind: kind || detectAttachmentKind(name, content), content };
+};
+
+const parseCommandLine = async () => {
+    const { values, positionals } = parseArgs({
+        allowPositionals: true,
+        options: {
+            language: { type: 'string', short: 'l' },
+            env: { type: 'string', short: 'e' },
+            safety: { type: 'string', short: 's' },
+            type: { type: 'string', short: 't' },
+            tests: { type: 'boolean' },
+            'no-tests': { type: 'boolean' },
+            ci: { type: 'string' },
+            helm: { type: 'boolean' },
+            attach: { type: 'string', multiple: true },
+            out: { type: 'string', short: 'o' },
+            json: { type: 'boolean' },
+            force: { type: 'boolean' },
+            timeout: { type: 'string' },
+            retries: { type: 'string' },
+            help: { type: 'boolean', short: 'h' }
+        }
+    });
+    if (values.help) return null;
+
+    let description = positionals.join(' ');
+    if (!description || description === '-') {
+        if (process.stdin.isTTY) throw new UsageError("Missing description. Pass it as an argument or pipe it on stdin.");
+        description = await readStdin();
+    }
+    if (!description.trim()) throw new UsageError("The description is empty.");
+    if ((values.attach?.length ?? 0) > MAX_ATTACHMENTS) throw new UsageError(`At most ${MAX_ATTACHMENTS} --attach files are allowed.`);
+    const attachments = await Promise.all((values.attach ?? []).map(readAttachment));
+
+    const request: ScriptRequest = {
+        description: description.trim(),
+        language: pickOption(LANGUAGES, values.language, 'language', DEFAULT_REQUEST_OPTIONS.language),
+        environment: pickOption(ENVIRONMENTS, values.env, 'env', DEFAULT_REQUEST_OPTIONS.environment),
+        safetyLevel: pickOption(SAFETY_LEVELS, values.safety, 'safety', DEFAULT_REQUEST_OPTIONS.safetyLevel),
+        scriptType: pickOption(SCRIPT_TYPES, values.type, 'type', DEFAULT_REQUEST_OPTIONS.scriptType),
+        includeTests: !values['no-tests'],
+        ciProvider: pickOption(CI_PROVIDERS, values.ci, 'ci', ciProviderOf(DEFAULT_REQUEST_OPTIONS)),
+        includeHelmChart: !!values.helm,
+        ...(attachments.length ? { attachments } : {})
+    };
+    const timeout = values.timeout === undefined ? undefined : Number(values.timeout);
+    if (timeout !== undefined && !(timeout > 0)) throw new UsageError(`Invalid --timeout "${values.timeout}". Expected a number of seconds.`);
+    const retries = values.retries === undefined ? undefined : Number(values.retries);
+    if (retries !== undefined && !(Number.isInteger(retries) && retries >= 0)) throw new UsageError(`Invalid --retries "${values.retries}". Expected a whole number.`);
+
+    return {
+        request,
+        out: path.resolve(values.out || 'engineering-package'),
+        json: !!values.json,
+        force: !!values.force,
+        timeoutMs: timeout === undefined ? undefined : timeout * 1000,
+        maxRetries: retries
+    };
+};
+
+const main = async (): Promise<number> => {
+    let options;
+    try {
+        options = await parseCommandLine();
+    } catch (error: any) {
+        console.error(`${error.message}\n\n${USAGE}`);
+        return EXIT.usage;
+    }
+    if (!options) {
+        console.log(USAGE);
+        return EXIT.ok;
+    }
+    const { request, out, json, force, timeoutMs, maxRetries } = options;
+    const config = providerConfigFromEnv();
+    const provider = createProvider({ ...config, timeoutMs: timeoutMs ?? config.timeoutMs, maxRetries: maxRetries ?? config.maxRetries });
+
+    buildAttachmentContext(request.attachments).digests
+        .filter(d => d.treatment !== 'full')
+        .forEach(d => console.error(`Attachment ${d.name} ${d.treatment} to fit the prompt (${d.tokens} of ${d.originalTokens} tokens).`));
+
+    // Ctrl-C aborts the in-flight provider call instead of killing the process mid-write.
+    const controller = new AbortController();
+    const interrupt = () => controller.abort();
+    process.once('SIGINT', interrupt);
+
+    let response;
+    let usage: TokenUsage | undefined;
+    const startedAt = Date.now();
+    try {
+        response = await generateScript(request, provider, controller.signal, next => { usage = addUsage(usage, next); });
+    } catch (error) {
+        const failure = classifyError(error, provider.kind, controller.signal);
+        if (failure.code === 'cancelled') return EXIT.cancelled;
+        console.error(`${failure.message}\n${ERROR_GUIDANCE[failure.code]}`);
+        return failure.code === 'parse' ? EXIT.parse : EXIT.api;
+    } finally {
+        process.off('SIGINT', interrupt);
+        if (usage) console.error(`Usage: ${describeUsage({ ...usage, model: provider.model, latencyMs: Date.now() - startedAt })}`);
+    }
+
+    const language = resolvedLanguage(request.language, response);
+    if (request.language === 'Auto') console.error(`Auto resolved to ${language}.`);
+    const packaged = projectFiles(response, request);
+    const report = analyzePackage(packaged, language, request.safetyLevel);
+    report.findings.forEach(f => console.error(`${f.blocking ? 'BLOCKING' : f.severity.toUpperCase()} ${f.ruleId}${f.path ? ` ${f.path}` : ''}${f.line ? ` (line ${f.line})` : ''}: ${f.message}`));
+    if (report.blocked && !force) {
+        console.error(`Blocked by the Safety Report at level "${request.safetyLevel}". Re-run with --force to write the output anyway.`);
+        return EXIT.safety;
+    }
+    // Validation findings are advisory; they are also listed in the package README.
+    validateArtifacts(packaged, { language, ciProvider: ciProviderOf(request), environment: request.environment })
+        .forEach(v => v.issues.forEach(i => console.error(`${i.severity.toUpperCase()} ${v.path}${i.line ? `:${i.line}` : ''}: ${i.message}`)));
+
+    if (json) {
+        console.log(JSON.stringify(response, null, 2));
+        return EXIT.ok;
+    }
+
+    const files = buildPackageFiles(request, response, estimateMetrics(response, language, DEFAULT_TIME_SAVED_MODEL));
+    for (const [relative, content] of Object.entries(files)) {
+        const target = path.join(out, relative);
+        await mkdir(path.dirname(target), { recursive: true });
+        await writeFile(target, content);
+        console.error(`wrote ${path.relative(process.cwd(), target) || target}`);
+    }
+    return EXIT.ok;
+};
+
+main().then(code => process.exit(code), (error) => {
+    console.error(error?.message || error);
+    process.exit(EXIT.usage);
+});
@@ -0,0 +1,107 @@
+import { describe, expect, it } from "vitest";
+import { buildConfigSchema, buildEnvExample, extractConfig, isSecretName } from "./configExtractor";
+import { ProjectFile } from "./types";
+
+const script = (content: string, path = 'script.py'): ProjectFile => ({ path, role: 'script', content });
+
+const PYTHON = `import argparse
+import os
+
+parser = argparse.ArgumentParser()
+parser.add_argument("--max-age", type=int, default=7)
+parser.add_argument("--verbose", action="store_true")
+args = parser.parse_args()
+
+BUCKET = os.getenv("BUCKET", "backups")
+TIMEOUT = int(os.environ.get("HTTP_TIMEOUT", "30"))
+TOKEN = os.environ["API_TOKEN"]
+`;
+
+describe("extractConfig", () => {
+    it("finds environment variables and flags with their types and defaults", () => {
+        const { parameters } = extractConfig([script(PYTHON)], 'Python');
+        const byName = Object.fromEntries(parameters.map(p => [p.name, p]));
+        expect(byName['--max-age']).toMatchObject({ source: 'arg', type: 'integer', defaultValue: '7', required: false });
+        expect(byName['--verbose']).toMatchObject({ type: 'boolean' });
+        expect(byName['BUCKET']).toMatchObject({ source: 'env', defaultValue: 'backups', required: false, secret: false });
+        expect(byName['HTTP_TIMEOUT']).toMatchObject({ type: 'integer' });
+        expect(byName['API_TOKEN']).toMatchObject({ required: true, secret: true });
+    });
+
+    it("flags secrets baked into the Dockerfile and inlined in deployment files", () => {
+        const files: ProjectFile[] = [
+            script(PYTHON),
+            { path: 'Dockerfile', role: 'dockerfile', content: "FROM python:3.12-slim\nENV BUCKET=backups\nENV API_TOKEN=abc123\n" },
+            { path: 'deploy/k8s/deployment.yaml', role: 'deploy', content: "env:\n  - name: API_TOKEN\n    value: \"hunter22\"\n" }
+        ];
+        const { issues } = extractConfig(files, 'Python');
+        expect(issues.filter(i => i.severity === 'error').map(i => i.path).sort()).toEqual(['Dockerfile', 'deploy/k8s/deployment.yaml']);
+    });
+
+    it("does not treat fixtures and tests as configuration", () => {
+        const files: ProjectFile[] = [
+            script(PYTHON),
+            { path: 'fixtures/users.json', role: 'fixture', content: '{"password": "example-password"}' }
+        ];
+        expect(extractConfig(files, 'Python').issues.filter(i => i.path === 'fixtures/users.json')).toEqual([]);
+    });
+});
+
+describe("positional arguments", () => {
+    const names = (content: string, language: 'Python' | 'Bash' | 'Go' | 'JavaScript', path = 'script.py') =>
+        extractConfig([script(content, path)], language).parameters.filter(p => p.source === 'arg').map(p => [p.name, p.description]);
+
+    it("takes the name of the variable the value is assigned to", () => {
+        expect(names('import sys\nsource = Path(sys.argv[1])\ndest: str = sys.argv[2]\n', 'Python')).toEqual([
+            ['source', 'Positional argument 1, read as argv[1].'],
+            ['dest', 'Positional argument 2, read as argv[2].']
+        ]);
+        expect(names('SRC="${1:-/var/log}"\nlocal dest=$2\n', 'Bash', 'script.sh').map(([n]) => n)).toEqual(['SRC', 'dest']);
+        expect(names('src := os.Args[1]\n', 'Go', 'main.go').map(([n]) => n)).toEqual(['src']);
+        expect(names('const input = process.argv[2];\n', 'JavaScript', 'script.js').map(([n]) => n)).toEqual(['input']);
+    });
+
+    it("falls back to the usage line, then to arg<N>", () => {
+        const usage = 'import sys\n# Usage: script.py [--max-age <days>] <source> <dest>\nrun(sys.argv[1], sys.argv[2])\n';
+        expect(names(usage, 'Python').map(([n]) => n)).toEqual(['source', 'dest']);
+        expect(names('import sys\nrun(Path(sys.argv[1]), Path(sys.argv[2]))\n', 'Python')).toEqual([
+            ['arg1', 'Positional argument 1 (argv[1]); the script does not name it.'],
+            ['arg2', 'Positional argument 2 (argv[2]); the script does not name it.']
+        ]);
+    });
+
+    it("keeps one parameter per position and skips the script path", () => {
+        const content = 'import sys\nprint(sys.argv[0])\nif len(sys.argv) > 1 and sys.argv[1]:\n    target = sys.argv[1]\n';
+        expect(names(content, 'Python').map(([n]) => n)).toEqual(['target']);
+    });
+
+    it("writes positional names and descriptions into the schema", () => {
+        const { parameters } = extractConfig([script('import sys\nsource = sys.argv[1]\n')], 'Python');
+        const schema = JSON.parse(buildConfigSchema(parameters, 'Test'));
+        expect(schema.properties.source).toMatchObject({ type: 'string', description: 'Positional argument 1, read as argv[1].', 'x-source': 'argument' });
+        expect(schema.required).toEqual(['source']);
+    });
+});
+
+describe("exports", () => {
+    const { parameters } = extractConfig([script(PYTHON)], 'Python');
+
+    it("writes secrets to .env.example without a value", () => {
+        const env = buildEnvExample(parameters, 'script.py')!;
+        expect(env).toContain('BUCKET=backups');
+        expect(env).toMatch(/^API_TOKEN=$/m);
+        expect(buildEnvExample([], 'script.py')).toBeNull();
+    });
+
+    it("marks secrets writeOnly in the schema and types defaults", () => {
+        const schema = JSON.parse(buildConfigSchema(parameters, 'Test'));
+        expect(schema.properties.API_TOKEN).toMatchObject({ writeOnly: true });
+        expect(schema.properties['--max-age'].default).toBe(7);
+        expect(schema.required).toContain('API_TOKEN');
+    });
+
+    it("recognises credential names", () => {
+        expect(isSecretName('DB_PASSWORD')).toBe(true);
+        expect(isSecretName('LOG_LEVEL')).toBe(false);
+    });
+});
@@ -0,0 +1,505 @@
+import { ConfigIssue, ConfigParameter, ConfigReport, ConfigSource, ConfigValueType, Language, ProjectFile } from "./types";
+import { isComment } from "./scriptScan";
+
+/**
+ * Works out what the script needs from its surroundings: the environment variables, command-line
+ * arguments and config files it reads. Like the other local analyzers this matches the idioms
+ * generated code uses rather than parsing it. The parameters drive `.env.example`, the config JSON
+ * Schema and the consistency checks against the Dockerfile, CI/CD and deployment files.
+ */
+
+interface Match {
+    name: string;
+    source: ConfigSource;
+    line: number;
+    /** Raw default expression, when the read has a fallback. */
+    fallback?: string;
+    /** The read form tolerates an absent value (os.getenv, an optional flag). */
+    optional: boolean;
+    /** The fallback is literal text, as in the shell's ${NAME:-default}, rather than an expression. */
+    literal?: boolean;
+    type?: ConfigValueType;
+    /** 1-based position of a positional argument; `name` is then the read as written, e.g. `argv[1]`. */
+    position?: number;
+    description?: string;
+}
+
+interface ParameterRule {
+    source: ConfigSource;
+    /** Global regex; the first defined capture is the name, the next one the fallback. */
+    pattern: RegExp;
+    optional?: boolean;
+    literal?: boolean;
+    type?: ConfigValueType;
+    /** The capture is an index into the argument array, whose first user argument is at `first`. */
+    positional?: { name: (index: string) => string; first: number };
+}
+
+type Scanner = (text: string) => Match[];
+
+const lineAt = (text: string, index: number) => text.slice(0, index).split('\n').length;
+
+const ruleScanner = (rule: ParameterRule): Scanner => (text) =>
+    [...text.matchAll(rule.pattern)].flatMap(m => {
+        const [name, fallback] = m.slice(1).filter(group => group !== undefined);
+        const position = rule.positional && Number(name) - rule.positional.first + 1;
+        // Indexes below the first user argument are the interpreter and the script's own path.
+        if (position !== undefined && position < 1) return [];
+        return [{
+            name: rule.positional ? rule.positional.name(name) : name,
+            source: rule.source,
+            line: lineAt(text, m.index ?? 0),
+            fallback: fallback?.trim() || undefined,
+            optional: !!rule.optional,
+            literal: rule.literal,
+            type: rule.type ?? castBefore(text, m.index ?? 0),
+            position
+        }];
+    });
+
+// int(os.getenv(...)), parseInt(process.env.X), strconv.Atoi(os.Getenv(...)) and friends.
+const castBefore = (text: string, index: number): ConfigValueType | undefined => {
+    const before = text.slice(Math.max(0, index - 24), index);
+    if (/\b(int|parseInt|Number|Integer\.parseInt|int\.Parse|Atoi|to_i)\(\s*$/.test(before)) return 'integer';
+    if (/\b(float|parseFloat|Double\.parseDouble|double\.Parse|ParseFloat)\(\s*$/.test(before)) return 'number';
+    return undefined;
+};
+
+const argv = (prefix: string) => (index: string) => `${prefix}[${index}]`;
+
+// Python's argparse: add_argument("-n", "--max-age", type=int, default=7, help="..."), often over several lines.
+const scanArgparse: Scanner = (text) =>
+    [...text.matchAll(/\badd_argument\(((?:[^()]|\([^()]*\))*)\)/g)].flatMap(m => {
+        const args = m[1];
+        const names = [...args.matchAll(/^\s*['"]([^'"]+)['"]|,\s*['"](-[^'"]+)['"]/g)].map(n => n[1] ?? n[2]);
+        if (!names.length) return [];
+        const name = names.find(n => n.startsWith('--')) ?? names[0];
+        const fallback = args.match(/\bdefault\s*=\s*((?:[^,()]|\([^()]*\))+)/)?.[1];
+        const flagAction = args.match(/\baction\s*=\s*['"]store_(true|false)['"]/);
+        const type = args.match(/\btype\s*=\s*(int|float)\b/)?.[1];
+        const positional = !name.startsWith('-');
+        return [{
+            name,
+            source: 'arg' as const,
+            line: lineAt(text, m.index ?? 0),
+            fallback: fallback ?? (flagAction ? String(flagAction[1] === 'false') : undefined),
+            optional: positional ? /\bnargs\s*=\s*['"][?*]['"]/.test(args) : !/\brequired\s*=\s*True\b/.test(args),
+            type: flagAction ? 'boolean' as const : type === 'int' ? 'integer' as const : type === 'float' ? 'number' as const : undefined
+        }];
+    });
+
+// Bash getopts "ab:c": each letter is an optional short flag.
+const scanGetopts: Scanner = (text) =>
+    [...text.matchAll(/\bgetopts\s+['"]?:?([A-Za-z:]+)['"]?/g)].flatMap(m =>
+        [...m[1].matchAll(/([A-Za-z])(:?)/g)].map(([, letter, takesValue]) => ({
+            name: `-${letter}`,
+            source: 'arg' as const,
+            line: lineAt(text, m.index ?? 0),
+            optional: true,
+            type: takesValue ? undefined : 'boolean' as const
+        })));
+
+// Bash positionals at the top level: inside a function $1 is the function's own argument, and
+// inside single quotes (awk '{print $1}') it belongs to another program.
+const scanBashPositionals: Scanner = (text) => {
+    let inFunction = false;
+    return text.split('\n').flatMap((line, i) => {
+        if (/^\s*(function\s+[\w-]+|[\w-]+\s*\(\s*\))\s*\{?\s*$/.test(line)) inFunction = !/\}\s*$/.test(line);
+        else if (/^\}/.test(line)) inFunction = false;
+        if (inFunction) return [];
+        const unquoted = line.replace(/'[^']*'/g, '');
+        return [...unquoted.matchAll(/\$\{?([1-9])(?![0-9])(?::?-([^}]*))?\}?/g)].map(m => ({
+            name: `$${m[1]}`,
+            source: 'arg' as const,
+            line: i + 1,
+            fallback: m[2]?.trim() || undefined,
+            optional: m[2] !== undefined,
+            literal: true,
+            position: Number(m[1])
+        }));
+    });
+};
+
+const GO_FLAG_TYPES: Record<string, ConfigValueType> = { Int: 'integer', Int64: 'integer', Uint: 'integer', Uint64: 'integer', Float64: 'number', Bool: 'boolean' };
+
+// Go's flag package: flag.Int("max-age", 7, "usage") or flag.IntVar(&maxAge, "max-age", 7, "usage").
+const scanGoFlags: Scanner = (text) =>
+    [...text.matchAll(/\bflag\.(String|Int|Int64|Uint|Uint64|Float64|Bool|Duration)(?:Var)?\(\s*(?:&[\w.]+\s*,\s*)?"([\w-]+)"\s*,\s*([^,]+),/g)].map(m => ({
+        name: `-${m[2]}`,
+        source: 'arg' as const,
+        line: lineAt(text, m.index ?? 0),
+        fallback: m[3].trim(),
+        optional: true,
+        type: GO_FLAG_TYPES[m[1]]
+    }));
+
+// PowerShell param( [Parameter(Mandatory)][int]$MaxAge = 7, [switch]$DryRun ).
+const scanPowerShellParams: Scanner = (text) => {
+    const start = text.search(/\bparam\s*\(/i);
+    if (start < 0) return [];
+    let depth = 0;
+    let end = start;
+    for (let i = text.indexOf('(', start); i < text.length; i++) {
+        if (text[i] === '(') depth++;
+        if (text[i] === ')' && --depth === 0) {
+            end = i;
+            break;
+        }
+    }
+    const block = text.slice(start, end);
+    return [...block.matchAll(/((?:\[[^\]]*\]\s*)*)\$(\w+)(?:\s*=\s*([^,\r\n)]+))?/g)].map(m => {
+        const attributes = m[1];
+        const typeName = attributes.match(/\[(int|int32|int64|long|double|decimal|switch|bool)\]/i)?.[1].toLowerCase();
+        return {
+            name: `-${m[2]}`,
+            source: 'arg' as const,
+            line: lineAt(text, start + (m.index ?? 0)),
+            fallback: m[3]?.trim(),
+            optional: !/\bMandatory\b(?!\s*=\s*\$false)/i.test(attributes),
+            type: !typeName ? undefined : typeName === 'switch' || typeName === 'bool' ? 'boolean' as const : typeName === 'double' || typeName === 'decimal' ? 'number' as const : 'integer' as const
+        };
+    });
+};
+
+// Perl's Getopt::Long: GetOptions('max-age=i' => \$max_age, 'dry-run' => \$dry_run).
+const scanGetOptions: Scanner = (text) =>
+    [...text.matchAll(/\bGetOptions\s*\(([\s\S]*?)\)\s*(?:or\b|\|\||;)/g)].flatMap(m =>
+        [...m[1].matchAll(/['"]([\w-]+)(?:\|[\w-]+)*(?:[=:]([sif]))?[!+]?['"]\s*=>/g)].map(o => ({
+            name: `--${o[1]}`,
+            source: 'arg' as const,
+            line: lineAt(text, (m.index ?? 0) + (o.index ?? 0)),
+            optional: true,
+            type: !o[2] ? 'boolean' as const : o[2] === 'i' ? 'integer' as const : o[2] === 'f' ? 'number' as const : undefined
+        })));
+
+const rules = (...list: (ParameterRule | Scanner)[]): Scanner[] =>
+    list.map(rule => (typeof rule === 'function' ? rule : ruleScanner(rule)));
+
+// Per-language reads. "optional" marks APIs that return an empty value instead of failing.
+const SCANNERS: Partial<Record<Language, Scanner[]>> = {
+    Python: rules(
+        { source: 'env', pattern: /\bos\.environ\[\s*['"](\w+)['"]\s*\]/g },
+        { source: 'env', pattern: /\bos\.(?:environ\.get|getenv)\(\s*['"](\w+)['"]\s*(?:,\s*((?:[^()\n]|\([^()]*\))+?))?\s*\)/g, optional: true },
+        { source: 'arg', pattern: /\bsys\.argv\[(\d+)\]/g, positional: { name: argv('argv'), first: 1 } },
+        scanArgparse
+    ),
+    Bash: rules(
+        { source: 'env', pattern: /\$\{([A-Z_][A-Z0-9_]*):?[-=]([^}]*)\}/g, optional: true, literal: true },
+        { source: 'env', pattern: /\$\{([A-Z_][A-Z0-9_]*):?\?[^}]*\}/g },
+        { source: 'arg', pattern: /^\s*(--[a-z][\w-]*)(?:\|[^)\n]*)?\)/gm, optional: true },
+        scanGetopts,
+        scanBashPositionals
+    ),
+    PowerShell: rules(
+        { source: 'env', pattern: /\$env:([A-Za-z_]\w*)/gi },
+        scanPowerShellParams
+    ),
+    JavaScript: rules(
+        { source: 'env', pattern: /\bprocess\.env(?:\.([A-Za-z_]\w*)|\[\s*['"](\w+)['"]\s*\])(?:\s*(?:\?\?|\|\|)\s*([^;,)\n]+))?/g },
+        { source: 'arg', pattern: /\bprocess\.argv\[(\d+)\]/g, positional: { name: argv('argv'), first: 2 } },
+        { source: 'arg', pattern: /(?<=\bargv\b[^\n]*)['"](--[a-z][\w-]*)['"]/g, optional: true }
+    ),
+    Go: rules(
+        { source: 'env', pattern: /\bos\.(?:Getenv|LookupEnv)\(\s*"(\w+)"\s*\)/g, optional: true },
+        { source: 'arg', pattern: /\bos\.Args\[(\d+)\]/g, positional: { name: argv('os.Args'), first: 1 } },
+        scanGoFlags
+    ),
+    Ruby: rules(
+        { source: 'env', pattern: /\bENV\[\s*['"](\w+)['"]\s*\](?:\s*\|\|\s*([^\n]+))?/g, optional: true },
+        { source: 'env', pattern: /\bENV\.fetch\(\s*['"](\w+)['"]\s*(?:,\s*([^)]+))?\)/g },
+        { source: 'arg', pattern: /\bARGV\[(\d+)\]/g, positional: { name: argv('ARGV'), first: 0 } },
+        { source: 'arg', pattern: /\.on\(\s*(?:['"]-\w[^'"]*['"]\s*,\s*)?['"](--[\w-]+)/g, optional: true }
+    ),
+    Rust: rules(
+        { source: 'env', pattern: /\benv::var\(\s*"(\w+)"\s*\)(?:\s*\.unwrap_or(?:_else)?\(\s*(?:\|\|\s*)?([^)]*\)?)\))?/g },
+        { source: 'arg', pattern: /\bargs\(\)\.nth\((\d+)\)/g, positional: { name: argv('args'), first: 1 } }
+    ),
+    Java: rules(
+        { source: 'env', pattern: /\bSystem\.getenv\(\s*"(\w+)"\s*\)/g, optional: true },
+        { source: 'arg', pattern: /\bargs\[(\d+)\]/g, positional: { name: argv('args'), first: 0 } }
+    ),
+    'C#': rules(
+        { source: 'env', pattern: /\bEnvironment\.GetEnvironmentVariable\(\s*"(\w+)"\s*\)(?:\s*\?\?\s*([^;\n]+))?/g, optional: true },
+        { source: 'arg', pattern: /\bargs\[(\d+)\]/g, positional: { name: argv('args'), first: 0 } }
+    ),
+    PHP: rules(
+        { source: 'env', pattern: /\bgetenv\(\s*['"](\w+)['"]\s*\)(?:\s*\?:\s*([^;\n]+))?/g, optional: true },
+        { source: 'env', pattern: /\$_ENV\[\s*['"](\w+)['"]\s*\](?:\s*\?\?\s*([^;\n]+))?/g },
+        { source: 'arg', pattern: /\$argv\[(\d+)\]/g, positional: { name: argv('$argv'), first: 1 } }
+    ),
+    Perl: rules(
+        { source: 'env', pattern: /\$ENV\{\s*['"]?(\w+)['"]?\s*\}(?:\s*(?:\/\/|\|\|)\s*([^;\n]+))?/g },
+        { source: 'arg', pattern: /\$ARGV\[(\d+)\]/g, positional: { name: argv('$ARGV'), first: 0 } },
+        scanGetOptions
+    )
+};
+SCANNERS.TypeScript = SCANNERS.JavaScript;
+
+// Quoted relative or absolute paths to config-like files, in any language.
+const CONFIG_FILE_PATTERN = /['"]((?:[\w.~-]+\/)*[\w.-]*[\w-]\.(?:json|ya?ml|toml|ini|conf|cfg|properties|env))['"]/g;
+
+const SECRET_NAME = /secret|token|passw(or)?d|passphrase|api[-_]?key|private[-_]?key|access[-_]?key|credential|auth(?!or)|session[-_]?key|dsn|conn(ection)?[-_]?string|webhook/i;
+
+export const isSecretName = (name: string) => SECRET_NAME.test(name);
+
+const unquote = (value: string) => value.replace(/^(['"`])(.*)\1$/, '$2');
+
+// Only literals make it into .env.example and the schema; expressions and None/null mean "no default".
+const literalDefault = (raw: string | undefined, literal?: boolean): string | undefined => {
+    if (!raw) return undefined;
+    const value = raw.trim().replace(/;$/, '');
+    if (literal) return /[$`]/.test(value) ? undefined : unquote(value);
+    if (/^(['"`])[^'"`]*\1$/.test(value)) return unquote(value);
+    if (/^-?\d+(\.\d+)?$/.test(value) || /^(true|false)$/i.test(value)) return value;
+    return undefined;
+};
+
+const inferType = (value: string | undefined): ConfigValueType => {
+    if (value === undefined) return 'string';
+    if (/^-?\d+$/.test(value)) return 'integer';
+    if (/^-?\d*\.\d+$/.test(value)) return 'number';
+    if (/^(true|false)$/i.test(value)) return 'boolean';
+    return 'string';
+};
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+const mentions = (content: string, name: string) => new RegExp(`(^|[^\\w-])${escapeRegExp(name)}(?![\\w-])`, 'm').test(content);
+
+// `src = Path(sys.argv[1])`, `SRC="${1:-}"`, `src := os.Args[1]`, `final String src = args[0];`.
+const ASSIGNED_TO = /^\s*(?:[\w.<>[\]]+\s+)*?(?:mut\s+)?[$@]?([A-Za-z_]\w*)\s*(?::\s*[\w.<>[\]|]+\s*)?(?::=|=(?!=))/;
+const USAGE_LINE = /\busage:?\s+(.*)$/im;
+
+// Operands of the script's own usage line, `Usage: script.sh [--max-age <days>] <source> DEST`, in order.
+const usageOperands = (script: string): string[] => {
+    const usage = script.match(USAGE_LINE)?.[1];
+    if (!usage) return [];
+    const operands = usage
+        .replace(/\[[^\]]*-[^\]]*\]/g, ' ')
+        .replace(/(^|\s)--?[\w-]+(?:[ =]<[^>]*>)?/g, ' ');
+    return [...operands.matchAll(/<([A-Za-z][\w-]*)>|\b([A-Z][A-Z0-9_]+)\b/g)].map(m => m[1] ?? m[2]);
+};
+
+/**
+ * Names each positional after the variable it is assigned to, else the operand in the script's
+ * usage line, else `arg<N>`, so the schema and README do not list `argv[1]`. The read as written
+ * goes into the description.
+ */
+const namePositionals = (matches: Match[], script: string): Match[] => {
+    const lines = script.split('\n');
+    const operands = usageOperands(script);
+    const taken = new Set(matches.filter(m => m.position === undefined).map(m => m.name));
+    const positionals = matches.filter(m => m.position !== undefined).sort((a, b) => a.line - b.line);
+    const readAs = new Map<number, string>();
+    const variables = new Map<number, string>();
+    positionals.forEach(m => {
+        const position = m.position!;
+        if (!readAs.has(position)) readAs.set(position, m.name);
+        // `src, dest = sys.argv[1], sys.argv[2]` does not say which variable gets which.
+        const onLine = new Set(positionals.filter(o => o.line === m.line).map(o => o.position));
+        const variable = onLine.size === 1 ? lines[m.line - 1]?.match(ASSIGNED_TO)?.[1] : undefined;
+        if (variable && !taken.has(variable) && !variables.has(position)) variables.set(position, variable);
+    });
+    const nameOf = (position: number) => {
+        const written = readAs.get(position)!;
+        const variable = variables.get(position);
+        if (variable) return { name: variable, description: `Positional argument ${position}, read as ${written}.` };
+        const operand = operands[position - 1];
+        if (operand && !taken.has(operand)) return { name: operand, description: `Positional argument ${position} (${written}), named in the usage line.` };
+        return { name: `arg${position}`, description: `Positional argument ${position} (${written}); the script does not name it.` };
+    };
+    return matches.map(m => (m.position === undefined ? m : { ...m, ...nameOf(m.position) }));
+};
+
+const scanScript = (script: string, language: Language): Match[] => {
+    const lines = script.split('\n');
+    const scanners = SCANNERS[language] ?? [];
+    const matches = [
+        ...scanners.flatMap(scan => scan(script)),
+        ...[...script.matchAll(CONFIG_FILE_PATTERN)].map(m => ({ name: m[1], source: 'file' as const, line: lineAt(script, m.index ?? 0), optional: true }))
+    ];
+    return namePositionals(matches.filter(m => !isComment(lines[m.line - 1] ?? '', language)), script);
+};
+
+// A parameter read several times is required only if no read has a fallback or tolerates absence.
+const mergeMatches = (matches: Match[]): Omit<ConfigParameter, 'referencedIn'>[] => {
+    const merged = new Map<string, Omit<ConfigParameter, 'referencedIn'>>();
+    [...matches].sort((a, b) => a.line - b.line).forEach(m => {
+        const key = m.position === undefined ? `${m.source}:${m.name}` : `position:${m.position}`;
+        const defaultValue = literalDefault(m.fallback, m.literal);
+        const existing = merged.get(key);
+        const required = !m.optional && m.fallback === undefined;
+        if (!existing) {
+            merged.set(key, {
+                name: m.name,
+                source: m.source,
+                type: m.type ?? inferType(defaultValue),
+                defaultValue,
+                required,
+                secret: m.source !== 'file' && isSecretName(m.name),
+                line: m.line,
+                ...(m.description ? { description: m.description } : {})
+            });
+            return;
+        }
+        existing.required = existing.required && required;
+        existing.defaultValue = existing.defaultValue ?? defaultValue;
+        if (existing.type === 'string' && (m.type || defaultValue !== undefined)) existing.type = m.type ?? inferType(defaultValue);
+    });
+    return [...merged.values()];
+};
+
+// Values that point at a secret store or a variable rather than containing the secret itself.
+const REFERENCE_VALUE = /^\$|\$\{|\$\(|secrets\.|credentials\(|\{\{|valueFrom|secretKeyRef|^\s*$|^(['"])\1,?$|^[|>]|^[A-Za-z_][\w-]*(\.[\w-]+)+$|^[\w.]+\(/;
+const PLACEHOLDER_VALUE = /^(['"]?)(<[^>]*>|\*+|x+|changeme|change[-_]me|replace[-_]?me|your[-_ ].*|\.\.\.|example)\1,?$/i;
+// Permission levels (GitHub's "id-token: write") and switches are not credentials.
+const KEYWORD_VALUE = /^(['"]?)(read|write|none|true|false|required|optional)\1,?$/i;
+
+const isInlinedValue = (value: string) => {
+    const trimmed = value.trim();
+    return !REFERENCE_VALUE.test(trimmed) && !PLACEHOLDER_VALUE.test(trimmed) && !KEYWORD_VALUE.test(trimmed);
+};
+
+// Terraform and Bicep name other variables with bare identifiers, so only quoted literals count there.
+const QUOTED_ONLY_FILES = /\.(tf|tfvars|hcl|bicep)$/;
+
+const DOCKER_ENV_LINE = /^\s*(ENV|ARG)\s+(.+)$/i;
+
+// ENV KEY=value KEY2="value 2", or the legacy ENV KEY value.
+const dockerAssignments = (args: string): [string, string][] => {
+    const pairs = [...args.matchAll(/([A-Za-z_]\w*)=("[^"]*"|'[^']*'|\S*)/g)].map(m => [m[1], m[2]] as [string, string]);
+    if (pairs.length) return pairs;
+    const legacy = args.match(/^([A-Za-z_]\w*)(?:\s+(.+))?$/);
+    return legacy ? [[legacy[1], legacy[2] ?? '']] : [];
+};
+
+// Variables a base image or toolchain reads; setting them in the Dockerfile is not script config.
+const RUNTIME_VARIABLES = /^(PATH|HOME|USER|LANG|LC_\w+|TZ|TERM|PYTHON\w*|PIP_\w+|VIRTUAL_ENV|NODE_\w+|NPM_\w+|GO\w*|CGO_\w+|CARGO_\w+|RUST\w*|JAVA_\w+|JAVA_OPTS|MAVEN_\w+|DOTNET_\w+|ASPNETCORE_\w+|NUGET_\w+|COMPOSER_\w+|PERL\w*|GEM_\w+|BUNDLE_\w+|DEBIAN_FRONTEND|APP_HOME|APP_DIR)$/;
+
+const checkDockerfile = (file: ProjectFile, parameters: ConfigParameter[]): ConfigIssue[] => {
+    const issues: ConfigIssue[] = [];
+    const envNames = new Set(parameters.filter(p => p.source === 'env').map(p => p.name));
+    file.content.split('\n').forEach((text, i) => {
+        const instruction = text.match(DOCKER_ENV_LINE);
+        if (!instruction) return;
+        const line = i + 1;
+        dockerAssignments(instruction[2]).forEach(([name, value]) => {
+            if (isSecretName(name)) {
+                if (value && isInlinedValue(value)) {
+                    issues.push({ path: file.path, severity: 'error', line, message: `Secret ${name} is baked into the image; pass it at runtime (docker run -e or a secret mount).` });
+                } else if (instruction[1].toUpperCase() === 'ARG') {
+                    issues.push({ path: file.path, severity: 'warning', line, message: `Build argument ${name} stays in the image history; use a BuildKit secret mount instead.` });
+                }
+            } else if (instruction[1].toUpperCase() === 'ENV' && !envNames.has(name) && !RUNTIME_VARIABLES.test(name)) {
+                issues.push({ path: file.path, severity: 'warning', line, message: `ENV ${name} is set but the script never reads it.` });
+            }
+        });
+    });
+    return issues;
+};
+
+// KEY: value, KEY=value and Kubernetes "- name: KEY" followed by "value: ...".
+const checkInlinedSecrets = (file: ProjectFile): ConfigIssue[] => {
+    const issues: ConfigIssue[] = [];
+    const lines = file.content.split('\n');
+    lines.forEach((text, i) => {
+        const assignment = text.match(/^\s*(?:-\s*)?(?:export\s+)?["']?([A-Za-z_][\w.-]*)["']?\s*[:=]\s*(.+?)\s*$/);
+        if (!assignment) return;
+        const [, key, value] = assignment;
+        if (QUOTED_ONLY_FILES.test(file.path) && !/^["']/.test(value)) return;
+        if (key === 'name' && isSecretName(unquote(value))) {
+            const next = lines[i + 1]?.match(/^\s*value\s*:\s*(.+?)\s*$/);
+            if (next && isInlinedValue(next[1])) {
+                issues.push({ path: file.path, severity: 'error', line: i + 2, message: `Secret ${unquote(value)} is inlined; use valueFrom.secretKeyRef.` });
+            }
+            return;
+        }
+        if (isSecretName(key) && isInlinedValue(value)) {
+            issues.push({ path: file.path, severity: 'error', line: i + 1, message: `Secret ${key} is inlined; reference it from the platform's secret store.` });
+        }
+    });
+    return issues;
+};
+
+/**
+ * Extracts the script's parameters and checks the rest of the package against them: secrets must
+ * never carry a value, Dockerfile ENV lines should match what the script reads, and required
+ * variables should be supplied somewhere.
+ */
+export const extractConfig = (files: ProjectFile[], language: Language): ConfigReport => {
+    const script = files.find(f => f.role === 'script');
+    if (!script) return { parameters: [], issues: [] };
+    // The tests, fixtures and docs legitimately hold sample values and prose.
+    const others = files.filter(f => f.role !== 'script' && f.role !== 'tests' && f.role !== 'docs' && f.role !== 'fixture');
+
+    const scanned = mergeMatches(scanScript(script.content, language));
+    const packagedConfig = files
+        .filter(f => f.role === 'config' && !scanned.some(p => p.source === 'file' && (p.name === f.path || f.path.endsWith(`/${p.name.replace(/^\.\//, '')}`))))
+        .map(f => ({ name: f.path, source: 'file' as const, type: 'string' as const, required: false, secret: false }));
+
+    const parameters: ConfigParameter[] = [...scanned, ...packagedConfig].map(p => ({
+        ...p,
+        referencedIn: p.source === 'arg' && !p.name.startsWith('-')
+            ? []
+            : others.filter(f => f.path !== p.name && mentions(f.content, p.source === 'file' ? p.name.split('/').pop() ?? p.name : p.name)).map(f => f.path)
+    }));
+
+    const issues: ConfigIssue[] = [];
+    parameters.forEach(p => {
+        if (p.secret && p.defaultValue && isInlinedValue(p.defaultValue)) {
+            issues.push({ path: script.path, severity: 'error', line: p.line, message: `Secret ${p.name} has a default in the script; read it from the environment with no fallback.` });
+        }
+        if (p.source === 'env' && p.required && !p.secret && !p.referencedIn.length) {
+            issues.push({ path: script.path, severity: 'warning', line: p.line, message: `${p.name} is required but no Dockerfile, CI/CD or deployment file sets it.` });
+        }
+    });
+    others.forEach(f => issues.push(...(f.role === 'dockerfile' ? checkDockerfile(f, parameters) : checkInlinedSecrets(f))));
+
+    return { parameters, issues };
+};
+
+const ENV_HEADER = (scriptPath: string) => `# Environment read by ${scriptPath}. Copy to .env and fill in; never commit real secrets.`;
+
+/** `.env.example` for the environment parameters, or null when the script reads none. */
+export const buildEnvExample = (parameters: ConfigParameter[], scriptPath: string): string | null => {
+    const env = parameters.filter(p => p.source === 'env');
+    if (!env.length) return null;
+    const entries = env.map(p => {
+        const note = p.secret
+            ? 'Secret: supply it from your secret store.'
+            : p.required ? 'Required.' : p.defaultValue !== undefined ? `Optional, defaults to ${p.defaultValue}.` : 'Optional.';
+        return `# ${note}\n${p.name}=${p.secret ? '' : p.defaultValue ?? ''}`;
+    });
+    return `${ENV_HEADER(scriptPath)}\n\n${entries.join('\n\n')}\n`;
+};
+
+const schemaValue = (p: ConfigParameter): unknown => {
+    if (p.defaultValue === undefined) return undefined;
+    if (p.type === 'integer' || p.type === 'number') return Number(p.defaultValue);
+    if (p.type === 'boolean') return /^true$/i.test(p.defaultValue);
+    return p.defaultValue;
+};
+
+/**
+ * JSON Schema (2020-12) for the environment and command-line parameters. Each property records
+ * where the value comes from in `x-source`; secrets are `writeOnly` and never carry a default.
+ */
+export const buildConfigSchema = (parameters: ConfigParameter[], title: string): string => {
+    const inputs = parameters.filter(p => p.source !== 'file');
+    const properties: Record<string, unknown> = {};
+    inputs.forEach(p => {
+        properties[p.name] = {
+            type: p.type,
+            ...(p.description ? { description: p.description } : {}),
+            ...(p.secret ? { writeOnly: true } : schemaValue(p) !== undefined ? { default: schemaValue(p) } : {}),
+            'x-source': p.source === 'env' ? 'environment' : 'argument'
+        };
+    });
+    return JSON.stringify({
+        $schema: "https://json-schema.org/draft/2020-12/schema",
+        title,
+        type: "object",
+        properties,
+        required: inputs.filter(p => p.required).map(p => p.name)
+    }, null, 2) + '\n';
+};
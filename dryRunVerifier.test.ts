@@ -0,0 +1,69 @@
+import { describe, expect, it } from "vitest";
+import { verifyDryRun } from "./dryRunVerifier";
+import { analyzeScript } from "./safetyAnalyzer";
+
+const GATED_PYTHON = `import os
+import shutil
+
+DRY_RUN = os.getenv("DRY_RUN") == "1"
+
+def main():
+    if DRY_RUN:
+        print("Would move the archive")
+        return
+    shutil.move("a", "b")
+`;
+
+describe("verifyDryRun", () => {
+    it("verifies a guard clause that returns before the side effect", () => {
+        const report = verifyDryRun(GATED_PYTHON, 'Python');
+        expect(report.switches.map(s => s.kind)).toEqual(['env']);
+        expect(report.sideEffects).toHaveLength(1);
+        expect(report.sideEffects[0].gated).toBe(true);
+        expect(report.verified).toBe(true);
+    });
+
+    it("reports side effects outside any gate", () => {
+        const report = verifyDryRun(`import os\nDRY_RUN = os.getenv("DRY_RUN")\nos.remove("x")\n`, 'Python');
+        expect(report.sideEffects.map(s => s.gated)).toEqual([false]);
+        expect(report.verified).toBe(false);
+    });
+
+    it("recognises a --dry-run flag and gated wrapper functions in Bash", () => {
+        const script = `set -euo pipefail
+DRY_RUN=0
+[[ "\${1:-}" == "--dry-run" ]] && DRY_RUN=1
+run() {
+    if [[ "$DRY_RUN" == 1 ]]; then echo "+ $*"; return 0; fi
+    "$@"
+}
+run rm -f "$TARGET"
+`;
+        const report = verifyDryRun(script, 'Bash');
+        expect(report.switches.some(s => s.kind === 'flag')).toBe(true);
+        expect(report.sideEffects.every(s => s.gated)).toBe(true);
+        expect(report.verified).toBe(true);
+    });
+
+    it.each([
+        'DRY_RUN=${DRY_RUN:-0}',
+        'DRY_RUN="${DRY_RUN:-1}"',
+        "DRY_RUN='${DRY_RUN:-1}'",
+        ': "${DRY_RUN:=1}"',
+        ': ${DRY_RUN:=1}',
+        'readonly DRY_RUN="${APP_DRY_RUN-1}"',
+    ])("recognises the shell environment switch %s", (line) => {
+        const report = verifyDryRun(`${line}\nif [[ "$DRY_RUN" == 1 ]]; then echo "would remove"; else rm -f "$TARGET"; fi\n`, 'Bash');
+        expect(report.switches.map(s => s.kind)).toEqual(['env']);
+    });
+
+    it("does not take a plain use of the variable for a switch", () => {
+        expect(verifyDryRun('echo "${DRY_RUN}"\n', 'Bash').switches).toEqual([]);
+    });
+
+    it("blocks a script without a switch under Dry Run Only", () => {
+        const report = analyzeScript("set -e\nrm -f /tmp/x", 'Bash', 'Dry Run Only');
+        expect(report.findings.map(f => f.ruleId)).toContain('dry-run-switch-missing');
+        expect(report.blocked).toBe(true);
+    });
+});
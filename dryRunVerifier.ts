@@ -0,0 +1,155 @@
+import { DryRunReport, DryRunSwitch, Language, ScriptLocation, SideEffectCall } from "./types";
+import { blockEnd, enclosingBlockEnd, isComment } from "./scriptScan";
+
+const DRY_RUN_NAME = /dry[_-]?run|whatif|ShouldProcess/i;
+
+const FLAG_SWITCH = /--dry-run\b|-DryRun\b|\[switch\]\s*\$(DryRun|WhatIf)\b|SupportsShouldProcess|flag\.Bool\w*\([^)]*dry/i;
+// Shell scripts read the environment through a defaulting expansion, quoted or not:
+// DRY_RUN=${DRY_RUN:-0}, DRY_RUN="${DRY_RUN:-1}", : "${DRY_RUN:=1}".
+const ENV_SWITCH = /(os\.environ|os\.getenv|getenv|process\.env|ENV\[|ENV\.fetch|\$env:)[^\n]*dry[_-]?run|\$\{\w*dry[_-]?run\w*:?[-=]/i;
+
+const CONDITIONAL = /\b(if|elif|elsif|unless|when)\b|&&|\|\||\?|\bor\b|\band\b/;
+const EARLY_EXIT = /\b(return|exit|sys\.exit|os\.Exit|process\.exit|continue|next)\b/;
+
+// Lines that only report what would happen; strings in them often quote the command itself.
+const LOG_LINE = /^\s*(echo|printf|print|puts|p|Write-(Host|Output|Verbose|Information)|console\.(log|info|warn)|log(ger)?\.\w+|logging\.\w+|fmt\.(Print|Fprint)\w*|log\.Print\w*)\b/;
+
+const SHELL_REDIRECT = />>?\s*(?!&|\/dev\/null)["$\w./~]/;
+
+interface SideEffectRule {
+    pattern: RegExp;
+    languages?: Language[];
+}
+
+const SIDE_EFFECT_RULES: SideEffectRule[] = [
+    // Filesystem
+    { pattern: /(^\s*|[;&|]\s*|\bsudo\s+|^\s*[\w-]+\s+)(rm|mv|cp|rsync|chmod|chown|mkdir|touch|ln|truncate|tee)\s/, languages: ['Bash', 'Auto'] },
+    { pattern: /[^<>&0-9\s-]\s*>>?\s*(?!\s*\/dev\/null|&)["$\w./~]/, languages: ['Bash', 'Auto'] },
+    { pattern: /\b(Set-Content|Add-Content|Out-File|New-Item|Copy-Item|Move-Item|Rename-Item|Remove-Item|Clear-Content|Set-ItemProperty)\b/i, languages: ['PowerShell', 'Auto'] },
+    { pattern: /\bopen\([^)]*['"][wax]\+?b?['"]|\bshutil\.(move|copy\w*|rmtree)|\bos\.(remove|unlink|rename|replace|makedirs|mkdir|rmdir|chmod|chown)\s*\(|\.(write_text|write_bytes|unlink|rmdir|mkdir|rename|touch)\s*\(/, languages: ['Python', 'Auto'] },
+    { pattern: /\bfs(\.promises)?\.(write|append|rename|copy|cp|mkdir|rm|rmdir|unlink|chmod|chown)\w*\s*\(/, languages: ['JavaScript', 'TypeScript', 'Auto'] },
+    { pattern: /\bos\.(WriteFile|Create|Rename|Remove|RemoveAll|Mkdir\w*|Chmod|Chown)\s*\(|\bioutil\.WriteFile\s*\(/, languages: ['Go', 'Auto'] },
+    { pattern: /\bFile\.(write|delete|rename)\b|\bFile\.open\([^)]*['"][wa]|\bFileUtils\.\w+|\bDir\.(mkdir|rmdir|delete)\b/, languages: ['Ruby', 'Auto'] },
+    { pattern: /\bfs::(write|remove_file|remove_dir\w*|rename|copy|create_dir\w*)\s*\(|\bFile::create\s*\(/, languages: ['Rust', 'Auto'] },
+    { pattern: /\bFiles\.(write\w*|delete\w*|move|copy|createDirector\w*)\s*\(|\bnew\s+FileWriter\s*\(/, languages: ['Java', 'Auto'] },
+    { pattern: /\bFile\.(WriteAll\w*|AppendAll\w*|Delete|Move|Copy)\s*\(|\bDirectory\.(Delete|Move|CreateDirectory)\s*\(/, languages: ['C#', 'Auto'] },
+    { pattern: /\b(file_put_contents|unlink|rename|copy|mkdir|rmdir|chmod|chown)\s*\(|\bfopen\([^)]*['"][wax]/, languages: ['PHP', 'Auto'] },
+    { pattern: /\bopen\s*\(?[^)\n]*['"]\+?>|\b(unlink|rename|mkdir|rmdir|chmod|chown|make_path|remove_tree)\s*\(/, languages: ['Perl', 'Auto'] },
+
+    // Processes and services
+    { pattern: /\bsubprocess\.(run|call|check_call|check_output|Popen)\s*\(|\bos\.system\s*\(/, languages: ['Python', 'Auto'] },
+    { pattern: /\b(execSync|execFileSync|spawnSync|exec|execFile|spawn)\s*\(/, languages: ['JavaScript', 'TypeScript', 'Auto'] },
+    { pattern: /\bexec\.Command(Context)?\s*\(/, languages: ['Go', 'Auto'] },
+    { pattern: /\bsystem\s*\(|%x\(|`[^`]+`/, languages: ['Ruby', 'Auto'] },
+    { pattern: /\b(Start-Process|Stop-Process|Stop-Service|Start-Service|Restart-Service|Set-Service|Invoke-Command)\b/i, languages: ['PowerShell', 'Auto'] },
+    { pattern: /\bCommand::new\s*\(/, languages: ['Rust', 'Auto'] },
+    { pattern: /\bnew\s+ProcessBuilder\s*\(|\bRuntime\.getRuntime\(\)\.exec\s*\(/, languages: ['Java', 'Auto'] },
+    { pattern: /\bProcess\.Start\s*\(/, languages: ['C#', 'Auto'] },
+    { pattern: /\b(exec|shell_exec|system|passthru|proc_open)\s*\(/, languages: ['PHP', 'Auto'] },
+    { pattern: /\bsystem\s*\(|\bqx\s*[({\/]|`[^`]+`/, languages: ['Perl', 'Auto'] },
+    { pattern: /\b(systemctl|service)\s+\S*\s*(start|stop|restart|enable|disable|reload)\b|\bsystemctl\s+(start|stop|restart|enable|disable|reload)\b/ },
+
+    // Network writes
+    { pattern: /\brequests\.(post|put|patch|delete)\s*\(|\bhttpx\.(post|put|patch|delete)\s*\(/, languages: ['Python', 'Auto'] },
+    { pattern: /\bcurl\b[^\n]*(-X\s*(POST|PUT|PATCH|DELETE)|\s(-d|--data[\w-]*|-F|--form|-T|--upload-file)\s)/ },
+    { pattern: /\bmethod\s*:\s*['"](POST|PUT|PATCH|DELETE)['"]|\baxios\.(post|put|patch|delete)\s*\(/i, languages: ['JavaScript', 'TypeScript', 'Auto'] },
+    { pattern: /\bInvoke-(RestMethod|WebRequest)\b[^\n]*-Method\s+['"]?(Post|Put|Patch|Delete)/i, languages: ['PowerShell', 'Auto'] },
+    { pattern: /\bhttp\.(Post|PostForm)\s*\(|\bhttp\.NewRequest\w*\([^,]*"(POST|PUT|PATCH|DELETE)"/, languages: ['Go', 'Auto'] },
+
+    // Infrastructure and VCS
+    { pattern: /\bkubectl\s+(apply|delete|create|patch|scale|rollout|replace|drain|cordon)\b|\bhelm\s+(install|upgrade|uninstall|rollback)\b|\bterraform\s+(apply|destroy|import)\b/ },
+    { pattern: /\baws\s+[\w-]+\s+(create|delete|put|rm|cp|mv|sync|terminate|update|run|start|stop|modify|attach|detach)[\w-]*\b|\baz\s+[\w\s-]*\s(create|delete|update|start|stop|restart)\b|\bgcloud\s+[\w\s-]*\s(create|delete|deploy|update)\b/ },
+    { pattern: /\bdocker\s+(run|rm|rmi|push|build|stop|kill|compose\s+(up|down))\b|\bgit\s+(push|commit|reset|clean|checkout\s+-f)\b/ },
+
+    // SQL writes
+    { pattern: /\b(INSERT\s+INTO|UPDATE\s+[\w."`]+\s+SET|DELETE\s+FROM|DROP\s+(TABLE|DATABASE|SCHEMA)|TRUNCATE\s+TABLE|ALTER\s+TABLE)\b/i },
+];
+
+interface GateScope {
+    line: number;
+    start: number;
+    end: number;
+}
+
+const FUNCTION_DEF: Partial<Record<Language, RegExp>> = {
+    Bash: /^\s*(?:function\s+)?([A-Za-z_][\w-]*)\s*\(\)\s*\{?|^\s*function\s+([A-Za-z_][\w-]*)\s*\{?/,
+    Python: /^\s*(?:async\s+)?def\s+(\w+)/,
+    Ruby: /^\s*def\s+(?:self\.)?(\w+[?!]?)/,
+    PowerShell: /^\s*function\s+([\w-]+)/i,
+    JavaScript: /\bfunction\s+(\w+)|\b(?:const|let)\s+(\w+)\s*=\s*(?:async\s*)?(?:\([^)]*\)|\w+)\s*=>/,
+    TypeScript: /\bfunction\s+(\w+)|\b(?:const|let)\s+(\w+)\s*=\s*(?:async\s*)?(?:\([^)]*\)|\w+)\s*(?::[^=]+)?=>/,
+    Go: /^func\s+(?:\([^)]*\)\s*)?(\w+)/,
+};
+
+const isSideEffect = (line: string, language: Language) =>
+    SIDE_EFFECT_RULES.some(rule => (!rule.languages || rule.languages.includes(language)) && rule.pattern.test(line));
+
+const isGate = (line: string) => DRY_RUN_NAME.test(line) && (CONDITIONAL.test(line) || /ShouldProcess|-WhatIf/i.test(line));
+
+/**
+ * Checks that a script generated under 'Dry Run Only' exposes a dry-run switch and that every
+ * side-effecting call is gated by it, either directly, by a guard clause that returns early,
+ * or through a wrapper function that performs the check.
+ */
+export const verifyDryRun = (script: string, language: Language): DryRunReport => {
+    const lines = script.split('\n');
+    const switches: DryRunSwitch[] = [];
+    const gates: ScriptLocation[] = [];
+    const scopes: GateScope[] = [];
+
+    lines.forEach((line, i) => {
+        if (!line.trim() || isComment(line, language)) return;
+        const snippet = line.trim();
+        if (FLAG_SWITCH.test(line)) switches.push({ kind: 'flag', line: i + 1, snippet });
+        else if (ENV_SWITCH.test(line)) switches.push({ kind: 'env', line: i + 1, snippet });
+
+        if (!isGate(line)) return;
+        gates.push({ line: i + 1, snippet });
+        let end = blockEnd(lines, i, language);
+        const body = lines.slice(i, end + 1).join('\n');
+        if (EARLY_EXIT.test(body)) end = Math.max(end, enclosingBlockEnd(lines, i, language));
+        scopes.push({ line: i + 1, start: i, end });
+    });
+
+    // Functions whose bodies contain a gate act as dry-run-aware wrappers for their callers.
+    const wrappers: { name: string; gateLine: number; start: number; end: number }[] = [];
+    const defPattern = FUNCTION_DEF[language];
+    if (defPattern) {
+        lines.forEach((line, i) => {
+            const match = line.match(defPattern);
+            const name = match?.slice(1).find(Boolean);
+            if (!name) return;
+            const end = blockEnd(lines, i, language);
+            const gate = scopes.find(s => s.start > i && s.start <= end);
+            if (gate) wrappers.push({ name, gateLine: gate.line, start: i, end });
+        });
+    }
+
+    const sideEffects: SideEffectCall[] = [];
+    lines.forEach((line, i) => {
+        if (!line.trim() || isComment(line, language) || !isSideEffect(line, language)) return;
+        if (LOG_LINE.test(line) && !(language === 'Bash' && SHELL_REDIRECT.test(line))) return;
+        const snippet = line.trim();
+
+        if (isGate(line) || /-WhatIf\b/i.test(line)) {
+            sideEffects.push({ line: i + 1, snippet, gated: true, gateLine: i + 1 });
+            return;
+        }
+        const scope = scopes.find(s => i > s.start && i <= s.end);
+        if (scope) {
+            sideEffects.push({ line: i + 1, snippet, gated: true, gateLine: scope.line });
+            return;
+        }
+        const wrapper = wrappers.find(w => (i <= w.start || i > w.end) && new RegExp(`(^|[^\\w.-])${w.name.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}\\b`).test(line));
+        sideEffects.push(wrapper
+            ? { line: i + 1, snippet, gated: true, gateLine: wrapper.gateLine }
+            : { line: i + 1, snippet, gated: false });
+    });
+
+    return {
+        switches,
+        gates,
+        sideEffects,
+        verified: switches.length > 0 && sideEffects.every(s => s.gated)
+    };
+};
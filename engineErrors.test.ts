@@ -0,0 +1,60 @@
+import { describe, expect, it } from "vitest";
+import { AuthError, CancelledError, EngineError, NetworkError, ProviderError, RateLimitError, RequestError, TimeoutError, classifyError, engineErrorFromPayload, errorForStatus, retryAfterFromHeaders } from "./engineErrors";
+
+describe("errorForStatus", () => {
+    it.each([
+        [401, AuthError, false],
+        [403, AuthError, false],
+        [429, RateLimitError, true],
+        [504, TimeoutError, true],
+        [500, ProviderError, true],
+        [400, ProviderError, false]
+    ])("maps HTTP %i", (status, type, retryable) => {
+        const error = errorForStatus(status, "failed");
+        expect(error).toBeInstanceOf(type);
+        expect(error.retryable).toBe(retryable);
+    });
+});
+
+describe("retryAfterFromHeaders", () => {
+    it("prefers retry-after-ms, then Retry-After seconds, then the reset headers", () => {
+        expect(retryAfterFromHeaders({ 'retry-after-ms': '250', 'retry-after': '9' })).toBe(250);
+        expect(retryAfterFromHeaders({ 'retry-after': '3' })).toBe(3000);
+        expect(retryAfterFromHeaders(new Headers({ 'x-ratelimit-reset-requests': '2s', 'x-ratelimit-reset-tokens': '1m' }))).toBe(60_000);
+        expect(retryAfterFromHeaders({})).toBeUndefined();
+    });
+});
+
+describe("classifyError", () => {
+    it("passes engine errors through", () => {
+        const error = new TimeoutError("slow");
+        expect(classifyError(error, 'groq')).toBe(error);
+    });
+
+    it("reports an aborted signal as a cancellation", () => {
+        const controller = new AbortController();
+        controller.abort();
+        expect(classifyError(new Error("aborted"), 'groq', controller.signal)).toBeInstanceOf(CancelledError);
+    });
+
+    it("uses the SDK status and treats fetch TypeErrors as network failures", () => {
+        expect(classifyError({ status: 429, message: "slow down", headers: { 'retry-after': '1' } }, 'groq').retryAfterMs).toBe(1000);
+        expect(classifyError(new TypeError("fetch failed"), 'proxy')).toBeInstanceOf(NetworkError);
+    });
+});
+
+describe("engineErrorFromPayload", () => {
+    it("rebuilds the typed error from its code", () => {
+        expect(engineErrorFromPayload({ error: "bad key", code: 'auth' }, 502)).toBeInstanceOf(AuthError);
+        const parse = engineErrorFromPayload({ error: "garbled", code: 'parse' });
+        expect(parse).toBeInstanceOf(EngineError);
+        expect(parse.code).toBe('parse');
+        expect(engineErrorFromPayload({ error: "upstream", code: 'provider', status: 503 }, 502).status).toBe(503);
+    });
+
+    it("falls back to the status for payloads without a code", () => {
+        expect(engineErrorFromPayload({ error: "too big" }, 413)).toBeInstanceOf(RequestError);
+        expect(engineErrorFromPayload({}, 429, 500).retryAfterMs).toBe(500);
+        expect(engineErrorFromPayload(null, 502)).toBeInstanceOf(ProviderError);
+    });
+});
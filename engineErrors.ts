@@ -0,0 +1,186 @@
+import { EngineErrorCode, GenerationUsage, ProviderKind } from "./types";
+
+/**
+ * Typed failures for everything between the form and the model: the provider call, the proxy and
+ * the parse. `retryable` says whether repeating the same request can succeed, which drives both
+ * the automatic backoff in providers.ts and the retry button in the UI.
+ */
+export class EngineError extends Error {
+    /** Tokens a failed generation had already used, so the usage log still counts them. */
+    usage?: GenerationUsage;
+
+    constructor(
+        message: string,
+        public code: EngineErrorCode,
+        public retryable: boolean,
+        public retryAfterMs?: number,
+        public status?: number
+    ) {
+        super(message);
+        this.name = 'EngineError';
+    }
+}
+
+export class AuthError extends EngineError {
+    constructor(message: string, status?: number) {
+        super(message, 'auth', false, undefined, status);
+        this.name = 'AuthError';
+    }
+}
+
+export class RateLimitError extends EngineError {
+    constructor(message: string, retryAfterMs?: number) {
+        super(message, 'rate_limit', true, retryAfterMs, 429);
+        this.name = 'RateLimitError';
+    }
+}
+
+export class TimeoutError extends EngineError {
+    constructor(message: string) {
+        super(message, 'timeout', true);
+        this.name = 'TimeoutError';
+    }
+}
+
+export class CancelledError extends EngineError {
+    constructor(message = "The request was cancelled.") {
+        super(message, 'cancelled', false);
+        this.name = 'CancelledError';
+    }
+}
+
+export class EmptyCompletionError extends EngineError {
+    constructor(message = "The model returned an empty completion.") {
+        super(message, 'empty_completion', true);
+        this.name = 'EmptyCompletionError';
+    }
+}
+
+export class NetworkError extends EngineError {
+    constructor(message: string) {
+        super(message, 'network', true);
+        this.name = 'NetworkError';
+    }
+}
+
+/** Any other non-2xx reply from the provider; server-side (5xx) failures are worth another attempt. */
+export class ProviderError extends EngineError {
+    constructor(message: string, status?: number) {
+        super(message, 'provider', status === undefined || status >= 500, undefined, status);
+        this.name = 'ProviderError';
+    }
+}
+
+/** The proxy refused the request itself: bad input, oversized body, runner disabled. */
+export class RequestError extends EngineError {
+    constructor(message: string, status?: number) {
+        super(message, 'bad_request', false, undefined, status);
+        this.name = 'RequestError';
+    }
+}
+
+export const ERROR_TITLES: Record<EngineErrorCode, string> = {
+    auth: "Provider rejected the credentials",
+    rate_limit: "Rate limited",
+    timeout: "Request timed out",
+    cancelled: "Cancelled",
+    empty_completion: "Empty completion",
+    parse: "Unusable model response",
+    network: "Service unreachable",
+    provider: "Provider error",
+    bad_request: "Request rejected"
+};
+
+export const ERROR_GUIDANCE: Record<EngineErrorCode, string> = {
+    auth: "The API key on the server is missing, invalid or lacks access to the model. Check GROQ_API_KEY or LLM_API_KEY and restart the server; retrying will not help.",
+    rate_limit: "The provider or the proxy is throttling requests. Wait for the limit to reset, then retry.",
+    timeout: "The model did not answer in time. Retry, or raise LLM_TIMEOUT_MS for long generations.",
+    cancelled: "The generation was stopped before it finished.",
+    empty_completion: "The model answered with nothing. This is usually transient; retry.",
+    parse: "The model output was missing required sections even after a repair attempt. Retry, or switch to a larger model.",
+    network: "The generation service could not be reached. Check that the server is running, then retry.",
+    provider: "The provider failed to complete the request. Retry if it was a server-side error; otherwise check MODEL_NAME and LLM_BASE_URL.",
+    bad_request: "The request was rejected before reaching the model. Adjust the input and submit again."
+};
+
+// "1m30.5s", "250ms", "6s": the reset format Groq and OpenAI use in x-ratelimit-reset-* headers.
+const parseDuration = (value: string): number | undefined => {
+    const parts = [...value.matchAll(/([\d.]+)(ms|h|m|s)/g)];
+    if (!parts.length) return undefined;
+    const unit: Record<string, number> = { ms: 1, s: 1000, m: 60_000, h: 3_600_000 };
+    return parts.reduce((total, [, amount, u]) => total + Number(amount) * unit[u], 0);
+};
+
+type HeaderSource = { get(name: string): string | null } | Record<string, string | null | undefined> | undefined;
+
+const readHeader = (headers: HeaderSource, name: string): string | undefined => {
+    if (!headers) return undefined;
+    const value = typeof headers.get === 'function'
+        ? (headers as { get(name: string): string | null }).get(name)
+        : (headers as Record<string, string | null | undefined>)[name];
+    return value ?? undefined;
+};
+
+/** How long a 429 asks the caller to wait: retry-after-ms, Retry-After (seconds or a date), then the reset headers. */
+export const retryAfterFromHeaders = (headers: HeaderSource): number | undefined => {
+    const ms = Number(readHeader(headers, 'retry-after-ms'));
+    if (ms > 0) return ms;
+    const retryAfter = readHeader(headers, 'retry-after');
+    if (retryAfter) {
+        const seconds = Number(retryAfter);
+        if (seconds > 0) return seconds * 1000;
+        const date = Date.parse(retryAfter);
+        if (!Number.isNaN(date)) return Math.max(0, date - Date.now());
+    }
+    const resets = ['x-ratelimit-reset-requests', 'x-ratelimit-reset-tokens']
+        .map(name => readHeader(headers, name))
+        .map(value => (value ? parseDuration(value) : undefined))
+        .filter((value): value is number => value !== undefined);
+    return resets.length ? Math.max(...resets) : undefined;
+};
+
+/** Maps an HTTP status from a provider to the error a caller should see. */
+export const errorForStatus = (status: number, message: string, headers?: HeaderSource): EngineError => {
+    if (status === 401 || status === 403) return new AuthError(message, status);
+    if (status === 429) return new RateLimitError(message, retryAfterFromHeaders(headers));
+    if (status === 408 || status === 504) return new TimeoutError(message);
+    return new ProviderError(message, status);
+};
+
+/**
+ * Normalizes whatever a provider SDK, fetch or the parser threw. `signal` distinguishes a
+ * cancellation from an abort caused by something else.
+ */
+export const classifyError = (error: any, kind: ProviderKind | 'proxy', signal?: AbortSignal): EngineError => {
+    if (error instanceof EngineError) return error;
+    if (signal?.aborted) return new CancelledError();
+    // The Groq SDK's APIError subclasses carry the status and the response headers.
+    if (typeof error?.status === 'number') return errorForStatus(error.status, `${kind} returned HTTP ${error.status}: ${error.message}`, error.headers);
+    if (error?.name === 'APIConnectionTimeoutError') return new TimeoutError(`${kind} did not respond in time.`);
+    if (error?.name === 'APIConnectionError' || error instanceof TypeError) {
+        return new NetworkError(`Could not reach ${kind === 'proxy' ? 'the generation service' : `the ${kind} provider`}: ${error.message}`);
+    }
+    return new ProviderError(error?.message || `${kind} failed.`);
+};
+
+/** Rebuilds a typed error from the JSON a proxy endpoint or NDJSON stream sent. */
+export const engineErrorFromPayload = (payload: any, status?: number, retryAfterMs?: number): EngineError => {
+    const message = payload?.error || (status ? `Service returned HTTP ${status}.` : "Generation failed.");
+    const wait = payload?.retryAfterMs ?? retryAfterMs;
+    switch (payload?.code as EngineErrorCode | undefined) {
+        case 'auth': return new AuthError(message, status);
+        case 'rate_limit': return new RateLimitError(message, wait);
+        case 'timeout': return new TimeoutError(message);
+        case 'cancelled': return new CancelledError(message);
+        case 'empty_completion': return new EmptyCompletionError(message);
+        case 'network': return new NetworkError(message);
+        case 'parse': return new EngineError(message, 'parse', true, undefined, status);
+        case 'bad_request': return new RequestError(message, status);
+        // The proxy answers 502 for every provider failure; the upstream status travels in the payload.
+        case 'provider': return new ProviderError(message, payload?.status ?? status);
+    }
+    // Replies without a code (older servers, intermediaries) are classified by status alone.
+    if (status === 429) return new RateLimitError(message, wait);
+    if (status && status < 500) return new RequestError(message, status);
+    return new ProviderError(message, status);
+};
@@ -0,0 +1,114 @@
+import { describe, expect, it } from "vitest";
+import { classifyFault, faultTargetIndex, isHostArg, isPathArg, judgeFaultCase, parseExpectation, parseUsageArgs, planFaultCases, splitCommandLine } from "./faultInjection";
+import { FaultCase } from "./types";
+
+const observed = (exitCode: number | null, output: string, timedOut = false) =>
+    ({ exitCode, output, timedOut, injected: "test", command: "python script.py" });
+
+const caseFor = (scenario: string, behavior: string): FaultCase =>
+    planFaultCases([{ scenario, trigger: scenario, behavior }])[0];
+
+describe("classifyFault", () => {
+    it.each([
+        ["Source directory missing", 'missing-file'],
+        ["Destination is read-only", 'permission-denied'],
+        ["API endpoint unreachable", 'unreachable-host'],
+        ["Malformed JSON input", 'malformed-input'],
+        ["Disk quota exceeded", null]
+    ])("%s → %s", (scenario, kind) => {
+        expect(classifyFault({ scenario, trigger: "", behavior: "" })).toBe(kind);
+    });
+
+    it("prefers a permission fault over a missing file", () => {
+        expect(classifyFault({ scenario: "Missing permission on the input file", trigger: "", behavior: "" })).toBe('permission-denied');
+    });
+});
+
+describe("parseExpectation", () => {
+    it("reads an explicit exit code and quoted messages", () => {
+        const expectation = parseExpectation(`Prints "Source not found" and exits with code 2.`);
+        expect(expectation.exit).toBe(2);
+        expect(expectation.outputIncludes).toEqual(["Source not found"]);
+        expect(expectation.graceful).toBe(true);
+    });
+
+    it("distinguishes carrying on from failing", () => {
+        expect(parseExpectation("Skips the file and continues.").exit).toBe('zero');
+        expect(parseExpectation("Aborts with a non-zero status.").exit).toBe('nonzero');
+    });
+
+    it("ignores quoted flags and paths", () => {
+        expect(parseExpectation(`Suggests "--force" or "/tmp/x".`).outputIncludes).toEqual([]);
+    });
+});
+
+describe("usage parsing", () => {
+    it("splits quoted arguments", () => {
+        expect(splitCommandLine(`python script.py "my dir" 'x y' z`)).toEqual(['python', 'script.py', 'my dir', 'x y', 'z']);
+    });
+
+    it("returns the arguments after the script name", () => {
+        expect(parseUsageArgs("$ python script.py /var/log/app /backups --days 7 | tee out")).toEqual(['/var/log/app', '/backups', '--days', '7']);
+        expect(parseUsageArgs("no script here")).toEqual([]);
+    });
+
+    it("tells paths and hosts apart", () => {
+        expect(isPathArg('/var/log')).toBe(true);
+        expect(isPathArg('data.csv')).toBe(true);
+        expect(isPathArg('1.2.3')).toBe(false);
+        expect(isPathArg('https://api.example.com')).toBe(false);
+        expect(isHostArg('https://api.example.com')).toBe(true);
+        expect(isHostArg('db.internal:5432')).toBe(true);
+    });
+});
+
+describe("faultTargetIndex", () => {
+    const args = ["--verbose", "/var/log/myapp", "/backups/logs"];
+    const target = (scenario: string, trigger = "", values = args) =>
+        faultTargetIndex(planFaultCases([{ scenario, trigger, behavior: "" }])[0], values);
+
+    it("puts destination, output and target faults into the last path", () => {
+        expect(target("Read-only destination", "Destination is not writable")).toBe(2);
+        expect(target("Output directory missing")).toBe(2);
+        expect(target("Permission denied", "Target folder is unwritable")).toBe(2);
+    });
+
+    it("puts source and input faults into the first path", () => {
+        expect(target("Missing source directory", "Source path does not exist")).toBe(1);
+        expect(target("Input file unreadable")).toBe(1);
+    });
+
+    it("returns null when the scenario does not say which path it means", () => {
+        expect(target("Permission denied on a file")).toBeNull();
+        expect(target("Input readable but output is read-only")).toBeNull();
+    });
+
+    it("uses the only path without asking, and -1 without any", () => {
+        expect(target("Permission denied on a file", "", ["/data/in.csv"])).toBe(0);
+        expect(target("File missing", "", ["--dry-run"])).toBe(-1);
+    });
+
+    it("always corrupts the input", () => {
+        expect(target("Malformed output config")).toBe(1);
+    });
+});
+
+describe("judgeFaultCase", () => {
+    it("verifies a matching exit code and message", () => {
+        const verdict = judgeFaultCase(caseFor("Source directory missing", `Prints "Source not found" and exits with code 2.`), observed(2, "Source not found: /x"));
+        expect(verdict.status).toBe('verified');
+    });
+
+    it("contradicts an uncaught crash claimed to be graceful", () => {
+        const verdict = judgeFaultCase(caseFor("Source directory missing", "Logs a clear error and exits non-zero."), observed(1, "Traceback (most recent call last):\n  File x"));
+        expect(verdict.status).toBe('contradicted');
+    });
+
+    it("is inconclusive when the behavior makes no checkable claim", () => {
+        expect(judgeFaultCase(caseFor("Disk full", "Handled."), observed(0, "")).status).toBe('inconclusive');
+    });
+
+    it("treats a timeout during retries as inconclusive", () => {
+        expect(judgeFaultCase(caseFor("Network retry with backoff", "Retries then fails."), observed(null, "", true)).status).toBe('inconclusive');
+    });
+});
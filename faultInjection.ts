@@ -0,0 +1,144 @@
+import { FailureSimulation, FaultCase, FaultExpectation, FaultKind, FaultVerdict } from "./types";
+
+/**
+ * Turns prose FailureSimulations into executable fault-injection cases and judges the observed
+ * run against the claimed behavior. Pure text heuristics; scriptRunner.ts does the running.
+ */
+
+// Checked in order: a "missing permission" scenario is a permission fault, not a missing file.
+const FAULT_PATTERNS: { kind: FaultKind; pattern: RegExp }[] = [
+    { kind: 'permission-denied', pattern: /permission|access denied|forbidden|read-only|\bEACCES\b|not (writ|read)able|unwritable|unreadable/i },
+    { kind: 'unreachable-host', pattern: /unreachable|network|connection|connect|dns|\bhost\b|endpoint|offline|refused|api (is )?(down|unavailable)|\b5\d\d\b|timed? ?out/i },
+    { kind: 'malformed-input', pattern: /malformed|invalid|corrupt|pars(e|ing)|bad format|unexpected format|encoding|schema|garbage|truncated/i },
+    { kind: 'missing-file', pattern: /(missing|not found|does not exist|doesn't exist|no such|absent|deleted|non-?existent)[^.]*\b(file|path|dir|directory|folder|input|source)|\b(file|path|dir|directory|folder|input|source)\b[^.]*(missing|not found|does not exist|doesn't exist|no such|absent|deleted|non-?existent)/i }
+];
+
+export const classifyFault = (simulation: FailureSimulation): FaultKind | null => {
+    const text = `${simulation.scenario} ${simulation.trigger}`;
+    return FAULT_PATTERNS.find(f => f.pattern.test(text))?.kind ?? null;
+};
+
+const EXPLICIT_EXIT = /\b(?:exit(?:s|ing)?|return(?:s|ing)?)\s+(?:with\s+)?(?:(?:a|an)\s+)?(?:(?:exit\s+)?(?:status|code)\s+)?(\d{1,3})\b|\b(?:exit\s+)?(?:status|code)\s+(\d{1,3})\b/i;
+const ZERO_EXIT = /\bcontinu|\bskip|\bfall(s|ing)? back|\bdefault|\bignor|\bproceed|\bdegrad|\bretr(y|ies)[^.]*\bsucceed/i;
+const NONZERO_EXIT = /non-?zero|\bexit|\babort|\bterminat|\bfail|\bhalt|\bstop|\braise|\bthrow|\bcrash/i;
+const GRACEFUL = /\blog|\bmessage|\bclear|\bgraceful|\bfriendly|\breport|\bwarn|\bprint|\bdescriptive|\binform/i;
+const QUOTED = /["'`“‘]([^"'`”’\n]{3,80})["'`”’]/g;
+
+export const parseExpectation = (behavior: string): FaultExpectation => {
+    const explicit = behavior.match(EXPLICIT_EXIT);
+    const exit: FaultExpectation['exit'] = explicit
+        ? Number(explicit[1] ?? explicit[2])
+        : ZERO_EXIT.test(behavior) ? 'zero' : NONZERO_EXIT.test(behavior) ? 'nonzero' : 'any';
+    const outputIncludes = [...behavior.matchAll(QUOTED)]
+        .map(m => m[1].trim())
+        // Quoted flags, paths and identifiers describe the script, not what it prints.
+        .filter(q => /\s/.test(q) && !/^[-$]/.test(q));
+    return { exit, outputIncludes, graceful: GRACEFUL.test(behavior) };
+};
+
+export const planFaultCases = (simulations: FailureSimulation[]): FaultCase[] =>
+    simulations.map((simulation, index) => ({
+        index,
+        scenario: simulation.scenario,
+        trigger: simulation.trigger,
+        kind: classifyFault(simulation),
+        expectation: parseExpectation(simulation.behavior)
+    }));
+
+/** Minimal shell-style split that honours single and double quotes. */
+export const splitCommandLine = (line: string): string[] => {
+    const tokens: string[] = [];
+    const pattern = /"((?:[^"\\]|\\.)*)"|'([^']*)'|(\S+)/g;
+    for (const m of line.matchAll(pattern)) tokens.push(m[1] ?? m[2] ?? m[3]);
+    return tokens;
+};
+
+const SCRIPT_TOKEN = /(^|[\/\\])[\w.-]+\.(py|sh|ps1|js|mjs|ts|go|rb)$|^\.$/;
+
+/**
+ * Arguments from the usage example, without the interpreter and script name. Uses the first
+ * line that names a script file; returns [] when none does.
+ */
+export const parseUsageArgs = (usage: string): string[] => {
+    for (const raw of usage.split('\n')) {
+        const tokens = splitCommandLine(raw.replace(/^\s*[$>#]\s+/, '').trim());
+        const scriptAt = tokens.findIndex(t => SCRIPT_TOKEN.test(t));
+        if (scriptAt >= 0) {
+            const args = tokens.slice(scriptAt + 1);
+            const end = args.findIndex(t => /^(\||&&|;|>|2>|<)/.test(t));
+            return end >= 0 ? args.slice(0, end) : args;
+        }
+    }
+    return [];
+};
+
+export const isPathArg = (value: string) =>
+    /[\/\\~]/.test(value) && !/^[a-z]+:\/\//i.test(value)
+    || /^[\w.-]+\.[A-Za-z]{1,5}$/.test(value) && !/^\d+(\.\d+)*$/.test(value)
+    || /^<[^>]*(file|path|dir|input|source|folder)[^>]*>$/i.test(value);
+
+export const isHostArg = (value: string) =>
+    /^[a-z]+:\/\//i.test(value) || /^[\w-]+(\.[\w-]+)+:\d+$/.test(value) || /^<[^>]*(url|host|endpoint)[^>]*>$/i.test(value);
+
+const OUTPUT_SIDE = /\b(destination|dest|output|target)\b/i;
+const INPUT_SIDE = /\b(source|src|input)\b/i;
+
+/**
+ * Index of the path argument a fault goes into. Usage examples list inputs before outputs, so a
+ * scenario about the destination, output or target gets the last path and one about the source or
+ * input the first; malformed content always goes into the input. Returns -1 when there is no path
+ * argument and null when the scenario does not say which of several it means.
+ */
+export const faultTargetIndex = (faultCase: Pick<FaultCase, 'kind' | 'scenario' | 'trigger'>, values: string[]): number | null => {
+    const paths = values.flatMap((v, i) => (isPathArg(v) ? [i] : []));
+    if (paths.length <= 1) return paths[0] ?? -1;
+    if (faultCase.kind === 'malformed-input') return paths[0];
+    const text = `${faultCase.scenario} ${faultCase.trigger}`;
+    const output = OUTPUT_SIDE.test(text);
+    const input = INPUT_SIDE.test(text);
+    if (output === input) return null;
+    return output ? paths[paths.length - 1] : paths[0];
+};
+
+// Crashes the script did not handle itself.
+const UNCAUGHT = /Traceback \(most recent call last\)|^panic:|Unhandled(Promise)?Rejection|uncaught exception|^\s+at .+\(.*:\d+:\d+\)$|unbound variable|\(NoMethodError\)|\(NameError\)/im;
+
+/** Judges one case's observed run against its expectation. */
+export const judgeFaultCase = (
+    faultCase: FaultCase,
+    observed: { exitCode: number | null; timedOut: boolean; output: string; injected: string; command: string }
+): FaultVerdict => {
+    const { expectation } = faultCase;
+    const reasons: string[] = [];
+    const contradictions: string[] = [];
+    const base = { index: faultCase.index, kind: faultCase.kind, injected: observed.injected, command: observed.command, exitCode: observed.exitCode, timedOut: observed.timedOut, output: observed.output.slice(-2000) };
+
+    if (observed.timedOut) {
+        return /retr|backoff|wait/i.test(faultCase.scenario)
+            ? { ...base, status: 'inconclusive', reasons: ["Timed out, which may be retries still backing off."] }
+            : { ...base, status: 'contradicted', reasons: ["The script hung until the runner's timeout."] };
+    }
+
+    if (typeof expectation.exit === 'number') {
+        (observed.exitCode === expectation.exit ? reasons : contradictions).push(`Expected exit code ${expectation.exit}, observed ${observed.exitCode}.`);
+    } else if (expectation.exit === 'nonzero') {
+        (observed.exitCode !== 0 ? reasons : contradictions).push(`Expected a failure exit code, observed ${observed.exitCode}.`);
+    } else if (expectation.exit === 'zero') {
+        (observed.exitCode === 0 ? reasons : contradictions).push(`Expected the script to carry on and exit 0, observed ${observed.exitCode}.`);
+    }
+
+    if (expectation.graceful) {
+        if (UNCAUGHT.test(observed.output)) contradictions.push("Crashed with an uncaught error instead of handling the fault.");
+        else if (!observed.output.trim()) contradictions.push("Claimed to report the failure but printed nothing.");
+        else reasons.push("Reported the failure without an uncaught crash.");
+    }
+
+    const output = observed.output.toLowerCase();
+    expectation.outputIncludes.forEach(text => {
+        (output.includes(text.toLowerCase()) ? reasons : contradictions).push(`Expected output "${text}" ${output.includes(text.toLowerCase()) ? 'found' : 'not found'}.`);
+    });
+
+    if (contradictions.length) return { ...base, status: 'contradicted', reasons: contradictions };
+    if (!reasons.length) return { ...base, status: 'inconclusive', reasons: ["The claimed behavior makes no checkable claim about exit code or output."] };
+    return { ...base, status: 'verified', reasons };
+};
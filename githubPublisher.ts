@@ -0,0 +1,130 @@
+/**
+ * Publishes the engineering package to GitHub with a user-supplied token, either as a secret gist
+ * or as a branch plus pull request. Calls the REST API directly so the token never passes through
+ * the generation proxy; point `apiBaseUrl` at a GitHub Enterprise host (https://host/api/v3) or a
+ * local stand-in server.
+ */
+
+export const DEFAULT_GITHUB_API_URL = "https://api.github.com";
+
+export interface GitHubConnection {
+    apiBaseUrl: string;
+    token: string;
+}
+
+export interface PullRequestTarget {
+    /** "owner/name". */
+    repository: string;
+    /** Branch to create; must not exist yet. */
+    branch: string;
+    /** Branch to merge into; the repository default when empty. */
+    base?: string;
+    title: string;
+    body: string;
+}
+
+export interface GistResult {
+    id: string;
+    url: string;
+}
+
+export interface PullRequestResult {
+    number: number;
+    url: string;
+    branch: string;
+}
+
+/** Non-2xx reply from the GitHub API, with GitHub's own message when it sent one. */
+export class GitHubError extends Error {
+    constructor(message: string, public status: number) {
+        super(message);
+    }
+}
+
+const GUIDANCE: Record<number, string> = {
+    401: "The token was rejected; check that it is valid and not expired.",
+    403: "The token lacks permission for this action (gists need the gist scope, pull requests need contents and pull request write access).",
+    404: "Not found; check the repository name and that the token can see it.",
+    422: "GitHub rejected the request, for example because the branch already exists."
+};
+
+const request = async <T>(connection: GitHubConnection, method: string, path: string, body?: unknown): Promise<T> => {
+    const res = await fetch(`${connection.apiBaseUrl.replace(/\/+$/, '')}${path}`, {
+        method,
+        headers: {
+            "Accept": "application/vnd.github+json",
+            "Authorization": `Bearer ${connection.token}`,
+            "X-GitHub-Api-Version": "2022-11-28",
+            ...(body === undefined ? {} : { "Content-Type": "application/json" })
+        },
+        body: body === undefined ? undefined : JSON.stringify(body)
+    });
+    const payload = await res.json().catch(() => null);
+    if (!res.ok) {
+        const detail = payload?.errors?.map((e: any) => e?.message ?? e?.code).filter(Boolean).join('; ');
+        const reason = [payload?.message, detail].filter(Boolean).join(': ');
+        const guidance = GUIDANCE[res.status];
+        const message = guidance && reason ? `${guidance} GitHub said: ${reason}.` : guidance || reason;
+        throw new GitHubError(message || `GitHub returned HTTP ${res.status}.`, res.status);
+    }
+    return payload as T;
+};
+
+// Gists are flat, so directories are folded into the file name.
+export const gistFileName = (path: string) => path.split('/').join('__');
+
+export const publishGist = async (files: Record<string, string>, description: string, connection: GitHubConnection): Promise<GistResult> => {
+    const gistFiles: Record<string, { content: string }> = {};
+    // GitHub rejects gist files with empty content.
+    Object.entries(files).filter(([, content]) => content.trim()).forEach(([path, content]) => {
+        gistFiles[gistFileName(path)] = { content };
+    });
+    const gist = await request<{ id: string; html_url: string }>(connection, 'POST', '/gists', { description, public: false, files: gistFiles });
+    return { id: gist.id, url: gist.html_url };
+};
+
+const parseRepository = (repository: string): string => {
+    const match = repository.trim().replace(/^https?:\/\/[^/]+\//, '').replace(/\.git$/, '').match(/^([\w.-]+)\/([\w.-]+)$/);
+    if (!match) throw new GitHubError(`"${repository}" is not an owner/name repository.`, 400);
+    return `/repos/${match[1]}/${match[2]}`;
+};
+
+/**
+ * Commits every file onto a new branch in one tree (so paths like .github/workflows survive as
+ * directories) and opens a pull request from it. Nothing is written if the base branch is missing.
+ */
+export const publishPullRequest = async (files: Record<string, string>, target: PullRequestTarget, connection: GitHubConnection): Promise<PullRequestResult> => {
+    const repo = parseRepository(target.repository);
+    const branch = target.branch.trim();
+    if (!branch) throw new GitHubError("A branch name is required.", 400);
+
+    const base = target.base?.trim() || (await request<{ default_branch: string }>(connection, 'GET', repo)).default_branch;
+    const head = await request<{ object: { sha: string } }>(connection, 'GET', `${repo}/git/ref/heads/${encodeURI(base)}`);
+    const parent = await request<{ sha: string; tree: { sha: string } }>(connection, 'GET', `${repo}/git/commits/${head.object.sha}`);
+
+    const tree = await request<{ sha: string }>(connection, 'POST', `${repo}/git/trees`, {
+        base_tree: parent.tree.sha,
+        tree: Object.entries(files).map(([path, content]) => ({ path, mode: '100644', type: 'blob', content }))
+    });
+    const commit = await request<{ sha: string }>(connection, 'POST', `${repo}/git/commits`, {
+        message: target.title,
+        tree: tree.sha,
+        parents: [parent.sha]
+    });
+    await request(connection, 'POST', `${repo}/git/refs`, { ref: `refs/heads/${branch}`, sha: commit.sha });
+
+    const pull = await request<{ number: number; html_url: string }>(connection, 'POST', `${repo}/pulls`, {
+        title: target.title,
+        head: branch,
+        base,
+        body: target.body
+    });
+    return { number: pull.number, url: pull.html_url, branch };
+};
+
+/** Branch name for a new publish, unique per second so re-publishing does not collide. */
+export const defaultBranchName = (description: string, now = new Date()) => {
+    const slug = description.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '').slice(0, 32).replace(/-$/, '');
+    const stamp = now.toISOString().replace(/[-:]/g, '').replace(/\..*$/, '').replace('T', '-');
+    return `script-engineer/${slug || 'package'}-${stamp}`;
+};
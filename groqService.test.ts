@@ -0,0 +1,71 @@
+import { describe, expect, it } from "vitest";
+import { generateScript, streamScript } from "./groqService";
+import { MOCK_RECORDED_RESPONSE, createMockProvider } from "./providers";
+import { ResponseParseError } from "./responseSchema";
+import { estimateTokens } from "./usageTracker";
+import { ScriptRequest, TokenUsage } from "./types";
+
+const REQUEST: ScriptRequest = {
+    description: "Archive logs older than seven days",
+    language: 'Python',
+    environment: 'Linux',
+    safetyLevel: 'Normal (Recommended)',
+    scriptType: 'Automation',
+    includeTests: true
+};
+
+// The recording with its Dockerfile section removed, so validation fails.
+const BROKEN = MOCK_RECORDED_RESPONSE.replace(/🐳 Dockerfile[\s\S]*?```[\s\S]*?```\n/, '');
+
+describe("generateScript", () => {
+    it("returns the validated recording", async () => {
+        const response = await generateScript(REQUEST, createMockProvider());
+        expect(response.language).toBe('Python');
+        expect(response.dockerfile).toMatch(/^FROM /m);
+    });
+
+    it("sends one repair prompt and reports usage for both calls", async () => {
+        const usage: TokenUsage[] = [];
+        const response = await generateScript(REQUEST, createMockProvider([BROKEN, MOCK_RECORDED_RESPONSE]), undefined, u => usage.push(u));
+        expect(response.dockerfile).not.toBe("");
+        expect(usage).toHaveLength(2);
+    });
+
+    it("does not ask for a repair when only the metrics line is missing", async () => {
+        const usage: TokenUsage[] = [];
+        const recording = MOCK_RECORDED_RESPONSE.replace(/📊 Metrics[^\n]*\n/, '');
+        const response = await generateScript(REQUEST, createMockProvider([recording, BROKEN]), undefined, u => usage.push(u));
+        expect(response.metrics.timeSavedMinutes).toBe(0);
+        expect(usage).toHaveLength(1);
+    });
+
+    it("fails with the offending sections when the repair is broken too", async () => {
+        const error = await generateScript(REQUEST, createMockProvider([BROKEN, BROKEN])).catch(e => e);
+        expect(error).toBeInstanceOf(ResponseParseError);
+        expect(error.message).toMatch(/Dockerfile/);
+    });
+});
+
+describe("streamScript", () => {
+    it("forwards every delta and resolves with the parsed response", async () => {
+        let streamed = "";
+        const response = await streamScript(REQUEST, d => { streamed += d; }, createMockProvider());
+        expect(streamed).toBe(MOCK_RECORDED_RESPONSE);
+        expect(response.usage).not.toBe("");
+    });
+
+    it("still reports usage for a stream that fails part-way", async () => {
+        const partial = "🧠 Summary: Archives log files";
+        const provider = { ...createMockProvider(), async *stream() { yield partial; throw new Error("socket hang up"); } };
+        const usage: TokenUsage[] = [];
+        await expect(streamScript(REQUEST, () => {}, provider, undefined, u => usage.push(u))).rejects.toThrow(/socket hang up/);
+        expect(usage).toEqual([expect.objectContaining({ completionTokens: estimateTokens(partial), estimated: true })]);
+    });
+
+    it("reports nothing for a call that failed before any output", async () => {
+        const provider = { ...createMockProvider(), async *stream(): AsyncGenerator<string> { throw new Error("connect ECONNREFUSED"); } };
+        const usage: TokenUsage[] = [];
+        await expect(streamScript(REQUEST, () => {}, provider, undefined, u => usage.push(u))).rejects.toThrow();
+        expect(usage).toEqual([]);
+    });
+});
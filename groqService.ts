@@ -1,22 +1,54 @@
 
-import Groq from "groq-sdk";
-import { ScriptRequest, ScriptResponse, FailureSimulation, ValueMetrics } from "./types";
+import { CiProvider, ConcreteLanguage, Environment, OutputMode, SafetyLevel, ScriptRequest, ScriptResponse, TokenUsage } from "./types";
+import { ChatMessage, LLMProvider, createProvider, providerConfigFromEnv } from "./providers";
+import { parseModelResponse } from "./responseParser";
+import { ARTIFACT_KEYS } from "./responseDiff";
+import { CONCRETE_LANGUAGES, LANGUAGE_PROFILES, artifactPath, ciProviderOf, fixtureFiles } from "./scriptPackage";
+import { CancelledError, EmptyCompletionError, EngineError, classifyError } from "./engineErrors";
+import { addUsage, estimateTokens } from "./usageTracker";
+import { buildAttachmentContext } from "./attachmentContext";
+import {
+    ResponseParseError,
+    SCRIPT_RESPONSE_SCHEMA,
+    SECTION_LABELS,
+    SchemaIssue,
+    ValidationResult,
+    describeIssues,
+    extractJson,
+    looksLikeJson,
+    validateScriptResponse
+} from "./responseSchema";
 
-const SYSTEM_INSTRUCTION = `You are an AI-powered script engineering system.
+const SYSTEM_PREAMBLE = `You are an AI-powered script engineering system.
 Your job is to convert vague human intent into safe, production-ready executable scripts.
 
 🎯 OBJECTIVE
 Understand intent, remove ambiguity, choose the safest solution, generate high-quality code.
 Output exactly:
-1. Summary (one paragraph)
-2. Assumptions (bullet list)
-3. Script (raw code)
-4. Tests (raw code for unit tests, ONLY if requested)
-5. Dockerfile (Minimal, production-ready multi-stage Dockerfile)
-6. CI/CD (GitHub Actions YAML configuration)
-7. Failure Simulations (A list of 3-4 scenarios formatted as: [Scenario] | [Trigger] | [Script Behavior])
-8. Value Metrics (Quantify engineering effort avoided: [Time Saved Mins] | [Total Lines] | [Errors Mitigated])
-9. Usage (one-liner)
+1. Language (the concrete language the script is written in)
+2. Summary (one paragraph)
+3. Assumptions (bullet list)
+4. Script (raw code)
+5. Tests (raw code for unit tests, ONLY if requested)
+6. Dockerfile (Minimal, production-ready multi-stage Dockerfile)
+7. CI/CD (Pipeline configuration for the requested CI/CD target)
+8. Files (Supporting project files, each with a relative path and a role: manifest, config, module, docs, deploy or fixture)
+9. Failure Simulations (A list of 3-4 scenarios formatted as: [Scenario] | [Trigger] | [Script Behavior])
+10. Value Metrics (Quantify engineering effort avoided: [Time Saved Mins] | [Total Lines] | [Errors Mitigated])
+11. Usage (one-liner)
+
+📦 PROJECT FILES
+- Any third-party dependency MUST be declared in the language's manifest (requirements.txt, go.mod, package.json, Gemfile) as a supporting file, and the Dockerfile must install from it.
+- Config files the script reads by default belong in supporting files too.
+- Deployment files requested for the target environment use role deploy and run the image built from the Dockerfile.
+- The Dockerfile, CI/CD and deployment files may only COPY or reference files that exist in the package.
+
+🔧 CONFIGURATION
+- Read every path, host, tunable and credential from an environment variable, a command-line argument or a config file shipped as a supporting file; never hard-code them.
+- Give non-secret parameters safe defaults. Secrets (tokens, passwords, keys) have no default and no value anywhere in the package.
+- The Dockerfile declares the non-secret environment parameters with ENV and the same defaults as the script; secrets are supplied at runtime, never via ENV or ARG.
+- CI/CD and deployment files pass parameters under the same names, taking secrets from the platform's secret store (\${{ secrets.NAME }}, masked variables, secretKeyRef).
+- Usage shows the required parameters.
 
 🔒 SAFETY & RESILIENCE (STRICT REQUIREMENT)
 - MANDATORY: Include comprehensive error handling.
@@ -26,18 +58,22 @@ Output exactly:
 📊 VALUE METRICS (ROI ANALYSIS - CRITICAL)
 - You MUST provide realistic, non-zero values that reflect the work of a professional senior engineer.
 - Time Saved Mins: Estimate the total time for Research + Architecture + Implementation + Debugging + Testing + Containerization + CI/CD Setup. Typical professional scripts range from 45-240 minutes. NEVER output 0.
-- Total Lines: The exact sum of lines in the script, tests, Dockerfile, and CI/CD YAML. This reflects optimized production code volume.
-- Errors Mitigated: Count the specific try-catch blocks, if/else checks for null/undefined, file existence checks, and status code verifications you implemented. This reflects explicit error handlers.
-- Format: Metrics | [Number] | [Number] | [Number]
+- Total Lines: The exact sum of lines in the script, tests, Dockerfile, and CI/CD configuration. This reflects optimized production code volume.
+- Errors Mitigated: Count the specific try-catch blocks, if/else checks for null/undefined, file existence checks, and status code verifications you implemented. This reflects explicit error handlers.`;
+
+const TEXT_OUTPUT_FORMAT = `- Format: Metrics | [Number] | [Number] | [Number]
 
 🧠 OUTPUT FORMAT (STRICT)
 Always output in this exact order:
+🔤 Language: ...
 🧠 Summary: ...
 ⚙️ Assumptions: ...
 📜 Script: ...
 🧪 Tests: ... (N/A if not requested)
 🐳 Dockerfile: ...
 🚀 CI/CD: ...
+📁 File: [relative path] ([role])
+... (one 📁 File section per supporting file, each followed by its code block; omit when none are needed)
 ☢️ Failure Simulations:
 - Scenario 1 | Trigger 1 | Behavior 1
 ...
@@ -46,129 +82,310 @@ Always output in this exact order:
 
 Do not include any extra chat or explanation outside these sections.`;
 
-const groq = new Groq({
-    apiKey: process.env.GROQ_API_KEY || "",
-    dangerouslyAllowBrowser: true
-});
+const JSON_OUTPUT_FORMAT = `🧠 OUTPUT FORMAT (STRICT)
+Respond with exactly one JSON object and nothing else: no markdown fences, no commentary.
+It MUST validate against this JSON Schema:
+${JSON.stringify(SCRIPT_RESPONSE_SCHEMA)}
+- Emit the keys in the schema's property order.
+- script, tests, dockerfile and cicd hold raw code without markdown fences (newlines escaped as \\n).
+- tests is "" when tests were not requested.
+- files is [] when no supporting files are needed.
+- failureSimulations lists 3-4 scenarios.`;
+
+const SYSTEM_INSTRUCTIONS: Record<OutputMode, string> = {
+    text: `${SYSTEM_PREAMBLE}\n${TEXT_OUTPUT_FORMAT}`,
+    json: `${SYSTEM_PREAMBLE}\n\n${JSON_OUTPUT_FORMAT}`
+};
+
+let defaultProvider: LLMProvider | null = null;
+
+const getDefaultProvider = (): LLMProvider => {
+    if (!defaultProvider) defaultProvider = createProvider(providerConfigFromEnv());
+    return defaultProvider;
+};
+
+const SAFETY_DIRECTIVES: Record<SafetyLevel, string> = {
+    'Dry Run Only': "The script MUST accept a --dry-run flag and honor a DRY_RUN environment variable, default to dry-run, and gate EVERY side-effecting call (file writes, deletes, network writes, process or infrastructure changes) behind that switch, logging what would happen instead.",
+    'Normal (Recommended)': "Prefer reversible operations and confirm before destructive actions.",
+    'Production (Strict)': "No destructive operations without explicit confirmation, no hard-coded credentials, no piping downloads into a shell, quote every variable expansion, and fail fast with explicit error traps."
+};
+
+const CI_DIRECTIVES: Record<CiProvider, string> = {
+    'GitHub Actions': "GitHub Actions workflow YAML with `on:` triggers for push and pull_request, jobs using `runs-on` and `actions/checkout`.",
+    'GitLab CI': "A .gitlab-ci.yml with explicit `stages:`, one job per stage, an `image:` per job and `rules:` instead of the deprecated only/except.",
+    'Azure Pipelines': "An azure-pipelines.yml with `trigger:`, a `pool: vmImage` and `stages:`/`jobs:`/`steps:` using `script:` and built-in tasks.",
+    'Jenkins': "A declarative Jenkinsfile (Groovy) with `pipeline { agent ... stages { stage(...) { steps { ... } } } }` and a `post` block for cleanup.",
+    'CircleCI': "A .circleci/config.yml using `version: 2.1`, `jobs:` with a `docker:` executor image and a `workflows:` section wiring them together."
+};
+
+// Environments missing here deploy the Dockerfile's image directly; see DEPLOYMENT_ENVIRONMENTS.
+const DEPLOYMENT_DIRECTIVES: Partial<Record<Environment, string>> = {
+    'Linux': "A systemd unit at deploy/systemd/<name>.service running the script as a dedicated non-root User= with Type=oneshot (simple for long-running work), Restart= policy and hardening (NoNewPrivileges, ProtectSystem=strict), plus deploy/systemd/<name>.timer with an OnCalendar= schedule inferred from the description (state the default in Assumptions when none is given).",
+    'AWS': "Terraform under deploy/terraform/ (main.tf, variables.tf, outputs.tf) provisioning an AWS Lambda function from the container image, a least-privilege IAM role, a CloudWatch log group and an EventBridge schedule when the task is periodic.",
+    'Azure': "An Azure Function under deploy/azure/ (host.json and <name>/function.json with a timerTrigger or httpTrigger binding matching the task) plus main.bicep provisioning the Function App with a managed identity.",
+    'GCP': "A Cloud Run definition at deploy/cloudrun/service.yaml, or deploy/cloudrun/job.yaml for run-to-completion tasks, with resource limits, a dedicated service account, Secret Manager references for credentials and a Cloud Scheduler trigger when the task is periodic.",
+    'Kubernetes': "Manifests under deploy/k8s/: a Deployment for long-running services, a Job for run-to-completion tasks or a CronJob for scheduled ones, with resource requests and limits, a securityContext with runAsNonRoot, and a ConfigMap or Secret for configuration."
+};
+
+const HELM_DIRECTIVE = "Also a Helm chart under deploy/helm/<name>/ (Chart.yaml, values.yaml, templates/) that renders the same resources from values.";
 
-export const generateScript = async (request: ScriptRequest): Promise<ScriptResponse> => {
+const deploymentDirective = (request: ScriptRequest): string => {
+    const directive = DEPLOYMENT_DIRECTIVES[request.environment];
+    if (!directive) return "None beyond the Dockerfile.";
+    return request.environment === 'Kubernetes' && request.includeHelmChart ? `${directive} ${HELM_DIRECTIVE}` : directive;
+};
+
+const languageConventions = (language: ConcreteLanguage): string => {
+    const profile = LANGUAGE_PROFILES[language];
+    const paths = (['script', 'tests'] as const).map(key => artifactPath(key, { language })).join(' and ');
+    return `${paths}; tests use ${profile.testFramework}; the Dockerfile builds on ${profile.dockerBase}.`;
+};
+
+const languageDirective = (request: ScriptRequest): string => {
+    if (request.language !== 'Auto') return `${request.language}. Conventions: ${languageConventions(request.language)}`;
+    const table = CONCRETE_LANGUAGES.map(language => `  - ${language}: ${languageConventions(language)}`).join('\n');
+    return `Auto. Choose the best fit for the task and environment, report it as the language, and follow its conventions:\n${table}`;
+};
+
+// Script and test paths depend on the language, so an Auto request gets them from the conventions list.
+const packageLayout = (request: ScriptRequest): string =>
+    ARTIFACT_KEYS
+        .filter(key => request.language !== 'Auto' || (key !== 'script' && key !== 'tests'))
+        .map(key => artifactPath(key, request))
+        .join(', ');
+
+const ATTACHMENT_DIRECTIVE = "Existing code shows the conventions to follow and what the script integrates with or replaces; specs define the interfaces it calls and the payloads it reads or writes; sample inputs show the exact format it must parse.";
+
+// Sample inputs are packaged verbatim, so the tests can read them instead of inventing inline data.
+const fixtureDirective = (request: ScriptRequest): string | null => {
+    const fixtures = fixtureFiles(request.attachments);
+    if (!request.includeTests || !fixtures.length) return null;
+    return `${fixtures.map(f => f.path).join(', ')} (the attached samples, packaged as given). The tests MUST load these files from these paths, relative to the package root, as their input; do not return them as supporting files.`;
+};
+
+const buildMessages = (request: ScriptRequest, mode: OutputMode): ChatMessage[] => {
+    const attachments = buildAttachmentContext(request.attachments);
+    const fixtures = fixtureDirective(request);
     const prompt = `
 INPUT:
 - Description: ${request.description}
 - Script Type: ${request.scriptType}
-- Language: ${request.language}
+- Language: ${languageDirective(request)}
 - Environment: ${request.environment}
 - Safety Level: ${request.safetyLevel}
+- Safety Requirements: ${SAFETY_DIRECTIVES[request.safetyLevel]}
 - Include Tests: ${request.includeTests ? 'YES' : 'NO'}
+- CI/CD Target: ${ciProviderOf(request)}. ${CI_DIRECTIVES[ciProviderOf(request)]}
+- Deployment Files: ${deploymentDirective(request)}
+- Package Layout: ${packageLayout(request)} (fixed paths), plus any supporting files${attachments.text ? `
+- Attached Context: ${attachments.digests.length} file(s) below. ${ATTACHMENT_DIRECTIVE}` : ''}${fixtures ? `
+- Test Fixtures: ${fixtures}` : ''}
 
-PROCESS: Calculate ROI metrics based on the complexity of the task. Ensure 'Time Saved' is at least 30 minutes for even simple tasks, accounting for professional standards.
+PROCESS: Estimate ROI metrics from the complexity of the task. Report realistic figures; they are shown next to metrics computed locally from the returned artifacts.${attachments.text ? `
+
+ATTACHED CONTEXT:
+${attachments.text}` : ''}
   `.trim();
 
-    try {
-        const response = await groq.chat.completions.create({
-            messages: [
-                { role: "system", content: SYSTEM_INSTRUCTION },
-                { role: "user", content: prompt }
-            ],
-            model: process.env.MODEL_NAME || "llama-3.1-8b-instant",
-            temperature: 0.1,
-        });
+    return [
+        { role: "system", content: SYSTEM_INSTRUCTIONS[mode] },
+        { role: "user", content: prompt }
+    ];
+};
+
+const buildRefinementMessages = (request: ScriptRequest, current: ScriptResponse, instruction: string, mode: OutputMode): ChatMessage[] => {
+    const artifacts = JSON.stringify({
+        language: current.language,
+        summary: current.summary,
+        assumptions: current.assumptions,
+        script: current.script,
+        tests: current.tests || "",
+        dockerfile: current.dockerfile || "",
+        cicd: current.cicd || "",
+        files: current.files ?? [],
+        failureSimulations: current.failureSimulations,
+        usage: current.usage
+    }, null, 2);
 
-        const text = response.choices[0]?.message?.content || "";
-        if (!text) throw new Error("The engine returned an empty response.");
+    return [
+        ...buildMessages(request, mode),
+        {
+            role: "user",
+            content: `CURRENT REVISION:
+${artifacts}
 
-        return parseModelResponse(text);
+REFINEMENT INSTRUCTION: ${instruction}
+
+Apply the instruction to the current revision and return a complete new revision in the required output format.
+Update every artifact together: the tests must cover the changed behavior, and the Dockerfile, CI/CD, failure simulations, metrics and usage must stay consistent with the revised script.
+Leave anything the instruction does not concern unchanged.`
+        }
+    ];
+};
+
+type UsageListener = (usage: TokenUsage) => void;
+
+/**
+ * Collects what the backend reports for one call and hands it to `listener` once the call ends,
+ * estimating from the prompt and completion length when the backend reported nothing.
+ */
+const meterCall = (messages: ChatMessage[], listener?: UsageListener) => {
+    let reported: TokenUsage | undefined;
+    let settled = false;
+    const settle = (completion: string) => {
+        if (settled) return;
+        settled = true;
+        listener?.(reported ?? {
+            promptTokens: estimateTokens(messages.map(m => m.content).join('\n')),
+            completionTokens: estimateTokens(completion),
+            estimated: true
+        });
+    };
+    return {
+        onUsage: (usage: TokenUsage) => { reported = addUsage(reported, usage); },
+        settle,
+        // A call that failed, timed out or was cancelled is still billed for what it produced; one that
+        // failed before any output (a refused key, an unreachable host) cost nothing and is not counted.
+        abandon: (partial: string) => { if (reported || partial) settle(partial); }
+    };
+};
+
+const validateCompletion = (text: string, request: ScriptRequest): ValidationResult => {
+    if (!looksLikeJson(text)) return validateScriptResponse(parseModelResponse(text), request);
+    try {
+        return validateScriptResponse(extractJson(text), request);
     } catch (error: any) {
-        console.error("Groq API Error:", error);
-        throw new Error("Failed to engineer script module. The engine encountered a verification fault.");
+        return { response: null, issues: [{ message: `response is not valid JSON (${error.message})` }] };
     }
 };
 
-const parseModelResponse = (text: string): ScriptResponse => {
-    const sections: ScriptResponse = {
-        summary: "",
-        assumptions: [],
-        script: "",
-        tests: "",
-        dockerfile: "",
-        cicd: "",
-        failureSimulations: [],
-        metrics: { timeSavedMinutes: 0, linesProduced: 0, potentialErrorsMitigated: 0 },
-        usage: ""
-    };
+const buildRepairPrompt = (issues: SchemaIssue[], mode: OutputMode): string => {
+    const problems = issues.map(i => `- ${i.section ? SECTION_LABELS[i.section] : 'Structure'}: ${i.message}`).join('\n');
+    const format = mode === 'json'
+        ? "Return the complete corrected JSON object only."
+        : "Re-emit the complete response using every required emoji section header.";
+    return `Your previous response failed validation:\n${problems}\n\nFix only these problems and keep everything else unchanged. ${format}`;
+};
+
+/**
+ * Validates a completion and, if any section is missing or malformed, sends the model one
+ * targeted repair prompt before failing with the names of the offending sections.
+ */
+const resolveCompletion = async (
+    text: string,
+    request: ScriptRequest,
+    messages: ChatMessage[],
+    provider: LLMProvider,
+    signal?: AbortSignal,
+    onUsage?: UsageListener
+): Promise<ScriptResponse> => {
+    const first = validateCompletion(text, request);
+    if (first.response) return first.response;
+
+    console.warn(`Response failed validation (${describeIssues(first.issues)}); requesting repair.`);
+    const repairMessages: ChatMessage[] = [
+        ...messages,
+        { role: "assistant", content: text },
+        { role: "user", content: buildRepairPrompt(first.issues, provider.outputMode) }
+    ];
+    const meter = meterCall(repairMessages, onUsage);
+    const repaired = await provider.complete(repairMessages, { temperature: 0, jsonMode: provider.outputMode === 'json', signal, onUsage: meter.onUsage })
+        .catch(error => { meter.abandon(""); throw error; });
+    meter.settle(repaired);
 
-    const lines = text.split('\n');
-    let currentSection: string | null = null;
-    let inCodeBlock = false;
-
-    lines.forEach(line => {
-        const trimmed = line.trim();
-
-        if (trimmed.includes('🧠 Summary')) {
-            currentSection = 'summary';
-            sections.summary = trimmed.replace(/.*?🧠 Summary:?\s*/, '').trim();
-        } else if (trimmed.includes('⚙️ Assumptions')) {
-            currentSection = 'assumptions';
-        } else if (trimmed.includes('📜 Script')) {
-            currentSection = 'script';
-            inCodeBlock = false;
-        } else if (trimmed.includes('🧪 Tests')) {
-            currentSection = 'tests';
-            inCodeBlock = false;
-        } else if (trimmed.includes('🐳 Dockerfile')) {
-            currentSection = 'dockerfile';
-            inCodeBlock = false;
-        } else if (trimmed.includes('🚀 CI/CD')) {
-            currentSection = 'cicd';
-            inCodeBlock = false;
-        } else if (trimmed.includes('☢️ Failure Simulations')) {
-            currentSection = 'failures';
-        } else if (trimmed.includes('📊 Metrics')) {
-            const parts = trimmed.split('|').map(p => p.trim());
-            if (parts.length >= 4) {
-                sections.metrics = {
-                    timeSavedMinutes: parseInt(parts[1]) || 30,
-                    linesProduced: parseInt(parts[2]) || 0,
-                    potentialErrorsMitigated: parseInt(parts[3]) || 5
-                };
-            }
-        } else if (trimmed.includes('▶️ Usage')) {
-            currentSection = 'usage';
-            sections.usage = trimmed.replace(/.*?▶️ Usage:?\s*/, '').trim();
-        } else if (currentSection === 'summary' && trimmed) {
-            if (!sections.summary.includes(trimmed)) {
-                sections.summary += (sections.summary ? ' ' : '') + trimmed;
-            }
-        } else if (currentSection === 'assumptions' && trimmed.startsWith('-')) {
-            sections.assumptions.push(trimmed.substring(1).trim());
-        } else if (currentSection === 'failures' && trimmed.startsWith('-')) {
-            const parts = trimmed.substring(1).split('|').map(p => p.trim());
-            if (parts.length >= 3) {
-                sections.failureSimulations.push({
-                    scenario: parts[0],
-                    trigger: parts[1],
-                    behavior: parts[2]
-                });
-            }
-        } else if (['script', 'tests', 'dockerfile', 'cicd'].includes(currentSection || '')) {
-            if (trimmed.startsWith('```')) {
-                inCodeBlock = !inCodeBlock;
-            } else {
-                if (currentSection === 'script') sections.script += line + '\n';
-                if (currentSection === 'tests') sections.tests += line + '\n';
-                if (currentSection === 'dockerfile') sections.dockerfile += line + '\n';
-                if (currentSection === 'cicd') sections.cicd += line + '\n';
-            }
-        } else if (currentSection === 'usage' && trimmed && !trimmed.includes('▶️ Usage')) {
-            sections.usage += (sections.usage ? ' ' : '') + trimmed;
+    const second = validateCompletion(repaired, request);
+    if (second.response) return second.response;
+
+    throw new ResponseParseError(
+        `The model response was missing or malformed in: ${describeIssues(second.issues)}. Try regenerating or switching to a larger model.`,
+        second.issues
+    );
+};
+
+// Every failure leaves as an EngineError; cancellations are expected and not logged.
+const failure = (error: unknown, provider: LLMProvider, signal?: AbortSignal): EngineError => {
+    const classified = classifyError(error, provider.kind, signal);
+    if (classified.code !== 'cancelled') console.error(`${provider.kind} provider error (${classified.code}):`, error);
+    return classified;
+};
+
+/**
+ * `onUsage` is called once per provider call (the completion, then any repair), so a caller sums
+ * the calls to get the cost of the whole generation.
+ */
+export const generateScript = async (
+    request: ScriptRequest,
+    provider: LLMProvider = getDefaultProvider(),
+    signal?: AbortSignal,
+    onUsage?: UsageListener
+): Promise<ScriptResponse> => {
+    const messages = buildMessages(request, provider.outputMode);
+    const meter = meterCall(messages, onUsage);
+    try {
+        const text = await provider.complete(messages, { temperature: 0.1, jsonMode: provider.outputMode === 'json', signal, onUsage: meter.onUsage });
+        meter.settle(text);
+
+        if (!text) throw new EmptyCompletionError();
+
+        return await resolveCompletion(text, request, messages, provider, signal, onUsage);
+    } catch (error) {
+        meter.abandon("");
+        throw failure(error, provider, signal);
+    }
+};
+
+const streamCompletion = async (
+    messages: ChatMessage[],
+    request: ScriptRequest,
+    onDelta: (text: string) => void,
+    provider: LLMProvider,
+    signal?: AbortSignal,
+    onUsage?: UsageListener
+): Promise<ScriptResponse> => {
+    let text = "";
+    const meter = meterCall(messages, onUsage);
+    try {
+        for await (const delta of provider.stream(messages, { temperature: 0.1, signal, jsonMode: provider.outputMode === 'json', onUsage: meter.onUsage })) {
+            text += delta;
+            onDelta(delta);
         }
-    });
+        meter.settle(text);
 
-    sections.script = sections.script.trim();
-    sections.tests = (sections.tests || "").trim();
-    sections.dockerfile = (sections.dockerfile || "").trim();
-    sections.cicd = (sections.cicd || "").trim();
-    if (sections.tests === 'N/A') sections.tests = "";
+        // Some providers end the stream quietly on abort instead of throwing.
+        if (signal?.aborted) throw new CancelledError();
+        if (!text) throw new EmptyCompletionError();
 
-    return sections;
+        return await resolveCompletion(text, request, messages, provider, signal, onUsage);
+    } catch (error) {
+        meter.abandon(text);
+        throw failure(error, provider, signal);
+    }
 };
+
+/**
+ * Streaming variant of generateScript. Forwards each text delta as it arrives and
+ * resolves with the fully parsed response once the completion ends.
+ */
+export const streamScript = (
+    request: ScriptRequest,
+    onDelta: (text: string) => void,
+    provider: LLMProvider = getDefaultProvider(),
+    signal?: AbortSignal,
+    onUsage?: UsageListener
+): Promise<ScriptResponse> =>
+    streamCompletion(buildMessages(request, provider.outputMode), request, onDelta, provider, signal, onUsage);
+
+/**
+ * Produces the next revision of an existing response by sending its artifacts back to the
+ * model together with a follow-up instruction.
+ */
+export const streamRefinement = (
+    request: ScriptRequest,
+    current: ScriptResponse,
+    instruction: string,
+    onDelta: (text: string) => void,
+    provider: LLMProvider = getDefaultProvider(),
+    signal?: AbortSignal,
+    onUsage?: UsageListener
+): Promise<ScriptResponse> =>
+    streamCompletion(buildRefinementMessages(request, current, instruction, provider.outputMode), request, onDelta, provider, signal, onUsage);
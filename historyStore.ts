@@ -0,0 +1,55 @@
+import { HistoryEntry } from "./types";
+
+const DB_NAME = "script-engineer-pro";
+const DB_VERSION = 1;
+const STORE = "history";
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = (): Promise<IDBDatabase> => {
+    if (!dbPromise) {
+        dbPromise = new Promise((resolve, reject) => {
+            const req = indexedDB.open(DB_NAME, DB_VERSION);
+            req.onupgradeneeded = () => {
+                const store = req.result.createObjectStore(STORE, { keyPath: "id" });
+                store.createIndex("createdAt", "createdAt");
+            };
+            req.onsuccess = () => resolve(req.result);
+            req.onerror = () => {
+                dbPromise = null;
+                reject(req.error);
+            };
+        });
+    }
+    return dbPromise;
+};
+
+const run = async <T>(mode: IDBTransactionMode, op: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> => {
+    const db = await openDb();
+    return new Promise((resolve, reject) => {
+        const req = op(db.transaction(STORE, mode).objectStore(STORE));
+        req.onsuccess = () => resolve(req.result);
+        req.onerror = () => reject(req.error);
+    });
+};
+
+/** Pinned entries first, then newest first. */
+export const sortHistory = (entries: HistoryEntry[]): HistoryEntry[] =>
+    [...entries].sort((a, b) => Number(b.pinned) - Number(a.pinned) || b.createdAt - a.createdAt);
+
+export const listHistory = async (): Promise<HistoryEntry[]> =>
+    sortHistory(await run<HistoryEntry[]>("readonly", store => store.getAll()));
+
+export const saveHistoryEntry = async (entry: Omit<HistoryEntry, "id" | "createdAt" | "pinned">): Promise<HistoryEntry> => {
+    const saved: HistoryEntry = { ...entry, id: crypto.randomUUID(), createdAt: Date.now(), pinned: false };
+    await run("readwrite", store => store.put(saved));
+    return saved;
+};
+
+export const updateHistoryEntry = async (entry: HistoryEntry): Promise<void> => {
+    await run("readwrite", store => store.put(entry));
+};
+
+export const deleteHistoryEntry = async (id: string): Promise<void> => {
+    await run("readwrite", store => store.delete(id));
+};
@@ -0,0 +1,24 @@
+import { describe, expect, it } from "vitest";
+import { countErrorHandlers } from "./metricsEstimator";
+
+describe("countErrorHandlers", () => {
+    it("counts a promise .catch once and a catch block once", () => {
+        const script = [
+            "fetch(url).catch(err => console.error(err));",
+            "try {",
+            "    run();",
+            "} catch (err) {",
+            "    process.exit(1);",
+            "}"
+        ].join('\n');
+        expect(countErrorHandlers(script, 'JavaScript')).toEqual([
+            { kind: 'catch block', count: 1 },
+            { kind: '.catch handler', count: 1 }
+        ]);
+    });
+
+    it("counts nothing for a script whose language was never resolved", () => {
+        expect(countErrorHandlers("set -e\ntrap cleanup EXIT\n", 'Auto')).toEqual([]);
+        expect(countErrorHandlers("set -e\ntrap cleanup EXIT\n", 'Bash')).toHaveLength(2);
+    });
+});
@@ -0,0 +1,135 @@
+import { Language, MetricsEstimate, ScriptResponse, TimeSavedModel } from "./types";
+import { isComment } from "./scriptScan";
+import { testLanguageOf } from "./scriptPackage";
+
+/**
+ * Default coefficients, from rough figures for hand-writing reviewed automation code:
+ * - 15 minutes to scope the task and set up the project,
+ * - 1 minute per script line (about 60 reviewed lines an hour),
+ * - 0.5 minutes per test line, which is mostly repetitive fixtures and assertions,
+ * - 5 minutes per error handler, to design and check each failure path,
+ * - 10 minutes per supporting artifact (Dockerfile, CI/CD workflow).
+ */
+export const DEFAULT_TIME_SAVED_MODEL: TimeSavedModel = {
+    baseMinutes: 15,
+    perScriptLine: 1,
+    perTestLine: 0.5,
+    perHandler: 5,
+    perArtifact: 10
+};
+
+interface HandlerRule {
+    kind: string;
+    pattern: RegExp;
+}
+
+// Each rule counts at most once per line.
+const HANDLER_RULES: Partial<Record<Language, HandlerRule[]>> = {
+    Python: [
+        { kind: 'except clause', pattern: /^\s*except\b/ },
+        { kind: 'finally block', pattern: /^\s*finally\s*:/ },
+        { kind: 'explicit raise', pattern: /^\s*raise\s+\w/ }
+    ],
+    Bash: [
+        { kind: 'set -e / errexit', pattern: /\bset\s+-[a-zA-Z]*e|\bset\s+-o\s+errexit\b/ },
+        { kind: 'trap', pattern: /\btrap\s+/ },
+        { kind: '$? check', pattern: /\$\?/ },
+        { kind: '|| fallback', pattern: /\|\|\s*(\{|exit\b|return\b|die\b|fail\b|error\b|log_error\b|echo\b[^\n]*>&2)/ },
+        { kind: 'if ! check', pattern: /\bif\s+!\s/ }
+    ],
+    PowerShell: [
+        { kind: 'catch block', pattern: /\bcatch\s*(\[|\{|$)/i },
+        { kind: 'trap', pattern: /\btrap\s*(\[|\{)/i },
+        { kind: 'ErrorActionPreference Stop', pattern: /\$ErrorActionPreference\s*=\s*['"]Stop['"]/i },
+        { kind: '-ErrorAction Stop', pattern: /-ErrorAction\s+['"]?Stop\b/i },
+        { kind: '$? check', pattern: /\$\?|\$LASTEXITCODE\s*-ne\s*0/i }
+    ],
+    JavaScript: [
+        // The lookbehind leaves promise `.catch(` calls to the rule below.
+        { kind: 'catch block', pattern: /(?<!\.)\bcatch\s*(\(|\{)/ },
+        { kind: '.catch handler', pattern: /\.catch\s*\(/ },
+        { kind: 'process error hook', pattern: /process\.on\(\s*['"](uncaughtException|unhandledRejection)['"]/ }
+    ],
+    Go: [
+        { kind: 'if err != nil', pattern: /\bif\b[^\n]*\berr\s*!=\s*nil\b/ },
+        { kind: 'recover', pattern: /\brecover\(\)/ }
+    ],
+    Ruby: [
+        { kind: 'rescue clause', pattern: /\brescue\b/ },
+        { kind: 'ensure block', pattern: /^\s*ensure\b/ }
+    ],
+    Rust: [
+        { kind: '? propagation', pattern: /[\w)\]]\?\s*[;.)]/ },
+        { kind: 'match on Err', pattern: /\bErr\s*\(/ },
+        { kind: 'map_err / context', pattern: /\.(map_err|context|with_context)\s*\(/ }
+    ],
+    Java: [
+        { kind: 'catch block', pattern: /\bcatch\s*\(/ },
+        { kind: 'finally block', pattern: /\bfinally\s*\{/ },
+        { kind: 'try-with-resources', pattern: /\btry\s*\(/ }
+    ],
+    PHP: [
+        { kind: 'catch block', pattern: /\bcatch\s*\(/ },
+        { kind: 'finally block', pattern: /\bfinally\s*\{/ },
+        { kind: 'or die / throw', pattern: /\bor\s+(die|throw)\b/ }
+    ],
+    Perl: [
+        { kind: 'or die', pattern: /\bor\s+(die|croak)\b/ },
+        { kind: 'eval block', pattern: /\beval\s*\{/ },
+        { kind: '$@ check', pattern: /\bif\s*\(?\s*\$@/ }
+    ]
+};
+
+HANDLER_RULES['C#'] = HANDLER_RULES.Java;
+
+HANDLER_RULES.TypeScript = HANDLER_RULES.JavaScript;
+
+/** Non-blank lines that are not comments. */
+export const countCodeLines = (text: string | undefined, language: Language): number =>
+    (text ?? '').split('\n').filter(line => line.trim() && !isComment(line, language)).length;
+
+export const countErrorHandlers = (script: string, language: Language): { kind: string; count: number }[] => {
+    // An unresolved Auto script has no known syntax, so it counts no handlers rather than guessing one.
+    const rules = HANDLER_RULES[language] ?? [];
+    const lines = script.split('\n').filter(line => line.trim() && !isComment(line, language));
+    return rules
+        .map(rule => ({ kind: rule.kind, count: lines.filter(line => rule.pattern.test(line)).length }))
+        .filter(h => h.count > 0);
+};
+
+/**
+ * Recomputes ValueMetrics from the artifacts that were actually returned, instead of trusting
+ * the model's self-reported numbers. Error handlers are counted in the script only; tests
+ * exercise them but do not add to them.
+ */
+export const estimateMetrics = (response: ScriptResponse, language: Language, model: TimeSavedModel = DEFAULT_TIME_SAVED_MODEL): MetricsEstimate => {
+    const lines = {
+        script: countCodeLines(response.script, language),
+        tests: countCodeLines(response.tests, testLanguageOf(language)),
+        dockerfile: countCodeLines(response.dockerfile, 'Bash'),
+        cicd: countCodeLines(response.cicd, 'YAML'),
+        // Extra modules share the script's comment syntax; manifests and configs mostly use '#'.
+        files: (response.files ?? []).reduce((sum, f) => sum + countCodeLines(f.content, f.role === 'module' ? language : 'YAML'), 0)
+    };
+    const handlers = countErrorHandlers(response.script, language);
+    const handlerCount = handlers.reduce((sum, h) => sum + h.count, 0);
+    const artifacts = [response.dockerfile, response.cicd].filter(a => a?.trim()).length;
+
+    const timeSaved = model.baseMinutes
+        + lines.script * model.perScriptLine
+        + lines.tests * model.perTestLine
+        + handlerCount * model.perHandler
+        + artifacts * model.perArtifact;
+
+    return {
+        metrics: {
+            timeSavedMinutes: response.script.trim() ? Math.round(timeSaved) : 0,
+            linesProduced: lines.script + lines.tests + lines.dockerfile + lines.cicd + lines.files,
+            potentialErrorsMitigated: handlerCount
+        },
+        reported: response.metrics,
+        lines,
+        handlers,
+        model
+    };
+};
@@ -0,0 +1,79 @@
+import { mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { MOCK_RECORDED_RESPONSE, createMockProvider, createProvider, providerConfigFromEnv } from "./providers";
+
+const PROMPT = [{ role: "user" as const, content: "Archive old logs" }];
+
+afterEach(() => {
+    vi.unstubAllEnvs();
+});
+
+describe("createMockProvider", () => {
+    it("replays the recordings in order and wraps around", async () => {
+        const provider = createMockProvider(["first", "second"]);
+        const replies = [];
+        for (let i = 0; i < 3; i++) replies.push(await provider.complete(PROMPT));
+        expect(replies).toEqual(["first", "second", "first"]);
+    });
+
+    it("needs at least one recording", () => {
+        expect(() => createMockProvider([])).toThrow(/at least one/);
+    });
+});
+
+describe("createProvider", () => {
+    it("builds the mock without any network configuration", async () => {
+        const provider = createProvider({ kind: 'mock' });
+        expect(provider.kind).toBe('mock');
+        expect(await provider.complete(PROMPT)).toBe(MOCK_RECORDED_RESPONSE);
+    });
+
+    it("requires a base URL for openai-compatible servers", () => {
+        expect(() => createProvider({ kind: 'openai-compatible' })).toThrow(/base URL/);
+    });
+});
+
+describe("providerConfigFromEnv", () => {
+    it("defaults to groq with the Groq key", () => {
+        vi.stubEnv('LLM_PROVIDER', '');
+        vi.stubEnv('GROQ_API_KEY', 'gsk_test');
+        vi.stubEnv('LLM_API_KEY', 'other');
+        expect(providerConfigFromEnv()).toMatchObject({ kind: 'groq', apiKey: 'gsk_test' });
+    });
+
+    it("reads the base URL, model and key for other providers", () => {
+        vi.stubEnv('LLM_PROVIDER', 'local');
+        vi.stubEnv('LLM_BASE_URL', 'http://localhost:8080/v1');
+        vi.stubEnv('MODEL_NAME', 'qwen2.5-coder');
+        vi.stubEnv('LLM_API_KEY', 'sk-local');
+        expect(providerConfigFromEnv()).toMatchObject({
+            kind: 'local',
+            baseUrl: 'http://localhost:8080/v1',
+            model: 'qwen2.5-coder',
+            apiKey: 'sk-local'
+        });
+    });
+
+    it("rejects an unknown provider instead of falling back to groq", () => {
+        vi.stubEnv('LLM_PROVIDER', 'openai');
+        expect(() => providerConfigFromEnv()).toThrow(/Unknown LLM_PROVIDER "openai".*groq, openai-compatible, local, mock/);
+    });
+
+    it("loads mock recordings from a file or from every file in a directory", () => {
+        const dir = mkdtempSync(path.join(tmpdir(), "recordings-"));
+        try {
+            writeFileSync(path.join(dir, "02-second.txt"), "second");
+            writeFileSync(path.join(dir, "01-first.txt"), "first");
+            writeFileSync(path.join(dir, ".DS_Store"), "ignored");
+            vi.stubEnv('LLM_PROVIDER', 'mock');
+            vi.stubEnv('LLM_MOCK_RECORDINGS', dir);
+            expect(providerConfigFromEnv().recordings).toEqual(["first", "second"]);
+            vi.stubEnv('LLM_MOCK_RECORDINGS', path.join(dir, "02-second.txt"));
+            expect(providerConfigFromEnv().recordings).toEqual(["second"]);
+        } finally {
+            rmSync(dir, { recursive: true, force: true });
+        }
+    });
+});
@@ -0,0 +1,466 @@
+import { readFileSync, readdirSync, statSync } from "node:fs";
+import path from "node:path";
+import Groq from "groq-sdk";
+import { OutputMode, ProviderConfig, ProviderKind, TokenUsage } from "./types";
+import { CancelledError, EngineError, TimeoutError, classifyError, errorForStatus } from "./engineErrors";
+
+export interface ChatMessage {
+    role: "system" | "user" | "assistant";
+    content: string;
+}
+
+export interface CompletionOptions {
+    temperature?: number;
+    signal?: AbortSignal;
+    /** Ask the backend to constrain output to a JSON object. */
+    jsonMode?: boolean;
+    /** Receives the token counts the backend reports for the call; backends that report none never call it. */
+    onUsage?: (usage: TokenUsage) => void;
+}
+
+/**
+ * A chat backend that can answer a system + user prompt with raw model text.
+ * Parsing into a ScriptResponse stays in groqService so every provider shares it.
+ */
+export interface LLMProvider {
+    kind: ProviderKind;
+    model: string;
+    /** 'json' for models that follow the structured schema; 'text' falls back to the emoji-section format. */
+    outputMode: OutputMode;
+    complete: (messages: ChatMessage[], options?: CompletionOptions) => Promise<string>;
+    stream: (messages: ChatMessage[], options?: CompletionOptions) => AsyncIterable<string>;
+}
+
+const DEFAULT_MODELS: Record<ProviderKind, string> = {
+    'groq': "llama-3.1-8b-instant",
+    'openai-compatible': "gpt-4o-mini",
+    'local': "llama3.1",
+    'mock': "mock-recorded"
+};
+
+// Ollama serves an OpenAI-compatible API under /v1; llama.cpp's server exposes the same routes.
+const DEFAULT_LOCAL_BASE_URL = "http://localhost:11434/v1";
+
+// Groq and OpenAI-compatible servers share the OpenAI usage object.
+const reportUsage = (usage: { prompt_tokens?: number; completion_tokens?: number } | null | undefined, options: CompletionOptions) => {
+    if (usage) options.onUsage?.({ promptTokens: usage.prompt_tokens ?? 0, completionTokens: usage.completion_tokens ?? 0 });
+};
+
+export const createGroqProvider = (apiKey: string, model: string = DEFAULT_MODELS['groq'], outputMode: OutputMode = 'json'): LLMProvider => {
+    // Retries happen in withResilience, which honors rate-limit headers; the SDK's own would stack on top.
+    const groq = new Groq({ apiKey, maxRetries: 0 });
+
+    return {
+        kind: 'groq',
+        model,
+        outputMode,
+        complete: async (messages, options = {}) => {
+            const response = await groq.chat.completions.create({
+                messages,
+                model,
+                temperature: options.temperature ?? 0.1,
+                ...(options.jsonMode ? { response_format: { type: 'json_object' as const } } : {}),
+            }, { signal: options.signal });
+            reportUsage(response.usage, options);
+            return response.choices[0]?.message?.content || "";
+        },
+        async *stream(messages, options = {}) {
+            // Groq's JSON mode does not stream, so streamed JSON relies on the prompt alone.
+            const stream = await groq.chat.completions.create({
+                messages,
+                model,
+                temperature: options.temperature ?? 0.1,
+                stream: true,
+            }, { signal: options.signal });
+            for await (const chunk of stream) {
+                // Groq attaches usage to the final chunk.
+                reportUsage(chunk.x_groq?.usage, options);
+                const delta = chunk.choices[0]?.delta?.content;
+                if (delta) yield delta;
+            }
+        }
+    };
+};
+
+export const createOpenAICompatibleProvider = (
+    baseUrl: string,
+    model: string,
+    apiKey?: string,
+    kind: ProviderKind = 'openai-compatible',
+    outputMode: OutputMode = 'json'
+): LLMProvider => {
+    const endpoint = `${baseUrl.replace(/\/+$/, '')}/chat/completions`;
+
+    const post = async (messages: ChatMessage[], options: CompletionOptions, stream: boolean) => {
+        const res = await fetch(endpoint, {
+            method: "POST",
+            headers: {
+                "Content-Type": "application/json",
+                ...(apiKey ? { Authorization: `Bearer ${apiKey}` } : {})
+            },
+            body: JSON.stringify({
+                model,
+                messages,
+                temperature: options.temperature ?? 0.1,
+                stream,
+                // Without this, OpenAI-style servers omit usage from streamed responses.
+                ...(stream ? { stream_options: { include_usage: true } } : {}),
+                ...(options.jsonMode ? { response_format: { type: 'json_object' } } : {})
+            }),
+            signal: options.signal
+        });
+        if (!res.ok) {
+            throw errorForStatus(res.status, `${kind} provider returned HTTP ${res.status}: ${await res.text()}`, res.headers);
+        }
+        return res;
+    };
+
+    return {
+        kind,
+        model,
+        outputMode,
+        complete: async (messages, options = {}) => {
+            const data = await (await post(messages, options, false)).json();
+            reportUsage(data?.usage, options);
+            return data?.choices?.[0]?.message?.content || "";
+        },
+        async *stream(messages, options = {}) {
+            const res = await post(messages, options, true);
+            if (!res.body) return;
+            const reader = res.body.getReader();
+            const decoder = new TextDecoder();
+            let buffer = "";
+            while (true) {
+                const { done, value } = await reader.read();
+                if (done) break;
+                buffer += decoder.decode(value, { stream: true });
+                const events = buffer.split('\n');
+                buffer = events.pop() ?? "";
+                for (const event of events) {
+                    const data = event.trim();
+                    if (!data.startsWith('data:')) continue;
+                    const payload = data.slice(5).trim();
+                    if (payload === '[DONE]') return;
+                    const chunk = JSON.parse(payload);
+                    reportUsage(chunk?.usage, options);
+                    const delta = chunk?.choices?.[0]?.delta?.content;
+                    if (delta) yield delta as string;
+                }
+            }
+        }
+    };
+};
+
+export const createLocalProvider = (
+    baseUrl: string = DEFAULT_LOCAL_BASE_URL,
+    model: string = DEFAULT_MODELS['local'],
+    outputMode: OutputMode = 'json'
+): LLMProvider => createOpenAICompatibleProvider(baseUrl, model, undefined, 'local', outputMode);
+
+/**
+ * Replays recorded completions in order, wrapping around when exhausted.
+ * Needs no network, so it works on air-gapped machines and in tests.
+ */
+export const createMockProvider = (recordings: string[] = [MOCK_RECORDED_RESPONSE], outputMode: OutputMode = 'text'): LLMProvider => {
+    if (recordings.length === 0) throw new Error("Mock provider needs at least one recorded response.");
+    let cursor = 0;
+
+    return {
+        kind: 'mock',
+        model: DEFAULT_MODELS['mock'],
+        outputMode,
+        complete: async () => {
+            const text = recordings[cursor % recordings.length];
+            cursor++;
+            return text;
+        },
+        async *stream(_messages, options = {}) {
+            const text = recordings[cursor % recordings.length];
+            cursor++;
+            // Replay line by line so streaming consumers see realistic section-by-section arrival.
+            for (const line of text.split(/(?<=\n)/)) {
+                if (options.signal?.aborted) return;
+                await new Promise(resolve => setTimeout(resolve, 0));
+                yield line;
+            }
+        }
+    };
+};
+
+export interface ResilienceOptions {
+    timeoutMs: number;
+    maxRetries: number;
+    baseDelayMs: number;
+    /** Longest wait between attempts; a rate limit asking for more is surfaced instead of waited out. */
+    maxDelayMs: number;
+}
+
+export const DEFAULT_RESILIENCE: ResilienceOptions = {
+    timeoutMs: 60_000,
+    maxRetries: 2,
+    baseDelayMs: 1000,
+    maxDelayMs: 30_000
+};
+
+const sleep = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) return reject(new CancelledError());
+    const timer = setTimeout(() => {
+        signal?.removeEventListener('abort', onAbort);
+        resolve();
+    }, ms);
+    function onAbort() {
+        clearTimeout(timer);
+        reject(new CancelledError());
+    }
+    signal?.addEventListener('abort', onAbort, { once: true });
+});
+
+/**
+ * One attempt's abort signal: fires when the caller cancels or when `timeoutMs` passes without
+ * `touch()` being called. Errors thrown under it are classified as timeouts or cancellations first.
+ */
+const attemptScope = (kind: ProviderKind, timeoutMs: number, outer?: AbortSignal) => {
+    const controller = new AbortController();
+    let timedOut = false;
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const touch = () => {
+        clearTimeout(timer);
+        timer = setTimeout(() => {
+            timedOut = true;
+            controller.abort();
+        }, timeoutMs);
+    };
+    const onAbort = () => controller.abort();
+    outer?.addEventListener('abort', onAbort, { once: true });
+    touch();
+    return {
+        signal: controller.signal,
+        touch,
+        classify: (error: unknown): EngineError => {
+            if (timedOut) return new TimeoutError(`No response from the ${kind} provider within ${timeoutMs / 1000}s.`);
+            return classifyError(error, kind, outer);
+        },
+        dispose: () => {
+            clearTimeout(timer);
+            outer?.removeEventListener('abort', onAbort);
+        }
+    };
+};
+
+/**
+ * Adds a per-attempt timeout and exponential backoff to a provider. Rate limits wait for the
+ * provider's Retry-After or reset headers instead of the backoff. Streams are only retried until
+ * their first chunk; after that a retry would repeat text the caller has already consumed.
+ */
+export const withResilience = (provider: LLMProvider, options: ResilienceOptions = DEFAULT_RESILIENCE): LLMProvider => {
+    const { timeoutMs, maxRetries, baseDelayMs, maxDelayMs } = options;
+
+    const retryDelay = (error: EngineError, attempt: number): number | null => {
+        if (!error.retryable || attempt >= maxRetries) return null;
+        if (error.retryAfterMs !== undefined) return error.retryAfterMs <= maxDelayMs ? error.retryAfterMs : null;
+        return Math.min(maxDelayMs, baseDelayMs * 2 ** attempt) * (1 + Math.random() * 0.25);
+    };
+
+    const backoff = async (error: EngineError, attempt: number, signal?: AbortSignal) => {
+        const delay = retryDelay(error, attempt);
+        if (delay === null) throw error;
+        console.warn(`${provider.kind} ${error.code} (${error.message}); retrying in ${(delay / 1000).toFixed(1)}s, attempt ${attempt + 2} of ${maxRetries + 1}.`);
+        await sleep(delay, signal);
+    };
+
+    return {
+        ...provider,
+        complete: async (messages, completion = {}) => {
+            for (let attempt = 0; ; attempt++) {
+                const scope = attemptScope(provider.kind, timeoutMs, completion.signal);
+                try {
+                    return await provider.complete(messages, { ...completion, signal: scope.signal });
+                } catch (error) {
+                    await backoff(scope.classify(error), attempt, completion.signal);
+                } finally {
+                    scope.dispose();
+                }
+            }
+        },
+        async *stream(messages, completion = {}) {
+            for (let attempt = 0; ; attempt++) {
+                const scope = attemptScope(provider.kind, timeoutMs, completion.signal);
+                let started = false;
+                try {
+                    for await (const delta of provider.stream(messages, { ...completion, signal: scope.signal })) {
+                        scope.touch();
+                        started = true;
+                        yield delta;
+                    }
+                    return;
+                } catch (error) {
+                    const classified = scope.classify(error);
+                    if (started) throw classified;
+                    await backoff(classified, attempt, completion.signal);
+                } finally {
+                    scope.dispose();
+                }
+            }
+        }
+    };
+};
+
+const createBaseProvider = (config: ProviderConfig): LLMProvider => {
+    const model = config.model || DEFAULT_MODELS[config.kind];
+    switch (config.kind) {
+        case 'groq':
+            return createGroqProvider(config.apiKey || "", model, config.outputMode);
+        case 'openai-compatible':
+            if (!config.baseUrl) throw new Error("The openai-compatible provider requires a base URL.");
+            return createOpenAICompatibleProvider(config.baseUrl, model, config.apiKey, 'openai-compatible', config.outputMode);
+        case 'local':
+            return createLocalProvider(config.baseUrl || DEFAULT_LOCAL_BASE_URL, model, config.outputMode);
+        case 'mock':
+            return createMockProvider(config.recordings, config.outputMode);
+    }
+};
+
+export const createProvider = (config: ProviderConfig): LLMProvider =>
+    withResilience(createBaseProvider(config), {
+        ...DEFAULT_RESILIENCE,
+        timeoutMs: config.timeoutMs ?? DEFAULT_RESILIENCE.timeoutMs,
+        maxRetries: config.maxRetries ?? DEFAULT_RESILIENCE.maxRetries
+    });
+
+const PROVIDER_KINDS: ProviderKind[] = ['groq', 'openai-compatible', 'local', 'mock'];
+
+/**
+ * Recorded completions for the mock provider: the file itself, or every file in the directory in
+ * name order. Each file is one raw completion, replayed verbatim.
+ */
+const loadRecordings = (source: string): string[] => {
+    const files = statSync(source).isDirectory()
+        ? readdirSync(source).filter(name => !name.startsWith('.')).sort().map(name => path.join(source, name)).filter(file => statSync(file).isFile())
+        : [source];
+    const recordings = files.map(file => readFileSync(file, 'utf8')).filter(text => text.trim());
+    if (recordings.length === 0) throw new Error(`LLM_MOCK_RECORDINGS (${source}) contains no recorded responses.`);
+    return recordings;
+};
+
+export const providerConfigFromEnv = (): ProviderConfig => {
+    const kind = (process.env.LLM_PROVIDER || 'groq') as ProviderKind;
+    if (!PROVIDER_KINDS.includes(kind)) {
+        throw new Error(`Unknown LLM_PROVIDER "${kind}". Expected one of: ${PROVIDER_KINDS.join(', ')}.`);
+    }
+    const recordings = process.env.LLM_MOCK_RECORDINGS;
+    const outputMode = process.env.LLM_OUTPUT_MODE;
+    const timeoutMs = Number(process.env.LLM_TIMEOUT_MS);
+    const maxRetries = Number(process.env.LLM_MAX_RETRIES);
+    return {
+        kind,
+        model: process.env.MODEL_NAME || undefined,
+        baseUrl: process.env.LLM_BASE_URL || undefined,
+        apiKey: (kind === 'groq' ? process.env.GROQ_API_KEY : process.env.LLM_API_KEY) || undefined,
+        recordings: kind === 'mock' && recordings ? loadRecordings(recordings) : undefined,
+        outputMode: outputMode === 'json' || outputMode === 'text' ? outputMode : undefined,
+        timeoutMs: timeoutMs > 0 ? timeoutMs : undefined,
+        maxRetries: process.env.LLM_MAX_RETRIES && maxRetries >= 0 ? maxRetries : undefined
+    };
+};
+
+export const MOCK_RECORDED_RESPONSE = `🔤 Language: Python
+🧠 Summary: Archives log files older than seven days from a source directory into a dated tarball and removes the originals only after the archive is verified.
+⚙️ Assumptions:
+- The source directory is readable and the destination is writable.
+- Log files use the .log extension.
+📜 Script:
+\`\`\`python
+import sys
+import tarfile
+import time
+from pathlib import Path
+
+
+def archive_logs(source: Path, dest: Path, max_age_days: int = 7) -> int:
+    if not source.is_dir():
+        print(f"Source not found: {source}", file=sys.stderr)
+        return 2
+    cutoff = time.time() - max_age_days * 86400
+    old = [p for p in source.glob("*.log") if p.stat().st_mtime < cutoff]
+    if not old:
+        print("Nothing to archive.")
+        return 0
+    dest.mkdir(parents=True, exist_ok=True)
+    target = dest / f"logs-{time.strftime('%Y%m%d')}.tar.gz"
+    try:
+        with tarfile.open(target, "w:gz") as tar:
+            for p in old:
+                tar.add(p, arcname=p.name)
+    except PermissionError as exc:
+        print(f"Permission denied: {exc}", file=sys.stderr)
+        return 13
+    for p in old:
+        p.unlink()
+    print(f"Archived {len(old)} files to {target}")
+    return 0
+
+
+if __name__ == "__main__":
+    sys.exit(archive_logs(Path(sys.argv[1]), Path(sys.argv[2])))
+\`\`\`
+🧪 Tests:
+\`\`\`python
+from pathlib import Path
+from script import archive_logs
+
+
+def test_missing_source(tmp_path: Path):
+    assert archive_logs(tmp_path / "missing", tmp_path / "out") == 2
+\`\`\`
+🐳 Dockerfile:
+\`\`\`dockerfile
+FROM python:3.12-slim
+WORKDIR /app
+COPY script.py .
+ENTRYPOINT ["python", "script.py"]
+\`\`\`
+🚀 CI/CD:
+\`\`\`yaml
+name: CI
+on: [push]
+jobs:
+  test:
+    runs-on: ubuntu-latest
+    steps:
+      - uses: actions/checkout@v4
+      - uses: actions/setup-python@v5
+        with:
+          python-version: "3.12"
+      - run: pip install pytest && pytest
+\`\`\`
+📁 File: deploy/systemd/archive-logs.service (deploy)
+\`\`\`ini
+[Unit]
+Description=Archive log files older than seven days
+
+[Service]
+Type=oneshot
+User=logarchiver
+ExecStart=/usr/bin/python3 /opt/archive-logs/script.py /var/log/myapp /backups/logs
+NoNewPrivileges=true
+ProtectSystem=strict
+ReadWritePaths=/var/log/myapp /backups/logs
+\`\`\`
+📁 File: deploy/systemd/archive-logs.timer (deploy)
+\`\`\`ini
+[Unit]
+Description=Run archive-logs daily
+
+[Timer]
+OnCalendar=daily
+Persistent=true
+
+[Install]
+WantedBy=timers.target
+\`\`\`
+☢️ Failure Simulations:
+- Missing source directory | Source path does not exist | Prints an error to stderr and exits with code 2
+- Read-only destination | Destination is not writable | Reports permission denied and exits with code 13
+- No old logs | All logs newer than cutoff | Prints "Nothing to archive." and exits 0
+📊 Metrics | 45 | 81 | 3
+▶️ Usage: python script.py /var/log/myapp /backups/logs`;
@@ -0,0 +1,42 @@
+import { describe, expect, it } from "vitest";
+import { diffResponses } from "./responseDiff";
+import { MOCK_RECORDED_RESPONSE } from "./providers";
+import { parseModelResponse } from "./responseParser";
+import { ScriptResponse } from "./types";
+
+const BASE: ScriptResponse = {
+    ...parseModelResponse(MOCK_RECORDED_RESPONSE),
+    files: [
+        { path: 'config.yaml', role: 'config', content: "retention_days: 7\nsource: /var/log/myapp\n" },
+        { path: 'helpers.py', role: 'module', content: "def noop():\n    pass\n" }
+    ]
+};
+
+describe("diffResponses", () => {
+    it("diffs supporting files by path and lists added and removed ones", () => {
+        const next: ScriptResponse = {
+            ...BASE,
+            files: [
+                { path: 'config.yaml', role: 'config', content: "retention_days: 14\nsource: /var/log/myapp\n" },
+                { path: 'deploy/k8s/cronjob.yaml', role: 'deploy', content: "kind: CronJob\n" }
+            ]
+        };
+        const { files } = diffResponses(BASE, next);
+        expect(files.map(f => [f.path, f.status, f.added, f.removed])).toEqual([
+            ['config.yaml', 'changed', 1, 1],
+            ['deploy/k8s/cronjob.yaml', 'added', 2, 0],
+            ['helpers.py', 'removed', 0, 3]
+        ]);
+        expect(files[0].rows.find(r => r.kind === 'changed')).toEqual({
+            kind: 'changed',
+            left: { line: 1, text: 'retention_days: 7' },
+            right: { line: 1, text: 'retention_days: 14' }
+        });
+    });
+
+    it("reports identical files as unchanged", () => {
+        const { files, artifacts } = diffResponses(BASE, { ...BASE });
+        expect(files.every(f => f.status === 'unchanged' && !f.added && !f.removed)).toBe(true);
+        expect(artifacts.every(a => !a.added && !a.removed)).toBe(true);
+    });
+});
@@ -0,0 +1,157 @@
+import { ArtifactDiff, ArtifactKey, DiffRow, FailureSimulation, FieldChange, FileDiff, ProjectFile, ResponseDiff, ScriptResponse, ValueMetrics } from "./types";
+
+export const ARTIFACT_KEYS: ArtifactKey[] = ['script', 'tests', 'dockerfile', 'cicd'];
+
+const METRIC_FIELDS: (keyof ValueMetrics)[] = ['timeSavedMinutes', 'linesProduced', 'potentialErrorsMitigated'];
+
+type Edit = { op: 'equal' | 'added' | 'removed'; left?: number; right?: number };
+
+const splitLines = (text?: string) => (text ? text.replace(/\r\n/g, '\n').split('\n') : []);
+
+// Longest-common-subsequence edit script. Generated artifacts are a few hundred lines at most,
+// so the quadratic table is cheaper than anything cleverer would be to maintain.
+const editScript = (a: string[], b: string[]): Edit[] => {
+    let start = 0;
+    while (start < a.length && start < b.length && a[start] === b[start]) start++;
+    let endA = a.length;
+    let endB = b.length;
+    while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) { endA--; endB--; }
+
+    const n = endA - start;
+    const m = endB - start;
+    const table = Array.from({ length: n + 1 }, () => new Uint32Array(m + 1));
+    for (let i = n - 1; i >= 0; i--) {
+        for (let j = m - 1; j >= 0; j--) {
+            table[i][j] = a[start + i] === b[start + j]
+                ? table[i + 1][j + 1] + 1
+                : Math.max(table[i + 1][j], table[i][j + 1]);
+        }
+    }
+
+    const edits: Edit[] = [];
+    for (let k = 0; k < start; k++) edits.push({ op: 'equal', left: k, right: k });
+    let i = 0;
+    let j = 0;
+    while (i < n || j < m) {
+        if (i < n && j < m && a[start + i] === b[start + j]) {
+            edits.push({ op: 'equal', left: start + i++, right: start + j++ });
+        } else if (j < m && (i === n || table[i][j + 1] >= table[i + 1][j])) {
+            edits.push({ op: 'added', right: start + j++ });
+        } else {
+            edits.push({ op: 'removed', left: start + i++ });
+        }
+    }
+    for (let k = 0; k < a.length - endA; k++) edits.push({ op: 'equal', left: endA + k, right: endB + k });
+    return edits;
+};
+
+/**
+ * Line-level diff laid out for side-by-side display. Runs of removed and added lines between two
+ * unchanged lines are paired up row by row as 'changed'; the remainder of the longer run stays
+ * 'removed' or 'added' with the other side left empty.
+ */
+export const diffLines = (before: string | undefined, after: string | undefined): DiffRow[] => {
+    const a = splitLines(before);
+    const b = splitLines(after);
+    const rows: DiffRow[] = [];
+    let removed: number[] = [];
+    let added: number[] = [];
+
+    const flush = () => {
+        for (let k = 0; k < Math.max(removed.length, added.length); k++) {
+            const l = removed[k];
+            const r = added[k];
+            rows.push({
+                kind: l !== undefined && r !== undefined ? 'changed' : l !== undefined ? 'removed' : 'added',
+                left: l !== undefined ? { line: l + 1, text: a[l] } : undefined,
+                right: r !== undefined ? { line: r + 1, text: b[r] } : undefined
+            });
+        }
+        removed = [];
+        added = [];
+    };
+
+    editScript(a, b).forEach(edit => {
+        if (edit.op === 'removed') removed.push(edit.left!);
+        else if (edit.op === 'added') added.push(edit.right!);
+        else {
+            flush();
+            rows.push({ kind: 'equal', left: { line: edit.left! + 1, text: a[edit.left!] }, right: { line: edit.right! + 1, text: b[edit.right!] } });
+        }
+    });
+    flush();
+    return rows;
+};
+
+const countedDiff = (before?: string, after?: string) => {
+    const rows = diffLines(before, after);
+    return {
+        rows,
+        added: rows.filter(r => r.kind !== 'equal' && r.right).length,
+        removed: rows.filter(r => r.kind !== 'equal' && r.left).length
+    };
+};
+
+const diffArtifact = (artifact: ArtifactKey, before?: string, after?: string): ArtifactDiff => ({ artifact, ...countedDiff(before, after) });
+
+const diffFiles = (before: ProjectFile[] = [], after: ProjectFile[] = []): FileDiff[] => {
+    const left = new Map(before.map(f => [f.path, f.content]));
+    const right = new Map(after.map(f => [f.path, f.content]));
+    const paths = [...right.keys(), ...[...left.keys()].filter(path => !right.has(path))];
+    return paths.map(path => {
+        const diff = countedDiff(left.get(path), right.get(path));
+        const status = !left.has(path) ? 'added' : !right.has(path) ? 'removed' : diff.added || diff.removed ? 'changed' : 'unchanged';
+        return { path, status, ...diff };
+    });
+};
+
+const normalize = (text: string) => text.trim().toLowerCase().replace(/\s+/g, ' ');
+
+const diffFailureSimulations = (before: FailureSimulation[], after: FailureSimulation[]): ResponseDiff['failureSimulations'] => {
+    const byScenario = (list: FailureSimulation[]) => new Map(list.map(f => [normalize(f.scenario), f]));
+    const left = byScenario(before);
+    const right = byScenario(after);
+
+    const changed: ResponseDiff['failureSimulations']['changed'] = [];
+    right.forEach((next, key) => {
+        const prev = left.get(key);
+        if (!prev) return;
+        const changes = (['trigger', 'behavior'] as const)
+            .filter(field => prev[field].trim() !== next[field].trim())
+            .map(field => ({ field, before: prev[field], after: next[field] }));
+        if (changes.length) changed.push({ scenario: next.scenario, changes });
+    });
+
+    return {
+        added: after.filter(f => !left.has(normalize(f.scenario))),
+        removed: before.filter(f => !right.has(normalize(f.scenario))),
+        changed
+    };
+};
+
+/**
+ * Compares two responses artifact by artifact. Code artifacts and supporting files (matched by
+ * path) get line diffs; assumptions, failure simulations (matched by scenario) and metrics get
+ * structured diffs.
+ */
+export const diffResponses = (before: ScriptResponse, after: ScriptResponse): ResponseDiff => {
+    const beforeAssumptions = new Set(before.assumptions.map(normalize));
+    const afterAssumptions = new Set(after.assumptions.map(normalize));
+
+    const metrics: FieldChange<number>[] = METRIC_FIELDS
+        .filter(field => before.metrics[field] !== after.metrics[field])
+        .map(field => ({ field, before: before.metrics[field], after: after.metrics[field] }));
+
+    return {
+        artifacts: ARTIFACT_KEYS
+            .filter(key => before[key] || after[key])
+            .map(key => diffArtifact(key, before[key], after[key])),
+        files: diffFiles(before.files, after.files),
+        assumptions: {
+            added: after.assumptions.filter(a => !beforeAssumptions.has(normalize(a))),
+            removed: before.assumptions.filter(a => !afterAssumptions.has(normalize(a)))
+        },
+        failureSimulations: diffFailureSimulations(before.failureSimulations, after.failureSimulations),
+        metrics
+    };
+};
@@ -0,0 +1,70 @@
+import { describe, expect, it, vi } from "vitest";
+import { createStreamingParser, parseModelResponse, parsePartialJson } from "./responseParser";
+import { MOCK_RECORDED_RESPONSE } from "./providers";
+
+const chunks = (text: string, size: number) =>
+    Array.from({ length: Math.ceil(text.length / size) }, (_, i) => text.slice(i * size, (i + 1) * size));
+
+describe("parseModelResponse", () => {
+    it("splits the emoji format into every section", () => {
+        const response = parseModelResponse(MOCK_RECORDED_RESPONSE);
+        expect(response.language).toBe('Python');
+        expect(response.summary).toMatch(/^Archives log files/);
+        expect(response.assumptions.length).toBeGreaterThan(0);
+        expect(response.script).toMatch(/def /);
+        expect(response.tests).not.toBe("");
+        expect(response.dockerfile).toMatch(/^FROM /m);
+        expect(response.failureSimulations.length).toBeGreaterThan(0);
+        expect(response.metrics.timeSavedMinutes).toBe(45);
+        expect(response.usage).not.toBe("");
+    });
+});
+
+describe("createStreamingParser", () => {
+    it("gives the same result however the text format is chunked", () => {
+        const whole = parseModelResponse(MOCK_RECORDED_RESPONSE);
+        for (const size of [1, 7, 64]) {
+            const parser = createStreamingParser();
+            chunks(MOCK_RECORDED_RESPONSE, size).forEach(c => parser.push(c));
+            expect(parser.finish()).toEqual(whole);
+        }
+    });
+
+    it("reports the active section while text streams", () => {
+        const parser = createStreamingParser();
+        const head = MOCK_RECORDED_RESPONSE.slice(0, MOCK_RECORDED_RESPONSE.indexOf('def '));
+        const snapshot = parser.push(head);
+        expect(snapshot.activeSection).toBe('script');
+        expect(snapshot.completedSections).toEqual(['summary', 'assumptions']);
+    });
+
+    it("parses a JSON completion as it streams", () => {
+        const json = JSON.stringify({ summary: "Does a thing. ".repeat(30), assumptions: ["a"], script: "print(1)", usage: "python script.py" });
+        const parser = createStreamingParser();
+        const partial = parser.push(json.slice(0, json.indexOf('print')));
+        expect(partial.response.summary).toBe("Does a thing. ".repeat(30).trim());
+        expect(partial.activeSection).toBe('script');
+        parser.push(json.slice(json.indexOf('print')));
+        expect(parser.finish().usage).toBe("python script.py");
+    });
+    it("re-parses a JSON stream in steps rather than per delta", () => {
+        const json = JSON.stringify({ summary: "x", script: "print(1)\n".repeat(2000), usage: "python script.py" });
+        const parse = vi.spyOn(JSON, 'parse');
+        const parser = createStreamingParser();
+        chunks(json, 4).forEach(c => parser.push(c));
+        const calls = parse.mock.calls.length;
+        parse.mockRestore();
+        // Each re-parse tries up to three candidates.
+        expect(calls).toBeLessThanOrEqual(3 * Math.ceil(json.length / 256));
+        expect(parser.finish().script).toBe("print(1)\n".repeat(2000).trim());
+    });
+});
+
+describe("parsePartialJson", () => {
+    it("closes open strings, arrays and objects", () => {
+        expect(parsePartialJson('{"a": "hel')).toEqual({ a: "hel" });
+        expect(parsePartialJson('{"a": [1, 2')).toEqual({ a: [1, 2] });
+        expect(parsePartialJson('{"a": 1, "b":')).toEqual({ a: 1 });
+        expect(parsePartialJson('{"a": 1, "be')).toEqual({ a: 1 });
+    });
+});
@@ -0,0 +1,287 @@
+import { ScriptResponse, SupportingFileRole } from "./types";
+import { JSON_KEY_SECTIONS, coerceProjectFiles, coerceScriptResponse, looksLikeJson } from "./responseSchema";
+import { CONCRETE_LANGUAGES, matchOption } from "./scriptPackage";
+
+export type ResponseSection = 'summary' | 'assumptions' | 'script' | 'tests' | 'dockerfile' | 'cicd' | 'files' | 'failures' | 'metrics' | 'usage';
+
+export interface ParserSnapshot {
+    response: ScriptResponse;
+    activeSection: ResponseSection | null;
+    completedSections: ResponseSection[];
+}
+
+export interface StreamingParser {
+    push: (chunk: string) => ParserSnapshot;
+    snapshot: () => ParserSnapshot;
+    finish: () => ScriptResponse;
+}
+
+type CodeSection = 'script' | 'tests' | 'dockerfile' | 'cicd';
+const CODE_SECTIONS: ResponseSection[] = ['script', 'tests', 'dockerfile', 'cicd'];
+
+const emptyResponse = (): ScriptResponse => ({
+    summary: "",
+    assumptions: [],
+    script: "",
+    tests: "",
+    dockerfile: "",
+    cicd: "",
+    files: [],
+    failureSimulations: [],
+    metrics: { timeSavedMinutes: 0, linesProduced: 0, potentialErrorsMitigated: 0 },
+    usage: ""
+});
+
+const normalize = (sections: ScriptResponse): ScriptResponse => {
+    const result: ScriptResponse = {
+        ...sections,
+        assumptions: [...sections.assumptions],
+        failureSimulations: [...sections.failureSimulations],
+        script: sections.script.trim(),
+        tests: (sections.tests || "").trim(),
+        dockerfile: (sections.dockerfile || "").trim(),
+        cicd: (sections.cicd || "").trim(),
+        files: coerceProjectFiles(sections.files)
+    };
+    if (result.tests === 'N/A') result.tests = "";
+    return result;
+};
+
+/**
+ * Line-oriented parser for the emoji-delimited output format that accepts text in arbitrary chunks.
+ * Partial trailing lines are held back until their newline arrives, so a header is never split.
+ */
+const createTextParser = (): StreamingParser => {
+    const sections = emptyResponse();
+    const seen: ResponseSection[] = [];
+    let currentSection: ResponseSection | null = null;
+    let inCodeBlock = false;
+    let pending = "";
+    // Index into sections.files of the supporting file whose code block is being read.
+    let currentFile = -1;
+
+    const enter = (section: ResponseSection) => {
+        if (!seen.includes(section)) seen.push(section);
+        currentSection = section;
+    };
+
+    const handleLine = (line: string) => {
+        const trimmed = line.trim();
+
+        if (trimmed.includes('🔤 Language')) {
+            // Single line ahead of the summary; like metrics it is not a section of its own.
+            sections.language = matchOption(CONCRETE_LANGUAGES, trimmed.replace(/.*?🔤 Language:?\s*/, '')) ?? undefined;
+        } else if (trimmed.includes('🧠 Summary')) {
+            enter('summary');
+            sections.summary = trimmed.replace(/.*?🧠 Summary:?\s*/, '').trim();
+        } else if (trimmed.includes('⚙️ Assumptions')) {
+            enter('assumptions');
+        } else if (trimmed.includes('📜 Script')) {
+            enter('script');
+            inCodeBlock = false;
+        } else if (trimmed.includes('🧪 Tests')) {
+            enter('tests');
+            inCodeBlock = false;
+        } else if (trimmed.includes('🐳 Dockerfile')) {
+            enter('dockerfile');
+            inCodeBlock = false;
+        } else if (trimmed.includes('🚀 CI/CD')) {
+            enter('cicd');
+            inCodeBlock = false;
+        } else if (trimmed.includes('📁 File')) {
+            // "📁 File: requirements.txt (manifest)"; the role is optional.
+            enter('files');
+            inCodeBlock = false;
+            const match = trimmed.replace(/.*?📁 File:?\s*/, '').match(/^`?([^`\s]+)`?\s*(?:\((\w+)\))?/);
+            currentFile = match ? sections.files!.push({ path: match[1], role: match[2] as SupportingFileRole, content: "" }) - 1 : -1;
+        } else if (trimmed.includes('☢️ Failure Simulations')) {
+            enter('failures');
+        } else if (trimmed.includes('📊 Metrics')) {
+            // Metrics is a single line; record it without leaving the current section.
+            if (!seen.includes('metrics')) seen.push('metrics');
+            const parts = trimmed.split('|').map(p => p.trim());
+            if (parts.length >= 4) {
+                sections.metrics = {
+                    timeSavedMinutes: parseInt(parts[1]) || 0,
+                    linesProduced: parseInt(parts[2]) || 0,
+                    potentialErrorsMitigated: parseInt(parts[3]) || 0
+                };
+            }
+        } else if (trimmed.includes('▶️ Usage')) {
+            enter('usage');
+            sections.usage = trimmed.replace(/.*?▶️ Usage:?\s*/, '').trim();
+        } else if (currentSection === 'summary' && trimmed) {
+            if (!sections.summary.includes(trimmed)) {
+                sections.summary += (sections.summary ? ' ' : '') + trimmed;
+            }
+        } else if (currentSection === 'assumptions' && trimmed.startsWith('-')) {
+            sections.assumptions.push(trimmed.substring(1).trim());
+        } else if (currentSection === 'failures' && trimmed.startsWith('-')) {
+            const parts = trimmed.substring(1).split('|').map(p => p.trim());
+            if (parts.length >= 3) {
+                sections.failureSimulations.push({
+                    scenario: parts[0],
+                    trigger: parts[1],
+                    behavior: parts[2]
+                });
+            }
+        } else if (currentSection && CODE_SECTIONS.includes(currentSection)) {
+            if (trimmed.startsWith('```')) {
+                inCodeBlock = !inCodeBlock;
+            } else {
+                sections[currentSection as CodeSection] += line + '\n';
+            }
+        } else if (currentSection === 'files' && currentFile >= 0) {
+            if (trimmed.startsWith('```')) {
+                inCodeBlock = !inCodeBlock;
+            } else {
+                sections.files![currentFile].content += line + '\n';
+            }
+        } else if (currentSection === 'usage' && trimmed && !trimmed.includes('▶️ Usage')) {
+            sections.usage += (sections.usage ? ' ' : '') + trimmed;
+        }
+    };
+
+    const snapshot = (): ParserSnapshot => ({
+        response: normalize(sections),
+        activeSection: currentSection,
+        completedSections: seen.filter(s => s !== currentSection)
+    });
+
+    return {
+        push: (chunk: string) => {
+            const lines = (pending + chunk).split('\n');
+            pending = lines.pop() ?? "";
+            lines.forEach(handleLine);
+            return snapshot();
+        },
+        snapshot,
+        finish: () => {
+            if (pending) handleLine(pending);
+            pending = "";
+            currentSection = null;
+            return normalize(sections);
+        }
+    };
+};
+
+/**
+ * Closes any open strings, arrays and objects in a truncated JSON document and parses it.
+ * Returns undefined when the fragment cannot be made valid yet (e.g. mid-escape or mid-key).
+ */
+export const parsePartialJson = (text: string): any => {
+    const closers: string[] = [];
+    let inString = false;
+    let escaped = false;
+    for (const ch of text) {
+        if (inString) {
+            if (escaped) escaped = false;
+            else if (ch === '\\') escaped = true;
+            else if (ch === '"') inString = false;
+            continue;
+        }
+        if (ch === '"') inString = true;
+        else if (ch === '{') closers.push('}');
+        else if (ch === '[') closers.push(']');
+        else if (ch === '}' || ch === ']') closers.pop();
+    }
+
+    let body = text;
+    if (inString) body = (escaped ? body.slice(0, -1) : body) + '"';
+    const tail = closers.reverse().join('');
+    const candidates = [
+        body,
+        body.replace(/[,:]\s*$/, ''),
+        body.replace(/,?\s*"(?:[^"\\]|\\.)*"\s*:?\s*$/, '')
+    ];
+    for (const candidate of candidates) {
+        try {
+            return JSON.parse(candidate + tail);
+        } catch {
+            // try the next, more aggressively trimmed candidate
+        }
+    }
+    return undefined;
+};
+
+// Partial JSON is re-parsed from the start, so doing it per delta is quadratic in the response length.
+const REPARSE_EVERY_CHARS = 256;
+
+/** Snapshots trail the text by under REPARSE_EVERY_CHARS; `finish` always parses all of it. */
+const createJsonParser = (): StreamingParser => {
+    let text = "";
+    let parsedLength = 0;
+    let last: ParserSnapshot = { response: emptyResponse(), activeSection: null, completedSections: [] };
+
+    const snapshot = () => last;
+
+    return {
+        push: (chunk: string) => {
+            text += chunk;
+            if (text.length - parsedLength < REPARSE_EVERY_CHARS) return last;
+            parsedLength = text.length;
+            const start = text.indexOf('{');
+            const partial = start === -1 ? undefined : parsePartialJson(text.slice(start).replace(/\s*```\s*$/, ''));
+            if (partial && typeof partial === 'object') {
+                const sections = Object.keys(partial).map(k => JSON_KEY_SECTIONS[k]).filter(Boolean);
+                const activeSection = sections[sections.length - 1] ?? null;
+                last = {
+                    response: coerceScriptResponse(partial),
+                    activeSection,
+                    completedSections: sections.filter(s => s !== activeSection)
+                };
+            }
+            return last;
+        },
+        snapshot,
+        finish: () => {
+            const start = text.indexOf('{');
+            const end = text.lastIndexOf('}');
+            try {
+                return coerceScriptResponse(JSON.parse(text.slice(start, end + 1)));
+            } catch {
+                return last.response;
+            }
+        }
+    };
+};
+
+/**
+ * Chunk-tolerant parser that picks the JSON or emoji text format from the first
+ * non-whitespace characters, so one consumer handles both output modes.
+ */
+export const createStreamingParser = (): StreamingParser => {
+    let buffered = "";
+    let inner: StreamingParser | null = null;
+    const idle: ParserSnapshot = { response: emptyResponse(), activeSection: null, completedSections: [] };
+
+    const decide = () => {
+        const head = buffered.trimStart();
+        // A leading fence may be ```json; wait for the first line after it before choosing.
+        if (!head || (head.startsWith('`') && !/\n\s*\S/.test(head))) return null;
+        inner = looksLikeJson(head) ? createJsonParser() : createTextParser();
+        return inner.push(buffered);
+    };
+
+    return {
+        push: (chunk: string) => {
+            if (inner) return inner.push(chunk);
+            buffered += chunk;
+            return decide() ?? idle;
+        },
+        snapshot: () => inner?.snapshot() ?? idle,
+        finish: () => {
+            if (!inner) {
+                inner = looksLikeJson(buffered) ? createJsonParser() : createTextParser();
+                inner.push(buffered);
+            }
+            return inner.finish();
+        }
+    };
+};
+
+export const parseModelResponse = (text: string): ScriptResponse => {
+    const parser = createTextParser();
+    parser.push(text);
+    return parser.finish();
+};
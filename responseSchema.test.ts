@@ -0,0 +1,89 @@
+import { describe, expect, it } from "vitest";
+import { coerceScriptResponse, describeIssues, extractJson, looksLikeJson, validateScriptResponse } from "./responseSchema";
+import { MOCK_RECORDED_RESPONSE } from "./providers";
+import { parseModelResponse } from "./responseParser";
+import { ScriptRequest } from "./types";
+
+const REQUEST: ScriptRequest = {
+    description: "Archive old logs",
+    language: 'Python',
+    environment: 'Linux',
+    safetyLevel: 'Normal (Recommended)',
+    scriptType: 'Automation',
+    includeTests: true
+};
+
+const asJson = () => JSON.parse(JSON.stringify(parseModelResponse(MOCK_RECORDED_RESPONSE)));
+
+describe("validateScriptResponse", () => {
+    it("accepts the recorded mock response", () => {
+        const { response, issues } = validateScriptResponse(parseModelResponse(MOCK_RECORDED_RESPONSE), REQUEST);
+        expect(issues).toEqual([]);
+        expect(response?.language).toBe('Python');
+    });
+
+    it("names every missing section", () => {
+        const value = asJson();
+        delete value.dockerfile;
+        value.failureSimulations = [];
+        const { response, issues } = validateScriptResponse(value, REQUEST);
+        expect(response).toBeNull();
+        expect(describeIssues(issues)).toBe("Dockerfile, Failure Simulations");
+    });
+
+    it("requires tests only when they were requested", () => {
+        const value = { ...asJson(), tests: "" };
+        expect(validateScriptResponse(value, REQUEST).issues.map(i => i.section)).toEqual(['tests']);
+        expect(validateScriptResponse(value, { ...REQUEST, includeTests: false }).issues).toEqual([]);
+    });
+
+    it("rejects a language switch and asks Auto requests to name one", () => {
+        expect(validateScriptResponse({ ...asJson(), language: 'Go' }, REQUEST).issues[0].message).toMatch(/requested in Python/);
+        expect(validateScriptResponse({ ...asJson(), language: undefined }, { ...REQUEST, language: 'Auto' }).issues).toHaveLength(1);
+    });
+
+    it("does not ask for a repair when deploy files are missing", () => {
+        const value = asJson();
+        value.files = value.files.filter((f: any) => f.role !== 'deploy');
+        const { response, issues } = validateScriptResponse(value, { ...REQUEST, environment: 'Kubernetes' });
+        expect(issues).toEqual([]);
+        expect(response?.files?.some(f => f.role === 'deploy')).toBe(false);
+    });
+
+    it("accepts missing or zero metrics without an issue", () => {
+        const value = asJson();
+        delete value.metrics;
+        expect(validateScriptResponse(value, REQUEST).response?.metrics).toEqual({ timeSavedMinutes: 0, linesProduced: 0, potentialErrorsMitigated: 0 });
+        const zero = { ...asJson(), metrics: { timeSavedMinutes: 0, linesProduced: 0, potentialErrorsMitigated: 0 } };
+        expect(validateScriptResponse(zero, REQUEST).issues).toEqual([]);
+    });
+
+    it("rejects supporting files that escape the package", () => {
+        const value = { ...asJson(), files: [{ path: '../etc/passwd', role: 'config', content: 'x' }] };
+        const { issues } = validateScriptResponse(value, REQUEST);
+        expect(issues.map(i => i.section)).toEqual(['files']);
+    });
+});
+
+describe("coerceScriptResponse", () => {
+    it("fills defaults and strips code fences from a partial object", () => {
+        const response = coerceScriptResponse({ script: "```python\nprint(1)\n```", files: [{ path: 'a.txt', content: 'x' }, { path: 'a.txt', content: 'y' }] });
+        expect(response.script).toBe("print(1)");
+        expect(response.assumptions).toEqual([]);
+        expect(response.metrics).toEqual({ timeSavedMinutes: 0, linesProduced: 0, potentialErrorsMitigated: 0 });
+        expect(response.files).toEqual([{ path: 'a.txt', role: 'config', content: 'x' }]);
+    });
+});
+
+describe("extractJson", () => {
+    it("tolerates fences and surrounding prose", () => {
+        expect(extractJson("Here you go:\n```json\n{\"a\": 1}\n```")).toEqual({ a: 1 });
+        expect(extractJson("Sure! {\"a\": {\"b\": 2}} Done.")).toEqual({ a: { b: 2 } });
+        expect(() => extractJson("no json here")).toThrow(/No JSON object/);
+    });
+
+    it("tells JSON completions from the emoji format", () => {
+        expect(looksLikeJson("```json\n{")).toBe(true);
+        expect(looksLikeJson(MOCK_RECORDED_RESPONSE)).toBe(false);
+    });
+});
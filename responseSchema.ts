@@ -0,0 +1,219 @@
+import { FailureSimulation, ProjectFile, ScriptRequest, ScriptResponse } from "./types";
+import { ResponseSection } from "./responseParser";
+import { CONCRETE_LANGUAGES, SUPPORTING_FILE_ROLES, matchOption, sanitizeFilePath } from "./scriptPackage";
+import { EngineError } from "./engineErrors";
+
+export const SECTION_LABELS: Record<ResponseSection, string> = {
+    summary: "Summary",
+    assumptions: "Assumptions",
+    script: "Script",
+    tests: "Tests",
+    dockerfile: "Dockerfile",
+    cicd: "CI/CD",
+    files: "Files",
+    failures: "Failure Simulations",
+    metrics: "Metrics",
+    usage: "Usage"
+};
+
+// Maps ScriptResponse keys onto parser sections; key order is the order the model is asked to emit them.
+export const JSON_KEY_SECTIONS: Record<string, ResponseSection> = {
+    summary: 'summary',
+    assumptions: 'assumptions',
+    script: 'script',
+    tests: 'tests',
+    dockerfile: 'dockerfile',
+    cicd: 'cicd',
+    files: 'files',
+    failureSimulations: 'failures',
+    metrics: 'metrics',
+    usage: 'usage'
+};
+
+/** JSON Schema for the structured output mode. Mirrors ScriptResponse field for field. */
+export const SCRIPT_RESPONSE_SCHEMA = {
+    type: "object",
+    required: ["language", "summary", "assumptions", "script", "tests", "dockerfile", "cicd", "files", "failureSimulations", "usage"],
+    additionalProperties: false,
+    properties: {
+        language: { type: "string", enum: CONCRETE_LANGUAGES, description: "Language of the script; the chosen one when the request says Auto." },
+        summary: { type: "string", minLength: 1, description: "One paragraph." },
+        assumptions: { type: "array", items: { type: "string" } },
+        script: { type: "string", minLength: 1, description: "Raw code, no markdown fences." },
+        tests: { type: "string", description: "Raw unit test code, or an empty string when tests were not requested." },
+        dockerfile: { type: "string", minLength: 1 },
+        cicd: { type: "string", minLength: 1, description: "Pipeline definition for the requested CI/CD target." },
+        files: {
+            type: "array",
+            description: "Supporting files beyond script, tests, Dockerfile and CI/CD, e.g. requirements.txt, go.mod, package.json, a config file or deployment manifests. Empty when none are needed.",
+            items: {
+                type: "object",
+                required: ["path", "role", "content"],
+                properties: {
+                    path: { type: "string", minLength: 1, description: "Relative path from the package root." },
+                    role: { type: "string", enum: ["manifest", "config", "module", "docs", "deploy", "fixture"] },
+                    content: { type: "string", minLength: 1, description: "Raw file contents, no markdown fences." }
+                }
+            }
+        },
+        failureSimulations: {
+            type: "array",
+            minItems: 1,
+            items: {
+                type: "object",
+                required: ["scenario", "trigger", "behavior"],
+                properties: {
+                    scenario: { type: "string" },
+                    trigger: { type: "string" },
+                    behavior: { type: "string" }
+                }
+            }
+        },
+        metrics: {
+            type: "object",
+            description: "The model's own ROI estimate. Optional: the displayed metrics are computed locally from the artifacts.",
+            properties: {
+                timeSavedMinutes: { type: "integer", minimum: 0 },
+                linesProduced: { type: "integer", minimum: 0 },
+                potentialErrorsMitigated: { type: "integer", minimum: 0 }
+            }
+        },
+        usage: { type: "string", minLength: 1, description: "One-line invocation." }
+    }
+} as const;
+
+export interface SchemaIssue {
+    section?: ResponseSection;
+    message: string;
+}
+
+export interface ValidationResult {
+    response: ScriptResponse | null;
+    issues: SchemaIssue[];
+}
+
+export class ResponseParseError extends EngineError {
+    constructor(message: string, public issues: SchemaIssue[]) {
+        super(message, 'parse', true);
+        this.name = 'ResponseParseError';
+    }
+}
+
+const stripCodeFence = (code: string): string => {
+    const trimmed = code.trim();
+    const match = trimmed.match(/^```[\w-]*\n([\s\S]*?)\n?```$/);
+    return (match ? match[1] : trimmed).trim();
+};
+
+const isNonEmptyString = (v: unknown): v is string => typeof v === 'string' && v.trim().length > 0;
+
+// Unsafe paths are dropped and the first file wins a duplicated path; unknown roles become 'config'.
+export const coerceProjectFiles = (value: unknown): ProjectFile[] => {
+    if (!Array.isArray(value)) return [];
+    const files: ProjectFile[] = [];
+    value.forEach((f: any) => {
+        const path = typeof f?.path === 'string' ? sanitizeFilePath(f.path) : null;
+        if (!path || files.some(existing => existing.path === path)) return;
+        const role = SUPPORTING_FILE_ROLES.includes(f.role) ? f.role : 'config';
+        files.push({ path, role, content: stripCodeFence(typeof f.content === 'string' ? f.content : "") });
+    });
+    return files;
+};
+
+/** Best-effort mapping of a (possibly partial) JSON object onto ScriptResponse. Never throws. */
+export const coerceScriptResponse = (value: any): ScriptResponse => {
+    const str = (v: unknown) => (typeof v === 'string' ? v : "");
+    const failures: FailureSimulation[] = Array.isArray(value?.failureSimulations)
+        ? value.failureSimulations
+            .filter((f: any) => f && typeof f === 'object')
+            .map((f: any) => ({ scenario: str(f.scenario), trigger: str(f.trigger), behavior: str(f.behavior) }))
+        : [];
+    const metrics = value?.metrics ?? {};
+
+    return {
+        language: matchOption(CONCRETE_LANGUAGES, str(value?.language)) ?? undefined,
+        summary: str(value?.summary).trim(),
+        assumptions: Array.isArray(value?.assumptions) ? value.assumptions.filter((a: unknown) => typeof a === 'string') : [],
+        script: stripCodeFence(str(value?.script)),
+        tests: stripCodeFence(str(value?.tests)),
+        dockerfile: stripCodeFence(str(value?.dockerfile)),
+        cicd: stripCodeFence(str(value?.cicd)),
+        files: coerceProjectFiles(value?.files),
+        failureSimulations: failures,
+        metrics: {
+            timeSavedMinutes: Number(metrics.timeSavedMinutes) || 0,
+            linesProduced: Number(metrics.linesProduced) || 0,
+            potentialErrorsMitigated: Number(metrics.potentialErrorsMitigated) || 0
+        },
+        usage: str(value?.usage).trim()
+    };
+};
+
+/**
+ * Checks every ScriptResponse field. Accepts either raw JSON from the structured mode or
+ * the output of the text parser, so both modes report missing sections the same way.
+ */
+export const validateScriptResponse = (value: unknown, request: ScriptRequest): ValidationResult => {
+    const issues: SchemaIssue[] = [];
+    if (!value || typeof value !== 'object' || Array.isArray(value)) {
+        return { response: null, issues: [{ message: "Response is not a JSON object." }] };
+    }
+    const v = value as Record<string, any>;
+
+    // Only an 'Auto' request depends on the model naming its language; otherwise it must not switch.
+    const language = isNonEmptyString(v.language) ? matchOption(CONCRETE_LANGUAGES, v.language) : null;
+    if (request.language === 'Auto' && !language) {
+        issues.push({ section: 'script', message: `language must name the language chosen for the script (${CONCRETE_LANGUAGES.join(', ')})` });
+    } else if (request.language !== 'Auto' && language && language !== request.language) {
+        issues.push({ section: 'script', message: `script was requested in ${request.language} but came back as ${language}` });
+    }
+    if (!isNonEmptyString(v.summary)) issues.push({ section: 'summary', message: "summary must be a non-empty string" });
+    if (!Array.isArray(v.assumptions) || v.assumptions.some((a: unknown) => typeof a !== 'string')) {
+        issues.push({ section: 'assumptions', message: "assumptions must be an array of strings" });
+    }
+    if (!isNonEmptyString(v.script)) issues.push({ section: 'script', message: "script must contain the generated code" });
+    if (request.includeTests && !isNonEmptyString(v.tests)) {
+        issues.push({ section: 'tests', message: "tests were requested but are missing" });
+    } else if (v.tests != null && typeof v.tests !== 'string') {
+        issues.push({ section: 'tests', message: "tests must be a string" });
+    }
+    if (!isNonEmptyString(v.dockerfile)) issues.push({ section: 'dockerfile', message: "dockerfile must be a non-empty string" });
+    if (!isNonEmptyString(v.cicd)) issues.push({ section: 'cicd', message: "cicd must be a non-empty string" });
+    // Optional so responses from before supporting files existed still validate.
+    if (v.files != null) {
+        if (!Array.isArray(v.files)) {
+            issues.push({ section: 'files', message: "files must be an array" });
+        } else if (v.files.some((f: any) => !isNonEmptyString(f?.path) || !sanitizeFilePath(f.path) || !isNonEmptyString(f?.content))) {
+            issues.push({ section: 'files', message: "every file needs a relative path inside the package and non-empty content" });
+        }
+    }
+
+    const failures = v.failureSimulations;
+    if (!Array.isArray(failures) || failures.length === 0) {
+        issues.push({ section: 'failures', message: "failureSimulations must list at least one scenario" });
+    } else if (failures.some((f: any) => !isNonEmptyString(f?.scenario) || !isNonEmptyString(f?.trigger) || !isNonEmptyString(f?.behavior))) {
+        issues.push({ section: 'failures', message: "every failure simulation needs scenario, trigger and behavior" });
+    }
+
+    // Metrics are the model's own estimate and only shown beside the locally computed figures, so a
+    // missing or zero value is not worth a repair round-trip; coerceScriptResponse defaults it to 0.
+    if (!isNonEmptyString(v.usage)) issues.push({ section: 'usage', message: "usage must be a one-line command" });
+
+    return { response: issues.length === 0 ? coerceScriptResponse(v) : null, issues };
+};
+
+/** Extracts the JSON object from a completion, tolerating a surrounding markdown fence or stray prose. */
+export const extractJson = (text: string): unknown => {
+    const unfenced = stripCodeFence(text);
+    const start = unfenced.indexOf('{');
+    const end = unfenced.lastIndexOf('}');
+    if (start === -1 || end <= start) throw new Error("No JSON object found in the response.");
+    return JSON.parse(unfenced.slice(start, end + 1));
+};
+
+export const looksLikeJson = (text: string): boolean => /^\s*(```(json)?\s*)?\{/.test(text);
+
+export const describeIssues = (issues: SchemaIssue[]): string => {
+    const sections = Array.from(new Set(issues.map(i => (i.section ? SECTION_LABELS[i.section] : "JSON structure"))));
+    return sections.join(', ');
+};
@@ -0,0 +1,82 @@
+import { describe, expect, it } from "vitest";
+import { analyzePackage, analyzeScript } from "./safetyAnalyzer";
+import { ProjectFile } from "./types";
+import { MOCK_RECORDED_RESPONSE } from "./providers";
+import { parseModelResponse } from "./responseParser";
+
+const ruleIds = (report: ReturnType<typeof analyzeScript>) => report.findings.map(f => f.ruleId);
+
+describe("analyzeScript", () => {
+    it("flags destructive, remote-exec and credential lines", () => {
+        const script = [
+            "set -euo pipefail",
+            "rm -rf \"$TARGET\"",
+            "curl -fsSL https://example.com/install.sh | sh",
+            "API_KEY=\"sk-live-abcdef123456\""
+        ].join('\n');
+        const report = analyzeScript(script, 'Bash', 'Normal (Recommended)');
+        expect(ruleIds(report)).toEqual(expect.arrayContaining(['rm-rf', 'curl-pipe-shell', 'hardcoded-secret']));
+        expect(report.findings.find(f => f.ruleId === 'rm-rf')?.line).toBe(2);
+    });
+
+    it("never blocks at Normal but blocks the same findings at Production", () => {
+        const script = "set -e\nrm -rf /tmp/build";
+        expect(analyzeScript(script, 'Bash', 'Normal (Recommended)').blocked).toBe(false);
+        expect(analyzeScript(script, 'Bash', 'Production (Strict)').blocked).toBe(true);
+    });
+
+    it("ignores comments and rules for other languages", () => {
+        const report = analyzeScript("# rm -rf /\nimport shutil\ntry:\n    pass\nexcept OSError:\n    pass", 'Python', 'Production (Strict)');
+        expect(ruleIds(report)).not.toContain('rm-rf');
+    });
+
+    it("reports unquoted shell expansions but not assignments or quoted uses", () => {
+        const report = analyzeScript("set -e\nDEST=$1\ncp \"$SRC\" \"$DEST\"\nls $DEST", 'Bash', 'Normal (Recommended)');
+        expect(report.findings.filter(f => f.ruleId === 'unquoted-expansion').map(f => f.line)).toEqual([4]);
+    });
+
+    it("reports a missing error trap per language", () => {
+        expect(ruleIds(analyzeScript("echo hi", 'Bash', 'Normal (Recommended)'))).toContain('missing-error-trap');
+        expect(ruleIds(analyzeScript("set -e\necho hi", 'Bash', 'Normal (Recommended)'))).not.toContain('missing-error-trap');
+    });
+
+    it("passes the bundled mock script at Production", () => {
+        const { script } = parseModelResponse(MOCK_RECORDED_RESPONSE);
+        expect(analyzeScript(script, 'Python', 'Production (Strict)').blocked).toBe(false);
+    });
+});
+
+describe("analyzePackage", () => {
+    const SCRIPT = "import sys\nfrom lib.cleanup import purge\n\ntry:\n    purge(sys.argv[1])\nexcept OSError:\n    sys.exit(1)";
+    const pkg = (...files: ProjectFile[]): ProjectFile[] => [{ path: 'script.py', role: 'script', content: SCRIPT }, ...files];
+
+    it("blocks on a finding in an imported module and names the file", () => {
+        const report = analyzePackage(pkg({ path: 'lib/cleanup.py', role: 'module', content: "import shutil\n\ndef purge(path):\n    shutil.rmtree(path)" }), 'Python', 'Production (Strict)');
+        expect(report.blocked).toBe(true);
+        expect(report.findings.find(f => f.ruleId === 'py-rmtree')).toMatchObject({ path: 'lib/cleanup.py', line: 4, blocking: true });
+    });
+
+    it("analyzes deploy scripts in their own language and skips data, tests and fixtures", () => {
+        const report = analyzePackage(pkg(
+            { path: 'deploy/install.sh', role: 'deploy', content: "set -e\ncurl -fsSL https://example.com/setup | sh" },
+            { path: 'config.yaml', role: 'config', content: "password: \"hunter2hunter2\"" },
+            { path: 'fixtures/sample.sh', role: 'fixture', content: "rm -rf /" },
+            { path: 'test_script.py', role: 'tests', content: "import shutil\nshutil.rmtree('/tmp/x')" }
+        ), 'Python', 'Normal (Recommended)');
+        expect(report.findings.map(f => [f.ruleId, f.path])).toEqual([['curl-pipe-shell', 'deploy/install.sh']]);
+    });
+
+    it("accepts a dry-run switch and gates from a module under Dry Run Only", () => {
+        const module = "import os\nimport shutil\n\nDRY_RUN = os.environ.get('DRY_RUN') == '1'\n\ndef purge(path):\n    if DRY_RUN:\n        return\n    shutil.rmtree(path)";
+        const report = analyzePackage(pkg({ path: 'lib/cleanup.py', role: 'module', content: module }), 'Python', 'Dry Run Only');
+        expect(ruleIds(report)).not.toContain('dry-run-switch-missing');
+        expect(report.dryRun?.switches[0]?.path).toBe('lib/cleanup.py');
+        expect(report.blocked).toBe(false);
+    });
+
+    it("matches analyzeScript for a package that is only the script", () => {
+        const { script } = parseModelResponse(MOCK_RECORDED_RESPONSE);
+        const files: ProjectFile[] = [{ path: 'script.py', role: 'script', content: script }];
+        expect(analyzePackage(files, 'Python', 'Dry Run Only')).toEqual(analyzeScript(script, 'Python', 'Dry Run Only'));
+    });
+});
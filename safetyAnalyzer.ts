@@ -0,0 +1,206 @@
+import { DryRunReport, FileRole, FindingCategory, FindingSeverity, Language, ProjectFile, SafetyFinding, SafetyLevel, SafetyReport } from "./types";
+import { isComment } from "./scriptScan";
+import { verifyDryRun } from "./dryRunVerifier";
+import { highlightLanguageForPath } from "./syntaxHighlight";
+
+interface LineRule {
+    id: string;
+    category: FindingCategory;
+    severity: FindingSeverity;
+    message: string;
+    pattern: RegExp;
+    /** Languages the rule applies to; omitted means every language. */
+    languages?: Language[];
+}
+
+const SHELLS: Language[] = ['Bash', 'Auto'];
+
+const LINE_RULES: LineRule[] = [
+    // Destructive operations
+    { id: 'rm-rf', category: 'destructive', severity: 'high', message: "Recursive forced delete (rm -rf).", pattern: /\brm\s+(-[a-zA-Z]*r[a-zA-Z]*f|-[a-zA-Z]*f[a-zA-Z]*r|-r\s+-f|-f\s+-r|--recursive\s+--force|--force\s+--recursive)\b/ },
+    { id: 'remove-item-recurse', category: 'destructive', severity: 'high', message: "Recursive Remove-Item.", pattern: /\b(Remove-Item|rm|del|rmdir|ri)\b[^\n]*-Recurse\b/i, languages: ['PowerShell', 'Auto'] },
+    { id: 'sql-drop', category: 'destructive', severity: 'high', message: "Destructive SQL statement (DROP/TRUNCATE).", pattern: /\b(DROP\s+(TABLE|DATABASE|SCHEMA)|TRUNCATE\s+TABLE)\b/i },
+    { id: 'sql-delete-all', category: 'destructive', severity: 'high', message: "DELETE without a WHERE clause.", pattern: /\bDELETE\s+FROM\s+[\w."`\[\]]+\s*(;|["'`]|$)/i },
+    { id: 'kubectl-delete', category: 'destructive', severity: 'high', message: "kubectl delete removes cluster resources.", pattern: /\bkubectl\s+delete\b/ },
+    { id: 'terraform-destroy', category: 'destructive', severity: 'high', message: "terraform destroy tears down infrastructure.", pattern: /\bterraform\s+destroy\b/ },
+    { id: 'mkfs-dd', category: 'destructive', severity: 'critical', message: "Disk-level write (mkfs/dd to a device).", pattern: /\b(mkfs(\.\w+)?\s|dd\s+[^\n]*of=\/dev\/)/ },
+    { id: 'py-rmtree', category: 'destructive', severity: 'high', message: "shutil.rmtree deletes a directory tree.", pattern: /\bshutil\.rmtree\s*\(/, languages: ['Python', 'Auto'] },
+    { id: 'node-rm-recursive', category: 'destructive', severity: 'high', message: "Recursive fs removal.", pattern: /\bfs(\.promises)?\.(rm|rmdir)(Sync)?\s*\([^)]*recursive\s*:\s*true/, languages: ['JavaScript', 'TypeScript', 'Auto'] },
+    { id: 'go-removeall', category: 'destructive', severity: 'high', message: "os.RemoveAll deletes a directory tree.", pattern: /\bos\.RemoveAll\s*\(/, languages: ['Go', 'Auto'] },
+    { id: 'ruby-rm-rf', category: 'destructive', severity: 'high', message: "FileUtils.rm_rf deletes a directory tree.", pattern: /\bFileUtils\.(rm_rf|rm_r|remove_dir)\b/, languages: ['Ruby', 'Auto'] },
+    { id: 'rust-remove-dir-all', category: 'destructive', severity: 'high', message: "fs::remove_dir_all deletes a directory tree.", pattern: /\bremove_dir_all\s*\(/, languages: ['Rust', 'Auto'] },
+    { id: 'java-delete-tree', category: 'destructive', severity: 'high', message: "Recursive directory delete.", pattern: /\bFileUtils\.deleteDirectory\s*\(|\bFiles\.walk\([^\n]*\bdelete\b/, languages: ['Java', 'Auto'] },
+    { id: 'cs-delete-recursive', category: 'destructive', severity: 'high', message: "Directory.Delete with recursive: true.", pattern: /\bDirectory\.Delete\s*\([^)]*,\s*(recursive\s*:\s*)?true\s*\)/, languages: ['C#', 'Auto'] },
+    { id: 'perl-rmtree', category: 'destructive', severity: 'high', message: "rmtree/remove_tree deletes a directory tree.", pattern: /\b(rmtree|remove_tree)\s*\(/, languages: ['Perl', 'Auto'] },
+
+    // Remote code execution
+    { id: 'curl-pipe-shell', category: 'remote-exec', severity: 'critical', message: "Downloaded content piped straight into a shell.", pattern: /\b(curl|wget)\b[^\n|]*\|\s*(sudo\s+)?(ba|z|k|da)?sh\b/ },
+    { id: 'iex-download', category: 'remote-exec', severity: 'critical', message: "Invoke-Expression on downloaded content.", pattern: /\b(iex|Invoke-Expression)\b[^\n]*(iwr|irm|Invoke-WebRequest|Invoke-RestMethod|DownloadString)/i, languages: ['PowerShell', 'Auto'] },
+
+    // Hard-coded credentials
+    { id: 'hardcoded-secret', category: 'credentials', severity: 'critical', message: "Hard-coded credential literal.", pattern: /\b[\w-]*(password|passwd|pwd|secret|api[_-]?key|apikey|access[_-]?key|auth[_-]?token|token)[\w-]*["']?\s*(:=|=|:)\s*["'][^"'\s$%{}<>]{6,}["']/i },
+    { id: 'aws-access-key', category: 'credentials', severity: 'critical', message: "AWS access key ID in source.", pattern: /\bAKIA[0-9A-Z]{16}\b/ },
+    { id: 'private-key', category: 'credentials', severity: 'critical', message: "Embedded private key.", pattern: /-----BEGIN (RSA |EC |OPENSSH |DSA )?PRIVATE KEY-----/ },
+];
+
+interface TrapRule {
+    languages: Language[];
+    pattern: RegExp;
+    message: string;
+}
+
+// A script passes when any of its language's patterns appears at least once.
+const TRAP_RULES: TrapRule[] = [
+    { languages: ['Bash'], pattern: /\bset\s+-[a-zA-Z]*e|\bset\s+-o\s+errexit\b|\btrap\s+/, message: "No `set -e` or `trap` error handler." },
+    { languages: ['PowerShell'], pattern: /\$ErrorActionPreference\s*=\s*['"]Stop['"]|\btry\s*\{|\btrap\s*\{/i, message: "No `$ErrorActionPreference = 'Stop'`, try/catch or trap." },
+    { languages: ['Python'], pattern: /^\s*try\s*:/m, message: "No try/except error handling." },
+    { languages: ['JavaScript', 'TypeScript'], pattern: /\btry\s*\{|\.catch\s*\(/, message: "No try/catch or promise rejection handling." },
+    { languages: ['Go'], pattern: /\bif\s+err\s*!=\s*nil\b/, message: "No `if err != nil` checks." },
+    { languages: ['Ruby'], pattern: /\brescue\b/, message: "No rescue clause." },
+    { languages: ['Rust'], pattern: /\bResult\s*<|\?\s*;/, message: "No Result-returning error propagation." },
+    { languages: ['Java', 'C#', 'PHP'], pattern: /\btry\s*[({]/, message: "No try/catch error handling." },
+    { languages: ['Perl'], pattern: /\bor\s+(die|croak)\b|\beval\s*\{/, message: "No `or die` or eval error handling." },
+];
+
+// Removes quoted strings, arithmetic and [[ ]] tests, where bare expansions are safe.
+const stripSafeShellContexts = (line: string) =>
+    line
+        .replace(/'[^']*'/g, "''")
+        .replace(/"(?:[^"\\]|\\.)*"/g, '""')
+        .replace(/\$\(\([^)]*\)\)/g, '')
+        .replace(/\[\[[^\]]*\]\]/g, '');
+
+const UNQUOTED_EXPANSION = /(^|[\s=(])\$(\{[A-Za-z_][A-Za-z0-9_]*\}|[A-Za-z_][A-Za-z0-9_]*|[@*])/;
+// Plain assignments and case/for headers are not word-split, so they are not reported.
+const SHELL_EXPANSION_EXEMPT = /^\s*(local\s+|export\s+|readonly\s+|declare\s+[-\w]*\s*)?[A-Za-z_][A-Za-z0-9_]*=\$|^\s*(case|for)\b/;
+
+/** Severities that violate each level. Normal reports findings but never blocks export. */
+const BLOCKING_SEVERITIES: Record<SafetyLevel, FindingSeverity[]> = {
+    'Production (Strict)': ['critical', 'high', 'medium'],
+    'Dry Run Only': ['critical', 'high'],
+    'Normal (Recommended)': []
+};
+
+const SEVERITY_ORDER: FindingSeverity[] = ['critical', 'high', 'medium', 'low'];
+
+type RawFinding = Omit<SafetyFinding, 'blocking'>;
+
+interface FileScan {
+    findings: RawFinding[];
+    dryRun?: DryRunReport;
+}
+
+const scanFile = (content: string, language: Language, level: SafetyLevel, path?: string): FileScan => {
+    const findings: RawFinding[] = [];
+    const lines = content.split('\n');
+
+    lines.forEach((line, index) => {
+        if (!line.trim() || isComment(line, language)) return;
+
+        LINE_RULES.forEach(rule => {
+            if (rule.languages && !rule.languages.includes(language)) return;
+            if (rule.pattern.test(line)) {
+                findings.push({ ruleId: rule.id, category: rule.category, severity: rule.severity, message: rule.message, line: index + 1, snippet: line.trim() });
+            }
+        });
+
+        if (SHELLS.includes(language) && !SHELL_EXPANSION_EXEMPT.test(line) && UNQUOTED_EXPANSION.test(stripSafeShellContexts(line))) {
+            findings.push({
+                ruleId: 'unquoted-expansion',
+                category: 'quoting',
+                severity: 'medium',
+                message: "Unquoted variable expansion is subject to word splitting and globbing.",
+                line: index + 1,
+                snippet: line.trim()
+            });
+        }
+    });
+
+    TRAP_RULES.forEach(rule => {
+        if (rule.languages.includes(language) && content.trim() && !rule.pattern.test(content)) {
+            findings.push({ ruleId: 'missing-error-trap', category: 'error-handling', severity: 'medium', message: rule.message });
+        }
+    });
+
+    const dryRun = level === 'Dry Run Only' ? verifyDryRun(content, language) : undefined;
+    dryRun?.sideEffects.filter(s => !s.gated).forEach(s => {
+        findings.push({ ruleId: 'dry-run-ungated', category: 'dry-run', severity: 'high', message: "Side-effecting call is not gated by the dry-run switch.", line: s.line, snippet: s.snippet });
+    });
+
+    if (!path) return { findings, dryRun };
+    const at = <T extends object>(items: T[]) => items.map(item => ({ ...item, path }));
+    return {
+        findings: at(findings),
+        dryRun: dryRun && { ...dryRun, switches: at(dryRun.switches), gates: at(dryRun.gates), sideEffects: at(dryRun.sideEffects) }
+    };
+};
+
+const locationKey = (location: { path?: string, line?: number }) => `${location.path ?? ''}:${location.line}`;
+
+// The switch may live in the script or in a module it imports, so it is looked for across the package.
+const buildReport = (scans: FileScan[], language: Language, level: SafetyLevel): SafetyReport => {
+    const findings = scans.flatMap(scan => scan.findings);
+    const reports = scans.flatMap(scan => (scan.dryRun ? [scan.dryRun] : []));
+    const switches = reports.flatMap(r => r.switches);
+    const sideEffects = reports.flatMap(r => r.sideEffects);
+    const dryRun: DryRunReport | undefined = level === 'Dry Run Only'
+        ? { switches, gates: reports.flatMap(r => r.gates), sideEffects, verified: switches.length > 0 && sideEffects.every(s => s.gated) }
+        : undefined;
+    if (dryRun && dryRun.switches.length === 0) {
+        findings.push({ ruleId: 'dry-run-switch-missing', category: 'dry-run', severity: 'critical', message: "No dry-run switch found (a --dry-run flag or DRY_RUN environment variable)." });
+    }
+    const gatedLocations = new Set(dryRun?.sideEffects.filter(s => s.gated).map(locationKey));
+
+    const blockingSeverities = BLOCKING_SEVERITIES[level];
+    const classified = findings
+        .map(f => ({
+            ...f,
+            blocking: blockingSeverities.includes(f.severity) && !(f.category === 'destructive' && f.line !== undefined && gatedLocations.has(locationKey(f)))
+        }))
+        .sort((a, b) =>
+            SEVERITY_ORDER.indexOf(a.severity) - SEVERITY_ORDER.indexOf(b.severity)
+            || (a.path ?? '').localeCompare(b.path ?? '')
+            || (a.line ?? 0) - (b.line ?? 0));
+
+    return {
+        level,
+        language,
+        findings: classified,
+        blocked: classified.some(f => f.blocking),
+        dryRun
+    };
+};
+
+/**
+ * Local static pass over a generated script. Flags destructive operations, remote code execution,
+ * hard-coded credentials, unquoted shell expansions and missing error traps, and decides whether
+ * the findings violate the selected SafetyLevel. Under 'Dry Run Only' it also verifies the dry-run
+ * switch, and destructive calls behind a dry-run gate no longer block.
+ */
+export const analyzeScript = (script: string, language: Language, level: SafetyLevel): SafetyReport =>
+    buildReport([scanFile(script, language, level)], language, level);
+
+// Artifacts the package does not execute, and the user's own sample inputs.
+const UNANALYZED_ROLES: FileRole[] = ['tests', 'dockerfile', 'cicd', 'fixture'];
+
+/** Language a package file runs as, or null for data, docs and the files in UNANALYZED_ROLES. */
+const runnableLanguage = (file: ProjectFile, language: Language): Language | null => {
+    if (file.role === 'script') return language;
+    if (UNANALYZED_ROLES.includes(file.role)) return null;
+    const detected = highlightLanguageForPath(file.path);
+    if (detected === 'Auto') return file.role === 'module' ? language : null;
+    return detected === 'Dockerfile' || detected === 'YAML' || detected === 'JSON' ? null : detected;
+};
+
+/**
+ * analyzeScript over the whole package (projectFiles): the script and every supporting file that
+ * runs, such as modules it imports and deploy or setup scripts. A finding in a supporting file
+ * blocks export like one in the script and carries the file's path.
+ */
+export const analyzePackage = (files: ProjectFile[], language: Language, level: SafetyLevel): SafetyReport => {
+    const scans = files.flatMap(file => {
+        const fileLanguage = runnableLanguage(file, language);
+        return fileLanguage ? [scanFile(file.content, fileLanguage, level, file.role === 'script' ? undefined : file.path)] : [];
+    });
+    return buildReport(scans, language, level);
+};
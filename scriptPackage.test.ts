@@ -0,0 +1,31 @@
+import { describe, expect, it } from "vitest";
+import { artifactPath, projectFiles } from "./scriptPackage";
+import { MOCK_RECORDED_RESPONSE } from "./providers";
+import { parseModelResponse } from "./responseParser";
+
+describe("artifactPath", () => {
+    it.each([
+        ['Python', 'script.py', 'test_script.py'],
+        ['Bash', 'script.sh', 'test_script.sh'],
+        ['PowerShell', 'script.ps1', 'script.Tests.ps1'],
+        ['JavaScript', 'script.js', 'script.test.js'],
+        ['TypeScript', 'script.ts', 'script.test.ts'],
+        ['Go', 'main.go', 'main_test.go'],
+        ['Ruby', 'script.rb', 'test_script.rb'],
+    ] as const)("puts %s tests where the framework discovers them", (language, script, tests) => {
+        expect(artifactPath('script', { language })).toBe(script);
+        expect(artifactPath('tests', { language })).toBe(tests);
+    });
+
+    it("falls back to tests.<ext> until an Auto request names its language", () => {
+        expect(artifactPath('tests', { language: 'Auto' })).toBe('tests.txt');
+    });
+});
+
+describe("projectFiles", () => {
+    it("packages the mock tests under the pytest discovery name", () => {
+        const paths = projectFiles(parseModelResponse(MOCK_RECORDED_RESPONSE), { language: 'Python' }).map(f => f.path);
+        expect(paths).toContain('test_script.py');
+        expect(paths).not.toContain('tests.py');
+    });
+});
@@ -0,0 +1,196 @@
+import { ArtifactKey, Attachment, CiProvider, ConcreteLanguage, ConfigParameter, Environment, FileValidation, Language, MetricsEstimate, ProjectFile, SafetyLevel, ScriptRequest, ScriptResponse, ScriptType, SupportingFileRole } from "./types";
+import { ARTIFACT_KEYS } from "./responseDiff";
+import { issueCounts, validateArtifacts } from "./artifactValidator";
+import { buildConfigSchema, buildEnvExample, extractConfig } from "./configExtractor";
+
+/**
+ * Request options and the engineering package layout, shared by the web export and the CLI
+ * so both produce the same files.
+ */
+
+export const CONCRETE_LANGUAGES: ConcreteLanguage[] = ['Python', 'Bash', 'PowerShell', 'JavaScript', 'TypeScript', 'Go', 'Ruby', 'Rust', 'Java', 'C#', 'PHP', 'Perl', 'YAML', 'JSON'];
+export const LANGUAGES: Language[] = [...CONCRETE_LANGUAGES, 'Auto'];
+export const ENVIRONMENTS: Environment[] = ['Linux', 'Windows', 'macOS', 'AWS', 'Azure', 'GCP', 'Docker', 'Kubernetes', 'Generic'];
+export const SAFETY_LEVELS: SafetyLevel[] = ['Dry Run Only', 'Normal (Recommended)', 'Production (Strict)'];
+export const SCRIPT_TYPES: ScriptType[] = ['Automation', 'Workflow', 'Integration', 'Business Logic', 'DevOps', 'Data Processing'];
+export const CI_PROVIDERS: CiProvider[] = ['GitHub Actions', 'GitLab CI', 'Azure Pipelines', 'Jenkins', 'CircleCI'];
+
+/** Where each provider expects its pipeline definition, relative to the repository root. */
+export const CI_CONFIG_PATHS: Record<CiProvider, string> = {
+    'GitHub Actions': '.github/workflows/main.yml',
+    'GitLab CI': '.gitlab-ci.yml',
+    'Azure Pipelines': 'azure-pipelines.yml',
+    'Jenkins': 'Jenkinsfile',
+    'CircleCI': '.circleci/config.yml'
+};
+
+export const ciProviderOf = (request: Pick<ScriptRequest, 'ciProvider'>): CiProvider => request.ciProvider ?? 'GitHub Actions';
+
+export const DEFAULT_REQUEST_OPTIONS: Omit<ScriptRequest, 'description'> = {
+    language: 'Python',
+    environment: 'Linux',
+    safetyLevel: 'Normal (Recommended)',
+    scriptType: 'Automation',
+    includeTests: true,
+    ciProvider: 'GitHub Actions',
+    includeHelmChart: false
+};
+
+/** Environments that get deployment files (role 'deploy') on top of the Dockerfile; the rest ship the image alone. */
+export const DEPLOYMENT_ENVIRONMENTS: Environment[] = ['Linux', 'AWS', 'Azure', 'GCP', 'Kubernetes'];
+
+const normalizeOption = (value: string) => value.toLowerCase().replace(/[^a-z0-9]/g, '');
+
+/**
+ * Case-insensitive match that also accepts an unambiguous prefix of the option or of one of its
+ * words, so "strict", "prod" and "production (strict)" all resolve to 'Production (Strict)'.
+ */
+export const matchOption = <T extends string>(options: T[], value: string): T | null => {
+    const wanted = normalizeOption(value);
+    if (!wanted) return null;
+    const exact = options.find(o => normalizeOption(o) === wanted);
+    if (exact) return exact;
+    const partial = options.filter(o => normalizeOption(o).startsWith(wanted) || o.toLowerCase().split(/[^a-z0-9]+/).some(word => word && word.startsWith(wanted)));
+    return partial.length === 1 ? partial[0] : null;
+};
+
+export interface LanguageProfile {
+    extension: string;
+    /**
+     * Where the toolchain expects the artifacts when script.<ext> and tests.<ext> will not do, e.g. so
+     * the test framework discovers the tests. scriptRunner runs them from the same paths.
+     */
+    scriptPath?: string;
+    testPath?: string;
+    /** Set when the tests are written in another language, as for the config formats. */
+    testLanguage?: ConcreteLanguage;
+    testFramework: string;
+    dockerBase: string;
+}
+
+export const LANGUAGE_PROFILES: Record<ConcreteLanguage, LanguageProfile> = {
+    'Python': { extension: 'py', testPath: 'test_script.py', testFramework: 'pytest', dockerBase: 'python:3.12-slim' },
+    'Bash': { extension: 'sh', testPath: 'test_script.sh', testFramework: 'bats-core (@test blocks)', dockerBase: 'debian:bookworm-slim' },
+    'PowerShell': { extension: 'ps1', testPath: 'script.Tests.ps1', testFramework: 'Pester 5 (Describe/It)', dockerBase: 'mcr.microsoft.com/powershell' },
+    'JavaScript': { extension: 'js', testPath: 'script.test.js', testFramework: 'the built-in node:test runner with node:assert', dockerBase: 'node:22-slim' },
+    'TypeScript': { extension: 'ts', testPath: 'script.test.ts', testFramework: 'the built-in node:test runner with node:assert', dockerBase: 'node:22-slim' },
+    'Go': { extension: 'go', scriptPath: 'main.go', testPath: 'main_test.go', testFramework: 'the standard testing package, table-driven', dockerBase: 'golang:1.22 to build, gcr.io/distroless/static-debian12 to run' },
+    'Ruby': { extension: 'rb', testPath: 'test_script.rb', testFramework: 'Minitest', dockerBase: 'ruby:3.3-slim' },
+    'Rust': { extension: 'rs', scriptPath: 'src/main.rs', testPath: 'tests/cli.rs', testFramework: 'cargo test with #[test] functions; Cargo.toml as the manifest', dockerBase: 'rust:1.79-slim to build, debian:bookworm-slim to run' },
+    'Java': { extension: 'java', scriptPath: 'src/main/java/Script.java', testPath: 'src/test/java/ScriptTest.java', testFramework: 'JUnit 5 run by Maven; pom.xml as the manifest', dockerBase: 'maven:3.9-eclipse-temurin-21 to build, eclipse-temurin:21-jre to run' },
+    'C#': { extension: 'cs', scriptPath: 'src/Program.cs', testPath: 'tests/ScriptTests.cs', testFramework: 'xUnit run by dotnet test; a .csproj per project as the manifests', dockerBase: 'mcr.microsoft.com/dotnet/sdk:8.0 to build, mcr.microsoft.com/dotnet/runtime:8.0 to run' },
+    'PHP': { extension: 'php', testPath: 'tests/ScriptTest.php', testFramework: 'PHPUnit; composer.json as the manifest', dockerBase: 'php:8.3-cli' },
+    'Perl': { extension: 'pl', testPath: 't/script.t', testFramework: 'Test::More run by prove; a cpanfile as the manifest', dockerBase: 'perl:5.40-slim' },
+    'YAML': { extension: 'yaml', scriptPath: 'config.yaml', testPath: 'test_config.py', testLanguage: 'Python', testFramework: 'pytest with PyYAML, asserting structure, required keys and value types', dockerBase: 'python:3.12-slim (validation image)' },
+    'JSON': { extension: 'json', scriptPath: 'config.json', testPath: 'test_config.py', testLanguage: 'Python', testFramework: 'pytest with jsonschema, asserting structure, required keys and value types', dockerBase: 'python:3.12-slim (validation image)' }
+};
+
+export const getExtension = (lang: Language) => (lang === 'Auto' ? 'txt' : LANGUAGE_PROFILES[lang].extension);
+
+/**
+ * The language the artifacts are actually in: the requested one, or for 'Auto' whatever the model
+ * reported. Stays 'Auto' until the response names a language.
+ */
+export const resolvedLanguage = (requested: Language, response?: Pick<ScriptResponse, 'language'> | null): Language =>
+    requested === 'Auto' && response?.language ? response.language : requested;
+
+/** Language of the tests artifact, which differs from the script's for the config formats. */
+export const testLanguageOf = (language: Language): Language =>
+    language === 'Auto' ? language : LANGUAGE_PROFILES[language].testLanguage ?? language;
+
+export const SUPPORTING_FILE_ROLES: SupportingFileRole[] = ['manifest', 'config', 'module', 'docs', 'deploy', 'fixture'];
+
+export type PackageTarget = Pick<ScriptRequest, 'language' | 'ciProvider' | 'attachments'>;
+
+export const artifactPath = (artifact: ArtifactKey, target: PackageTarget): string => {
+    const profile = target.language === 'Auto' ? undefined : LANGUAGE_PROFILES[target.language];
+    switch (artifact) {
+        case 'script': return profile?.scriptPath ?? `script.${getExtension(target.language)}`;
+        case 'tests': return profile?.testPath ?? `tests.${getExtension(target.language)}`;
+        case 'dockerfile': return 'Dockerfile';
+        case 'cicd': return CI_CONFIG_PATHS[ciProviderOf(target)];
+    }
+};
+
+/** Normalizes a model-supplied path to a relative POSIX path, or null when it would leave the package root. */
+export const sanitizeFilePath = (raw: string): string | null => {
+    const parts = raw.trim().replace(/\\/g, '/').replace(/^([A-Za-z]:)?\/+/, '').split('/').filter(p => p && p !== '.');
+    if (!parts.length || parts.includes('..')) return null;
+    return parts.join('/');
+};
+
+// Written by the export itself, so a supporting file of the same name would be overwritten.
+export const GENERATED_PATHS = ['README.md', '.env.example', 'config.schema.json'];
+
+/** Where an attached sample input is packaged for the tests to read. */
+export const fixturePath = (name: string): string => `fixtures/${sanitizeFilePath(name)?.split('/').pop() || 'sample'}`;
+
+/** Attached sample inputs as package files, verbatim; the first attachment wins a duplicated name. */
+export const fixtureFiles = (attachments: Attachment[] = []): ProjectFile[] => {
+    const seen = new Set<string>();
+    return attachments
+        .filter(a => a.kind === 'sample')
+        .map(a => ({ path: fixturePath(a.name), role: 'fixture' as const, content: a.content }))
+        .filter(f => !seen.has(f.path) && !!seen.add(f.path));
+};
+
+/**
+ * Every file in the package, in tab order: the artifacts at their fixed paths, the supporting
+ * files, then the attached sample inputs as fixtures. Empty artifacts other than the script are
+ * left out unless `includeEmpty` is set, which the workspace uses while sections are still
+ * streaming in. Supporting files cannot shadow an artifact, a generated file or a fixture.
+ */
+export const projectFiles = (response: ScriptResponse, requested: PackageTarget, includeEmpty = false): ProjectFile[] => {
+    const target = { ...requested, language: resolvedLanguage(requested.language, response) };
+    const fixtures = fixtureFiles(requested.attachments);
+    const reserved = new Set([...ARTIFACT_KEYS.map(key => artifactPath(key, target)), ...GENERATED_PATHS, ...fixtures.map(f => f.path)]);
+    const artifacts: ProjectFile[] = ARTIFACT_KEYS
+        .map(key => ({ path: artifactPath(key, target), role: key, content: response[key] || '' }))
+        .filter(f => includeEmpty || f.role === 'script' || f.content.trim());
+    return [...artifacts, ...(response.files ?? []).filter(f => !reserved.has(f.path)), ...fixtures];
+};
+
+/** Markdown summary of the offline checks for the package README; files no check covers are left out. */
+export const validationReport = (validations: FileValidation[]): string => {
+    const checked = validations.filter(v => v.check);
+    const { errors, warnings } = issueCounts(checked.flatMap(v => v.issues));
+    const entries = checked.map(v => {
+        const heading = `- \`${v.path}\` (${v.check}): ${v.issues.length ? `${v.issues.length} issue(s)` : 'passed'}`;
+        return [heading, ...v.issues.map(i => `  - ${i.severity}${i.line ? ` (line ${i.line})` : ''}: ${i.message}`)].join('\n');
+    });
+    return `${checked.length} file(s) checked offline: ${errors} error(s), ${warnings} warning(s).\n\n${entries.join('\n')}`;
+};
+
+const CONFIG_SOURCES: Record<ConfigParameter['source'], string> = { env: 'environment', arg: 'argument', file: 'config file' };
+
+/** Markdown table of the script's parameters for the package README. */
+export const configurationReport = (parameters: ConfigParameter[]): string => {
+    if (!parameters.length) return "The script reads no environment variables, arguments or config files.";
+    const rows = parameters.map(p => {
+        const notes = [p.description ?? '', p.secret ? '**secret**' : '', p.referencedIn.length ? `set in ${p.referencedIn.map(r => `\`${r}\``).join(', ')}` : ''].filter(Boolean).join('; ');
+        return `| \`${p.name}\` | ${CONFIG_SOURCES[p.source]} | ${p.type} | ${p.defaultValue === undefined ? '' : `\`${p.defaultValue}\``} | ${p.required ? 'yes' : 'no'} | ${notes} |`;
+    });
+    return `| Parameter | Source | Type | Default | Required | Notes |\n| --- | --- | --- | --- | --- | --- |\n${rows.join('\n')}`;
+};
+
+/** Relative path → contents for every file in the package. */
+export const buildPackageFiles = (request: ScriptRequest, response: ScriptResponse, estimate: MetricsEstimate): Record<string, string> => {
+    const { metrics, reported } = estimate;
+    const packaged = projectFiles(response, request);
+    const language = resolvedLanguage(request.language, response);
+    const files: Record<string, string> = {};
+    packaged.forEach(f => { files[f.path] = f.content; });
+
+    const { parameters } = extractConfig(packaged, language);
+    const envExample = buildEnvExample(parameters, artifactPath('script', { ...request, language }));
+    if (envExample) files['.env.example'] = envExample;
+    if (parameters.some(p => p.source !== 'file')) files['config.schema.json'] = buildConfigSchema(parameters, `${request.scriptType} script configuration`);
+
+    const failuresText = response.failureSimulations.map(f => `### ${f.scenario}\n**Trigger:** ${f.trigger}\n**Behavior:** ${f.behavior}`).join('\n\n');
+    const generated = GENERATED_PATHS.filter(path => files[path] !== undefined).map(path => `- \`${path}\` (generated)`);
+    const fileList = [...packaged.map(f => `- \`${f.path}\` (${f.role})`), ...generated].join('\n');
+    const validations = validateArtifacts(packaged, { language, ciProvider: ciProviderOf(request), environment: request.environment });
+    files[`README.md`] = `# ${request.scriptType} Script\n\n## Value Summary\n- Engineering Time Saved: ${metrics.timeSavedMinutes} mins (model estimate: ${reported.timeSavedMinutes || 'n/a'})\n- Optimized Production Code: ${metrics.linesProduced} Lines\n- Explicit Error Handlers: ${metrics.potentialErrorsMitigated}\n\n## Summary\n${response.summary}\n\n## Files\n${fileList}\n\n## Configuration\n${configurationReport(parameters)}\n\n## Validation\n${validationReport(validations)}\n\n## Failure Mode Simulations\n${failuresText}\n\n## Usage\n\`\`\`bash\n${response.usage}\n\`\`\``;
+
+    return files;
+};
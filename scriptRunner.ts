@@ -0,0 +1,421 @@
+import { spawn, spawnSync } from "node:child_process";
+import { chmod, mkdir, mkdtemp, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import { FaultCase, FaultEvent, FaultKind, FaultRunRequest, Language, PhaseResult, RunEvent, RunPhase, RunRequest, TestSummary } from "./types";
+import { faultTargetIndex, isHostArg, isPathArg, judgeFaultCase, parseUsageArgs, planFaultCases } from "./faultInjection";
+import { artifactPath } from "./scriptPackage";
+
+/**
+ * Local execution harness. Writes the generated artifacts to a throwaway directory and runs
+ * them with the language's interpreter under CPU, memory, file-size and wall-clock limits,
+ * inside a network namespace with no interfaces. Used by the /api/run/stream and
+ * /api/faults/stream endpoints.
+ */
+
+export interface RunnerLimits {
+    timeoutMs: number;
+    cpuSeconds: number;
+    memoryMb: number;
+    maxFileMb: number;
+    /** Output beyond this many bytes per phase is dropped. */
+    maxOutputBytes: number;
+}
+
+export const DEFAULT_RUNNER_LIMITS: RunnerLimits = {
+    timeoutMs: 30_000,
+    cpuSeconds: 20,
+    memoryMb: 1024,
+    maxFileMb: 64,
+    maxOutputBytes: 256 * 1024
+};
+
+// File names come from LANGUAGE_PROFILES, so a run uses the same layout as the exported package.
+interface LanguageRunner {
+    /** Extra files the toolchain needs next to the artifacts. */
+    support?: Record<string, string>;
+    runScript: (script: string) => string[];
+    runTests: (tests: string) => string[];
+}
+
+const RUNNERS: Partial<Record<Language, LanguageRunner>> = {
+    Python: {
+        runScript: script => ['python3', script],
+        // Prefer pytest, which also runs unittest-style tests; fall back to the standard library.
+        runTests: tests => ['sh', '-c', 'if python3 -m pytest --version >/dev/null 2>&1; then exec python3 -m pytest -q "$1"; else exec python3 -m unittest -v "${1%.py}"; fi', 'sh', tests]
+    },
+    Bash: {
+        runScript: script => ['bash', script],
+        runTests: tests => ['sh', '-c', 'if command -v bats >/dev/null 2>&1 && grep -q "@test" "$1"; then exec bats "$1"; else exec bash "$1"; fi', 'sh', tests]
+    },
+    PowerShell: {
+        runScript: script => ['pwsh', '-NoProfile', '-NonInteractive', '-File', script],
+        runTests: tests => ['pwsh', '-NoProfile', '-NonInteractive', '-Command', `Invoke-Pester -Path ./${tests} -CI`]
+    },
+    JavaScript: {
+        runScript: script => ['node', script],
+        runTests: tests => ['node', '--test', tests]
+    },
+    TypeScript: {
+        // Type stripping needs Node 22.6 or later.
+        runScript: script => ['node', '--experimental-strip-types', script],
+        runTests: tests => ['node', '--experimental-strip-types', '--test', tests]
+    },
+    Go: {
+        support: { 'go.mod': 'module generated\n\ngo 1.21\n' },
+        runScript: () => ['go', 'run', '.'],
+        runTests: () => ['go', 'test', '-v', '.']
+    },
+    Ruby: {
+        runScript: script => ['ruby', script],
+        runTests: tests => ['ruby', '-I.', tests]
+    }
+};
+
+const scriptFile = (language: Language) => artifactPath('script', { language });
+const testFile = (language: Language) => artifactPath('tests', { language });
+
+export const isRunnable = (language: Language): boolean => !!RUNNERS[language];
+
+// Version-manager and toolchain variables the interpreters need to resolve; everything else is dropped.
+const PASSTHROUGH_ENV = ['PATH', 'LANG', 'PYENV_ROOT', 'PYENV_VERSION', 'RBENV_ROOT', 'RBENV_VERSION', 'GOROOT', 'NODE_PATH'];
+
+// Preferred: a network namespace entered as an unprivileged user, so file permissions apply even
+// when the server runs as root. Falls back to a root-mapped namespace, which only isolates the network.
+const UNPRIVILEGED_NAMESPACE = ['unshare', '-n', '--map-user=65534', '--map-group=65534'];
+const ROOT_NAMESPACE = ['unshare', '-rn'];
+
+let isolation: string[] | null | undefined;
+
+const detectIsolation = () => {
+    if (isolation === undefined) {
+        const works = (prefix: string[]) => process.platform === 'linux'
+            && spawnSync(prefix[0], [...prefix.slice(1), 'true'], { stdio: 'ignore', timeout: 5000 }).status === 0;
+        isolation = works(UNPRIVILEGED_NAMESPACE) ? UNPRIVILEGED_NAMESPACE : works(ROOT_NAMESPACE) ? ROOT_NAMESPACE : null;
+    }
+    return isolation;
+};
+
+interface Sandbox {
+    prefix: string[];
+    notes: string[];
+}
+
+const openSandbox = (limits: RunnerLimits): Sandbox => {
+    const prefix = detectIsolation();
+    const notes: string[] = [];
+    if (prefix) {
+        notes.push(prefix === UNPRIVILEGED_NAMESPACE
+            ? 'network: isolated (empty network namespace, unprivileged user)'
+            : 'network: isolated (empty network namespace)');
+    } else if (process.env.RUNNER_ALLOW_NETWORK === 'true') {
+        notes.push('network: NOT isolated (RUNNER_ALLOW_NETWORK=true)');
+    } else {
+        throw new Error("Network isolation is unavailable on this host (unshare -rn failed). Set RUNNER_ALLOW_NETWORK=true to run anyway.");
+    }
+    const dropsPrivileges = prefix === UNPRIVILEGED_NAMESPACE;
+    // Without a user mapping the script would keep the server's uid, and root could read or rewrite the whole host.
+    if (!dropsPrivileges && process.getuid?.() === 0) {
+        throw new Error("Refusing to run generated code as root: this host cannot map the sandbox to an unprivileged user (unshare -n --map-user failed). Start the server as a regular user.");
+    }
+    notes.push(`limits: ${limits.timeoutMs / 1000}s wall, ${limits.cpuSeconds}s CPU, ${limits.memoryMb} MB memory, ${limits.maxFileMb} MB per file`);
+    notes.push('filesystem: working directory is a temporary copy; the rest of the host filesystem is not hidden');
+    return { prefix: prefix ?? [], notes };
+};
+
+const sandboxEnv = (dir: string): NodeJS.ProcessEnv => {
+    const env: NodeJS.ProcessEnv = { HOME: dir, TMPDIR: dir, NO_COLOR: '1', GOCACHE: path.join(dir, '.gocache'), GOPATH: path.join(dir, '.gopath'), GOTOOLCHAIN: 'local', GOFLAGS: '-mod=mod' };
+    PASSTHROUGH_ENV.forEach(key => { if (process.env[key]) env[key] = process.env[key]; });
+    return env;
+};
+
+// Applies the rlimits in a shell, then execs the real command so the limits carry over.
+const withLimits = (command: string[], limits: RunnerLimits) => [
+    'sh', '-c', 'ulimit -t "$1" && ulimit -d "$2" && ulimit -f "$3" && shift 3 && exec "$@"', 'sh',
+    String(limits.cpuSeconds), String(limits.memoryMb * 1024), String(limits.maxFileMb * 1024),
+    ...command
+];
+
+const TEST_FORMATS: { pattern: RegExp; summary: (m: RegExpMatchArray) => TestSummary }[] = [
+    // pytest: "3 passed, 1 failed in 0.12s"
+    { pattern: /=*\s*(?:(\d+) failed,?\s*)?(?:(\d+) passed)?[^\n]*\bin [\d.]+s/, summary: m => ({ passed: Number(m[2] ?? 0), failed: Number(m[1] ?? 0) }) },
+    // unittest: "Ran 4 tests" followed by "OK" or "FAILED (failures=1, errors=1)"
+    { pattern: /Ran (\d+) tests?[\s\S]*?(?:FAILED \((?:failures=(\d+))?(?:, )?(?:errors=(\d+))?\)|OK)/, summary: m => { const failed = Number(m[2] ?? 0) + Number(m[3] ?? 0); return { passed: Number(m[1]) - failed, failed }; } },
+    // node --test
+    { pattern: /^# pass (\d+)\s*\n# fail (\d+)/m, summary: m => ({ passed: Number(m[1]), failed: Number(m[2]) }) },
+    // minitest
+    { pattern: /(\d+) runs, \d+ assertions, (\d+) failures, (\d+) errors/, summary: m => { const failed = Number(m[2]) + Number(m[3]); return { passed: Number(m[1]) - failed, failed }; } },
+    // Pester
+    { pattern: /Tests Passed: (\d+), Failed: (\d+)/, summary: m => ({ passed: Number(m[1]), failed: Number(m[2]) }) },
+    // bats
+    { pattern: /^(\d+) tests?, (\d+) failures?/m, summary: m => ({ passed: Number(m[1]) - Number(m[2]), failed: Number(m[2]) }) }
+];
+
+export const parseTestSummary = (output: string, language: Language): TestSummary | undefined => {
+    if (language === 'Go') {
+        const passed = (output.match(/^\s*--- PASS/gm) ?? []).length;
+        const failed = (output.match(/^\s*--- FAIL/gm) ?? []).length;
+        return passed || failed ? { passed, failed } : undefined;
+    }
+    for (const format of TEST_FORMATS) {
+        const match = output.match(format.pattern);
+        if (match && match.slice(1).some(Boolean)) return format.summary(match);
+    }
+    return undefined;
+};
+
+const runPhase = (
+    phase: RunPhase,
+    command: string[],
+    cwd: string,
+    env: NodeJS.ProcessEnv,
+    limits: RunnerLimits,
+    onEvent: (event: RunEvent) => void,
+    signal?: AbortSignal,
+    stdin?: string
+): Promise<{ result: PhaseResult; output: string }> => new Promise((resolve, reject) => {
+    const startedAt = Date.now();
+    const child = spawn(command[0], command.slice(1), { cwd, env, stdio: [stdin === undefined ? 'ignore' : 'pipe', 'pipe', 'pipe'], detached: true });
+    if (stdin !== undefined) {
+        child.stdin?.on('error', () => { /* the script may exit without reading its input */ });
+        child.stdin?.end(stdin);
+    }
+    let output = '';
+    let bytes = 0;
+    let timedOut = false;
+
+    // Kill the whole process group so background jobs started by the script die with it.
+    const kill = () => {
+        try {
+            if (child.pid) process.kill(-child.pid, 'SIGKILL');
+        } catch {
+            child.kill('SIGKILL');
+        }
+    };
+    const timer = setTimeout(() => { timedOut = true; kill(); }, limits.timeoutMs);
+    signal?.addEventListener('abort', kill, { once: true });
+
+    const capture = (stream: 'stdout' | 'stderr') => (chunk: Buffer) => {
+        if (bytes >= limits.maxOutputBytes) return;
+        const text = chunk.subarray(0, limits.maxOutputBytes - bytes).toString('utf8');
+        bytes += chunk.length;
+        output += text;
+        onEvent({ type: 'output', phase, stream, text });
+        if (bytes >= limits.maxOutputBytes) {
+            onEvent({ type: 'output', phase, stream: 'stderr', text: `\n[output truncated at ${limits.maxOutputBytes} bytes]\n` });
+        }
+    };
+    child.stdout.on('data', capture('stdout'));
+    child.stderr.on('data', capture('stderr'));
+
+    child.on('error', error => {
+        clearTimeout(timer);
+        reject(new Error(`Could not start ${command[0]}: ${error.message}`));
+    });
+    child.on('close', (exitCode, exitSignal) => {
+        clearTimeout(timer);
+        signal?.removeEventListener('abort', kill);
+        resolve({
+            result: { phase, exitCode, signal: exitSignal, timedOut, durationMs: Date.now() - startedAt },
+            output
+        });
+    });
+});
+
+// Lays the package out as it is exported: supporting files first, so the runner's own script, tests and
+// support files win a clash.
+const writePackage = async (dir: string, runner: LanguageRunner, request: Pick<RunRequest, 'language' | 'script' | 'tests' | 'files'>) => {
+    for (const file of request.files ?? []) {
+        const target = path.resolve(dir, file.path);
+        if (!target.startsWith(dir + path.sep)) continue;
+        await mkdir(path.dirname(target), { recursive: true });
+        await writeFile(target, file.content, { mode: 0o600 });
+    }
+    const files: Record<string, string> = { ...runner.support, [scriptFile(request.language)]: request.script };
+    if (request.tests) files[testFile(request.language)] = request.tests;
+    await Promise.all(Object.entries(files).map(([name, content]) => writeFile(path.join(dir, name), content, { mode: 0o700 })));
+};
+
+/**
+ * Runs the script, then its tests when present, streaming output and exit status as RunEvents.
+ * Refuses to run without network isolation unless RUNNER_ALLOW_NETWORK is set.
+ */
+export const runArtifacts = async (
+    request: RunRequest,
+    onEvent: (event: RunEvent) => void,
+    signal?: AbortSignal,
+    limits: RunnerLimits = DEFAULT_RUNNER_LIMITS
+): Promise<void> => {
+    const runner = RUNNERS[request.language];
+    if (!runner) {
+        throw new Error(`No local runner for ${request.language}.`);
+    }
+
+    const sandbox = openSandbox(limits);
+    const dir = await mkdtemp(path.join(tmpdir(), 'script-run-'));
+    try {
+        await writePackage(dir, runner, request);
+        const env = sandboxEnv(dir);
+
+        const phases: [RunPhase, string[]][] = [['script', runner.runScript(scriptFile(request.language))]];
+        if (request.tests) phases.push(['tests', runner.runTests(testFile(request.language))]);
+
+        for (const [phase, command] of phases) {
+            if (signal?.aborted) break;
+            onEvent({ type: 'start', phase, command: command.join(' ') });
+            const phaseEnv = phase === 'script' && request.dryRun ? { ...env, DRY_RUN: '1' } : env;
+            const { result, output } = await runPhase(phase, [...sandbox.prefix, ...withLimits(command, limits)], dir, phaseEnv, limits, onEvent, signal);
+            if (phase === 'tests') result.tests = parseTestSummary(output, request.language);
+            onEvent({ type: 'exit', result });
+        }
+        onEvent({ type: 'done', sandbox: sandbox.notes });
+    } finally {
+        await rm(dir, { recursive: true, force: true });
+    }
+};
+
+interface Fixture {
+    /** Arguments to run the script with; absent when the fault could not be injected. */
+    args?: string[];
+    stdin?: string;
+    injected: string;
+    cleanup?: () => Promise<void>;
+}
+
+const MALFORMED_CONTENT: Record<string, string> = {
+    json: '{"records": [1, 2,, "unterminated}\n',
+    csv: 'id,name\n1,"unterminated\n2,\u0000\u00ff\n',
+    yaml: 'key: [unclosed\n  - : bad\n\tindent\n',
+    xml: '<root><unclosed></root\n'
+};
+MALFORMED_CONTENT.yml = MALFORMED_CONTENT.yaml;
+const MALFORMED_DEFAULT = '\u0000\u00ff\u00fe not valid input {{{ ]]]\n';
+
+const PLACEHOLDER_CONTENT: Record<string, string> = { json: '{}\n', csv: 'id\n', yaml: '{}\n', yml: '{}\n', xml: '<root/>\n' };
+
+// Flags written as --input=/path carry their value after the '='.
+const argValue = (arg: string) => (arg.startsWith('-') && arg.includes('=') ? arg.slice(arg.indexOf('=') + 1) : arg);
+const withArgValue = (arg: string, value: string) => (arg.startsWith('-') && arg.includes('=') ? `${arg.slice(0, arg.indexOf('=') + 1)}${value}` : value);
+
+const fixtureName = (arg: string) => path.basename(argValue(arg).replace(/^<|>$/g, '')) || 'input';
+const looksLikeDir = (arg: string) => !path.extname(fixtureName(arg)) || argValue(arg).endsWith('/');
+
+/**
+ * Moves every path argument from the usage example into the sandbox as a well-formed placeholder,
+ * so each case fails only on the fault it injects and never touches the host paths it names.
+ */
+const placeholderArgs = async (args: string[], fixturesDir: string): Promise<string[]> => {
+    await mkdir(fixturesDir, { recursive: true });
+    return Promise.all(args.map(async (arg, i) => {
+        if (!isPathArg(argValue(arg))) return arg;
+        const placeholder = path.join(fixturesDir, `${i}-${fixtureName(arg)}`);
+        if (looksLikeDir(arg)) await mkdir(placeholder, { recursive: true });
+        else await writeFile(placeholder, PLACEHOLDER_CONTENT[path.extname(placeholder).slice(1).toLowerCase()] ?? '');
+        return withArgValue(arg, placeholder);
+    }));
+};
+
+const UNREACHABLE_URL = 'http://10.255.255.1:9';
+
+// `usageArgs` are the arguments as written in the usage example; `args` are their sandboxed placeholders.
+const injectFault = async (faultCase: FaultCase & { kind: FaultKind }, usageArgs: string[], args: string[], caseDir: string): Promise<Fixture> => {
+    const { kind } = faultCase;
+    if (kind === 'unreachable-host') {
+        const hosts = usageArgs.filter(a => isHostArg(argValue(a)));
+        return {
+            args: args.map(a => (isHostArg(argValue(a)) ? withArgValue(a, UNREACHABLE_URL) : a)),
+            injected: `Ran with no network interfaces${hosts.length ? `; ${hosts.map(argValue).join(', ')} pointed at ${UNREACHABLE_URL}` : ''}.`
+        };
+    }
+
+    const target = faultTargetIndex(faultCase, usageArgs.map(argValue));
+    if (target === null) {
+        return { injected: "The usage example has several path arguments and the scenario does not say which one the fault is in." };
+    }
+    if (target < 0) {
+        return { injected: "The usage example has no file or directory argument to inject the fault into." };
+    }
+    const original = argValue(usageArgs[target]);
+    const name = fixtureName(usageArgs[target]);
+    const isDir = looksLikeDir(usageArgs[target]);
+    const replace = (value: string) => args.map((a, i) => (i === target ? withArgValue(a, value) : a));
+    await mkdir(caseDir, { recursive: true });
+
+    if (kind === 'missing-file') {
+        return { args: replace(path.join(caseDir, 'missing', name)), injected: `Pointed ${original} at a path that does not exist.` };
+    }
+
+    if (kind === 'permission-denied') {
+        const locked = path.join(caseDir, name);
+        if (isDir) await mkdir(locked);
+        else await writeFile(locked, 'locked\n');
+        await chmod(locked, 0o000);
+        return {
+            args: replace(locked),
+            injected: `Pointed ${original} at a ${isDir ? 'directory' : 'file'} with mode 000.`,
+            cleanup: () => chmod(locked, 0o700)
+        };
+    }
+
+    const ext = path.extname(name).slice(1).toLowerCase();
+    const content = MALFORMED_CONTENT[ext] ?? MALFORMED_DEFAULT;
+    const malformed = path.join(caseDir, isDir ? 'malformed.txt' : name);
+    await writeFile(malformed, content);
+    return { args: replace(malformed), stdin: content, injected: `Pointed ${original} at a malformed ${ext || 'input'} file and piped it to stdin.` };
+};
+
+/**
+ * Turns each FailureSimulation into a fault-injection case, runs the script under the fault and
+ * reports whether the observed exit code and output back up the claimed behavior.
+ */
+export const runFaultCases = async (
+    request: FaultRunRequest,
+    onEvent: (event: FaultEvent) => void,
+    signal?: AbortSignal,
+    limits: RunnerLimits = DEFAULT_RUNNER_LIMITS
+): Promise<void> => {
+    const runner = RUNNERS[request.language];
+    if (!runner) {
+        throw new Error(`No local runner for ${request.language}.`);
+    }
+
+    const sandbox = openSandbox(limits);
+    const usageArgs = parseUsageArgs(request.usage);
+    const dir = await mkdtemp(path.join(tmpdir(), 'script-faults-'));
+    try {
+        for (const faultCase of planFaultCases(request.simulations)) {
+            if (signal?.aborted) break;
+            onEvent({ type: 'case-start', index: faultCase.index });
+            if (!faultCase.kind) {
+                onEvent({ type: 'case-result', verdict: { index: faultCase.index, kind: null, status: 'inconclusive', injected: "No fault injection matches this scenario.", reasons: [] } });
+                continue;
+            }
+
+            // Each case gets a fresh copy of the package, so one case's side effects cannot mask another's fault.
+            const caseDir = path.join(dir, `case-${faultCase.index}`);
+            await mkdir(caseDir);
+            await writePackage(caseDir, runner, request);
+            const env = sandboxEnv(caseDir);
+            const baseArgs = await placeholderArgs(usageArgs, path.join(caseDir, '.fault', 'args'));
+            const fixture = await injectFault({ ...faultCase, kind: faultCase.kind }, usageArgs, baseArgs, path.join(caseDir, '.fault', 'injected'));
+            if (!fixture.args) {
+                onEvent({ type: 'case-result', verdict: { index: faultCase.index, kind: faultCase.kind, status: 'inconclusive', injected: fixture.injected, reasons: [] } });
+                continue;
+            }
+
+            const command = [...runner.runScript(scriptFile(request.language)), ...fixture.args];
+            try {
+                const { result, output } = await runPhase('script', [...sandbox.prefix, ...withLimits(command, limits)], caseDir, env, limits, () => {}, signal, fixture.stdin);
+                onEvent({
+                    type: 'case-result',
+                    verdict: judgeFaultCase(faultCase, { exitCode: result.exitCode, timedOut: result.timedOut, output, injected: fixture.injected, command: command.join(' ') })
+                });
+            } finally {
+                await fixture.cleanup?.();
+            }
+        }
+        onEvent({ type: 'done', sandbox: sandbox.notes });
+    } finally {
+        await rm(dir, { recursive: true, force: true });
+    }
+};
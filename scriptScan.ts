@@ -0,0 +1,109 @@
+import { Language } from "./types";
+
+/**
+ * Line-level helpers shared by the local script analyzers. These are heuristics over source
+ * text, not parsers: they favour predictable behaviour on typical generated scripts.
+ */
+
+const COMMENT_PREFIXES: Partial<Record<Language, string[]>> = {
+    Python: ['#'],
+    Bash: ['#'],
+    PowerShell: ['#'],
+    Ruby: ['#'],
+    JavaScript: ['//', '*', '/*'],
+    TypeScript: ['//', '*', '/*'],
+    Go: ['//', '*', '/*'],
+    Rust: ['//', '*', '/*'],
+    Java: ['//', '*', '/*'],
+    'C#': ['//', '*', '/*'],
+    PHP: ['//', '#', '*', '/*'],
+    Perl: ['#'],
+    YAML: ['#'],
+};
+
+export const isComment = (line: string, language: Language): boolean => {
+    const trimmed = line.trim();
+    if (trimmed.startsWith('#!')) return true;
+    const prefixes = COMMENT_PREFIXES[language] ?? ['#', '//'];
+    return prefixes.some(p => trimmed.startsWith(p));
+};
+
+const INDENT_LANGUAGES: Language[] = ['Python', 'Ruby', 'YAML'];
+
+export const indentOf = (line: string): number => line.length - line.trimStart().length;
+
+const countBraces = (line: string): number => {
+    const code = line.replace(/'[^']*'|"(?:[^"\\]|\\.)*"|`[^`]*`/g, '');
+    return (code.match(/\{/g)?.length ?? 0) - (code.match(/\}/g)?.length ?? 0);
+};
+
+/**
+ * Index of the last line belonging to the block opened at `start`, including any
+ * else/elif branches that continue it. Returns `start` for a single-line statement.
+ */
+export const blockEnd = (lines: string[], start: number, language: Language): number => {
+    if (INDENT_LANGUAGES.includes(language)) {
+        const base = indentOf(lines[start]);
+        let end = start;
+        for (let i = start + 1; i < lines.length; i++) {
+            const trimmed = lines[i].trim();
+            if (!trimmed) continue;
+            const indent = indentOf(lines[i]);
+            if (indent > base || (indent === base && /^(else|elif|elsif|except|finally|rescue|end)\b/.test(trimmed))) {
+                end = i;
+            } else {
+                break;
+            }
+        }
+        return end;
+    }
+
+    if (language === 'Bash' && /^\s*(if|while|for|until|case)\b/.test(lines[start]) && !/\b(fi|done|esac)\s*;?\s*$/.test(lines[start])) {
+        const opener = /^\s*(if|while|for|until|case)\b/;
+        const closer = /^\s*(fi|done|esac)\b/;
+        let depth = 0;
+        for (let i = start; i < lines.length; i++) {
+            if (opener.test(lines[i])) depth++;
+            if (closer.test(lines[i])) depth--;
+            if (depth === 0) return i;
+        }
+        return lines.length - 1;
+    }
+
+    let depth = 0;
+    let opened = false;
+    for (let i = start; i < lines.length; i++) {
+        depth += countBraces(lines[i]);
+        if (depth > 0) opened = true;
+        if (opened && depth <= 0) {
+            const next = lines.slice(i + 1).find(l => l.trim());
+            if (depth === 0 && next && /^\s*(else|elif|catch|finally)\b/.test(next)) continue;
+            if (depth === 0 && /\}\s*(else|catch|finally)\b[^{]*\{\s*$/.test(lines[i])) continue;
+            return i;
+        }
+    }
+    return opened ? lines.length - 1 : start;
+};
+
+/**
+ * Last line of the block that encloses `start` (e.g. the rest of the surrounding function),
+ * used for guard clauses that return early.
+ */
+export const enclosingBlockEnd = (lines: string[], start: number, language: Language): number => {
+    if (INDENT_LANGUAGES.includes(language)) {
+        const base = indentOf(lines[start]);
+        let end = start;
+        for (let i = start + 1; i < lines.length; i++) {
+            if (!lines[i].trim()) continue;
+            if (indentOf(lines[i]) < base) break;
+            end = i;
+        }
+        return end;
+    }
+    let depth = 0;
+    for (let i = start; i < lines.length; i++) {
+        depth += countBraces(lines[i]);
+        if (depth < 0) return i;
+    }
+    return lines.length - 1;
+};
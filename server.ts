@@ -0,0 +1,359 @@
+import http from "node:http";
+import { createHash, randomBytes, timingSafeEqual } from "node:crypto";
+import { ErrorPayload, FaultEvent, FaultRunRequest, GenerationStreamEvent, Language, RunEvent, RunRequest, ScriptRequest, ScriptResponse, TokenUsage } from "./types";
+import { generateScript, streamRefinement, streamScript } from "./groqService";
+import { createProvider, providerConfigFromEnv } from "./providers";
+import { isRunnable, runArtifacts, runFaultCases } from "./scriptRunner";
+import { coerceProjectFiles } from "./responseSchema";
+import { CI_PROVIDERS, ENVIRONMENTS, LANGUAGES, SAFETY_LEVELS, SCRIPT_TYPES } from "./scriptPackage";
+import { EngineError, classifyError } from "./engineErrors";
+import { addUsage } from "./usageTracker";
+import { ATTACHMENT_KINDS, MAX_ATTACHMENTS, MAX_ATTACHMENT_CHARS } from "./attachmentContext";
+
+/**
+ * Generation proxy. Owns the provider credentials so they never reach the browser bundle,
+ * and guards shared deployments with per-client rate limits and request size caps.
+ */
+
+const PORT = Number(process.env.PORT) || 8787;
+// Loopback only unless told otherwise: the runner executes whatever code a request carries.
+const HOST = process.env.RUNNER_HOST || '127.0.0.1';
+const MAX_BODY_BYTES = Number(process.env.MAX_BODY_BYTES) || 16 * 1024;
+const MAX_DESCRIPTION_CHARS = Number(process.env.MAX_DESCRIPTION_CHARS) || 4000;
+// Refinements and runs carry whole artifacts, so they get a larger body cap.
+const MAX_REFINE_BODY_BYTES = Number(process.env.MAX_REFINE_BODY_BYTES) || 256 * 1024;
+// Attached files and the fixtures runs write from them come on top of either cap.
+const MAX_ATTACHMENT_BYTES = Number(process.env.MAX_ATTACHMENT_BYTES) || 512 * 1024;
+const RATE_LIMIT_REQUESTS = Number(process.env.RATE_LIMIT_REQUESTS) || 10;
+const RATE_LIMIT_WINDOW_MS = Number(process.env.RATE_LIMIT_WINDOW_MS) || 60_000;
+// Set only behind a reverse proxy that appends the client address to X-Forwarded-For.
+const TRUST_PROXY = process.env.TRUST_PROXY === '1' || process.env.TRUST_PROXY === 'true';
+// Executing generated code is opt-in: only enable the runner on a machine you are willing to run it on.
+const RUNNER_ENABLED = process.env.RUNNER_ENABLED === 'true';
+const RUNNER_MAX_CONCURRENT = Number(process.env.RUNNER_MAX_CONCURRENT) || 1;
+// Run and fault requests must send it in X-Runner-Token; without RUNNER_TOKEN a fresh one is printed at startup.
+const RUNNER_TOKEN = process.env.RUNNER_TOKEN || randomBytes(18).toString('hex');
+
+let activeRuns = 0;
+
+const provider = createProvider(providerConfigFromEnv());
+
+class HttpError extends Error {
+    constructor(public status: number, message: string, public headers: Record<string, string> = {}) {
+        super(message);
+    }
+}
+
+interface RateWindow {
+    startedAt: number;
+    count: number;
+}
+
+const rateWindows = new Map<string, RateWindow>();
+
+const checkRateLimit = (clientId: string) => {
+    const now = Date.now();
+    const current = rateWindows.get(clientId);
+    if (!current || now - current.startedAt >= RATE_LIMIT_WINDOW_MS) {
+        rateWindows.set(clientId, { startedAt: now, count: 1 });
+        return;
+    }
+    if (current.count >= RATE_LIMIT_REQUESTS) {
+        const retryAfter = Math.ceil((current.startedAt + RATE_LIMIT_WINDOW_MS - now) / 1000);
+        throw new HttpError(429, `Rate limit exceeded. Try again in ${retryAfter}s.`, { 'Retry-After': String(retryAfter) });
+    }
+    current.count++;
+};
+
+// Drop expired windows so the map does not grow with every client ever seen.
+setInterval(() => {
+    const now = Date.now();
+    rateWindows.forEach((w, id) => {
+        if (now - w.startedAt >= RATE_LIMIT_WINDOW_MS) rateWindows.delete(id);
+    });
+}, RATE_LIMIT_WINDOW_MS).unref();
+
+// The client sets X-Forwarded-For itself, so only the hop the trusted proxy appended, the last one, is
+// an address it cannot choose; without a proxy the header is ignored.
+const getClientId = (req: http.IncomingMessage): string => {
+    const forwarded = req.headers['x-forwarded-for'];
+    const hops = TRUST_PROXY ? (Array.isArray(forwarded) ? forwarded.join(',') : forwarded ?? '').split(',') : [];
+    return hops[hops.length - 1]?.trim() || req.socket.remoteAddress || 'unknown';
+};
+
+// Hashing first keeps the comparison constant-time whatever length the client sends.
+const checkRunnerToken = (req: http.IncomingMessage) => {
+    const sent = req.headers['x-runner-token'];
+    const digest = (value: string) => createHash('sha256').update(value).digest();
+    if (typeof sent !== 'string' || !timingSafeEqual(digest(sent), digest(RUNNER_TOKEN))) {
+        throw new HttpError(401, "Missing or wrong runner token. Enter the token the API server printed at startup (or its RUNNER_TOKEN).");
+    }
+};
+
+const readBody = (req: http.IncomingMessage, limit: number = MAX_BODY_BYTES): Promise<string> => new Promise((resolve, reject) => {
+    const declared = Number(req.headers['content-length']);
+    if (declared > limit) {
+        reject(new HttpError(413, `Request body exceeds ${limit} bytes.`));
+        return;
+    }
+    const chunks: Buffer[] = [];
+    let size = 0;
+    req.on('data', (chunk: Buffer) => {
+        size += chunk.length;
+        if (size > limit) {
+            reject(new HttpError(413, `Request body exceeds ${limit} bytes.`));
+            req.destroy();
+            return;
+        }
+        chunks.push(chunk);
+    });
+    req.on('end', () => resolve(Buffer.concat(chunks).toString('utf8')));
+    req.on('error', reject);
+});
+
+const parseJson = (raw: string): any => {
+    try {
+        return JSON.parse(raw);
+    } catch {
+        throw new HttpError(400, "Request body must be valid JSON.");
+    }
+};
+
+const validateAttachments = (attachments: unknown) => {
+    if (!Array.isArray(attachments)) throw new HttpError(400, "Invalid field: attachments.");
+    if (attachments.length > MAX_ATTACHMENTS) throw new HttpError(413, `At most ${MAX_ATTACHMENTS} attachments are allowed.`);
+    attachments.forEach((a, i) => {
+        if (typeof a?.name !== 'string' || !a.name.trim() || typeof a.content !== 'string' || !ATTACHMENT_KINDS.includes(a.kind)) {
+            throw new HttpError(400, `Invalid attachment ${i + 1}: expected a name, a kind (${ATTACHMENT_KINDS.join(', ')}) and content.`);
+        }
+        if (a.content.length > MAX_ATTACHMENT_CHARS) throw new HttpError(413, `Attachment ${a.name} exceeds ${MAX_ATTACHMENT_CHARS} characters.`);
+    });
+    if (attachments.reduce((total, a) => total + a.content.length, 0) > MAX_ATTACHMENT_BYTES) {
+        throw new HttpError(413, `Attachments exceed ${MAX_ATTACHMENT_BYTES} characters in total.`);
+    }
+};
+
+// Option fields land in the prompt and pick file names, so only the values the UI offers are accepted.
+const OPTION_FIELDS: Record<'language' | 'environment' | 'safetyLevel' | 'scriptType', readonly string[]> = {
+    language: LANGUAGES,
+    environment: ENVIRONMENTS,
+    safetyLevel: SAFETY_LEVELS,
+    scriptType: SCRIPT_TYPES
+};
+
+const validateScriptRequest = (body: any): ScriptRequest => {
+    if (typeof body?.description !== 'string' || !body.description.trim()) {
+        throw new HttpError(400, "Missing or invalid field: description.");
+    }
+    for (const [field, options] of Object.entries(OPTION_FIELDS)) {
+        if (typeof body[field] !== 'string' || !body[field].trim()) {
+            throw new HttpError(400, `Missing or invalid field: ${field}.`);
+        }
+        if (!options.includes(body[field])) {
+            throw new HttpError(400, `Unsupported ${field}: ${body[field]}. Expected one of: ${options.join(', ')}.`);
+        }
+    }
+    if (typeof body.includeTests !== 'boolean') {
+        throw new HttpError(400, "Missing or invalid field: includeTests.");
+    }
+    if (body.ciProvider !== undefined && !CI_PROVIDERS.includes(body.ciProvider)) {
+        throw new HttpError(400, `Unsupported ciProvider: ${body.ciProvider}. Expected one of: ${CI_PROVIDERS.join(', ')}.`);
+    }
+    if (body.includeHelmChart !== undefined && typeof body.includeHelmChart !== 'boolean') {
+        throw new HttpError(400, "Invalid field: includeHelmChart.");
+    }
+    if (body.description.length > MAX_DESCRIPTION_CHARS) {
+        throw new HttpError(413, `Description exceeds ${MAX_DESCRIPTION_CHARS} characters.`);
+    }
+    if (body.attachments !== undefined) validateAttachments(body.attachments);
+    return body as ScriptRequest;
+};
+
+const parseRefinement = (raw: string): { request: ScriptRequest; current: ScriptResponse; instruction: string } => {
+    const body = parseJson(raw);
+    const request = validateScriptRequest(body?.request);
+    if (typeof body.instruction !== 'string' || !body.instruction.trim()) {
+        throw new HttpError(400, "Missing or invalid field: instruction.");
+    }
+    if (body.instruction.length > MAX_DESCRIPTION_CHARS) {
+        throw new HttpError(413, `Instruction exceeds ${MAX_DESCRIPTION_CHARS} characters.`);
+    }
+    if (typeof body.current?.script !== 'string' || !Array.isArray(body.current?.failureSimulations)) {
+        throw new HttpError(400, "Missing or invalid field: current.");
+    }
+    return { request, current: body.current as ScriptResponse, instruction: body.instruction.trim() };
+};
+
+const validateRunnable = (body: any) => {
+    if (typeof body?.language !== 'string' || !isRunnable(body.language as Language)) {
+        throw new HttpError(400, `No local runner for language: ${body?.language}.`);
+    }
+    if (typeof body.script !== 'string' || !body.script.trim()) {
+        throw new HttpError(400, "Missing or invalid field: script.");
+    }
+};
+
+const parseRunRequest = (raw: string): RunRequest => {
+    const body = parseJson(raw);
+    validateRunnable(body);
+    if (body.tests !== undefined && typeof body.tests !== 'string') {
+        throw new HttpError(400, "Invalid field: tests.");
+    }
+    if (body.files !== undefined && !Array.isArray(body.files)) {
+        throw new HttpError(400, "Invalid field: files.");
+    }
+    return { language: body.language, script: body.script, tests: body.tests || undefined, files: coerceProjectFiles(body.files), dryRun: body.dryRun === true };
+};
+
+const parseFaultRunRequest = (raw: string): FaultRunRequest => {
+    const body = parseJson(raw);
+    validateRunnable(body);
+    if (typeof body.usage !== 'string') {
+        throw new HttpError(400, "Missing or invalid field: usage.");
+    }
+    const simulations = body.simulations;
+    if (!Array.isArray(simulations) || !simulations.every((f: any) => ['scenario', 'trigger', 'behavior'].every(k => typeof f?.[k] === 'string'))) {
+        throw new HttpError(400, "Missing or invalid field: simulations.");
+    }
+    if (body.files !== undefined && !Array.isArray(body.files)) {
+        throw new HttpError(400, "Invalid field: files.");
+    }
+    return { language: body.language, script: body.script, files: coerceProjectFiles(body.files), usage: body.usage, simulations };
+};
+
+const sendJson = (res: http.ServerResponse, status: number, payload: unknown, headers: Record<string, string> = {}) => {
+    res.writeHead(status, { 'Content-Type': 'application/json', ...headers });
+    res.end(JSON.stringify(payload));
+};
+
+// Upstream failures keep their code so the client can tell a bad key from a rate limit or a timeout.
+const GATEWAY_STATUS: Partial<Record<EngineError['code'], number>> = { rate_limit: 429, timeout: 504 };
+
+const errorPayload = (error: EngineError): ErrorPayload => ({
+    error: error.message,
+    code: error.code,
+    retryable: error.retryable,
+    retryAfterMs: error.retryAfterMs,
+    status: error.status
+});
+
+const handleGenerate = async (req: http.IncomingMessage, res: http.ServerResponse) => {
+    checkRateLimit(getClientId(req));
+    const request = validateScriptRequest(parseJson(await readBody(req, MAX_BODY_BYTES + MAX_ATTACHMENT_BYTES)));
+    const controller = new AbortController();
+    res.on('close', () => controller.abort());
+    const result = await generateScript(request, provider, controller.signal);
+    sendJson(res, 200, result);
+};
+
+// Starts an NDJSON response; the signal aborts when the client disconnects.
+const openNdjson = <T>(res: http.ServerResponse) => {
+    const controller = new AbortController();
+    res.on('close', () => controller.abort());
+    res.writeHead(200, { 'Content-Type': 'application/x-ndjson', 'Cache-Control': 'no-cache' });
+    return { signal: controller.signal, send: (event: T) => res.write(JSON.stringify(event) + '\n') };
+};
+
+// Streams NDJSON events: text deltas while the model writes, then the parsed response with its token usage.
+const streamEvents = async (
+    res: http.ServerResponse,
+    run: (onDelta: (text: string) => void, signal: AbortSignal, onUsage: (usage: TokenUsage) => void) => Promise<ScriptResponse>
+) => {
+    const { signal, send } = openNdjson<GenerationStreamEvent>(res);
+    const startedAt = Date.now();
+    let usage: TokenUsage | undefined;
+    const generationUsage = () => usage && { ...usage, model: provider.model, latencyMs: Date.now() - startedAt };
+
+    send({ type: 'start', model: provider.model });
+    try {
+        const result = await run(text => send({ type: 'delta', text }), signal, next => { usage = addUsage(usage, next); });
+        send({ type: 'done', response: result, model: provider.model, usage: generationUsage() });
+    } catch (error: any) {
+        if (!signal.aborted) send({ type: 'error', ...errorPayload(classifyError(error, provider.kind, signal)), usage: generationUsage() });
+    }
+    res.end();
+};
+
+const handleGenerateStream = async (req: http.IncomingMessage, res: http.ServerResponse) => {
+    checkRateLimit(getClientId(req));
+    const request = validateScriptRequest(parseJson(await readBody(req, MAX_BODY_BYTES + MAX_ATTACHMENT_BYTES)));
+    await streamEvents(res, (onDelta, signal, onUsage) => streamScript(request, onDelta, provider, signal, onUsage));
+};
+
+const handleRefineStream = async (req: http.IncomingMessage, res: http.ServerResponse) => {
+    checkRateLimit(getClientId(req));
+    const { request, current, instruction } = parseRefinement(await readBody(req, MAX_REFINE_BODY_BYTES + MAX_ATTACHMENT_BYTES));
+    await streamEvents(res, (onDelta, signal, onUsage) => streamRefinement(request, current, instruction, onDelta, provider, signal, onUsage));
+};
+
+// Shared by every endpoint that executes generated code: opt-in, token-gated, rate-limited, one slot per run.
+const streamRunner = async <T extends { type: string }, R>(
+    req: http.IncomingMessage,
+    res: http.ServerResponse,
+    parse: (raw: string) => R,
+    run: (request: R, send: (event: T) => void, signal: AbortSignal) => Promise<void>
+) => {
+    if (!RUNNER_ENABLED) {
+        throw new HttpError(403, "The local runner is disabled. Start the server with RUNNER_ENABLED=true to run generated code.");
+    }
+    checkRunnerToken(req);
+    checkRateLimit(getClientId(req));
+    const request = parse(await readBody(req, MAX_REFINE_BODY_BYTES + MAX_ATTACHMENT_BYTES));
+    if (activeRuns >= RUNNER_MAX_CONCURRENT) {
+        throw new HttpError(503, "The runner is busy with another run. Try again shortly.");
+    }
+
+    activeRuns++;
+    const { signal, send } = openNdjson<T | { type: 'error'; error: string }>(res);
+    try {
+        await run(request, send, signal);
+    } catch (error: any) {
+        if (!signal.aborted) send({ type: 'error', error: error?.message || "Run failed." });
+    } finally {
+        activeRuns--;
+    }
+    res.end();
+};
+
+const handleRunStream = (req: http.IncomingMessage, res: http.ServerResponse) =>
+    streamRunner<RunEvent, RunRequest>(req, res, parseRunRequest, runArtifacts);
+
+const handleFaultStream = (req: http.IncomingMessage, res: http.ServerResponse) =>
+    streamRunner<FaultEvent, FaultRunRequest>(req, res, parseFaultRunRequest, runFaultCases);
+
+const server = http.createServer(async (req, res) => {
+    try {
+        if (req.method === 'POST' && req.url === '/api/generate') {
+            await handleGenerate(req, res);
+        } else if (req.method === 'POST' && req.url === '/api/generate/stream') {
+            await handleGenerateStream(req, res);
+        } else if (req.method === 'POST' && req.url === '/api/refine/stream') {
+            await handleRefineStream(req, res);
+        } else if (req.method === 'POST' && req.url === '/api/run/stream') {
+            await handleRunStream(req, res);
+        } else if (req.method === 'POST' && req.url === '/api/faults/stream') {
+            await handleFaultStream(req, res);
+        } else if (req.method === 'GET' && req.url === '/api/health') {
+            sendJson(res, 200, { status: 'ok', provider: provider.kind, model: provider.model, runner: RUNNER_ENABLED });
+        } else {
+            throw new HttpError(404, "Not found.");
+        }
+    } catch (error: any) {
+        if (res.headersSent) {
+            res.end();
+        } else if (error instanceof HttpError) {
+            const code = error.status === 429 ? 'rate_limit' : error.status >= 500 ? 'provider' : 'bad_request';
+            const payload: ErrorPayload = { error: error.message, code, retryable: code !== 'bad_request' };
+            sendJson(res, error.status, payload, error.headers);
+        } else {
+            const engineError = classifyError(error, provider.kind);
+            const retryAfter = engineError.retryAfterMs ? { 'Retry-After': String(Math.ceil(engineError.retryAfterMs / 1000)) } : undefined;
+            sendJson(res, GATEWAY_STATUS[engineError.code] ?? 502, errorPayload(engineError), retryAfter);
+        }
+    }
+});
+
+server.listen(PORT, HOST, () => {
+    console.log(`Script Engineer Pro API listening on ${HOST}:${PORT} (${provider.kind} / ${provider.model})`);
+    if (RUNNER_ENABLED && !process.env.RUNNER_TOKEN) console.log(`Runner token: ${RUNNER_TOKEN}`);
+});
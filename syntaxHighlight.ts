@@ -0,0 +1,203 @@
+import { Language } from "./types";
+
+export type HighlightLanguage = Language | 'Dockerfile';
+export type TokenType = 'plain' | 'comment' | 'string' | 'number' | 'keyword' | 'builtin' | 'variable' | 'key';
+
+export interface Token {
+    type: TokenType;
+    text: string;
+}
+
+interface Grammar {
+    comment?: RegExp;
+    string: RegExp;
+    variable?: RegExp;
+    key?: RegExp;
+    keywords: string[];
+    builtins?: string[];
+    caseInsensitive?: boolean;
+}
+
+const C_STRINGS = /"(?:[^"\\\n]|\\.)*"|'(?:[^'\\\n]|\\.)*'|`(?:[^`\\]|\\.)*`/;
+const JS_KEYWORDS = ['async', 'await', 'break', 'case', 'catch', 'class', 'const', 'continue', 'default', 'delete', 'do', 'else', 'export', 'extends', 'finally', 'for', 'from', 'function', 'if', 'import', 'in', 'instanceof', 'let', 'new', 'of', 'return', 'switch', 'throw', 'try', 'typeof', 'var', 'void', 'while', 'yield', 'true', 'false', 'null', 'undefined', 'this'];
+
+const GRAMMARS: Partial<Record<HighlightLanguage, Grammar>> = {
+    Python: {
+        comment: /#[^\n]*/,
+        string: /[rbfu]{0,2}(?:"""[\s\S]*?"""|'''[\s\S]*?'''|"(?:[^"\\\n]|\\.)*"|'(?:[^'\\\n]|\\.)*')/,
+        keywords: ['and', 'as', 'assert', 'async', 'await', 'break', 'class', 'continue', 'def', 'del', 'elif', 'else', 'except', 'finally', 'for', 'from', 'global', 'if', 'import', 'in', 'is', 'lambda', 'nonlocal', 'not', 'or', 'pass', 'raise', 'return', 'try', 'while', 'with', 'yield', 'True', 'False', 'None'],
+        builtins: ['print', 'len', 'range', 'open', 'str', 'int', 'float', 'dict', 'list', 'set', 'tuple', 'isinstance', 'enumerate', 'zip', 'super', 'self']
+    },
+    Bash: {
+        comment: /(?:^|(?<=\s))#[^\n]*/,
+        string: /"(?:[^"\\]|\\.)*"|'[^']*'/,
+        variable: /\$\{[^}\n]*\}|\$[A-Za-z_]\w*|\$[0-9@#?*$!-]/,
+        keywords: ['if', 'then', 'else', 'elif', 'fi', 'for', 'while', 'until', 'do', 'done', 'case', 'esac', 'in', 'function', 'return', 'local', 'export', 'readonly', 'declare', 'set', 'trap', 'exit', 'shift', 'break', 'continue'],
+        builtins: ['echo', 'printf', 'read', 'cd', 'test', 'source', 'eval', 'exec', 'command', 'mkdir', 'rm', 'cp', 'mv', 'grep', 'sed', 'awk', 'curl', 'tar']
+    },
+    PowerShell: {
+        comment: /<#[\s\S]*?#>|#[^\n]*/,
+        string: /"(?:[^"`]|`.)*"|'(?:[^']|'')*'/,
+        variable: /\$(?:\{[^}\n]*\}|[A-Za-z_][\w:]*)/,
+        keywords: ['begin', 'break', 'catch', 'class', 'continue', 'do', 'else', 'elseif', 'end', 'exit', 'filter', 'finally', 'for', 'foreach', 'function', 'if', 'in', 'param', 'process', 'return', 'switch', 'throw', 'trap', 'try', 'until', 'while'],
+        caseInsensitive: true
+    },
+    JavaScript: {
+        comment: /\/\*[\s\S]*?\*\/|\/\/[^\n]*/,
+        string: C_STRINGS,
+        keywords: JS_KEYWORDS,
+        builtins: ['console', 'process', 'require', 'module', 'Promise', 'JSON', 'Math', 'Error']
+    },
+    TypeScript: {
+        comment: /\/\*[\s\S]*?\*\/|\/\/[^\n]*/,
+        string: C_STRINGS,
+        keywords: [...JS_KEYWORDS, 'interface', 'type', 'enum', 'implements', 'public', 'private', 'protected', 'readonly', 'as', 'keyof', 'namespace', 'declare'],
+        builtins: ['console', 'process', 'require', 'Promise', 'JSON', 'Math', 'Error', 'string', 'number', 'boolean', 'any', 'unknown', 'never', 'Record']
+    },
+    Go: {
+        comment: /\/\*[\s\S]*?\*\/|\/\/[^\n]*/,
+        string: /"(?:[^"\\\n]|\\.)*"|`[^`]*`|'(?:[^'\\\n]|\\.)*'/,
+        keywords: ['break', 'case', 'chan', 'const', 'continue', 'default', 'defer', 'else', 'fallthrough', 'for', 'func', 'go', 'goto', 'if', 'import', 'interface', 'map', 'package', 'range', 'return', 'select', 'struct', 'switch', 'type', 'var', 'nil', 'true', 'false'],
+        builtins: ['string', 'int', 'int64', 'bool', 'error', 'byte', 'make', 'len', 'append', 'panic', 'fmt', 'os']
+    },
+    Ruby: {
+        comment: /#[^\n]*/,
+        string: /"(?:[^"\\]|\\.)*"|'(?:[^'\\]|\\.)*'/,
+        variable: /@{1,2}\w+|\$\w+|:[A-Za-z_]\w*/,
+        keywords: ['begin', 'break', 'case', 'class', 'def', 'do', 'else', 'elsif', 'end', 'ensure', 'for', 'if', 'in', 'module', 'next', 'nil', 'raise', 'require', 'rescue', 'retry', 'return', 'self', 'then', 'true', 'false', 'unless', 'until', 'when', 'while', 'yield'],
+        builtins: ['puts', 'print', 'p', 'File', 'Dir', 'FileUtils', 'ENV', 'ARGV']
+    },
+    Rust: {
+        comment: /\/\*[\s\S]*?\*\/|\/\/[^\n]*/,
+        string: /r#*"[\s\S]*?"#*|"(?:[^"\\]|\\.)*"|b?'(?:[^'\\\n]|\\.)'/,
+        variable: /\b[a-z_]\w*!/,
+        keywords: ['as', 'async', 'await', 'break', 'const', 'continue', 'crate', 'else', 'enum', 'fn', 'for', 'if', 'impl', 'in', 'let', 'loop', 'match', 'mod', 'move', 'mut', 'pub', 'ref', 'return', 'self', 'Self', 'static', 'struct', 'trait', 'type', 'unsafe', 'use', 'where', 'while', 'true', 'false'],
+        builtins: ['Option', 'Some', 'None', 'Result', 'Ok', 'Err', 'String', 'Vec', 'Box', 'std', 'str', 'u8', 'u32', 'u64', 'i32', 'i64', 'usize', 'bool']
+    },
+    Java: {
+        comment: /\/\*[\s\S]*?\*\/|\/\/[^\n]*/,
+        string: /"""[\s\S]*?"""|"(?:[^"\\\n]|\\.)*"|'(?:[^'\\\n]|\\.)*'/,
+        variable: /@[A-Za-z_]\w*/,
+        keywords: ['abstract', 'break', 'case', 'catch', 'class', 'continue', 'default', 'do', 'else', 'enum', 'extends', 'final', 'finally', 'for', 'if', 'implements', 'import', 'instanceof', 'interface', 'new', 'package', 'private', 'protected', 'public', 'record', 'return', 'static', 'switch', 'this', 'throw', 'throws', 'try', 'var', 'void', 'while', 'true', 'false', 'null'],
+        builtins: ['String', 'System', 'Integer', 'Long', 'Boolean', 'List', 'Map', 'Optional', 'Path', 'Files', 'Exception', 'int', 'long', 'boolean', 'double']
+    },
+    'C#': {
+        comment: /\/\*[\s\S]*?\*\/|\/\/[^\n]*/,
+        string: /@"(?:[^"]|"")*"|\$?"(?:[^"\\\n]|\\.)*"|'(?:[^'\\\n]|\\.)*'/,
+        keywords: ['abstract', 'as', 'async', 'await', 'break', 'case', 'catch', 'class', 'const', 'continue', 'default', 'do', 'else', 'enum', 'finally', 'for', 'foreach', 'if', 'in', 'interface', 'internal', 'is', 'namespace', 'new', 'out', 'override', 'private', 'protected', 'public', 'readonly', 'record', 'return', 'static', 'switch', 'this', 'throw', 'try', 'using', 'var', 'void', 'while', 'true', 'false', 'null'],
+        builtins: ['Console', 'Environment', 'File', 'Directory', 'Path', 'Task', 'Exception', 'string', 'int', 'long', 'bool', 'object']
+    },
+    PHP: {
+        comment: /\/\*[\s\S]*?\*\/|\/\/[^\n]*|#[^\n]*/,
+        string: /"(?:[^"\\]|\\.)*"|'(?:[^'\\]|\\.)*'/,
+        variable: /\$[A-Za-z_]\w*/,
+        keywords: ['abstract', 'as', 'break', 'case', 'catch', 'class', 'const', 'continue', 'declare', 'default', 'do', 'echo', 'else', 'elseif', 'extends', 'finally', 'fn', 'for', 'foreach', 'function', 'if', 'implements', 'interface', 'match', 'namespace', 'new', 'private', 'protected', 'public', 'require_once', 'return', 'static', 'switch', 'throw', 'try', 'use', 'while', 'true', 'false', 'null'],
+        builtins: ['array', 'count', 'isset', 'empty', 'json_encode', 'json_decode', 'file_get_contents', 'file_put_contents', 'sprintf', 'Exception']
+    },
+    Perl: {
+        comment: /(?:^|(?<=\s))#[^\n]*/,
+        string: /"(?:[^"\\]|\\.)*"|'(?:[^'\\]|\\.)*'/,
+        variable: /[$@%][A-Za-z_]\w*(?:::\w+)*|\$[0-9_@!]/,
+        keywords: ['my', 'our', 'local', 'sub', 'if', 'elsif', 'else', 'unless', 'while', 'until', 'for', 'foreach', 'last', 'next', 'return', 'use', 'no', 'require', 'package', 'eval', 'die', 'or', 'and', 'not'],
+        builtins: ['print', 'printf', 'open', 'close', 'warn', 'exit', 'defined', 'scalar', 'push', 'shift', 'join', 'split', 'chomp', 'croak']
+    },
+    YAML: {
+        comment: /(?:^|(?<=\s))#[^\n]*/,
+        string: /"(?:[^"\\\n]|\\.)*"|'(?:[^'\n]|'')*'/,
+        key: /^[ \t]*(?:- )?[\w.\/-]+(?=:(?:\s|$))/m,
+        variable: /\$\{\{[^}\n]*\}\}|\$\{[^}\n]*\}/,
+        keywords: ['true', 'false', 'null', 'yes', 'no', 'on']
+    },
+    JSON: {
+        string: /"(?:[^"\\\n]|\\.)*"/,
+        key: /"(?:[^"\\\n]|\\.)*"(?=\s*:)/,
+        keywords: ['true', 'false', 'null']
+    },
+    Dockerfile: {
+        comment: /(?:^|(?<=\n))[ \t]*#[^\n]*/,
+        string: /"(?:[^"\\\n]|\\.)*"|'[^'\n]*'/,
+        variable: /\$\{[^}\n]*\}|\$[A-Za-z_]\w*/,
+        keywords: ['FROM', 'RUN', 'CMD', 'LABEL', 'EXPOSE', 'ENV', 'ADD', 'COPY', 'ENTRYPOINT', 'VOLUME', 'USER', 'WORKDIR', 'ARG', 'ONBUILD', 'STOPSIGNAL', 'HEALTHCHECK', 'SHELL', 'AS']
+    }
+};
+
+GRAMMARS.Auto = GRAMMARS.Bash;
+
+const EXTENSION_LANGUAGES: Record<string, HighlightLanguage> = {
+    py: 'Python', sh: 'Bash', bash: 'Bash', ps1: 'PowerShell', psm1: 'PowerShell', js: 'JavaScript', mjs: 'JavaScript', cjs: 'JavaScript',
+    ts: 'TypeScript', go: 'Go', rb: 'Ruby', rs: 'Rust', java: 'Java', cs: 'C#', php: 'PHP', pl: 'Perl', pm: 'Perl', t: 'Perl',
+    yml: 'YAML', yaml: 'YAML', json: 'JSON'
+};
+
+/**
+ * Grammar for a supporting file, from its name. Unknown formats (requirements.txt, go.mod, .env)
+ * fall back to the Bash grammar, which at least handles their '#' comments and quoted values.
+ */
+export const highlightLanguageForPath = (path: string): HighlightLanguage => {
+    const name = path.split('/').pop() ?? path;
+    if (/^Dockerfile(\..+)?$/.test(name)) return 'Dockerfile';
+    if (name === 'Gemfile' || name === 'Rakefile') return 'Ruby';
+    // Groovy has no grammar of its own; its comments, strings and braces match JavaScript's.
+    if (name === 'Jenkinsfile') return 'JavaScript';
+    return EXTENSION_LANGUAGES[name.split('.').pop()?.toLowerCase() ?? ''] ?? 'Auto';
+};
+
+const NUMBER = /\b\d+(?:\.\d+)?\b/;
+const WORD = /[A-Za-z_][\w-]*/;
+
+// One combined regex per language, compiled on first use.
+const compiled = new Map<HighlightLanguage, RegExp>();
+
+const patternFor = (language: HighlightLanguage, grammar: Grammar) => {
+    let pattern = compiled.get(language);
+    if (!pattern) {
+        const groups = [grammar.comment, grammar.key, grammar.string, grammar.variable, NUMBER, WORD]
+            .map(rule => (rule ? `(${rule.source})` : '((?!))'));
+        pattern = new RegExp(groups.join('|'), 'gm');
+        compiled.set(language, pattern);
+    }
+    return pattern;
+};
+
+const GROUP_TYPES: TokenType[] = ['comment', 'key', 'string', 'variable', 'number'];
+
+/**
+ * Splits code into highlight tokens. Plain text between matches is kept, so joining every
+ * token's text always reproduces the input exactly.
+ */
+export const highlightCode = (code: string, language: HighlightLanguage): Token[] => {
+    const grammar = GRAMMARS[language];
+    if (!grammar) return [{ type: 'plain', text: code }];
+
+    const fold = (word: string) => (grammar.caseInsensitive || language === 'Dockerfile' ? word.toLowerCase() : word);
+    const keywords = new Set(grammar.keywords.map(fold));
+    const builtins = new Set((grammar.builtins ?? []).map(fold));
+    const pattern = patternFor(language, grammar);
+
+    const tokens: Token[] = [];
+    const push = (type: TokenType, text: string) => {
+        const last = tokens[tokens.length - 1];
+        if (last && last.type === type) last.text += text;
+        else tokens.push({ type, text });
+    };
+
+    let cursor = 0;
+    pattern.lastIndex = 0;
+    for (let match = pattern.exec(code); match; match = pattern.exec(code)) {
+        if (!match[0]) {
+            pattern.lastIndex++;
+            continue;
+        }
+        if (match.index > cursor) push('plain', code.slice(cursor, match.index));
+        const group = match.slice(1).findIndex(g => g !== undefined);
+        let type: TokenType = GROUP_TYPES[group] ?? 'plain';
+        if (group === GROUP_TYPES.length) {
+            const word = fold(match[0]);
+            type = keywords.has(word) ? 'keyword' : builtins.has(word) ? 'builtin' : 'plain';
+        }
+        push(type, match[0]);
+        cursor = match.index + match[0].length;
+    }
+    if (cursor < code.length) push('plain', code.slice(cursor));
+    return tokens;
+};
@@ -1,8 +1,10 @@
 
-export type Language = 'Python' | 'Bash' | 'PowerShell' | 'JavaScript' | 'TypeScript' | 'Go' | 'Ruby' | 'Auto' | 'YAML' | 'JSON';
+export type Language = 'Python' | 'Bash' | 'PowerShell' | 'JavaScript' | 'TypeScript' | 'Go' | 'Ruby' | 'Rust' | 'Java' | 'C#' | 'PHP' | 'Perl' | 'YAML' | 'JSON' | 'Auto';
+export type ConcreteLanguage = Exclude<Language, 'Auto'>;
 export type Environment = 'Linux' | 'Windows' | 'macOS' | 'AWS' | 'Azure' | 'GCP' | 'Docker' | 'Kubernetes' | 'Generic';
 export type SafetyLevel = 'Dry Run Only' | 'Normal (Recommended)' | 'Production (Strict)';
 export type ScriptType = 'Automation' | 'Workflow' | 'Integration' | 'Business Logic' | 'DevOps' | 'Data Processing';
+export type CiProvider = 'GitHub Actions' | 'GitLab CI' | 'Azure Pipelines' | 'Jenkins' | 'CircleCI';
 
 export interface FailureSimulation {
   scenario: string;
@@ -16,6 +18,39 @@ export interface ValueMetrics {
   potentialErrorsMitigated: number;
 }
 
+/**
+ * Coefficients of the local time-saved estimate, in minutes. The estimate is
+ * base + script lines × perScriptLine + test lines × perTestLine + handlers × perHandler
+ * + supporting artifacts (Dockerfile, CI/CD) × perArtifact.
+ */
+export interface TimeSavedModel {
+  baseMinutes: number;
+  perScriptLine: number;
+  perTestLine: number;
+  perHandler: number;
+  perArtifact: number;
+}
+
+export interface MetricsEstimate {
+  /** Figures computed locally from the returned artifacts. */
+  metrics: ValueMetrics;
+  /** The model's own figures, kept for comparison. */
+  reported: ValueMetrics;
+  lines: { script: number; tests: number; dockerfile: number; cicd: number; files: number };
+  handlers: { kind: string; count: number }[];
+  model: TimeSavedModel;
+}
+
+export type SupportingFileRole = 'manifest' | 'config' | 'module' | 'docs' | 'deploy' | 'fixture';
+export type FileRole = ArtifactKey | SupportingFileRole;
+
+/** One file of the generated project, at a path relative to the package root. */
+export interface ProjectFile {
+  path: string;
+  role: FileRole;
+  content: string;
+}
+
 export interface ScriptRequest {
   description: string;
   language: Language;
@@ -23,16 +58,377 @@ export interface ScriptRequest {
   safetyLevel: SafetyLevel;
   scriptType: ScriptType;
   includeTests: boolean;
+  /** Absent on requests saved before CI targets existed; those were GitHub Actions. */
+  ciProvider?: CiProvider;
+  /** Only honored for Kubernetes, where it adds a Helm chart next to the raw manifests. */
+  includeHelmChart?: boolean;
+  /** Files the user attached as context; absent on requests saved before attachments existed. */
+  attachments?: Attachment[];
+}
+
+export type AttachmentKind = 'code' | 'sample' | 'spec';
+
+/** A file attached to a request: an existing script, a sample input, or an OpenAPI/JSON Schema document. */
+export interface Attachment {
+  /** File name as uploaded; sample inputs are packaged under it in fixtures/. */
+  name: string;
+  kind: AttachmentKind;
+  content: string;
+}
+
+export type AttachmentTreatment = 'full' | 'truncated' | 'summarized';
+
+/** How one attachment was fitted into the prompt's token budget. */
+export interface AttachmentDigest {
+  name: string;
+  kind: AttachmentKind;
+  treatment: AttachmentTreatment;
+  /** Estimated tokens of the file as attached. */
+  originalTokens: number;
+  /** Estimated tokens of what the prompt includes. */
+  tokens: number;
 }
 
 export interface ScriptResponse {
+  /** The language the script is written in; tells 'Auto' requests what was picked. */
+  language?: ConcreteLanguage;
   summary: string;
   assumptions: string[];
   script: string;
   tests?: string;
   dockerfile?: string;
   cicd?: string;
+  /** Supporting files beyond the four artifacts: dependency manifests, config files, extra modules. */
+  files?: ProjectFile[];
   failureSimulations: FailureSimulation[];
   metrics: ValueMetrics;
   usage: string;
 }
+
+export type EngineErrorCode = 'auth' | 'rate_limit' | 'timeout' | 'cancelled' | 'empty_completion' | 'parse' | 'network' | 'provider' | 'bad_request';
+
+/** JSON body of a failed proxy call, and the payload of an NDJSON error event. */
+export interface ErrorPayload {
+  error: string;
+  code?: EngineErrorCode;
+  retryable?: boolean;
+  retryAfterMs?: number;
+  /** Upstream provider status when the proxy itself answers 502. */
+  status?: number;
+}
+
+export type GenerationStreamEvent =
+  | { type: 'start'; model: string }
+  | { type: 'delta'; text: string }
+  | { type: 'done'; response: ScriptResponse; model: string; usage?: GenerationUsage }
+  /** `usage` covers what the failed generation had already consumed. */
+  | ({ type: 'error'; usage?: GenerationUsage } & ErrorPayload);
+
+export interface TokenUsage {
+  promptTokens: number;
+  completionTokens: number;
+  /** Set when the provider reported no usage and the counts were estimated from text length. */
+  estimated?: boolean;
+}
+
+/** Usage for one generation or refinement, summed over the first call and any repair call. */
+export interface GenerationUsage extends TokenUsage {
+  model: string;
+  latencyMs: number;
+}
+
+export interface GenerationResult {
+  response: ScriptResponse;
+  model: string;
+  /** Absent from servers that predate usage tracking. */
+  usage?: GenerationUsage;
+}
+
+export interface ScriptRevision {
+  id: string;
+  /** Revision this one was refined from; null for the initial generation. */
+  parentId: string | null;
+  /** Follow-up instruction that produced this revision; null for the initial generation. */
+  instruction: string | null;
+  response: ScriptResponse;
+  model: string;
+  createdAt: number;
+}
+
+export interface HistoryEntry {
+  id: string;
+  createdAt: number;
+  model: string;
+  request: ScriptRequest;
+  /** The most recent revision's response. */
+  response: ScriptResponse;
+  pinned: boolean;
+  /** Revision chain in creation order; absent on entries saved before refinement existed. */
+  revisions?: ScriptRevision[];
+}
+
+export type ProviderKind = 'groq' | 'openai-compatible' | 'local' | 'mock';
+export type OutputMode = 'json' | 'text';
+
+export interface ProviderConfig {
+  kind: ProviderKind;
+  model?: string;
+  baseUrl?: string;
+  apiKey?: string;
+  recordings?: string[];
+  outputMode?: OutputMode;
+  /** Per-attempt timeout; for streams, the longest allowed gap between chunks. */
+  timeoutMs?: number;
+  /** Extra attempts after a retryable failure. */
+  maxRetries?: number;
+}
+
+export type FindingSeverity = 'critical' | 'high' | 'medium' | 'low';
+export type FindingCategory = 'destructive' | 'remote-exec' | 'credentials' | 'quoting' | 'error-handling' | 'dry-run';
+
+export interface SafetyFinding {
+  ruleId: string;
+  category: FindingCategory;
+  severity: FindingSeverity;
+  message: string;
+  line?: number;
+  snippet?: string;
+  /** Supporting file the finding is in; omitted for the script. */
+  path?: string;
+  /** True when this finding violates the selected SafetyLevel. */
+  blocking: boolean;
+}
+
+export interface SafetyReport {
+  level: SafetyLevel;
+  language: Language;
+  findings: SafetyFinding[];
+  blocked: boolean;
+  /** Present when the level is 'Dry Run Only'. */
+  dryRun?: DryRunReport;
+}
+
+export type LintSeverity = 'error' | 'warning';
+
+export interface LintIssue {
+  severity: LintSeverity;
+  message: string;
+  line?: number;
+}
+
+/** Result of the offline checks for one package file. */
+export interface FileValidation {
+  path: string;
+  role: FileRole;
+  /** What was checked, e.g. "GitHub Actions schema"; absent when no offline check covers the file. */
+  check?: string;
+  issues: LintIssue[];
+}
+
+export type ConfigSource = 'env' | 'arg' | 'file';
+export type ConfigValueType = 'string' | 'integer' | 'number' | 'boolean';
+
+/** One input the script reads: an environment variable, a command-line argument or a config file. */
+export interface ConfigParameter {
+  /**
+   * The variable name, the flag (`--max-age`), the file path, or for a positional the variable it is
+   * assigned to or its usage-line operand (`arg1` when the script names it nowhere).
+   */
+  name: string;
+  source: ConfigSource;
+  type: ConfigValueType;
+  /** The literal fallback in the script; absent when there is none or it is computed. */
+  defaultValue?: string;
+  required: boolean;
+  /** Credentials are never given a value in the script, the Dockerfile, CI/CD or `.env.example`. */
+  secret: boolean;
+  /** Set for positionals: the position and how the script reads it, e.g. `argv[1]`. */
+  description?: string;
+  /** First line of the script that reads it. */
+  line?: number;
+  /** Other package files that mention it, e.g. the Dockerfile setting an ENV default. */
+  referencedIn: string[];
+}
+
+/** A configuration problem located in one package file. */
+export interface ConfigIssue extends LintIssue {
+  path: string;
+}
+
+export interface ConfigReport {
+  parameters: ConfigParameter[];
+  issues: ConfigIssue[];
+}
+
+export interface ScriptLocation {
+  line: number;
+  snippet: string;
+  /** Supporting file the location is in; omitted for the script. */
+  path?: string;
+}
+
+export interface DryRunSwitch extends ScriptLocation {
+  kind: 'flag' | 'env';
+}
+
+export interface SideEffectCall extends ScriptLocation {
+  gated: boolean;
+  /** Line of the dry-run check that covers this call. */
+  gateLine?: number;
+}
+
+export interface DryRunReport {
+  switches: DryRunSwitch[];
+  gates: ScriptLocation[];
+  sideEffects: SideEffectCall[];
+  /** A switch exists and every side-effecting call sits behind a dry-run gate. */
+  verified: boolean;
+}
+
+export type ArtifactKey = 'script' | 'tests' | 'dockerfile' | 'cicd';
+export type DiffLineKind = 'equal' | 'added' | 'removed' | 'changed';
+
+export interface DiffRow {
+  kind: DiffLineKind;
+  left?: { line: number; text: string };
+  right?: { line: number; text: string };
+}
+
+export interface ArtifactDiff {
+  artifact: ArtifactKey;
+  rows: DiffRow[];
+  added: number;
+  removed: number;
+}
+
+export interface FileDiff {
+  path: string;
+  /** An added or removed file exists on one side only, so every row is an addition or a removal. */
+  status: 'added' | 'removed' | 'changed' | 'unchanged';
+  rows: DiffRow[];
+  added: number;
+  removed: number;
+}
+
+export interface FieldChange<T> {
+  field: string;
+  before: T;
+  after: T;
+}
+
+export interface ResponseDiff {
+  artifacts: ArtifactDiff[];
+  /** Supporting files matched by path, in the order of the newer response; removed files come last. */
+  files: FileDiff[];
+  assumptions: { added: string[]; removed: string[] };
+  failureSimulations: {
+    added: FailureSimulation[];
+    removed: FailureSimulation[];
+    /** Scenarios present on both sides whose trigger or behavior changed. */
+    changed: { scenario: string; changes: FieldChange<string>[] }[];
+  };
+  metrics: FieldChange<number>[];
+}
+
+export type RunPhase = 'script' | 'tests';
+
+export interface RunRequest {
+  language: Language;
+  script: string;
+  tests?: string;
+  /** Supporting files written next to the script, e.g. a config file it reads. */
+  files?: ProjectFile[];
+  /** Sets DRY_RUN=1 in the script's environment. */
+  dryRun: boolean;
+}
+
+export interface TestSummary {
+  passed: number;
+  failed: number;
+}
+
+export interface PhaseResult {
+  phase: RunPhase;
+  exitCode: number | null;
+  signal: string | null;
+  timedOut: boolean;
+  durationMs: number;
+  /** Parsed from the test runner's output when its format is recognised. */
+  tests?: TestSummary;
+}
+
+export type RunEvent =
+  | { type: 'start'; phase: RunPhase; command: string }
+  | { type: 'output'; phase: RunPhase; stream: 'stdout' | 'stderr'; text: string }
+  | { type: 'exit'; result: PhaseResult }
+  | { type: 'done'; sandbox: string[] }
+  | { type: 'error'; error: string };
+
+export type FaultKind = 'missing-file' | 'permission-denied' | 'unreachable-host' | 'malformed-input';
+
+/** What a FailureSimulation's `behavior` claims, in checkable form. */
+export interface FaultExpectation {
+  exit: 'zero' | 'nonzero' | 'any' | number;
+  /** Quoted messages the behavior says the script prints. */
+  outputIncludes: string[];
+  /** The behavior claims the failure is handled (logged, reported) rather than crashing. */
+  graceful: boolean;
+}
+
+export interface FaultCase {
+  index: number;
+  scenario: string;
+  trigger: string;
+  kind: FaultKind | null;
+  expectation: FaultExpectation;
+}
+
+export type FaultVerdictStatus = 'verified' | 'contradicted' | 'inconclusive';
+
+export interface FaultVerdict {
+  index: number;
+  kind: FaultKind | null;
+  status: FaultVerdictStatus;
+  reasons: string[];
+  /** How the fault was injected, or why it could not be. */
+  injected: string;
+  command?: string;
+  exitCode?: number | null;
+  timedOut?: boolean;
+  /** Tail of the combined output. */
+  output?: string;
+}
+
+export interface FaultRunRequest {
+  language: Language;
+  script: string;
+  /** Supporting files laid out next to the script in every case's working directory. */
+  files?: ProjectFile[];
+  usage: string;
+  simulations: FailureSimulation[];
+}
+
+export type FaultEvent =
+  | { type: 'case-start'; index: number }
+  | { type: 'case-result'; verdict: FaultVerdict }
+  | { type: 'done'; sandbox: string[] }
+  | { type: 'error'; error: string };
+
+export type BatchRowStatus = 'queued' | 'running' | 'waiting' | 'done' | 'failed';
+
+export interface BatchRow {
+  /** Position in the imported file, 1-based. */
+  row: number;
+  request: ScriptRequest;
+  status: BatchRowStatus;
+  attempts: number;
+  error?: string;
+  /** While `waiting`, when the next attempt starts (epoch ms). */
+  retryAt?: number;
+  result?: GenerationResult;
+}
+
+export interface BatchImportError {
+  row: number;
+  message: string;
+}
@@ -0,0 +1,51 @@
+import { describe, expect, it } from "vitest";
+import { UsageRecord, addUsage, budgetStatus, costOf, describeUsage, estimateTokens, formatUsd, startOfMonth, summarizeUsage } from "./usageTracker";
+
+const PRICES = { small: { inputPerMillion: 1, outputPerMillion: 2 } };
+
+const record = (at: number, promptTokens: number, completionTokens: number, model = 'small'): UsageRecord =>
+    ({ at, kind: 'generation', model, promptTokens, completionTokens, latencyMs: 1000 });
+
+describe("usage arithmetic", () => {
+    it("estimates from length and sums calls, keeping the estimated flag", () => {
+        expect(estimateTokens("abcdefgh")).toBe(2);
+        const total = addUsage(addUsage(undefined, { promptTokens: 10, completionTokens: 5 }), { promptTokens: 1, completionTokens: 1, estimated: true });
+        expect(total).toEqual({ promptTokens: 11, completionTokens: 6, estimated: true });
+    });
+
+    it("prices known models and returns null for unknown ones", () => {
+        expect(costOf({ model: 'small', promptTokens: 1_000_000, completionTokens: 500_000, latencyMs: 0 }, PRICES)).toBe(2);
+        expect(costOf({ model: 'other', promptTokens: 1, completionTokens: 1, latencyMs: 0 }, PRICES)).toBeNull();
+    });
+
+    it("summarizes records and lists unpriced models", () => {
+        const totals = summarizeUsage([record(0, 1_000_000, 0), record(0, 10, 10, 'other')], PRICES);
+        expect(totals.generations).toBe(2);
+        expect(totals.costUsd).toBe(1);
+        expect(totals.unpricedModels).toEqual(['other']);
+    });
+
+    it("formats sub-cent amounts with more precision", () => {
+        expect(formatUsd(0.004)).toBe('$0.0040');
+        expect(formatUsd(1.5)).toBe('$1.50');
+        expect(describeUsage({ model: 'small', promptTokens: 100, completionTokens: 50, latencyMs: 1200 }, PRICES)).toContain('100 prompt + 50 completion tokens');
+    });
+});
+
+describe("budgetStatus", () => {
+    const now = new Date(2026, 9, 19);
+
+    it("counts only this month and projects the next run from the latest runs of any month", () => {
+        const lastMonth = record(new Date(2026, 8, 30).getTime(), 5_000_000, 0);
+        const thisMonth = record(startOfMonth(now) + 1, 1_000_000, 0);
+        const status = budgetStatus([lastMonth, thisMonth], PRICES, 1.5, now);
+        expect(status.spentUsd).toBe(1);
+        expect(status.nextCostUsd).toBe(3);
+        expect(status.exceeded).toBe(false);
+        expect(status.wouldExceed).toBe(true);
+    });
+
+    it("never warns without a limit", () => {
+        expect(budgetStatus([record(startOfMonth(now), 9_000_000, 0)], PRICES, 0, now).wouldExceed).toBe(false);
+    });
+});
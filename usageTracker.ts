@@ -0,0 +1,151 @@
+import { GenerationUsage, TokenUsage } from "./types";
+
+/**
+ * Token usage, cost and the soft budget. The arithmetic is shared with the CLI; the usage log,
+ * price overrides and budget live in localStorage next to the other browser settings.
+ */
+
+/** USD per million tokens. */
+export interface ModelPrice {
+    inputPerMillion: number;
+    outputPerMillion: number;
+}
+
+export type PriceTable = Record<string, ModelPrice>;
+
+// List prices when this table was written; edit them in the dashboard when the provider changes them.
+export const DEFAULT_PRICES: PriceTable = {
+    'llama-3.1-8b-instant': { inputPerMillion: 0.05, outputPerMillion: 0.08 },
+    'llama-3.3-70b-versatile': { inputPerMillion: 0.59, outputPerMillion: 0.79 },
+    'gpt-4o-mini': { inputPerMillion: 0.15, outputPerMillion: 0.6 },
+    'gpt-4o': { inputPerMillion: 2.5, outputPerMillion: 10 },
+    'llama3.1': { inputPerMillion: 0, outputPerMillion: 0 },
+    'mock-recorded': { inputPerMillion: 0, outputPerMillion: 0 }
+};
+
+export type UsageKind = 'generation' | 'refinement' | 'batch';
+
+export interface UsageRecord extends GenerationUsage {
+    at: number;
+    kind: UsageKind;
+}
+
+export interface UsageTotals {
+    generations: number;
+    promptTokens: number;
+    completionTokens: number;
+    costUsd: number;
+    /** Models in the records with no price; their tokens are counted but not costed. */
+    unpricedModels: string[];
+    averageLatencyMs: number;
+}
+
+// The usual rule of thumb for English and code; only used when a provider reports nothing.
+export const estimateTokens = (text: string) => Math.ceil(text.length / 4);
+
+export const addUsage = (total: TokenUsage | undefined, next: TokenUsage): TokenUsage => ({
+    promptTokens: (total?.promptTokens ?? 0) + next.promptTokens,
+    completionTokens: (total?.completionTokens ?? 0) + next.completionTokens,
+    ...(total?.estimated || next.estimated ? { estimated: true } : {})
+});
+
+/** Cost in USD, or null when the model has no price. */
+export const costOf = (usage: GenerationUsage, prices: PriceTable): number | null => {
+    const price = prices[usage.model];
+    if (!price) return null;
+    return (usage.promptTokens * price.inputPerMillion + usage.completionTokens * price.outputPerMillion) / 1_000_000;
+};
+
+export const summarizeUsage = (records: UsageRecord[], prices: PriceTable): UsageTotals => {
+    const unpriced = new Set<string>();
+    const totals = records.reduce((sum, r) => {
+        const cost = costOf(r, prices);
+        if (cost === null) unpriced.add(r.model);
+        return {
+            promptTokens: sum.promptTokens + r.promptTokens,
+            completionTokens: sum.completionTokens + r.completionTokens,
+            costUsd: sum.costUsd + (cost ?? 0),
+            latencyMs: sum.latencyMs + r.latencyMs
+        };
+    }, { promptTokens: 0, completionTokens: 0, costUsd: 0, latencyMs: 0 });
+    return {
+        generations: records.length,
+        promptTokens: totals.promptTokens,
+        completionTokens: totals.completionTokens,
+        costUsd: totals.costUsd,
+        unpricedModels: [...unpriced],
+        averageLatencyMs: records.length ? totals.latencyMs / records.length : 0
+    };
+};
+
+export const startOfMonth = (now = new Date()) => new Date(now.getFullYear(), now.getMonth(), 1).getTime();
+
+export interface BudgetStatus {
+    spentUsd: number;
+    /** Expected cost of the next generation: the mean of the latest model's recent runs. */
+    nextCostUsd: number | null;
+    exceeded: boolean;
+    wouldExceed: boolean;
+}
+
+const PROJECTION_SAMPLE = 5;
+
+/** Month-to-date spend against a monthly limit; a limit of 0 disables the budget. */
+export const budgetStatus = (records: UsageRecord[], prices: PriceTable, limitUsd: number, now = new Date()): BudgetStatus => {
+    const spentUsd = summarizeUsage(records.filter(r => r.at >= startOfMonth(now)), prices).costUsd;
+    const model = records[records.length - 1]?.model;
+    const recent = records.filter(r => r.model === model).slice(-PROJECTION_SAMPLE);
+    const nextCostUsd = recent.length ? summarizeUsage(recent, prices).costUsd / recent.length : null;
+    return {
+        spentUsd,
+        nextCostUsd,
+        exceeded: limitUsd > 0 && spentUsd >= limitUsd,
+        wouldExceed: limitUsd > 0 && spentUsd + (nextCostUsd ?? 0) > limitUsd
+    };
+};
+
+export const formatUsd = (usd: number) => (usd > 0 && usd < 0.01 ? `$${usd.toFixed(4)}` : `$${usd.toFixed(2)}`);
+
+/** One line for logs: "1204 prompt + 850 completion tokens on llama-3.1-8b-instant in 2.4s, $0.0001". */
+export const describeUsage = (usage: GenerationUsage, prices: PriceTable = DEFAULT_PRICES): string => {
+    const cost = costOf(usage, prices);
+    const tokens = `${usage.promptTokens} prompt + ${usage.completionTokens} completion tokens${usage.estimated ? ' (estimated)' : ''}`;
+    return `${tokens} on ${usage.model} in ${(usage.latencyMs / 1000).toFixed(1)}s, ${cost === null ? 'no price for this model' : formatUsd(cost)}`;
+};
+
+// ---------------------------------------------------------------------------------------------
+// Browser persistence
+
+const USAGE_LOG_KEY = 'script-engineer-pro:usage-log';
+const PRICES_KEY = 'script-engineer-pro:model-prices';
+const BUDGET_KEY = 'script-engineer-pro:monthly-budget';
+// Enough for months of heavy use; the oldest records go first.
+const MAX_RECORDS = 5000;
+
+const readJson = <T>(key: string, fallback: T): T => {
+    try {
+        const raw = localStorage.getItem(key);
+        return raw ? JSON.parse(raw) as T : fallback;
+    } catch {
+        return fallback;
+    }
+};
+
+export const loadUsageLog = (): UsageRecord[] => readJson<UsageRecord[]>(USAGE_LOG_KEY, []);
+
+export const appendUsageRecord = (record: UsageRecord): UsageRecord[] => {
+    const log = [...loadUsageLog(), record].slice(-MAX_RECORDS);
+    localStorage.setItem(USAGE_LOG_KEY, JSON.stringify(log));
+    return log;
+};
+
+export const clearUsageLog = () => localStorage.removeItem(USAGE_LOG_KEY);
+
+/** The defaults with the user's overrides applied. */
+export const loadPrices = (): PriceTable => ({ ...DEFAULT_PRICES, ...readJson<PriceTable>(PRICES_KEY, {}) });
+
+export const savePrices = (prices: PriceTable) => localStorage.setItem(PRICES_KEY, JSON.stringify(prices));
+
+export const loadMonthlyBudget = (): number => Number(localStorage.getItem(BUDGET_KEY)) || 0;
+
+export const saveMonthlyBudget = (usd: number) => localStorage.setItem(BUDGET_KEY, String(usd));
@@ -7,13 +7,15 @@ export default defineConfig(({ mode }) => {
     return {
       server: {
         port: 3000,
-        host: '0.0.0.0',
+        // The proxy spends the server's provider key, so only this machine can reach it unless DEV_HOST opts in
+        // (e.g. DEV_HOST=0.0.0.0). When exposed, start the API with TRUST_PROXY=true so the X-Forwarded-For
+        // header added below gives every LAN client its own rate-limit bucket.
+        host: env.DEV_HOST || '127.0.0.1',
+        proxy: {
+          '/api': { target: `http://127.0.0.1:${env.PORT || 8787}`, xfwd: true },
+        },
       },
       plugins: [react()],
-      define: {
-        'process.env.GROQ_API_KEY': JSON.stringify(env.GROQ_API_KEY),
-        'process.env.MODEL_NAME': JSON.stringify(env.MODEL_NAME)
-      },
       resolve: {
         alias: {
           '@': path.resolve(__dirname, '.'),
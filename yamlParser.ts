@@ -0,0 +1,356 @@
+/**
+ * Parser for the YAML subset that generated pipelines and manifests use: block mappings and
+ * sequences, flow collections, quoted and block scalars, anchors, aliases, merge keys and
+ * multiple documents. It reports problems with 1-based line numbers instead of throwing, so
+ * one run can surface every error in a file. Tags are accepted and ignored.
+ */
+
+export interface YamlError {
+    line: number;
+    message: string;
+}
+
+export interface YamlParseResult {
+    documents: unknown[];
+    errors: YamlError[];
+    /** Line a mapping key or sequence item was declared on. */
+    lineOf: (node: unknown, key: string | number) => number | undefined;
+}
+
+interface Line {
+    indent: number;
+    text: string;
+    line: number;
+    raw: number;
+}
+
+const indentOf = (text: string) => text.length - text.trimStart().length;
+
+// Cuts a trailing comment: '#' at the start or after whitespace, outside quotes.
+const stripComment = (text: string): string => {
+    let quote: string | null = null;
+    for (let i = 0; i < text.length; i++) {
+        const c = text[i];
+        if (quote) {
+            if (c === '\\' && quote === '"') i++;
+            else if (c === quote) quote = null;
+        } else if (c === '"' || c === "'") {
+            if (i === 0 || /[\s:\[{,-]/.test(text[i - 1])) quote = c;
+        } else if (c === '#' && (i === 0 || /\s/.test(text[i - 1]))) {
+            return text.slice(0, i);
+        }
+    }
+    return text;
+};
+
+// Index of the ':' that separates a mapping key from its value, or -1.
+const findMappingColon = (text: string): number => {
+    if (text.startsWith('[') || text.startsWith('{')) return -1;
+    let quote: string | null = null;
+    for (let i = 0; i < text.length; i++) {
+        const c = text[i];
+        if (quote) {
+            if (c === '\\' && quote === '"') i++;
+            else if (c === quote) quote = null;
+        } else if ((c === '"' || c === "'") && i === 0) {
+            quote = c;
+        } else if (c === ':' && (i === text.length - 1 || /\s/.test(text[i + 1]))) {
+            return i;
+        }
+    }
+    return -1;
+};
+
+const isSequenceItem = (text: string) => text === '-' || text.startsWith('- ');
+
+const resolvePlain = (text: string): unknown => {
+    if (text === '' || text === '~' || text === 'null' || text === 'Null' || text === 'NULL') return null;
+    if (/^(true|True|TRUE)$/.test(text)) return true;
+    if (/^(false|False|FALSE)$/.test(text)) return false;
+    if (/^[-+]?(\d+|\d*\.\d+)([eE][-+]?\d+)?$/.test(text)) return Number(text);
+    return text;
+};
+
+const DOUBLE_ESCAPES: Record<string, string> = { n: '\n', t: '\t', r: '\r', '0': '\0', '"': '"', '\\': '\\', '/': '/', ' ': ' ' };
+
+export const parseYaml = (text: string): YamlParseResult => {
+    const errors: YamlError[] = [];
+    const keyLines = new WeakMap<object, Map<string | number, number>>();
+    const rawLines = text.replace(/\r\n?/g, '\n').split('\n');
+    const documents: unknown[] = [];
+
+    const recordLine = (node: object, key: string | number, line: number) => {
+        let lines = keyLines.get(node);
+        if (!lines) keyLines.set(node, lines = new Map());
+        lines.set(key, line);
+    };
+
+    const parseDocument = (start: number, end: number) => {
+        const anchors = new Map<string, unknown>();
+        const lines: Line[] = [];
+        for (let r = start; r < end; r++) {
+            const raw = rawLines[r];
+            const leading = raw.match(/^[ \t]*/)![0];
+            if (leading.includes('\t') && raw.trim() && !raw.trim().startsWith('#')) {
+                errors.push({ line: r + 1, message: "Tabs are not allowed in indentation." });
+            }
+            const content = stripComment(raw.replace(/^[ \t]*/, leading.replace(/\t/g, '  '))).trimEnd();
+            if (content.trim()) lines.push({ indent: indentOf(content), text: content.trim(), line: r + 1, raw: r });
+        }
+        let k = 0;
+
+        const error = (line: number, message: string) => errors.push({ line, message });
+
+        const skipDeeperThan = (indent: number) => {
+            while (k < lines.length && lines[k].indent > indent) k++;
+        };
+
+        const parseQuoted = (text: string, line: number): { value: string; rest: string } => {
+            const quote = text[0];
+            let value = '';
+            for (let i = 1; i < text.length; i++) {
+                const c = text[i];
+                if (quote === "'" && c === "'") {
+                    if (text[i + 1] === "'") { value += "'"; i++; continue; }
+                    return { value, rest: text.slice(i + 1) };
+                }
+                if (quote === '"' && c === '"') return { value, rest: text.slice(i + 1) };
+                if (quote === '"' && c === '\\') {
+                    const next = text[++i];
+                    if (next === 'u') { value += String.fromCharCode(parseInt(text.slice(i + 1, i + 5), 16)); i += 4; }
+                    else value += DOUBLE_ESCAPES[next] ?? next;
+                    continue;
+                }
+                value += c;
+            }
+            error(line, `Unterminated ${quote === '"' ? 'double' : 'single'}-quoted string.`);
+            return { value, rest: '' };
+        };
+
+        // Flow collections ([a, b], {k: v}) parsed from `text` starting at `pos`.
+        const parseFlow = (text: string, line: number): unknown => {
+            let pos = 0;
+            const skipSpace = () => { while (pos < text.length && /\s/.test(text[pos])) pos++; };
+            const parseFlowScalar = (stops: string): unknown => {
+                skipSpace();
+                if (text[pos] === '"' || text[pos] === "'") {
+                    const { value, rest } = parseQuoted(text.slice(pos), line);
+                    pos = text.length - rest.length;
+                    return value;
+                }
+                if (text[pos] === '[' || text[pos] === '{') return parseCollection();
+                const startPos = pos;
+                while (pos < text.length && !stops.includes(text[pos]) && !(text[pos] === ':' && /[\s,\]}]/.test(text[pos + 1] ?? ' '))) pos++;
+                const token = text.slice(startPos, pos).trim();
+                if (token.startsWith('*')) return anchors.get(token.slice(1));
+                return resolvePlain(token);
+            };
+            const parseCollection = (): unknown => {
+                const open = text[pos++];
+                const close = open === '[' ? ']' : '}';
+                const result: any = open === '[' ? [] : {};
+                skipSpace();
+                while (pos < text.length && text[pos] !== close) {
+                    const item = parseFlowScalar(`,${close}`);
+                    skipSpace();
+                    if (text[pos] === ':') {
+                        pos++;
+                        const value = parseFlowScalar(`,${close}`);
+                        if (Array.isArray(result)) result.push({ [String(item)]: value });
+                        else result[String(item)] = value;
+                    } else if (Array.isArray(result)) {
+                        result.push(item);
+                    } else {
+                        result[String(item)] = null;
+                    }
+                    skipSpace();
+                    if (text[pos] === ',') { pos++; skipSpace(); }
+                    else if (text[pos] !== close) break;
+                }
+                if (text[pos] !== close) {
+                    error(line, `Unclosed flow ${open === '[' ? 'sequence' : 'mapping'}; expected "${close}".`);
+                    pos = text.length;
+                } else {
+                    pos++;
+                }
+                return result;
+            };
+            const value = parseCollection();
+            skipSpace();
+            if (pos < text.length) error(line, `Unexpected content after flow collection: "${text.slice(pos)}".`);
+            return value;
+        };
+
+        // Literal (|) and folded (>) scalars take every following line indented past `indent`.
+        const parseBlockScalar = (header: string, indent: number, raw: number): string => {
+            const body: string[] = [];
+            let r = raw + 1;
+            while (r < end && (!rawLines[r].trim() || indentOf(rawLines[r]) > indent)) body.push(rawLines[r++]);
+            while (body.length && !body[body.length - 1].trim()) body.pop();
+            while (k < lines.length && lines[k].raw < r) k++;
+            const contentIndent = Math.min(...body.filter(l => l.trim()).map(indentOf));
+            const stripped = body.map(l => l.slice(Number.isFinite(contentIndent) ? contentIndent : 0));
+            const joined = header.startsWith('|') ? stripped.join('\n') : stripped.join(' ').replace(/ {2,}/g, ' ');
+            return header.includes('-') ? joined : `${joined}\n`;
+        };
+
+        // A value written on the same line as its key or dash.
+        const parseInline = (text: string, indent: number, line: Line): unknown => {
+            let rest = text;
+            let anchor: string | null = null;
+            for (;;) {
+                const tag = rest.match(/^!\S*\s*/);
+                const anchorMatch = rest.match(/^&(\S+)\s*/);
+                if (tag) rest = rest.slice(tag[0].length);
+                else if (anchorMatch) { anchor = anchorMatch[1]; rest = rest.slice(anchorMatch[0].length); }
+                else break;
+            }
+
+            let value: unknown;
+            if (!rest) {
+                value = null;
+            } else if (rest.startsWith('*')) {
+                const name = rest.slice(1).trim();
+                if (!anchors.has(name)) error(line.line, `Unknown alias "*${name}".`);
+                value = anchors.get(name);
+            } else if (/^[|>][-+0-9]*$/.test(rest)) {
+                value = parseBlockScalar(rest, indent, line.raw);
+                if (anchor) anchors.set(anchor, value);
+                return value;
+            } else if (rest.startsWith('"') || rest.startsWith("'")) {
+                const quoted = parseQuoted(rest, line.line);
+                if (quoted.rest.trim()) error(line.line, `Unexpected content after quoted string: "${quoted.rest.trim()}".`);
+                value = quoted.value;
+            } else if (rest.startsWith('[') || rest.startsWith('{')) {
+                // A flow collection may continue over the following lines until its brackets close.
+                let flow = rest;
+                const depth = () => (flow.match(/[\[{]/g)?.length ?? 0) - (flow.match(/[\]}]/g)?.length ?? 0);
+                while (depth() > 0 && k + 1 < lines.length && lines[k + 1].indent > indent) flow += ' ' + lines[++k].text;
+                value = parseFlow(flow, line.line);
+            } else {
+                let plain = rest;
+                while (k + 1 < lines.length && lines[k + 1].indent > indent && findMappingColon(lines[k + 1].text) < 0 && !isSequenceItem(lines[k + 1].text)) {
+                    plain += ' ' + lines[++k].text;
+                }
+                value = resolvePlain(plain);
+            }
+            k++;
+            if (anchor) anchors.set(anchor, value);
+            return value;
+        };
+
+        const parseSequence = (indent: number): unknown[] => {
+            const items: unknown[] = [];
+            while (k < lines.length && lines[k].indent >= indent) {
+                if (lines[k].indent > indent) {
+                    error(lines[k].line, "Unexpected indentation inside a sequence.");
+                    skipDeeperThan(indent);
+                    continue;
+                }
+                if (!isSequenceItem(lines[k].text)) break;
+                const item = lines[k];
+                recordLine(items, items.length, item.line);
+                const afterDash = item.text.slice(1);
+                const rest = afterDash.trimStart();
+                if (!rest) {
+                    k++;
+                    items.push(k < lines.length && lines[k].indent > indent ? parseBlock(indent) : null);
+                } else {
+                    // Re-read the item's content as a block that starts at the column after the dash.
+                    lines[k] = { ...item, indent: indent + 1 + afterDash.length - rest.length, text: rest };
+                    items.push(parseBlock(indent));
+                }
+            }
+            return items;
+        };
+
+        const parseMapping = (indent: number): Record<string, unknown> => {
+            const map: Record<string, unknown> = {};
+            while (k < lines.length && lines[k].indent >= indent) {
+                const line = lines[k];
+                if (line.indent > indent) {
+                    error(line.line, "Unexpected indentation.");
+                    skipDeeperThan(indent);
+                    continue;
+                }
+                if (isSequenceItem(line.text)) {
+                    error(line.line, "Sequence item where a mapping key was expected.");
+                    k++;
+                    skipDeeperThan(indent);
+                    continue;
+                }
+                const colon = findMappingColon(line.text);
+                if (colon < 0) {
+                    error(line.line, `Expected "key: value" but found "${line.text}".`);
+                    k++;
+                    skipDeeperThan(indent);
+                    continue;
+                }
+                const rawKey = line.text.slice(0, colon).trim();
+                const key = rawKey.startsWith('"') || rawKey.startsWith("'") ? parseQuoted(rawKey, line.line).value : rawKey;
+                const rest = line.text.slice(colon + 1).trim();
+
+                let value: unknown;
+                if (!rest || /^(&\S+|!\S*)$/.test(rest)) {
+                    k++;
+                    const next = lines[k];
+                    if (next && next.indent > indent) value = parseBlock(indent);
+                    else if (next && next.indent === indent && isSequenceItem(next.text)) value = parseSequence(indent);
+                    else value = null;
+                    const anchor = rest.match(/^&(\S+)$/);
+                    if (anchor) anchors.set(anchor[1], value);
+                } else {
+                    value = parseInline(rest, indent, line);
+                }
+
+                if (key === '<<') {
+                    const sources = Array.isArray(value) ? value : [value];
+                    sources.forEach(source => {
+                        if (source && typeof source === 'object' && !Array.isArray(source)) {
+                            Object.entries(source).forEach(([k2, v2]) => { if (!(k2 in map)) map[k2] = v2; });
+                        } else {
+                            error(line.line, "Merge key (<<) needs a mapping or an alias to one.");
+                        }
+                    });
+                    continue;
+                }
+                if (Object.prototype.hasOwnProperty.call(map, key)) error(line.line, `Duplicate key "${key}".`);
+                map[key] = value;
+                recordLine(map, key, line.line);
+            }
+            return map;
+        };
+
+        // The node whose first line is lines[k]; every line of it is indented past `parentIndent`.
+        function parseBlock(parentIndent: number): unknown {
+            const first = lines[k];
+            if (isSequenceItem(first.text)) return parseSequence(first.indent);
+            if (findMappingColon(first.text) >= 0) return parseMapping(first.indent);
+            return parseInline(first.text, parentIndent, first);
+        }
+
+        if (!lines.length) {
+            documents.push(null);
+            return;
+        }
+        documents.push(parseBlock(-1));
+        while (k < lines.length) {
+            error(lines[k].line, "Unexpected content; check the indentation of this line.");
+            k++;
+            skipDeeperThan(lines[k - 1].indent);
+        }
+    };
+
+    let start = 0;
+    rawLines.forEach((raw, r) => {
+        if (/^(---|\.\.\.)(\s|$)/.test(raw)) {
+            if (rawLines.slice(start, r).some(l => l.trim() && !l.trim().startsWith('#') && !l.startsWith('%'))) parseDocument(start, r);
+            start = r + 1;
+        } else if (raw.startsWith('%')) {
+            start = Math.max(start, r + 1);
+        }
+    });
+    if (rawLines.slice(start).some(l => l.trim() && !l.trim().startsWith('#')) || !documents.length) parseDocument(start, rawLines.length);
+
+    return { documents, errors, lineOf: (node, key) => (node && typeof node === 'object' ? keyLines.get(node)?.get(key) : undefined) };
+};